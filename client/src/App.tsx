@@ -2,6 +2,7 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { AuthStatus, Notification } from './types';
 import { checkAuthStatus, getAuthUrl, logout, parseUrlParams, clearUrlParams } from './services/api';
 import InviteList from './components/InviteList';
+import { t } from './i18n';
 
 const styles: Record<string, React.CSSProperties> = {
   app: {
@@ -187,10 +188,10 @@ function App(): React.ReactElement {
     const { authSuccess, error } = parseUrlParams();
     
     if (authSuccess) {
-      showNotification('success', '✅ Successfully connected to Google Calendar!');
+      showNotification('success', t('app.authSuccess'));
       clearUrlParams();
     } else if (error) {
-      showNotification('error', `Authentication failed: ${error}`);
+      showNotification('error', t('app.authFailed', { error }));
       clearUrlParams();
     }
     
@@ -223,9 +224,9 @@ function App(): React.ReactElement {
     try {
       await logout();
       setAuthStatus({ authenticated: false });
-      showNotification('info', 'Successfully logged out');
+      showNotification('info', t('app.loggedOut'));
     } catch (error) {
-      showNotification('error', 'Failed to logout');
+      showNotification('error', t('app.logoutFailed'));
     }
   };
 
@@ -268,14 +269,14 @@ function App(): React.ReactElement {
         <header style={styles.header}>
           <div style={styles.logoSection}>
             <span style={styles.logoIcon}>📅</span>
-            <h1 style={styles.logoText}>Reservations Manager</h1>
+            <h1 style={styles.logoText}>{t('app.title')}</h1>
           </div>
           
           {authStatus?.authenticated && (
             <div style={styles.userSection}>
               <span style={styles.userEmail}>{authStatus.email}</span>
               <button style={styles.logoutButton} onClick={handleLogout}>
-                Logout
+                {t('app.logout')}
               </button>
             </div>
           )}
@@ -290,10 +291,9 @@ function App(): React.ReactElement {
         ) : (
           <div style={styles.loginContainer}>
             <div style={styles.loginIcon}>📆</div>
-            <h2 style={styles.loginTitle}>Connect Your Google Calendar</h2>
+            <h2 style={styles.loginTitle}>{t('app.connectTitle')}</h2>
             <p style={styles.loginText}>
-              Connect your Google Calendar to view and manage your pending
-              meeting invitations directly from ChatGPT.
+              {t('app.connectText')}
             </p>
             <button style={styles.loginButton} onClick={handleLogin}>
               <svg style={styles.googleLogo} viewBox="0 0 24 24">
@@ -314,7 +314,7 @@ function App(): React.ReactElement {
                   d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
                 />
               </svg>
-              Sign in with Google
+              {t('app.signIn')}
             </button>
           </div>
         )}
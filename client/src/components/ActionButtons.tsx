@@ -1,5 +1,6 @@
 import React from 'react';
 import { InviteResponse } from '../types';
+import { t } from '../i18n';
 
 interface ActionButtonsProps {
   onRespond: (response: InviteResponse) => void;
@@ -89,25 +90,25 @@ export function ActionButtons({
         style={getButtonStyle('accepted')}
         onClick={() => handleClick('accepted')}
         disabled={isLoading}
-        title="Accept this invitation"
+        title={t('action.acceptedTitle')}
       >
-        ✅ Accept
+        {t('action.accepted')}
       </button>
       <button
         style={getButtonStyle('declined')}
         onClick={() => handleClick('declined')}
         disabled={isLoading}
-        title="Decline this invitation"
+        title={t('action.declinedTitle')}
       >
-        ❌ Decline
+        {t('action.declined')}
       </button>
       <button
         style={getButtonStyle('tentative')}
         onClick={() => handleClick('tentative')}
         disabled={isLoading}
-        title="Mark as tentative"
+        title={t('action.tentativeTitle')}
       >
-        🤷 Maybe
+        {t('action.tentative')}
       </button>
     </div>
   );
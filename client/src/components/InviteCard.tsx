@@ -1,10 +1,11 @@
 import React, { useState } from 'react';
 import { PendingInvite, InviteResponse } from '../types';
 import ActionButtons from './ActionButtons';
+import { dateLocale, locale, t } from '../i18n';
 
 interface InviteCardProps {
   invite: PendingInvite;
-  onRespond: (eventId: string, response: InviteResponse) => Promise<boolean>;
+  onRespond: (eventId: string, calendarId: string, response: InviteResponse) => Promise<boolean>;
 }
 
 const styles: Record<string, React.CSSProperties> = {
@@ -62,6 +63,24 @@ const styles: Record<string, React.CSSProperties> = {
     backgroundColor: '#f9fafb',
     borderRadius: '8px',
   },
+  conflictsSection: {
+    marginBottom: '16px',
+    padding: '12px',
+    backgroundColor: '#fef3c7',
+    border: '1px solid #fcd34d',
+    borderRadius: '8px',
+  },
+  conflictsTitle: {
+    fontSize: '13px',
+    fontWeight: 600,
+    color: '#92400e',
+    marginBottom: '6px',
+  },
+  conflictItem: {
+    fontSize: '13px',
+    color: '#78350f',
+    lineHeight: 1.6,
+  },
   attendeesSection: {
     marginBottom: '16px',
   },
@@ -106,25 +125,31 @@ const styles: Record<string, React.CSSProperties> = {
   },
 };
 
-function formatDate(dateString: string, isAllDay: boolean): string {
+function formatDate(dateString: string, isAllDay: boolean, timeZone: string): string {
   const date = new Date(dateString);
   
+  // All-day events are plain dates, which parse as midnight UTC
   const dateOptions: Intl.DateTimeFormatOptions = {
     weekday: 'short',
     month: 'short',
     day: 'numeric',
+    timeZone: isAllDay ? 'UTC' : timeZone,
   };
   
   if (isAllDay) {
-    return date.toLocaleDateString('en-US', dateOptions) + ' (All day)';
+    return t('card.allDay', { date: date.toLocaleDateString(dateLocale(locale), dateOptions) });
   }
   
   const timeOptions: Intl.DateTimeFormatOptions = {
     hour: 'numeric',
     minute: '2-digit',
+    timeZone,
   };
   
-  return `${date.toLocaleDateString('en-US', dateOptions)} at ${date.toLocaleTimeString('en-US', timeOptions)}`;
+  return t('card.dateTime', {
+    date: date.toLocaleDateString(dateLocale(locale), dateOptions),
+    time: date.toLocaleTimeString(dateLocale(locale), timeOptions),
+  });
 }
 
 export function InviteCard({ invite, onRespond }: InviteCardProps): React.ReactElement {
@@ -138,15 +163,15 @@ export function InviteCard({ invite, onRespond }: InviteCardProps): React.ReactE
     setError(null);
     
     try {
-      const success = await onRespond(invite.eventId, response);
+      const success = await onRespond(invite.eventId, invite.calendarId, response);
       if (success) {
         setResponded(true);
         setResponseStatus(response);
       } else {
-        setError('Failed to send response. Please try again.');
+        setError(t('card.sendFailed'));
       }
     } catch (err) {
-      setError('An error occurred. Please try again.');
+      setError(t('card.error'));
     } finally {
       setIsLoading(false);
     }
@@ -155,11 +180,11 @@ export function InviteCard({ invite, onRespond }: InviteCardProps): React.ReactE
   const getResponseMessage = (): string => {
     switch (responseStatus) {
       case 'accepted':
-        return '✅ You accepted this invitation';
+        return t('card.responded.accepted');
       case 'declined':
-        return '❌ You declined this invitation';
+        return t('card.responded.declined');
       case 'tentative':
-        return '🤷 You marked this as tentative';
+        return t('card.responded.tentative');
       default:
         return '';
     }
@@ -176,7 +201,7 @@ export function InviteCard({ invite, onRespond }: InviteCardProps): React.ReactE
           rel="noopener noreferrer"
           style={styles.calendarLink}
         >
-          🔗 View in Calendar
+          {t('card.viewInCalendar')}
         </a>
       </div>
 
@@ -184,17 +209,32 @@ export function InviteCard({ invite, onRespond }: InviteCardProps): React.ReactE
       <div style={styles.metaContainer}>
         <div style={styles.metaItem}>
           <span style={styles.metaIcon}>📅</span>
-          <span>{formatDate(invite.startTime, invite.isAllDay)}</span>
+          <span>{formatDate(invite.startTime, invite.isAllDay, invite.timeZone)}</span>
         </div>
         
         <div style={styles.metaItem}>
           <span style={styles.metaIcon}>👤</span>
           <span>
-            Organized by{' '}
+            {t('card.organizedBy')}{' '}
             <strong>{invite.organizerName || invite.organizerEmail}</strong>
           </span>
         </div>
         
+        <div style={styles.metaItem}>
+          <span style={styles.metaIcon}>🗓️</span>
+          <span>{invite.calendarName}</span>
+        </div>
+        
+        {invite.recurringEventId && (
+          <div style={styles.metaItem}>
+            <span style={styles.metaIcon}>🔁</span>
+            <span>
+              {t('card.recurring')}
+              {invite.seriesPendingCount > 1 && t('card.seriesPending', { count: invite.seriesPendingCount })}
+            </span>
+          </div>
+        )}
+        
         {invite.location && (
           <div style={styles.metaItem}>
             <span style={styles.metaIcon}>📍</span>
@@ -203,6 +243,24 @@ export function InviteCard({ invite, onRespond }: InviteCardProps): React.ReactE
         )}
       </div>
 
+      {/* Conflicts */}
+      {invite.conflicts.length > 0 && (
+        <div style={styles.conflictsSection}>
+          <div style={styles.conflictsTitle}>
+            {t('card.overlaps', { count: invite.conflicts.length })}
+          </div>
+          {invite.conflicts.map((conflict) => (
+            <div key={`${conflict.calendarId}:${conflict.eventId}`} style={styles.conflictItem}>
+              <strong>{conflict.summary}</strong>
+              {' · '}
+              {formatDate(conflict.startTime, !conflict.startTime.includes('T'), invite.timeZone)}
+              {' · '}
+              {conflict.status === 'pending' ? t('card.alsoPending') : t(`status.${conflict.status}`)}
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Description */}
       {invite.description && (
         <div style={styles.description}>
@@ -216,7 +274,7 @@ export function InviteCard({ invite, onRespond }: InviteCardProps): React.ReactE
       {invite.attendees.length > 1 && (
         <div style={styles.attendeesSection}>
           <div style={styles.attendeesTitle}>
-            Attendees ({invite.attendees.length})
+            {t('card.attendees', { count: invite.attendees.length })}
           </div>
           <div style={styles.attendeesList}>
             {invite.attendees.slice(0, 5).map((attendee, index) => (
@@ -226,7 +284,7 @@ export function InviteCard({ invite, onRespond }: InviteCardProps): React.ReactE
             ))}
             {invite.attendees.length > 5 && (
               <span style={styles.attendeeBadge}>
-                +{invite.attendees.length - 5} more
+                {t('card.moreAttendees', { count: invite.attendees.length - 5 })}
               </span>
             )}
           </div>
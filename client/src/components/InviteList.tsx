@@ -2,6 +2,7 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { PendingInvite, InviteResponse } from '../types';
 import { fetchPendingInvites, respondToInvite } from '../services/api';
 import InviteCard from './InviteCard';
+import { t } from '../i18n';
 
 interface InviteListProps {
   onError: (message: string) => void;
@@ -132,7 +133,9 @@ const spinnerKeyframes = `
 
 export function InviteList({ onError, onSuccess }: InviteListProps): React.ReactElement {
   const [invites, setInvites] = useState<PendingInvite[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const loadInvites = useCallback(async () => {
@@ -144,12 +147,13 @@ export function InviteList({ onError, onSuccess }: InviteListProps): React.React
       
       if (response.success && response.data) {
         setInvites(response.data.invites);
+        setNextCursor(response.data.nextCursor);
       } else {
-        setError(response.error || 'Failed to load invites');
-        onError(response.error || 'Failed to load invites');
+        setError(response.error || t('list.loadFailed'));
+        onError(response.error || t('list.loadFailed'));
       }
     } catch (err) {
-      const message = 'An error occurred while loading invites';
+      const message = t('list.loadError');
       setError(message);
       onError(message);
     } finally {
@@ -161,24 +165,48 @@ export function InviteList({ onError, onSuccess }: InviteListProps): React.React
     loadInvites();
   }, [loadInvites]);
 
+  const loadMoreInvites = async () => {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
+    
+    try {
+      const response = await fetchPendingInvites(undefined, undefined, nextCursor);
+      
+      if (response.success && response.data) {
+        const page = response.data;
+        setInvites((prev) => [...prev, ...page.invites]);
+        setNextCursor(page.nextCursor);
+      } else {
+        onError(response.error || t('list.loadMoreFailed'));
+      }
+    } catch (err) {
+      onError(t('list.loadMoreError'));
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
   const handleRespond = async (
     eventId: string,
+    calendarId: string,
     response: InviteResponse
   ): Promise<boolean> => {
     try {
-      const result = await respondToInvite(eventId, response);
+      const result = await respondToInvite(eventId, calendarId, response);
       
       if (result.success && result.data) {
         onSuccess(result.data.message);
         // Remove the invite from the list after successful response
-        setInvites((prev) => prev.filter((inv) => inv.eventId !== eventId));
+        setInvites((prev) =>
+          prev.filter((inv) => inv.eventId !== eventId || inv.calendarId !== calendarId)
+        );
         return true;
       } else {
-        onError(result.error || 'Failed to respond to invite');
+        onError(result.error || t('list.respondFailed'));
         return false;
       }
     } catch (err) {
-      onError('An error occurred while responding to the invite');
+      onError(t('list.respondError'));
       return false;
     }
   };
@@ -197,7 +225,7 @@ export function InviteList({ onError, onSuccess }: InviteListProps): React.React
     return (
       <div style={styles.loadingContainer}>
         <div style={styles.spinner} />
-        <p style={styles.loadingText}>Loading your pending invitations...</p>
+        <p style={styles.loadingText}>{t('list.loading')}</p>
       </div>
     );
   }
@@ -207,7 +235,7 @@ export function InviteList({ onError, onSuccess }: InviteListProps): React.React
       <div style={styles.errorContainer}>
         <p style={styles.errorText}>{error}</p>
         <button style={styles.retryButton} onClick={loadInvites}>
-          🔄 Try Again
+          {t('list.tryAgain')}
         </button>
       </div>
     );
@@ -217,15 +245,15 @@ export function InviteList({ onError, onSuccess }: InviteListProps): React.React
     return (
       <div style={styles.emptyState}>
         <div style={styles.emptyIcon}>🎉</div>
-        <h3 style={styles.emptyTitle}>All caught up!</h3>
+        <h3 style={styles.emptyTitle}>{t('list.caughtUp')}</h3>
         <p style={styles.emptyText}>
-          You have no pending calendar invitations that need a response.
+          {t('list.empty')}
         </p>
         <button
           style={{ ...styles.refreshButton, marginTop: '16px' }}
           onClick={loadInvites}
         >
-          🔄 Refresh
+          {t('list.refresh')}
         </button>
       </div>
     );
@@ -235,21 +263,31 @@ export function InviteList({ onError, onSuccess }: InviteListProps): React.React
     <div style={styles.container}>
       <div style={styles.header}>
         <h2 style={styles.title}>
-          Pending Invitations
+          {t('list.title')}
           <span style={styles.countBadge}>{invites.length}</span>
         </h2>
         <button style={styles.refreshButton} onClick={loadInvites}>
-          🔄 Refresh
+          {t('list.refresh')}
         </button>
       </div>
       
       {invites.map((invite) => (
         <InviteCard
-          key={invite.eventId}
+          key={`${invite.calendarId}:${invite.eventId}`}
           invite={invite}
           onRespond={handleRespond}
         />
       ))}
+      
+      {nextCursor && (
+        <button
+          style={{ ...styles.refreshButton, alignSelf: 'center' }}
+          onClick={loadMoreInvites}
+          disabled={isLoadingMore}
+        >
+          {isLoadingMore ? t('list.loadingMore') : t('list.loadMore')}
+        </button>
+      )}
     </div>
   );
 }
@@ -0,0 +1,169 @@
+// Message catalog for the web client's copy
+// The locale comes from navigator.languages, the same list the browser sends
+// as Accept-Language, so API messages from the server match the UI.
+
+export const SUPPORTED_LOCALES = ['en', 'es'] as const;
+export type Locale = typeof SUPPORTED_LOCALES[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Locale used for Intl date formatting
+const DATE_LOCALES: Record<Locale, string> = {
+  en: 'en-US',
+  es: 'es-ES',
+};
+
+const en = {
+  // App
+  'app.title': 'Reservations Manager',
+  'app.logout': 'Logout',
+  'app.connectTitle': 'Connect Your Google Calendar',
+  'app.connectText': 'Connect your Google Calendar to view and manage your pending meeting invitations directly from ChatGPT.',
+  'app.signIn': 'Sign in with Google',
+  'app.authSuccess': '✅ Successfully connected to Google Calendar!',
+  'app.authFailed': 'Authentication failed: {error}',
+  'app.loggedOut': 'Successfully logged out',
+  'app.logoutFailed': 'Failed to logout',
+
+  // InviteList
+  'list.loading': 'Loading your pending invitations...',
+  'list.loadFailed': 'Failed to load invites',
+  'list.loadError': 'An error occurred while loading invites',
+  'list.loadMoreFailed': 'Failed to load more invites',
+  'list.loadMoreError': 'An error occurred while loading more invites',
+  'list.respondFailed': 'Failed to respond to invite',
+  'list.respondError': 'An error occurred while responding to the invite',
+  'list.tryAgain': '🔄 Try Again',
+  'list.caughtUp': 'All caught up!',
+  'list.empty': 'You have no pending calendar invitations that need a response.',
+  'list.refresh': '🔄 Refresh',
+  'list.title': 'Pending Invitations',
+  'list.loadingMore': 'Loading...',
+  'list.loadMore': 'Load more',
+
+  // InviteCard
+  'card.viewInCalendar': '🔗 View in Calendar',
+  'card.allDay': '{date} (All day)',
+  'card.dateTime': '{date} at {time}',
+  'card.organizedBy': 'Organized by',
+  'card.recurring': 'Recurring',
+  'card.seriesPending': ' · {count} pending in this series',
+  'card.overlaps_one': '⚠️ Overlaps {count} other event',
+  'card.overlaps_other': '⚠️ Overlaps {count} other events',
+  'card.alsoPending': 'also pending',
+  'card.attendees': 'Attendees ({count})',
+  'card.moreAttendees': '+{count} more',
+  'card.sendFailed': 'Failed to send response. Please try again.',
+  'card.error': 'An error occurred. Please try again.',
+  'card.responded.accepted': '✅ You accepted this invitation',
+  'card.responded.declined': '❌ You declined this invitation',
+  'card.responded.tentative': '🤷 You marked this as tentative',
+  'status.accepted': 'accepted',
+  'status.tentative': 'tentative',
+
+  // ActionButtons
+  'action.accepted': '✅ Accept',
+  'action.declined': '❌ Decline',
+  'action.tentative': '🤷 Maybe',
+  'action.acceptedTitle': 'Accept this invitation',
+  'action.declinedTitle': 'Decline this invitation',
+  'action.tentativeTitle': 'Mark as tentative',
+};
+
+type MessageKey = keyof typeof en;
+
+const es: Record<MessageKey, string> = {
+  // App
+  'app.title': 'Gestor de reservas',
+  'app.logout': 'Cerrar sesión',
+  'app.connectTitle': 'Conecta tu Google Calendar',
+  'app.connectText': 'Conecta tu Google Calendar para ver y gestionar tus invitaciones a reuniones pendientes directamente desde ChatGPT.',
+  'app.signIn': 'Iniciar sesión con Google',
+  'app.authSuccess': '✅ ¡Conectado a Google Calendar!',
+  'app.authFailed': 'Error de autenticación: {error}',
+  'app.loggedOut': 'Sesión cerrada',
+  'app.logoutFailed': 'No se pudo cerrar la sesión',
+
+  // InviteList
+  'list.loading': 'Cargando tus invitaciones pendientes...',
+  'list.loadFailed': 'No se pudieron cargar las invitaciones',
+  'list.loadError': 'Se produjo un error al cargar las invitaciones',
+  'list.loadMoreFailed': 'No se pudieron cargar más invitaciones',
+  'list.loadMoreError': 'Se produjo un error al cargar más invitaciones',
+  'list.respondFailed': 'No se pudo responder a la invitación',
+  'list.respondError': 'Se produjo un error al responder a la invitación',
+  'list.tryAgain': '🔄 Reintentar',
+  'list.caughtUp': '¡Todo al día!',
+  'list.empty': 'No tienes invitaciones de calendario pendientes de respuesta.',
+  'list.refresh': '🔄 Actualizar',
+  'list.title': 'Invitaciones pendientes',
+  'list.loadingMore': 'Cargando...',
+  'list.loadMore': 'Cargar más',
+
+  // InviteCard
+  'card.viewInCalendar': '🔗 Ver en el calendario',
+  'card.allDay': '{date} (todo el día)',
+  'card.dateTime': '{date} a las {time}',
+  'card.organizedBy': 'Organizado por',
+  'card.recurring': 'Periódica',
+  'card.seriesPending': ' · {count} pendientes en esta serie',
+  'card.overlaps_one': '⚠️ Se solapa con {count} evento',
+  'card.overlaps_other': '⚠️ Se solapa con {count} eventos',
+  'card.alsoPending': 'también pendiente',
+  'card.attendees': 'Asistentes ({count})',
+  'card.moreAttendees': '+{count} más',
+  'card.sendFailed': 'No se pudo enviar la respuesta. Inténtalo de nuevo.',
+  'card.error': 'Se produjo un error. Inténtalo de nuevo.',
+  'card.responded.accepted': '✅ Aceptaste esta invitación',
+  'card.responded.declined': '❌ Rechazaste esta invitación',
+  'card.responded.tentative': '🤷 La marcaste como provisional',
+  'status.accepted': 'aceptado',
+  'status.tentative': 'provisional',
+
+  // ActionButtons
+  'action.accepted': '✅ Aceptar',
+  'action.declined': '❌ Rechazar',
+  'action.tentative': '🤷 Quizás',
+  'action.acceptedTitle': 'Aceptar esta invitación',
+  'action.declinedTitle': 'Rechazar esta invitación',
+  'action.tentativeTitle': 'Marcar como provisional',
+};
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { en, es };
+
+// Keys with plural forms are looked up without their suffix, e.g. "card.overlaps"
+type PluralKey = MessageKey extends infer K ? K extends `${infer Base}_other` ? Base : never : never;
+export type TranslationKey = MessageKey | PluralKey;
+
+export type Translate = (key: TranslationKey, params?: Record<string, string | number>) => string;
+
+// Pick the best supported locale from language tags, earliest first
+export function negotiateLocale(...hints: Array<string | null | undefined>): Locale {
+  for (const hint of hints) {
+    const language = hint?.toLowerCase().split(/[-_]/)[0];
+    const match = SUPPORTED_LOCALES.find((locale) => locale === language);
+    if (match) return match;
+  }
+  return DEFAULT_LOCALE;
+}
+
+export function dateLocale(locale: Locale): string {
+  return DATE_LOCALES[locale];
+}
+
+// Build a translator for a locale. Keys with plural forms pick "_one" or "_other" by params.count.
+export function createTranslator(locale: Locale): Translate {
+  const rules = new Intl.PluralRules(DATE_LOCALES[locale]);
+
+  return (key, params = {}) => {
+    let messageKey = key as MessageKey;
+    if (!(key in en) && typeof params.count === 'number') {
+      messageKey = `${key}_${rules.select(params.count) === 'one' ? 'one' : 'other'}` as MessageKey;
+    }
+    const template = CATALOGS[locale][messageKey] ?? en[messageKey] ?? key;
+    return template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+  };
+}
+
+export const locale = negotiateLocale(...navigator.languages);
+export const t = createTranslator(locale);
@@ -89,11 +89,13 @@ export async function logout(): Promise<boolean> {
  */
 export async function fetchPendingInvites(
   startDate?: string,
-  endDate?: string
+  endDate?: string,
+  cursor?: string
 ): Promise<ApiResponse<PendingInvitesData>> {
   const params = new URLSearchParams();
   if (startDate) params.set('start_date', startDate);
   if (endDate) params.set('end_date', endDate);
+  if (cursor) params.set('cursor', cursor);
   
   const queryString = params.toString();
   const endpoint = `/api/pending-invites${queryString ? `?${queryString}` : ''}`;
@@ -106,11 +108,12 @@ export async function fetchPendingInvites(
  */
 export async function respondToInvite(
   eventId: string,
+  calendarId: string,
   response: InviteResponse
 ): Promise<ApiResponse<RespondToInviteData>> {
   return apiRequest<RespondToInviteData>('/api/respond', {
     method: 'POST',
-    body: JSON.stringify({ eventId, response }),
+    body: JSON.stringify({ eventId, calendarId, response }),
   });
 }
 
@@ -9,16 +9,35 @@ export interface ApiResponse<T> {
 // Pending invite from the server
 export interface PendingInvite {
   eventId: string;
+  calendarId: string;
+  calendarName: string;
   summary: string;
   description: string | null;
   location: string | null;
   startTime: string;
   endTime: string;
   isAllDay: boolean;
+  timeZone: string;
+  eventTimeZone: string | null;
   organizerEmail: string;
   organizerName: string | null;
   attendees: Attendee[];
   calendarLink: string;
+  arrivedAt: string | null;
+  conflicts: InviteConflict[];
+  recurringEventId: string | null;
+  originalStartTime: string | null;
+  seriesPendingCount: number;
+}
+
+// Event overlapping a pending invite
+export interface InviteConflict {
+  eventId: string;
+  calendarId: string;
+  summary: string;
+  startTime: string;
+  endTime: string;
+  status: 'accepted' | 'tentative' | 'pending';
 }
 
 export interface Attendee {
@@ -27,13 +46,23 @@ export interface Attendee {
   status: string;
 }
 
+export interface CalendarSummary {
+  id: string;
+  name: string;
+  primary: boolean;
+  accessRole: string;
+}
+
 export interface PendingInvitesData {
   invites: PendingInvite[];
+  calendars: CalendarSummary[];
   dateRange: {
     start: string;
     end: string;
   };
   totalCount: number;
+  nextCursor: string | null;
+  truncated: boolean;
 }
 
 // Response to invite
@@ -41,7 +70,12 @@ export interface RespondToInviteData {
   success: boolean;
   message: string;
   eventId: string;
+  calendarId: string;
   newStatus: string;
+  scope: 'instance' | 'series' | 'following';
+  updatedCount: number;
+  comment: string | null;
+  proposedTime: { start: string; end: string } | null;
   eventSummary?: string;
 }
 
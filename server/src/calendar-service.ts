@@ -1,13 +1,143 @@
+import crypto from 'crypto';
 import { google, calendar_v3 } from 'googleapis';
 import { getAuthorizedClient, getUserEmail } from './google-auth.js';
+import { getStorageBackend, KeyValueStore } from './kv-store.js';
+import { decryptJson, encryptJson, EncryptedEnvelope } from './token-crypto.js';
+import { dateLocale, DEFAULT_LOCALE, Locale, t, tPlural } from './i18n.js';
 import {
+  AgendaDay,
+  AgendaEvent,
+  AgendaResponse,
+  AttendeeAvailability,
+  CalendarSummary,
+  InviteConflict,
   PendingInvite,
   PendingInvitesResponse,
+  RecurringSeriesSummary,
+  RespondNote,
+  RespondScope,
   RespondToInviteResponse,
   CalendarEvent,
   CalendarAttendee,
+  EventInput,
+  EventUpdateInput,
+  ScheduledEvent,
 } from './types.js';
 
+// Access roles that can see attendees and respond on the calendar's behalf
+const RESPONDABLE_ACCESS_ROLES = ['owner', 'writer'];
+
+// Events requested per events.list page
+const EVENTS_PAGE_SIZE = 250;
+
+// Upper bound on events scanned per calendar, so a very long date range can't run away
+const MAX_EVENTS_PER_CALENDAR = parseInt(process.env.CALENDAR_MAX_EVENTS_PER_CALENDAR || '', 10) || 2500;
+
+// Most instances answered by one "this and following" response; endless series stop here
+const MAX_FOLLOWING_INSTANCES = 250;
+
+// Longest attendee comment accepted, including any proposed time
+const MAX_COMMENT_LENGTH = 1000;
+
+// Invites returned per page of results
+const DEFAULT_INVITES_PAGE_SIZE = 25;
+const MAX_INVITES_PAGE_SIZE = 100;
+
+// Length of a new event when neither an end nor a duration is given
+const DEFAULT_EVENT_DURATION_MINUTES = 30;
+
+// A plain date, e.g. "2024-01-16", and a date-time without an offset, e.g. "2024-01-16T10:00"
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const LOCAL_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/;
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Position in a list of pending invites, plus the query it belongs to.
+ * Keyed on the last invite returned rather than an offset, so invites
+ * answered between pages don't shift later results out of view.
+ */
+interface InvitesCursor {
+  start: string;
+  end: string;
+  calendarIds?: string[];
+  arrivedSince?: string;
+  after: InviteSortKey;
+}
+
+type InviteSortKey = Pick<PendingInvite, 'startTime' | 'calendarId' | 'eventId'>;
+
+// Cached calendar events by `${userId}/${calendarId}`, kept current with Google sync
+// tokens. Events are private calendar data, so entries are encrypted like Google tokens.
+const syncCaches = (): KeyValueStore<EncryptedEnvelope> =>
+  getStorageBackend().collection('calendar-sync-cache');
+
+// A calendar's cache is dropped if it goes unused this long
+const SYNC_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// An unchanged cache is still rewritten this often, so it doesn't expire while in use
+const SYNC_CACHE_REFRESH_MS = 24 * 60 * 60 * 1000;
+
+// Cache updates running in this process, by cache key
+const syncCacheUpdates = new Map<string, Promise<unknown>>();
+
+// Days synced beyond the requested end, so the rolling default window
+// (now to +14 days) stays inside the cached window between calls
+const SYNC_WINDOW_PADDING_DAYS = 7;
+
+/**
+ * A user's time zone as read from Google, or UTC for a while after the lookup failed
+ */
+interface StoredTimeZone {
+  timeZone: string;
+  source: 'google' | 'fallback';
+  updatedAt: string;
+}
+
+// Time zone each user's times are shown in
+const userTimeZones = (): KeyValueStore<StoredTimeZone> =>
+  getStorageBackend().collection('user-time-zones');
+
+// How long a time zone read from Google settings is reused
+const TIME_ZONE_REFRESH_MS = 24 * 60 * 60 * 1000;
+
+// How long UTC stands in after reading the time zone from Google failed
+const TIME_ZONE_RETRY_MS = 5 * 60 * 1000;
+
+/**
+ * Events of one calendar within a time window, and the token for fetching changes since
+ */
+interface CalendarSyncState {
+  syncToken: string;
+  windowStart: string;
+  windowEnd: string;
+  events: calendar_v3.Schema$Event[];
+  savedAt: string;
+}
+
+// Whose calendars are being synced, for spotting invites that arrive in a sync
+interface SyncContext {
+  userId: string;
+  userEmail: string;
+  timeZone: string;
+}
+
+/**
+ * When a push notification first showed an invite as pending
+ */
+interface InviteArrival {
+  calendarId: string;
+  eventId: string;
+  arrivedAt: string;
+}
+
+// Recent invite arrivals per user
+const inviteArrivals = (): KeyValueStore<InviteArrival[]> =>
+  getStorageBackend().collection('calendar-invite-arrivals');
+
+// How long arrivals are remembered
+const ARRIVAL_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
 /**
  * Get a Calendar API client for a user
  */
@@ -59,43 +189,138 @@ async function withExponentialBackoff<T>(
 }
 
 /**
- * Format a date for display
+ * Check that a time zone is an IANA name the runtime knows, e.g. "Europe/Madrid"
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Express a time as ISO 8601 with the offset of a time zone,
+ * e.g. "2024-01-16T10:00:00-05:00" for America/New_York
+ */
+export function toZonedIso(time: string, timeZone: string): string {
+  const date = new Date(time);
+  if (isNaN(date.getTime())) {
+    return time;
+  }
+  
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23',
+      timeZoneName: 'longOffset',
+    }).formatToParts(date).map((part) => [part.type, part.value])
+  );
+  
+  // longOffset is "GMT-05:00", or just "GMT" at UTC+0
+  const offset = parts.timeZoneName.replace('GMT', '') || '+00:00';
+  return `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}:${parts.second}${offset}`;
+}
+
+/**
+ * Format a time for text output in a time zone and locale, e.g. "Tue, Jan 16, 2024, 10:00 AM EST".
+ * All-day dates have no time zone and are shown as they are.
+ */
+export function formatTimeForDisplay(
+  time: string,
+  timeZone: string,
+  isAllDay: boolean = false,
+  locale: Locale = DEFAULT_LOCALE
+): string {
+  const date = new Date(time);
+  if (isNaN(date.getTime())) {
+    return time;
+  }
+  
+  if (isAllDay) {
+    const day = date.toLocaleDateString(dateLocale(locale), { timeZone: 'UTC', weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+    return t(locale, 'time.allDay', { date: day });
+  }
+  
+  return date.toLocaleString(dateLocale(locale), {
+    timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  });
+}
+
+/**
+ * Format an event start or end in the user's time zone
  */
-function formatDateTime(start: { dateTime?: string | null; date?: string | null }): {
+function formatDateTime(
+  start: { dateTime?: string | null; date?: string | null; timeZone?: string | null },
+  timeZone: string
+): {
   formatted: string;
   isAllDay: boolean;
+  eventTimeZone: string | null;
 } {
   if (start.date) {
     // All-day event
     return {
       formatted: start.date,
       isAllDay: true,
+      eventTimeZone: start.timeZone || null,
     };
   }
   
   if (start.dateTime) {
     return {
-      formatted: start.dateTime,
+      formatted: toZonedIso(start.dateTime, timeZone),
       isAllDay: false,
+      eventTimeZone: start.timeZone || null,
     };
   }
   
-  return { formatted: 'Unknown', isAllDay: false };
+  return { formatted: 'Unknown', isAllDay: false, eventTimeZone: null };
+}
+
+/**
+ * Find the attendee entry that belongs to the calendar being read.
+ * Google flags it with `self`; on a shared or secondary calendar that is the
+ * calendar itself rather than the user, so fall back to the user's email.
+ */
+function findSelfAttendee(
+  attendees: calendar_v3.Schema$EventAttendee[],
+  userEmail: string
+): calendar_v3.Schema$EventAttendee | undefined {
+  return attendees.find((a) => a.self)
+    || attendees.find((a) => a.email?.toLowerCase() === userEmail.toLowerCase());
 }
 
 /**
  * Convert a Google Calendar event to our PendingInvite format
  */
-function eventToPendingInvite(event: calendar_v3.Schema$Event, userEmail: string): PendingInvite | null {
+function eventToPendingInvite(
+  event: calendar_v3.Schema$Event,
+  userEmail: string,
+  source: Pick<CalendarSummary, 'id' | 'name'>,
+  timeZone: string
+): PendingInvite | null {
   if (!event.id) {
     return null;
   }
   
-  // Find the user in attendees
+  // Find the user (or the calendar they manage) in attendees
   const attendees = event.attendees || [];
-  const userAttendee = attendees.find(
-    (a) => a.email?.toLowerCase() === userEmail.toLowerCase()
-  );
+  const userAttendee = findSelfAttendee(attendees, userEmail);
   
   // Skip if user is not an attendee or is the organizer
   if (!userAttendee || userAttendee.organizer) {
@@ -107,17 +332,21 @@ function eventToPendingInvite(event: calendar_v3.Schema$Event, userEmail: string
     return null;
   }
   
-  const startInfo = formatDateTime(event.start || {});
-  const endInfo = formatDateTime(event.end || {});
+  const startInfo = formatDateTime(event.start || {}, timeZone);
+  const endInfo = formatDateTime(event.end || {}, timeZone);
   
   return {
     eventId: event.id,
+    calendarId: source.id,
+    calendarName: source.name,
     summary: event.summary || '(No title)',
     description: event.description || null,
     location: event.location || null,
     startTime: startInfo.formatted,
     endTime: endInfo.formatted,
     isAllDay: startInfo.isAllDay,
+    timeZone,
+    eventTimeZone: startInfo.eventTimeZone,
     organizerEmail: event.organizer?.email || 'Unknown',
     organizerName: event.organizer?.displayName || null,
     attendees: attendees.map((a) => ({
@@ -126,242 +355,1761 @@ function eventToPendingInvite(event: calendar_v3.Schema$Event, userEmail: string
       status: a.responseStatus || 'unknown',
     })),
     calendarLink: event.htmlLink || '',
+    arrivedAt: null,
+    conflicts: [],
+    recurringEventId: event.recurringEventId || null,
+    originalStartTime: event.originalStartTime ? formatDateTime(event.originalStartTime, timeZone).formatted : null,
+    seriesPendingCount: 0,
   };
 }
 
 /**
- * Get pending calendar invites for a user
+ * Convert a Google Calendar event to an agenda entry with the user's response to it
  */
-export async function getPendingInvites(
-  userId: string,
-  startDate?: string,
-  endDate?: string
-): Promise<PendingInvitesResponse> {
-  const calendar = await getCalendarClient(userId);
-  const userEmail = getUserEmail(userId);
-  
-  if (!userEmail) {
-    throw new Error('User email not found');
-  }
-  
-  // Default date range: now to 14 days from now
-  const now = new Date();
-  const defaultEnd = new Date(now);
-  defaultEnd.setDate(defaultEnd.getDate() + 14);
+function eventToAgendaEvent(
+  event: calendar_v3.Schema$Event,
+  userEmail: string,
+  source: Pick<CalendarSummary, 'id' | 'name'>,
+  timeZone: string
+): AgendaEvent {
+  const attendees = event.attendees || [];
+  const self = findSelfAttendee(attendees, userEmail);
+  const isOrganizer = self ? !!self.organizer : !!event.organizer?.self;
+  const startInfo = formatDateTime(event.start || {}, timeZone);
+  const endInfo = formatDateTime(event.end || {}, timeZone);
+  const videoEntry = event.conferenceData?.entryPoints?.find((entry) => entry.entryPointType === 'video');
   
-  const timeMin = startDate || now.toISOString();
-  const timeMax = endDate || defaultEnd.toISOString();
+  return {
+    eventId: event.id || '',
+    calendarId: source.id,
+    calendarName: source.name,
+    summary: event.summary || '(No title)',
+    location: event.location || null,
+    startTime: startInfo.formatted,
+    endTime: endInfo.formatted,
+    isAllDay: startInfo.isAllDay,
+    // Events without the user as an attendee are their own, or on a calendar they just follow
+    responseStatus: !self || self.organizer ? 'accepted' : (self.responseStatus as AgendaEvent['responseStatus']) || 'needsAction',
+    isOrganizer,
+    organizerEmail: event.organizer?.email || 'Unknown',
+    organizerName: event.organizer?.displayName || null,
+    attendeeCount: attendees.length,
+    meetLink: event.hangoutLink || videoEntry?.uri || null,
+    calendarLink: event.htmlLink || '',
+    recurringEventId: event.recurringEventId || null,
+  };
+}
+
+/**
+ * Group pending instances of recurring events by series, filling in each invite's seriesPendingCount
+ */
+function groupSeries(invites: PendingInvite[]): RecurringSeriesSummary[] {
+  const groups = new Map<string, PendingInvite[]>();
   
-  try {
-    // Fetch events from primary calendar with exponential backoff
-    const response = await withExponentialBackoff(() => 
-      calendar.events.list({
-        calendarId: 'primary',
-        timeMin,
-        timeMax,
-        singleEvents: true,
-        orderBy: 'startTime',
-        maxResults: 250, // Get a good number of events
-      })
-    );
-    
-    const events = response.data.items || [];
-    
-    // Filter to pending invites only
-    const pendingInvites: PendingInvite[] = [];
-    
-    for (const event of events) {
-      const invite = eventToPendingInvite(event, userEmail);
-      if (invite) {
-        pendingInvites.push(invite);
-      }
+  for (const invite of invites) {
+    if (invite.recurringEventId) {
+      const key = `${invite.calendarId}|${invite.recurringEventId}`;
+      groups.set(key, [...(groups.get(key) || []), invite]);
     }
+  }
+  
+  return [...groups.values()].map((instances) => {
+    const [first] = instances;
+    const last = instances[instances.length - 1];
+    instances.forEach((invite) => { invite.seriesPendingCount = instances.length; });
     
     return {
-      invites: pendingInvites,
-      dateRange: {
-        start: timeMin,
-        end: timeMax,
-      },
-      totalCount: pendingInvites.length,
+      recurringEventId: first.recurringEventId!,
+      calendarId: first.calendarId,
+      summary: first.summary,
+      pendingCount: instances.length,
+      firstEventId: first.eventId,
+      firstStartTime: first.startTime,
+      lastStartTime: last.startTime,
     };
-  } catch (error: any) {
-    console.error('Error fetching calendar events:', error);
-    
-    if (error.code === 401) {
-      throw new Error('Authentication expired. Please re-authenticate.');
+  });
+}
+
+/**
+ * An event occupying the user's time, for conflict checks
+ */
+interface BusyEvent {
+  key: string;
+  startMs: number;
+  endMs: number;
+  conflict: InviteConflict;
+}
+
+/**
+ * Identify a meeting across calendars: the same meeting on two of the user's
+ * calendars has different event IDs but shares its iCalUID and start
+ */
+function meetingKey(event: calendar_v3.Schema$Event): string {
+  return `${event.iCalUID || event.id}|${event.start?.dateTime || event.start?.date}`;
+}
+
+/**
+ * Describe an event as a potential conflict
+ */
+function toBusyEvent(
+  event: calendar_v3.Schema$Event,
+  calendarId: string,
+  status: InviteConflict['status'],
+  timeZone: string
+): BusyEvent {
+  return {
+    key: meetingKey(event),
+    startMs: eventTimeMs(event.start),
+    endMs: eventTimeMs(event.end),
+    conflict: {
+      eventId: event.id || '',
+      calendarId,
+      summary: event.summary || '(No title)',
+      startTime: formatDateTime(event.start || {}, timeZone).formatted,
+      endTime: formatDateTime(event.end || {}, timeZone).formatted,
+      status,
+    },
+  };
+}
+
+/**
+ * Get the events on a calendar the user owns that they're committed to:
+ * accepted, tentative, organized by them, or their own events without attendees.
+ * Events marked as free (transparent) never conflict.
+ */
+function committedEvents(
+  events: calendar_v3.Schema$Event[],
+  calendarId: string,
+  userEmail: string,
+  timeZone: string
+): BusyEvent[] {
+  const busy: BusyEvent[] = [];
+  
+  for (const event of events) {
+    if (!event.id || event.transparency === 'transparent') {
+      continue;
     }
     
-    throw new Error(`Failed to fetch calendar events: ${error.message}`);
+    const self = findSelfAttendee(event.attendees || [], userEmail);
+    const status = !self || self.organizer ? 'accepted' : self.responseStatus;
+    
+    if (status === 'accepted' || status === 'tentative') {
+      busy.push(toBusyEvent(event, calendarId, status, timeZone));
+    }
   }
+  
+  return busy;
 }
 
 /**
- * Respond to a calendar invite
+ * Fill in each invite's conflicts: committed events and other pending invites
+ * that overlap it. Each meeting is listed once, even if it's on several calendars.
  */
-export async function respondToInvite(
-  userId: string,
-  eventId: string,
-  response: 'accepted' | 'declined' | 'tentative'
-): Promise<RespondToInviteResponse> {
-  const calendar = await getCalendarClient(userId);
-  const userEmail = getUserEmail(userId);
+function attachConflicts(
+  invites: Array<{ invite: PendingInvite; busy: BusyEvent }>,
+  committed: BusyEvent[]
+): void {
+  const candidates = [...committed, ...invites.map(({ busy }) => busy)];
   
-  if (!userEmail) {
-    throw new Error('User email not found');
+  for (const { invite, busy } of invites) {
+    const seen = new Set<string>([busy.key]);
+    
+    for (const other of candidates) {
+      if (seen.has(other.key) || other.startMs >= busy.endMs || busy.startMs >= other.endMs) {
+        continue;
+      }
+      seen.add(other.key);
+      invite.conflicts.push(other.conflict);
+    }
   }
+}
+
+/**
+ * List the calendars on a user's calendar list
+ */
+export async function listCalendars(userId: string): Promise<CalendarSummary[]> {
+  const calendar = await getCalendarClient(userId);
+  const calendars: CalendarSummary[] = [];
+  let pageToken: string | undefined;
   
-  try {
-    // First, get the event to find current attendees with exponential backoff
-    const eventResponse = await withExponentialBackoff(() =>
-      calendar.events.get({
-        calendarId: 'primary',
-        eventId,
-      })
+  do {
+    const response = await withExponentialBackoff(() =>
+      calendar.calendarList.list({ pageToken })
     );
     
-    const event = eventResponse.data;
-    
-    if (!event.attendees) {
-      throw new Error('Event has no attendees');
-    }
-    
-    // Find and update the user's attendee status
-    const updatedAttendees = event.attendees.map((attendee) => {
-      if (attendee.email?.toLowerCase() === userEmail.toLowerCase()) {
-        return {
-          ...attendee,
-          responseStatus: response,
-        };
+    for (const entry of response.data.items || []) {
+      if (!entry.id) {
+        continue;
       }
-      return attendee;
-    });
-    
-    // Update the event with new attendee status with exponential backoff
-    await withExponentialBackoff(() =>
-      calendar.events.patch({
-        calendarId: 'primary',
-        eventId,
-        requestBody: {
-          attendees: updatedAttendees,
-        },
-        sendUpdates: 'all', // Notify organizer of the response
-      })
-    );
-    
-    // Generate a user-friendly message
-    const statusMessages = {
-      accepted: 'accepted',
-      declined: 'declined',
-      tentative: 'marked as tentative',
-    };
-    
-    return {
-      success: true,
-      message: `You have ${statusMessages[response]} the invitation "${event.summary}"`,
-      eventId,
-      newStatus: response,
-      eventSummary: event.summary || undefined,
-    };
-  } catch (error: any) {
-    console.error('Error responding to invite:', error);
-    
-    if (error.code === 401) {
-      throw new Error('Authentication expired. Please re-authenticate.');
+      calendars.push({
+        id: entry.id,
+        name: entry.summaryOverride || entry.summary || entry.id,
+        primary: !!entry.primary,
+        accessRole: entry.accessRole || 'reader',
+      });
     }
     
-    if (error.code === 404) {
-      throw new Error('Event not found. It may have been cancelled or deleted.');
-    }
-    
-    throw new Error(`Failed to respond to invite: ${error.message}`);
-  }
+    pageToken = response.data.nextPageToken || undefined;
+  } while (pageToken);
+  
+  return calendars;
 }
 
 /**
- * Get a single event by ID
+ * Get the time zone set in the user's Google Calendar settings (IANA name, e.g. "Europe/Madrid").
+ * Returns null if the setting can't be read.
  */
-export async function getEvent(
-  userId: string,
-  eventId: string
-): Promise<CalendarEvent | null> {
+async function getCalendarTimeZone(userId: string): Promise<string | null> {
   const calendar = await getCalendarClient(userId);
   
   try {
     const response = await withExponentialBackoff(() =>
-      calendar.events.get({
-        calendarId: 'primary',
-        eventId,
-      })
+      calendar.settings.get({ setting: 'timezone' })
     );
-    
-    const event = response.data;
-    
-    return {
-      id: event.id || '',
-      summary: event.summary || 'No title',
-      description: event.description,
-      location: event.location,
-      start: event.start || {},
-      end: event.end || {},
-      organizer: {
-        email: event.organizer?.email || 'Unknown',
-        displayName: event.organizer?.displayName,
-      },
-      attendees: (event.attendees || []).map((a) => ({
-        email: a.email || '',
-        displayName: a.displayName,
-        responseStatus: (a.responseStatus as CalendarAttendee['responseStatus']) || 'needsAction',
-        self: a.self,
-        organizer: a.organizer,
-      })),
-      htmlLink: event.htmlLink || '',
-      status: event.status || 'confirmed',
-    };
+    return response.data.value || null;
   } catch (error: any) {
-    if (error.code === 404) {
-      return null;
-    }
-    throw error;
+    console.warn(`Failed to read calendar time zone for ${userId}: ${error.message}`);
+    return null;
   }
 }
 
 /**
- * Format pending invites as a text summary for MCP responses
+ * Get the time zone read from Google for a user, without asking Google again;
+ * null if there is none
  */
-export function formatInvitesAsText(invites: PendingInvite[]): string {
-  if (invites.length === 0) {
-    return 'You have no pending calendar invitations that need a response.';
-  }
-  
-  let text = `You have ${invites.length} pending calendar invitation${invites.length > 1 ? 's' : ''}:\n\n`;
-  
-  invites.forEach((invite, index) => {
-    const startDate = new Date(invite.startTime);
-    const dateStr = startDate.toLocaleDateString('en-US', {
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric',
-    });
-    const timeStr = invite.isAllDay
-      ? 'All day'
-      : startDate.toLocaleTimeString('en-US', {
-          hour: 'numeric',
-          minute: '2-digit',
-        });
-    
-    text += `${index + 1}. **${invite.summary}**\n`;
-    text += `   - When: ${dateStr} at ${timeStr}\n`;
-    text += `   - Organizer: ${invite.organizerName || invite.organizerEmail}\n`;
-    if (invite.location) {
-      text += `   - Location: ${invite.location}\n`;
+export async function getStoredTimeZone(userId: string): Promise<string | null> {
+  const stored = await userTimeZones().get(userId);
+  return stored?.source === 'google' ? stored.timeZone : null;
+}
+
+/**
+ * Get the time zone to show a user's times in. `override` (from a tool caller)
+ * applies to this request only; otherwise the zone in the user's Google
+ * Calendar settings, cached for a day, or UTC for a few minutes if it can't be read.
+ */
+export async function getUserTimeZone(userId: string, override?: string): Promise<string> {
+  if (override) {
+    if (!isValidTimeZone(override)) {
+      throw new Error(`Invalid time zone "${override}". Use an IANA name such as "Europe/Madrid".`);
     }
-    text += `   - Event ID: ${invite.eventId}\n\n`;
-  });
+    return override;
+  }
   
-  text += '\nYou can accept, decline, or mark as tentative any of these invitations.';
+  const stored = await userTimeZones().get(userId);
+  if (stored) {
+    return stored.timeZone;
+  }
   
-  return text;
+  // Fall back to UTC when Google can't be read, and try again soon
+  const timeZone = await getCalendarTimeZone(userId);
+  await userTimeZones().set(
+    userId,
+    { timeZone: timeZone || 'UTC', source: timeZone ? 'google' : 'fallback', updatedAt: new Date().toISOString() },
+    Date.now() + (timeZone ? TIME_ZONE_REFRESH_MS : TIME_ZONE_RETRY_MS)
+  );
+  return timeZone || 'UTC';
 }
 
+/**
+ * Order invites by start time, breaking ties so every invite has a stable position
+ */
+function compareInvites(a: InviteSortKey, b: InviteSortKey): number {
+  const byTime = new Date(a.startTime).getTime() - new Date(b.startTime).getTime();
+  if (byTime !== 0) {
+    return byTime;
+  }
+  if (a.calendarId !== b.calendarId) {
+    return a.calendarId < b.calendarId ? -1 : 1;
+  }
+  return a.eventId < b.eventId ? -1 : a.eventId > b.eventId ? 1 : 0;
+}
+
+/**
+ * Encode a cursor as an opaque string
+ */
+function encodeCursor(cursor: InvitesCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decode a cursor produced by encodeCursor
+ */
+function decodeCursor(value: string): InvitesCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf-8')) as InvitesCursor;
+    if (typeof cursor.start === 'string' && typeof cursor.end === 'string' && cursor.after?.eventId) {
+      return cursor;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error('Invalid cursor. Request the first page again without a cursor.');
+}
+
+/**
+ * Fetch every event in a date range from one calendar, following page tokens
+ * up to MAX_EVENTS_PER_CALENDAR. The sync token is only issued once the last page is read.
+ */
+async function listCalendarEvents(
+  calendar: calendar_v3.Calendar,
+  calendarId: string,
+  timeMin: string,
+  timeMax: string
+): Promise<{ events: calendar_v3.Schema$Event[]; truncated: boolean; syncToken: string | null }> {
+  const events: calendar_v3.Schema$Event[] = [];
+  let pageToken: string | undefined;
+  let syncToken: string | null = null;
+  
+  do {
+    // No orderBy: Google won't issue a sync token for ordered listings
+    const response = await withExponentialBackoff(() => 
+      calendar.events.list({
+        calendarId,
+        timeMin,
+        timeMax,
+        singleEvents: true,
+        maxResults: EVENTS_PAGE_SIZE,
+        pageToken,
+      })
+    );
+    
+    events.push(...(response.data.items || []));
+    pageToken = response.data.nextPageToken || undefined;
+    syncToken = response.data.nextSyncToken || null;
+  } while (pageToken && events.length < MAX_EVENTS_PER_CALENDAR);
+  
+  if (pageToken) {
+    console.warn(`Stopped reading calendar ${calendarId} after ${events.length} events (CALENDAR_MAX_EVENTS_PER_CALENDAR)`);
+  }
+  
+  return { events: events.slice(0, MAX_EVENTS_PER_CALENDAR), truncated: !!pageToken, syncToken };
+}
+
+/**
+ * Fetch the events changed since a sync token, including cancelled ones.
+ * Throws Google's 410 Gone when the token has expired.
+ */
+async function listCalendarEventChanges(
+  calendar: calendar_v3.Calendar,
+  calendarId: string,
+  syncToken: string
+): Promise<{ changes: calendar_v3.Schema$Event[]; syncToken: string }> {
+  const changes: calendar_v3.Schema$Event[] = [];
+  let pageToken: string | undefined;
+  let nextSyncToken: string | null | undefined;
+  
+  do {
+    const response = await withExponentialBackoff(() =>
+      calendar.events.list({
+        calendarId,
+        syncToken,
+        singleEvents: true,
+        maxResults: EVENTS_PAGE_SIZE,
+        pageToken,
+      })
+    );
+    
+    changes.push(...(response.data.items || []));
+    pageToken = response.data.nextPageToken || undefined;
+    nextSyncToken = response.data.nextSyncToken;
+  } while (pageToken);
+  
+  return { changes, syncToken: nextSyncToken || syncToken };
+}
+
+/**
+ * Convert an event start or end to epoch milliseconds
+ */
+function eventTimeMs(time: calendar_v3.Schema$EventDateTime | undefined): number {
+  const value = time?.dateTime || time?.date;
+  return value ? new Date(value).getTime() : NaN;
+}
+
+/**
+ * Keep the live events overlapping [timeMin, timeMax), the same rule events.list applies
+ */
+function eventsInRange(
+  events: calendar_v3.Schema$Event[],
+  timeMin: string,
+  timeMax: string
+): calendar_v3.Schema$Event[] {
+  const min = new Date(timeMin).getTime();
+  const max = new Date(timeMax).getTime();
+  
+  return events.filter((event) =>
+    event.status !== 'cancelled' && eventTimeMs(event.end) > min && eventTimeMs(event.start) < max
+  );
+}
+
+/**
+ * Get the storage key of a calendar's sync cache
+ */
+function syncCacheKey(userId: string, calendarId: string): string {
+  return `${userId}/${calendarId}`;
+}
+
+/**
+ * Load a calendar's sync cache. An unreadable cache is treated as missing,
+ * since everything in it can be fetched from Google again.
+ */
+async function readSyncCache(userId: string, calendarId: string): Promise<CalendarSyncState | null> {
+  const envelope = await syncCaches().get(syncCacheKey(userId, calendarId));
+  if (!envelope) {
+    return null;
+  }
+  
+  try {
+    return decryptJson<CalendarSyncState>(envelope).value;
+  } catch (error: any) {
+    console.warn(`Discarding unreadable cache of calendar ${calendarId} for user ${userId}: ${error.message}`);
+    return null;
+  }
+}
+
+/**
+ * Save a calendar's sync cache, or drop it when `state` is null
+ */
+async function writeSyncCache(userId: string, calendarId: string, state: CalendarSyncState | null): Promise<void> {
+  const key = syncCacheKey(userId, calendarId);
+  if (!state) {
+    await syncCaches().delete(key);
+    return;
+  }
+  await syncCaches().set(key, encryptJson({ ...state, savedAt: new Date().toISOString() }), Date.now() + SYNC_CACHE_TTL_MS);
+}
+
+/**
+ * Run a read-sync-write of a calendar's cache after the ones already running for it,
+ * so a push notification and a tool call can't drop each other's changes.
+ * This only orders updates within one process.
+ */
+async function updateSyncCache<T>(userId: string, calendarId: string, update: () => Promise<T>): Promise<T> {
+  const key = syncCacheKey(userId, calendarId);
+  const result = (syncCacheUpdates.get(key) || Promise.resolve()).catch(() => {}).then(update);
+  const done = result.catch(() => {});
+  syncCacheUpdates.set(key, done);
+  
+  try {
+    return await result;
+  } finally {
+    if (syncCacheUpdates.get(key) === done) {
+      syncCacheUpdates.delete(key);
+    }
+  }
+}
+
+/**
+ * Check whether a synced calendar needs saving: its sync token or events changed,
+ * or it was last saved long enough ago to be close to expiring
+ */
+function needsSaving(before: CalendarSyncState, after: CalendarSyncState, changed: boolean): boolean {
+  return changed
+    || after.syncToken !== before.syncToken
+    || Date.now() - new Date(before.savedAt).getTime() > SYNC_CACHE_REFRESH_MS;
+}
+
+/**
+ * Drop a user's cached calendar events and invite arrivals (e.g. on logout)
+ */
+export async function clearSyncCache(userId: string): Promise<void> {
+  for (const [key] of await syncCaches().entries()) {
+    if (key.startsWith(`${userId}/`)) {
+      await syncCaches().delete(key);
+    }
+  }
+  await inviteArrivals().delete(userId);
+}
+
+/**
+ * Fetch and apply the changes since a calendar was last synced, without touching `cached`.
+ * Invites that have just become pending are recorded as arrivals and returned.
+ */
+async function applyEventChanges(
+  calendar: calendar_v3.Calendar,
+  source: Pick<CalendarSummary, 'id' | 'name'>,
+  cached: CalendarSyncState,
+  context: SyncContext
+): Promise<{ state: CalendarSyncState; arrived: PendingInvite[]; changed: boolean }> {
+  const { changes, syncToken } = await listCalendarEventChanges(calendar, source.id, cached.syncToken);
+  
+  const byId = new Map(cached.events.map((event) => [event.id, event]));
+  for (const change of changes) {
+    if (change.status === 'cancelled') {
+      byId.delete(change.id);
+    } else {
+      byId.set(change.id, change);
+    }
+  }
+  
+  // Changes arrive for the whole calendar; only keep what's inside the window
+  const state = {
+    ...cached,
+    syncToken,
+    events: eventsInRange([...byId.values()], cached.windowStart, cached.windowEnd),
+  };
+  
+  const { userEmail, timeZone } = context;
+  const previous = new Map(cached.events.map((event) => [event.id, event]));
+  const arrived: PendingInvite[] = [];
+  
+  for (const event of eventsInRange(changes, cached.windowStart, cached.windowEnd)) {
+    const invite = eventToPendingInvite(event, userEmail, source, timeZone);
+    const before = previous.get(event.id);
+    
+    // New to the calendar, or just invited to an event already on it
+    if (invite && !(before && eventToPendingInvite(before, userEmail, source, timeZone))) {
+      arrived.push(invite);
+    }
+  }
+  
+  if (arrived.length > 0) {
+    await recordInviteArrivals(context.userId, arrived);
+  }
+  
+  return { state, arrived, changed: changes.length > 0 };
+}
+
+/**
+ * Check whether an error is Google's 410 Gone for an expired sync token
+ */
+function isSyncTokenExpired(error: any): boolean {
+  return error.code === 410 || error.response?.status === 410;
+}
+
+/**
+ * Get the events in a date range from one calendar, using the cached copy when it
+ * covers the range and applying Google's changes since the last sync (recording
+ * invite arrivals). Falls back to a full listing when there is no usable cache or
+ * the sync token has expired. The cache is only rewritten when it changed.
+ */
+async function syncCalendarEvents(
+  calendar: calendar_v3.Calendar,
+  source: Pick<CalendarSummary, 'id' | 'name'>,
+  timeMin: string,
+  timeMax: string,
+  context: SyncContext
+): Promise<{ events: calendar_v3.Schema$Event[]; truncated: boolean }> {
+  const calendarId = source.id;
+  
+  return updateSyncCache(context.userId, calendarId, async () => {
+    const cached = await readSyncCache(context.userId, calendarId);
+    
+    if (
+      cached &&
+      new Date(cached.windowStart).getTime() <= new Date(timeMin).getTime() &&
+      new Date(cached.windowEnd).getTime() >= new Date(timeMax).getTime()
+    ) {
+      try {
+        const { state, changed } = await applyEventChanges(calendar, source, cached, context);
+        if (needsSaving(cached, state, changed)) {
+          await writeSyncCache(context.userId, calendarId, state);
+        }
+        
+        return { events: eventsInRange(state.events, timeMin, timeMax), truncated: false };
+      } catch (error: any) {
+        if (!isSyncTokenExpired(error)) {
+          throw error;
+        }
+        console.log(`Sync token for calendar ${calendarId} expired, doing a full resync`);
+      }
+    }
+    
+    const windowEnd = new Date(timeMax);
+    windowEnd.setDate(windowEnd.getDate() + SYNC_WINDOW_PADDING_DAYS);
+    
+    const result = await listCalendarEvents(calendar, calendarId, timeMin, windowEnd.toISOString());
+    
+    // A truncated listing has no sync token, and isn't complete enough to cache
+    if (result.syncToken) {
+      await writeSyncCache(context.userId, calendarId, {
+        syncToken: result.syncToken,
+        windowStart: timeMin,
+        windowEnd: windowEnd.toISOString(),
+        events: result.events,
+        savedAt: new Date().toISOString(),
+      });
+    } else if (cached) {
+      await writeSyncCache(context.userId, calendarId, null);
+    }
+    
+    return { events: eventsInRange(result.events, timeMin, timeMax), truncated: result.truncated };
+  });
+}
+
+/**
+ * Apply the changes Google reported for one calendar to the user's sync cache,
+ * recording invites that have just become pending. Returns those new invites.
+ * Does nothing until the calendar has been synced once, since there is no
+ * baseline to compare against.
+ */
+export async function syncCalendarChanges(
+  userId: string,
+  source: Pick<CalendarSummary, 'id' | 'name'>
+): Promise<PendingInvite[]> {
+  return updateSyncCache(userId, source.id, async () => {
+    const cached = await readSyncCache(userId, source.id);
+    
+    if (!cached) {
+      return [];
+    }
+    
+    const calendar = await getCalendarClient(userId);
+    const userEmail = await getUserEmail(userId);
+    
+    if (!userEmail) {
+      throw new Error('User email not found');
+    }
+    
+    const timeZone = await getUserTimeZone(userId);
+    
+    let result: { state: CalendarSyncState; arrived: PendingInvite[]; changed: boolean };
+    try {
+      result = await applyEventChanges(calendar, source, cached, { userId, userEmail, timeZone });
+    } catch (error: any) {
+      if (!isSyncTokenExpired(error)) {
+        throw error;
+      }
+      // The next fetch does a full resync
+      await writeSyncCache(userId, source.id, null);
+      return [];
+    }
+    
+    if (needsSaving(cached, result.state, result.changed)) {
+      await writeSyncCache(userId, source.id, result.state);
+    }
+    
+    return result.arrived;
+  });
+}
+
+/**
+ * Remember when invites arrived, dropping arrivals past the retention period
+ */
+async function recordInviteArrivals(userId: string, invites: PendingInvite[]): Promise<void> {
+  const now = Date.now();
+  const cutoff = now - ARRIVAL_RETENTION_MS;
+  const arrivedAt = new Date(now).toISOString();
+  
+  const arrivals = ((await inviteArrivals().get(userId)) || [])
+    .filter((arrival) => new Date(arrival.arrivedAt).getTime() > cutoff);
+  
+  for (const invite of invites) {
+    if (!arrivals.some((a) => a.calendarId === invite.calendarId && a.eventId === invite.eventId)) {
+      arrivals.push({ calendarId: invite.calendarId, eventId: invite.eventId, arrivedAt });
+    }
+  }
+  
+  await inviteArrivals().set(userId, arrivals, now + ARRIVAL_RETENTION_MS);
+}
+
+/**
+ * Check whether a calendar is one the user can respond to invites on
+ */
+function isRespondable(calendar: CalendarSummary): boolean {
+  return RESPONDABLE_ACCESS_ROLES.includes(calendar.accessRole);
+}
+
+/**
+ * List the calendars searched by default: those the user can respond on
+ */
+export async function listRespondableCalendars(userId: string): Promise<CalendarSummary[]> {
+  return (await listCalendars(userId)).filter(isRespondable);
+}
+
+/**
+ * Get busy times for people from Google's free/busy API, by email address.
+ * Each person's calendar time zone is read too, when their calendar is visible
+ * to the user; free/busy alone doesn't say where someone works.
+ */
+export async function getFreeBusy(
+  userId: string,
+  emails: string[],
+  timeMin: string,
+  timeMax: string
+): Promise<AttendeeAvailability[]> {
+  const calendar = await getCalendarClient(userId);
+  
+  try {
+    const [freeBusy, timeZones] = await Promise.all([
+      withExponentialBackoff(() =>
+        calendar.freebusy.query({
+          requestBody: {
+            timeMin,
+            timeMax,
+            items: emails.map((id) => ({ id })),
+          },
+        })
+      ),
+      Promise.all(emails.map(async (email) => {
+        try {
+          const response = await withExponentialBackoff(() => calendar.calendars.get({ calendarId: email }));
+          return response.data.timeZone || null;
+        } catch {
+          return null;
+        }
+      })),
+    ]);
+    
+    const calendars = freeBusy.data.calendars || {};
+    
+    return emails.map((email, index) => {
+      const entry = calendars[email] || calendars[email.toLowerCase()];
+      return {
+        email,
+        busy: (entry?.busy || [])
+          .filter((period) => period.start && period.end)
+          .map((period) => ({ start: period.start!, end: period.end! })),
+        timeZone: timeZones[index],
+        error: entry ? entry.errors?.[0]?.reason || null : 'notFound',
+      };
+    });
+  } catch (error: any) {
+    console.error('Error querying free/busy:', error);
+    
+    if (error.code === 401) {
+      throw new Error('Authentication expired. Please re-authenticate.');
+    }
+    
+    throw new Error(`Failed to check availability: ${error.message}`);
+  }
+}
+
+/**
+ * Pick the calendars to search: the requested IDs ("primary" is accepted as an alias),
+ * or by default every calendar the user can respond on
+ */
+function selectCalendars(calendars: CalendarSummary[], calendarIds?: string[]): CalendarSummary[] {
+  if (!calendarIds || calendarIds.length === 0) {
+    return calendars.filter(isRespondable);
+  }
+  
+  return calendarIds.map((id) => {
+    const match = calendars.find((c) => c.id === id || (id === 'primary' && c.primary));
+    if (!match) {
+      throw new Error(`Calendar not found in your calendar list: ${id}`);
+    }
+    return match;
+  });
+}
+
+/**
+ * Get pending calendar invites for a user across the selected calendars, one page at a time.
+ * A cursor from a previous page carries its own date range, calendars and arrival filter.
+ * `arrivedSince` keeps only invites a push notification reported after that time.
+ * Times are given in the user's time zone; `timeZone` overrides it for this call (see getUserTimeZone).
+ */
+export async function getPendingInvites(
+  userId: string,
+  startDate?: string,
+  endDate?: string,
+  calendarIds?: string[],
+  page: { cursor?: string; pageSize?: number; arrivedSince?: string; timeZone?: string } = {}
+): Promise<PendingInvitesResponse> {
+  const calendar = await getCalendarClient(userId);
+  const userEmail = await getUserEmail(userId);
+  
+  if (!userEmail) {
+    throw new Error('User email not found');
+  }
+  
+  const timeZone = await getUserTimeZone(userId, page.timeZone);
+  
+  // Default date range: now to 14 days from now
+  const now = new Date();
+  const defaultEnd = new Date(now);
+  defaultEnd.setDate(defaultEnd.getDate() + 14);
+  
+  const cursor = page.cursor ? decodeCursor(page.cursor) : null;
+  const timeMin = cursor?.start || startDate || now.toISOString();
+  const timeMax = cursor?.end || endDate || defaultEnd.toISOString();
+  const requestedCalendarIds = cursor ? cursor.calendarIds : calendarIds;
+  const arrivedSince = cursor ? cursor.arrivedSince : page.arrivedSince;
+  const pageSize = Math.min(Math.max(page.pageSize || DEFAULT_INVITES_PAGE_SIZE, 1), MAX_INVITES_PAGE_SIZE);
+  
+  try {
+    const allCalendars = await listCalendars(userId);
+    const calendars = selectCalendars(allCalendars, requestedCalendarIds);
+    
+    // Conflicts are checked against every calendar the user owns, even ones not searched for invites
+    const ownCalendars = allCalendars.filter((c) => c.accessRole === 'owner');
+    const calendarsToRead = [...calendars, ...ownCalendars.filter((c) => !calendars.includes(c))];
+    
+    const found: Array<{ invite: PendingInvite; busy: BusyEvent }> = [];
+    const committed: BusyEvent[] = [];
+    let truncated = false;
+    
+    for (const source of calendarsToRead) {
+      let events: calendar_v3.Schema$Event[];
+      
+      try {
+        const result = await syncCalendarEvents(calendar, source, timeMin, timeMax, { userId, userEmail, timeZone });
+        events = result.events;
+        truncated = truncated || result.truncated;
+      } catch (error: any) {
+        // One unreadable shared calendar shouldn't hide invites on the others
+        if (error.code === 401) {
+          throw error;
+        }
+        console.warn(`Skipping calendar ${source.id}: ${error.message}`);
+        continue;
+      }
+      
+      if (ownCalendars.includes(source)) {
+        committed.push(...committedEvents(events, source.id, userEmail, timeZone));
+      }
+      
+      if (!calendars.includes(source)) {
+        continue;
+      }
+      
+      // Filter to pending invites only
+      for (const event of events) {
+        const invite = eventToPendingInvite(event, userEmail, source, timeZone);
+        if (invite) {
+          found.push({ invite, busy: toBusyEvent(event, source.id, 'pending', timeZone) });
+        }
+      }
+    }
+    
+    attachConflicts(found, committed);
+    const pendingInvites = found.map(({ invite }) => invite);
+    
+    const arrivals = (await inviteArrivals().get(userId)) || [];
+    for (const invite of pendingInvites) {
+      const arrival = arrivals.find((a) => a.calendarId === invite.calendarId && a.eventId === invite.eventId);
+      invite.arrivedAt = arrival ? toZonedIso(arrival.arrivedAt, timeZone) : null;
+    }
+    
+    const matching = arrivedSince
+      ? pendingInvites.filter(
+          (invite) => invite.arrivedAt && new Date(invite.arrivedAt).getTime() >= new Date(arrivedSince).getTime()
+        )
+      : pendingInvites;
+    
+    matching.sort(compareInvites);
+    const series = groupSeries(matching);
+    
+    const remaining = cursor
+      ? matching.filter((invite) => compareInvites(invite, cursor.after) > 0)
+      : matching;
+    const invites = remaining.slice(0, pageSize);
+    const last = invites[invites.length - 1];
+    
+    const nextCursor = remaining.length > invites.length
+      ? encodeCursor({
+          start: timeMin,
+          end: timeMax,
+          calendarIds: requestedCalendarIds,
+          arrivedSince,
+          after: { startTime: last.startTime, calendarId: last.calendarId, eventId: last.eventId },
+        })
+      : null;
+    
+    return {
+      invites,
+      calendars,
+      series,
+      dateRange: {
+        start: timeMin,
+        end: timeMax,
+      },
+      totalCount: matching.length,
+      nextCursor,
+      truncated,
+      timeZone,
+    };
+  } catch (error: any) {
+    console.error('Error fetching calendar events:', error);
+    
+    if (error.code === 401) {
+      throw new Error('Authentication expired. Please re-authenticate.');
+    }
+    
+    throw new Error(`Failed to fetch calendar events: ${error.message}`);
+  }
+}
+
+/**
+ * Get the events on one day, or the Monday-to-Sunday week containing it, with the
+ * user's response to each, grouped by day. `date` defaults to today. Declined events
+ * are left out unless `includeDeclined`. A meeting on several of the user's calendars
+ * is listed once. Times are given in the user's time zone; `timeZone` overrides it for this call (see getUserTimeZone).
+ */
+export async function getAgenda(
+  userId: string,
+  options: { date?: string; range?: 'day' | 'week'; calendarIds?: string[]; includeDeclined?: boolean; timeZone?: string } = {}
+): Promise<AgendaResponse> {
+  if (options.date && !DATE_ONLY.test(options.date)) {
+    throw new Error(`Invalid date "${options.date}". Use YYYY-MM-DD.`);
+  }
+  
+  const calendar = await getCalendarClient(userId);
+  const userEmail = await getUserEmail(userId);
+  
+  if (!userEmail) {
+    throw new Error('User email not found');
+  }
+  
+  const timeZone = await getUserTimeZone(userId, options.timeZone);
+  const range = options.range === 'week' ? 'week' : 'day';
+  const date = options.date || toZonedIso(new Date().toISOString(), timeZone).slice(0, 10);
+  
+  const firstDay = range === 'week' ? addDays(date, -((new Date(date).getUTCDay() + 6) % 7)) : date;
+  const dates = Array.from({ length: range === 'week' ? 7 : 1 }, (_, i) => addDays(firstDay, i));
+  
+  // Local midnights bounding each day; dayStarts[i + 1] ends day i
+  const dayStarts = [...dates, addDays(firstDay, dates.length)].map((day) => parseEventTime(`${day}T00:00`, timeZone).getTime());
+  const timeMin = new Date(dayStarts[0]).toISOString();
+  const timeMax = new Date(dayStarts[dates.length]).toISOString();
+  
+  try {
+    const calendars = selectCalendars(await listCalendars(userId), options.calendarIds);
+    const seen = new Set<string>();
+    const entries: Array<{ event: AgendaEvent; start: calendar_v3.Schema$EventDateTime; end: calendar_v3.Schema$EventDateTime }> = [];
+    let truncated = false;
+    
+    for (const source of calendars) {
+      let events: calendar_v3.Schema$Event[];
+      
+      try {
+        const result = await syncCalendarEvents(calendar, source, timeMin, timeMax, { userId, userEmail, timeZone });
+        events = result.events;
+        truncated = truncated || result.truncated;
+      } catch (error: any) {
+        if (error.code === 401) {
+          throw error;
+        }
+        console.warn(`Skipping calendar ${source.id}: ${error.message}`);
+        continue;
+      }
+      
+      for (const event of events) {
+        const key = meetingKey(event);
+        if (!event.id || seen.has(key)) {
+          continue;
+        }
+        
+        const agendaEvent = eventToAgendaEvent(event, userEmail, source, timeZone);
+        if (agendaEvent.responseStatus === 'declined' && !options.includeDeclined) {
+          continue;
+        }
+        
+        seen.add(key);
+        entries.push({ event: agendaEvent, start: event.start || {}, end: event.end || {} });
+      }
+    }
+    
+    const days: AgendaDay[] = dates.map((day, i) => {
+      const onDay = entries.filter(({ start, end }) => {
+        if (start.date) {
+          return start.date <= day && day < (end.date || addDays(start.date, 1));
+        }
+        const startMs = eventTimeMs(start);
+        // Zero-length events still show on the day they happen
+        const endMs = Math.max(eventTimeMs(end), startMs + 1);
+        return startMs < dayStarts[i + 1] && endMs > dayStarts[i];
+      });
+      
+      return {
+        date: day,
+        events: onDay
+          .sort((a, b) =>
+            Number(b.event.isAllDay) - Number(a.event.isAllDay)
+            || eventTimeMs(a.start) - eventTimeMs(b.start)
+            || a.event.summary.localeCompare(b.event.summary)
+          )
+          .map(({ event }) => event),
+      };
+    });
+    
+    return {
+      days,
+      range,
+      dateRange: {
+        start: toZonedIso(timeMin, timeZone),
+        end: toZonedIso(timeMax, timeZone),
+      },
+      pendingCount: entries.filter(({ event }) => event.responseStatus === 'needsAction').length,
+      calendars,
+      truncated,
+      timeZone,
+    };
+  } catch (error: any) {
+    console.error('Error fetching agenda:', error);
+    
+    if (error.code === 401) {
+      throw new Error('Authentication expired. Please re-authenticate.');
+    }
+    
+    throw new Error(`Failed to fetch calendar events: ${error.message}`);
+  }
+}
+
+/**
+ * Set the attendee status for this calendar on one event
+ */
+async function setAttendeeResponse(
+  calendar: calendar_v3.Calendar,
+  calendarId: string,
+  event: calendar_v3.Schema$Event,
+  userEmail: string,
+  response: 'accepted' | 'declined' | 'tentative',
+  sendUpdates: 'all' | 'none',
+  comment: string | null = null
+): Promise<void> {
+  if (!event.attendees) {
+    throw new Error('Event has no attendees');
+  }
+  
+  // Find and update the attendee status for this calendar
+  const selfAttendee = findSelfAttendee(event.attendees, userEmail);
+  
+  if (!selfAttendee) {
+    throw new Error('You are not an attendee of this event on this calendar');
+  }
+  
+  const updatedAttendees = event.attendees.map((attendee) => {
+    if (attendee === selfAttendee) {
+      return {
+        ...attendee,
+        responseStatus: response,
+        ...(comment !== null && { comment }),
+      };
+    }
+    return attendee;
+  });
+  
+  // Update the event with new attendee status with exponential backoff
+  await withExponentialBackoff(() =>
+    calendar.events.patch({
+      calendarId,
+      eventId: event.id!,
+      requestBody: {
+        attendees: updatedAttendees,
+      },
+      sendUpdates,
+    })
+  );
+}
+
+/**
+ * Respond to an instance of a recurring event and every later instance,
+ * up to MAX_FOLLOWING_INSTANCES. Returns the number of instances changed.
+ */
+async function respondToFollowingInstances(
+  calendar: calendar_v3.Calendar,
+  calendarId: string,
+  event: calendar_v3.Schema$Event,
+  userEmail: string,
+  response: 'accepted' | 'declined' | 'tentative',
+  comment: string | null
+): Promise<number> {
+  const fromMs = eventTimeMs(event.originalStartTime || event.start);
+  let pageToken: string | undefined;
+  let seen = 0;
+  let updated = 0;
+  
+  do {
+    const page = await withExponentialBackoff(() =>
+      calendar.events.instances({
+        calendarId,
+        eventId: event.recurringEventId!,
+        timeMin: new Date(fromMs).toISOString(),
+        maxResults: EVENTS_PAGE_SIZE,
+        pageToken,
+      })
+    );
+    
+    for (const instance of page.data.items || []) {
+      if (seen >= MAX_FOLLOWING_INSTANCES) {
+        break;
+      }
+      if (eventTimeMs(instance.originalStartTime || instance.start) < fromMs || instance.status === 'cancelled') {
+        continue;
+      }
+      seen++;
+      
+      const self = findSelfAttendee(instance.attendees || [], userEmail);
+      if (!self || (self.responseStatus === response && comment === null)) {
+        continue;
+      }
+      
+      // Notify the organizer once rather than once per instance
+      await setAttendeeResponse(calendar, calendarId, instance, userEmail, response, updated === 0 ? 'all' : 'none', comment);
+      updated++;
+    }
+    
+    pageToken = page.data.nextPageToken || undefined;
+  } while (pageToken && seen < MAX_FOLLOWING_INSTANCES);
+  
+  return updated;
+}
+
+/**
+ * Check a proposed new time, returning it as ISO strings in the user's time zone
+ */
+function parseProposedTime(note: RespondNote, timeZone: string): { start: string; end: string } | null {
+  if (!note.proposedStart && !note.proposedEnd) {
+    return null;
+  }
+  
+  if (!note.proposedStart || !note.proposedEnd) {
+    throw new Error('A proposed time needs both a start and an end');
+  }
+  
+  const start = new Date(note.proposedStart);
+  const end = new Date(note.proposedEnd);
+  
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    throw new Error('Proposed start and end must be ISO 8601 dates');
+  }
+  
+  if (end <= start) {
+    throw new Error('Proposed end must be after proposed start');
+  }
+  
+  return { start: toZonedIso(start.toISOString(), timeZone), end: toZonedIso(end.toISOString(), timeZone) };
+}
+
+/**
+ * Build the attendee comment sent with a response. The Calendar API can't send
+ * Google's own "propose a new time", so a proposed time goes in the comment.
+ */
+function buildAttendeeComment(
+  note: RespondNote,
+  proposedTime: { start: string; end: string } | null,
+  timeZone: string,
+  locale: Locale
+): string | null {
+  const parts: string[] = [];
+  
+  if (note.comment?.trim()) {
+    parts.push(note.comment.trim());
+  }
+  if (proposedTime) {
+    parts.push(t(locale, 'respond.proposedTime', {
+      start: formatTimeForDisplay(proposedTime.start, timeZone, false, locale),
+      end: formatTimeForDisplay(proposedTime.end, timeZone, false, locale),
+    }));
+  }
+  
+  if (parts.length === 0) {
+    return null;
+  }
+  
+  const comment = parts.join('\n\n');
+  if (comment.length > MAX_COMMENT_LENGTH) {
+    throw new Error(`Comment must be at most ${MAX_COMMENT_LENGTH} characters`);
+  }
+  
+  return comment;
+}
+
+/**
+ * Respond to a calendar invite on the calendar it was found on.
+ * For an instance of a recurring event, `scope` picks whether the response covers
+ * just that instance, the whole series, or that instance and all later ones.
+ * `note` adds a comment for the organizer and optionally a proposed new time.
+ * The message and any proposed time are worded in `locale`.
+ */
+export async function respondToInvite(
+  userId: string,
+  eventId: string,
+  response: 'accepted' | 'declined' | 'tentative',
+  calendarId: string = 'primary',
+  scope: RespondScope = 'instance',
+  note: RespondNote = {},
+  locale: Locale = DEFAULT_LOCALE
+): Promise<RespondToInviteResponse> {
+  // The user's time zone is only needed to word a proposed time
+  const timeZone = note.proposedStart || note.proposedEnd ? await getUserTimeZone(userId) : 'UTC';
+  const proposedTime = parseProposedTime(note, timeZone);
+  const comment = buildAttendeeComment(note, proposedTime, timeZone, locale);
+  
+  const calendar = await getCalendarClient(userId);
+  const userEmail = await getUserEmail(userId);
+  
+  if (!userEmail) {
+    throw new Error('User email not found');
+  }
+  
+  try {
+    // First, get the event to find current attendees with exponential backoff
+    const eventResponse = await withExponentialBackoff(() =>
+      calendar.events.get({
+        calendarId,
+        eventId,
+      })
+    );
+    
+    const event = eventResponse.data;
+    const recurringEventId = event.recurringEventId;
+    
+    // Series scopes only mean something for instances of a recurring event
+    const appliedScope: RespondScope = recurringEventId ? scope : 'instance';
+    let updatedCount = 1;
+    
+    if (proposedTime && appliedScope !== 'instance') {
+      throw new Error('A new time can only be proposed for a single occurrence');
+    }
+    
+    if (appliedScope === 'series') {
+      // Responding on the recurring event itself covers every instance without its own override
+      const seriesResponse = await withExponentialBackoff(() =>
+        calendar.events.get({
+          calendarId,
+          eventId: recurringEventId!,
+        })
+      );
+      await setAttendeeResponse(calendar, calendarId, seriesResponse.data, userEmail, response, 'all', comment);
+    } else if (appliedScope === 'following') {
+      updatedCount = await respondToFollowingInstances(calendar, calendarId, event, userEmail, response, comment);
+    } else {
+      await setAttendeeResponse(calendar, calendarId, event, userEmail, response, 'all', comment);
+    }
+    
+    // Generate a user-friendly message
+    const summary = event.summary || '';
+    const target = appliedScope === 'following'
+      ? tPlural(locale, 'respond.target.following', { count: updatedCount, summary })
+      : t(locale, appliedScope === 'series' ? 'respond.target.series' : 'respond.target.instance', { summary });
+    
+    let message = t(locale, `respond.you.${response}`, { target });
+    if (proposedTime) {
+      message += t(locale, 'respond.proposed', {
+        start: formatTimeForDisplay(proposedTime.start, timeZone, false, locale),
+        end: formatTimeForDisplay(proposedTime.end, timeZone, false, locale),
+      });
+    } else if (comment) {
+      message += t(locale, 'respond.withComment');
+    }
+    
+    return {
+      success: true,
+      message,
+      eventId,
+      calendarId,
+      newStatus: response,
+      scope: appliedScope,
+      updatedCount,
+      comment,
+      proposedTime,
+      eventSummary: event.summary || undefined,
+    };
+  } catch (error: any) {
+    console.error('Error responding to invite:', error);
+    
+    if (error.code === 401) {
+      throw new Error('Authentication expired. Please re-authenticate.');
+    }
+    
+    if (error.code === 404) {
+      throw new Error('Event not found. It may have been cancelled or deleted.');
+    }
+    
+    throw new Error(`Failed to respond to invite: ${error.message}`);
+  }
+}
+
+/**
+ * Add days to a plain date ("2024-01-16")
+ */
+function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in milliseconds
+ */
+function timeZoneOffsetMs(instant: number, timeZone: string): number {
+  const seconds = Math.floor(instant / 1000) * 1000;
+  const zoned = toZonedIso(new Date(seconds).toISOString(), timeZone);
+  return Date.parse(`${zoned.slice(0, 19)}Z`) - seconds;
+}
+
+/**
+ * Parse an ISO 8601 date-time. One without an offset is a wall-clock time in `timeZone`.
+ */
+export function parseEventTime(time: string, timeZone: string): Date {
+  if (!LOCAL_DATE_TIME.test(time)) {
+    return new Date(time);
+  }
+  
+  // Read the wall-clock time as UTC, then shift by the zone's offset. The offset is
+  // checked again at the shifted instant in case a DST change falls in between.
+  const asUtc = Date.parse(`${time}Z`);
+  const guess = asUtc - timeZoneOffsetMs(asUtc, timeZone);
+  return new Date(asUtc - timeZoneOffsetMs(guess, timeZone));
+}
+
+/**
+ * Work out an event's start and end for the Calendar API. All-day events take
+ * an inclusive last day, which Google stores as the (exclusive) day after.
+ */
+function resolveEventTimes(
+  input: Pick<EventInput, 'start' | 'end' | 'durationMinutes' | 'allDay'>,
+  timeZone: string
+): { start: calendar_v3.Schema$EventDateTime; end: calendar_v3.Schema$EventDateTime } {
+  const allDay = input.allDay ?? DATE_ONLY.test(input.start);
+  
+  if (allDay) {
+    const startDate = input.start.slice(0, 10);
+    const lastDate = input.end ? input.end.slice(0, 10) : startDate;
+    
+    if (!DATE_ONLY.test(startDate) || isNaN(Date.parse(startDate)) || !DATE_ONLY.test(lastDate) || isNaN(Date.parse(lastDate))) {
+      throw new Error('All-day events need dates in YYYY-MM-DD format');
+    }
+    if (lastDate < startDate) {
+      throw new Error('Event end must not be before its start');
+    }
+    
+    return { start: { date: startDate }, end: { date: addDays(lastDate, 1) } };
+  }
+  
+  if (DATE_ONLY.test(input.start)) {
+    throw new Error('Event start needs a time unless the event is all-day');
+  }
+  
+  const start = parseEventTime(input.start, timeZone);
+  const durationMinutes = input.durationMinutes ?? DEFAULT_EVENT_DURATION_MINUTES;
+  const end = input.end
+    ? parseEventTime(input.end, timeZone)
+    : new Date(start.getTime() + durationMinutes * 60 * 1000);
+  
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    throw new Error('Event start and end must be ISO 8601 dates');
+  }
+  if (!input.end && !(durationMinutes > 0)) {
+    throw new Error('Event duration must be a positive number of minutes');
+  }
+  if (end <= start) {
+    throw new Error('Event end must be after its start');
+  }
+  
+  return {
+    start: { dateTime: toZonedIso(start.toISOString(), timeZone), timeZone },
+    end: { dateTime: toZonedIso(end.toISOString(), timeZone), timeZone },
+  };
+}
+
+/**
+ * Check and de-duplicate attendee email addresses
+ */
+function normalizeAttendees(emails: string[] = []): string[] {
+  const unique = new Map<string, string>();
+  
+  for (const raw of emails) {
+    const email = raw.trim();
+    if (!EMAIL.test(email)) {
+      throw new Error(`Invalid attendee email "${raw}". Attendees must be email addresses.`);
+    }
+    unique.set(email.toLowerCase(), email);
+  }
+  
+  return [...unique.values()];
+}
+
+/**
+ * Ask Google to create a Meet link for an event
+ */
+function meetLinkRequest(): calendar_v3.Schema$ConferenceData {
+  return {
+    createRequest: {
+      requestId: crypto.randomUUID(),
+      conferenceSolutionKey: { type: 'hangoutsMeet' },
+    },
+  };
+}
+
+/**
+ * Convert a created or updated Google Calendar event to our ScheduledEvent format
+ */
+function toScheduledEvent(event: calendar_v3.Schema$Event, calendarId: string, fallbackTimeZone: string): ScheduledEvent {
+  const timeZone = event.start?.timeZone || fallbackTimeZone;
+  const startInfo = formatDateTime(event.start || {}, timeZone);
+  const endInfo = formatDateTime(event.end || {}, timeZone);
+  const videoEntry = event.conferenceData?.entryPoints?.find((entry) => entry.entryPointType === 'video');
+  
+  return {
+    eventId: event.id || '',
+    calendarId,
+    summary: event.summary || '(No title)',
+    description: event.description || null,
+    location: event.location || null,
+    startTime: startInfo.formatted,
+    endTime: endInfo.formatted,
+    isAllDay: startInfo.isAllDay,
+    timeZone,
+    organizerEmail: event.organizer?.email || 'Unknown',
+    attendees: (event.attendees || []).map((a) => ({
+      email: a.email || 'Unknown',
+      name: a.displayName || null,
+      status: a.responseStatus || 'needsAction',
+    })),
+    meetLink: event.hangoutLink || videoEntry?.uri || null,
+    calendarLink: event.htmlLink || '',
+    recurringEventId: event.recurringEventId || null,
+  };
+}
+
+/**
+ * Turn a Calendar API error from creating or changing an event into a readable one
+ */
+function toEventError(error: any, action: string): Error {
+  console.error(`Error trying to ${action}:`, error);
+  
+  if (error.code === 401) {
+    return new Error('Authentication expired. Please re-authenticate.');
+  }
+  
+  if (error.code === 404) {
+    return new Error('Event or calendar not found. It may have been deleted.');
+  }
+  
+  if (error.code === 403) {
+    return new Error(`You don't have permission to ${action} on this calendar.`);
+  }
+  
+  return new Error(`Failed to ${action}: ${error.message}`);
+}
+
+/**
+ * Create an event on one of the user's calendars, inviting any attendees.
+ * Times without an offset are read in `input.timeZone`, or the user's time zone.
+ */
+export async function createEvent(userId: string, input: EventInput): Promise<ScheduledEvent> {
+  if (!input.summary?.trim()) {
+    throw new Error('Event title is required');
+  }
+  
+  const timeZone = await getUserTimeZone(userId, input.timeZone);
+  const { start, end } = resolveEventTimes(input, timeZone);
+  const attendees = normalizeAttendees(input.attendees);
+  const calendarId = input.calendarId || 'primary';
+  const notify = attendees.length > 0 && input.notifyAttendees !== false;
+  const conferenceData = input.addMeetLink ? meetLinkRequest() : undefined;
+  
+  const calendar = await getCalendarClient(userId);
+  
+  try {
+    const response = await withExponentialBackoff(() =>
+      calendar.events.insert({
+        calendarId,
+        conferenceDataVersion: conferenceData ? 1 : 0,
+        sendUpdates: notify ? 'all' : 'none',
+        requestBody: {
+          summary: input.summary.trim(),
+          description: input.description,
+          location: input.location,
+          start,
+          end,
+          attendees: attendees.map((email) => ({ email })),
+          conferenceData,
+        },
+      })
+    );
+    
+    console.log(`Created event ${response.data.id} on ${calendarId} for user ${userId}`);
+    return toScheduledEvent(response.data, calendarId, timeZone);
+  } catch (error: any) {
+    throw toEventError(error, 'create events');
+  }
+}
+
+/**
+ * Change an event the user organizes: its details, time, attendees or Meet link.
+ * Moving the start without a new end or duration keeps the event's length.
+ * For an instance of a recurring event, only that instance changes.
+ */
+export async function updateEvent(
+  userId: string,
+  eventId: string,
+  changes: EventUpdateInput,
+  calendarId: string = 'primary'
+): Promise<ScheduledEvent> {
+  const calendar = await getCalendarClient(userId);
+  
+  let event: calendar_v3.Schema$Event;
+  try {
+    const response = await withExponentialBackoff(() =>
+      calendar.events.get({ calendarId, eventId })
+    );
+    event = response.data;
+  } catch (error: any) {
+    throw toEventError(error, 'read events');
+  }
+  
+  if (event.organizer && !event.organizer.self) {
+    throw new Error('Only the organizer can change this event. Use respond_to_invite to answer it or propose a new time.');
+  }
+  
+  const patch: calendar_v3.Schema$Event = {};
+  let conferenceDataVersion = 0;
+  
+  if (changes.summary !== undefined) {
+    if (!changes.summary.trim()) {
+      throw new Error('Event title cannot be empty');
+    }
+    patch.summary = changes.summary.trim();
+  }
+  if (changes.description !== undefined) {
+    patch.description = changes.description;
+  }
+  if (changes.location !== undefined) {
+    patch.location = changes.location;
+  }
+  
+  // Rescheduling: fill in whatever wasn't given from the event as it is
+  const timeZone = changes.timeZone
+    ? await getUserTimeZone(userId, changes.timeZone)
+    : event.start?.timeZone || await getUserTimeZone(userId);
+  const reschedule = [changes.start, changes.end, changes.durationMinutes, changes.allDay, changes.timeZone]
+    .some((value) => value !== undefined);
+  
+  if (reschedule) {
+    const wasAllDay = Boolean(event.start?.date);
+    const allDay = changes.allDay ?? (changes.start ? DATE_ONLY.test(changes.start) : wasAllDay);
+    const start = changes.start ?? event.start?.date ?? event.start?.dateTime ?? '';
+    let end = changes.end;
+    let durationMinutes = changes.durationMinutes;
+    
+    if (!end && durationMinutes === undefined && allDay === wasAllDay) {
+      if (!changes.start) {
+        // Only the time zone or all-day flag changed; keep the end where it is
+        end = allDay ? addDays(event.end?.date || start, -1) : event.end?.dateTime || undefined;
+      } else if (allDay) {
+        const days = Math.round((Date.parse(event.end?.date || '') - Date.parse(event.start?.date || '')) / 86400000) || 1;
+        end = addDays(start.slice(0, 10), days - 1);
+      } else {
+        durationMinutes = (Date.parse(event.end?.dateTime || '') - Date.parse(event.start?.dateTime || '')) / 60000 || undefined;
+      }
+    }
+    
+    const times = resolveEventTimes({ start, end, durationMinutes, allDay }, timeZone);
+    // Switching between all-day and timed needs the other field cleared
+    patch.start = { date: null, dateTime: null, ...times.start };
+    patch.end = { date: null, dateTime: null, ...times.end };
+  }
+  
+  if (changes.addAttendees || changes.removeAttendees) {
+    const removed = new Set(normalizeAttendees(changes.removeAttendees).map((email) => email.toLowerCase()));
+    const attendees = (event.attendees || []).filter((a) => !removed.has((a.email || '').toLowerCase()));
+    
+    for (const email of normalizeAttendees(changes.addAttendees)) {
+      if (!attendees.some((a) => a.email?.toLowerCase() === email.toLowerCase())) {
+        attendees.push({ email });
+      }
+    }
+    patch.attendees = attendees;
+  }
+  
+  if (changes.addMeetLink && !event.hangoutLink && !event.conferenceData) {
+    patch.conferenceData = meetLinkRequest();
+    conferenceDataVersion = 1;
+  }
+  
+  if (Object.keys(patch).length === 0) {
+    throw new Error('Nothing to change. Give a new title, time, attendees, description, location or add a Meet link.');
+  }
+  
+  const hasAttendees = (patch.attendees || event.attendees || []).some((a) => !a.organizer && !a.self);
+  const notify = hasAttendees && changes.notifyAttendees !== false;
+  
+  try {
+    const response = await withExponentialBackoff(() =>
+      calendar.events.patch({
+        calendarId,
+        eventId,
+        conferenceDataVersion,
+        sendUpdates: notify ? 'all' : 'none',
+        requestBody: patch,
+      })
+    );
+    
+    console.log(`Updated event ${eventId} on ${calendarId} for user ${userId}`);
+    return toScheduledEvent(response.data, calendarId, timeZone);
+  } catch (error: any) {
+    throw toEventError(error, 'change events');
+  }
+}
+
+/**
+ * Format an event's time range for text output, e.g. "Tue, Jan 16, 2024, 10:00 AM EST – 10:30 AM EST"
+ */
+function formatEventRange(event: ScheduledEvent, locale: Locale): string {
+  const start = formatTimeForDisplay(event.startTime, event.timeZone, event.isAllDay, locale);
+  
+  if (event.isAllDay) {
+    // Google's end date is the day after the event
+    const lastDay = addDays(event.endTime, -1);
+    if (lastDay <= event.startTime) {
+      return start;
+    }
+    const formatDay = (date: string) => new Date(date).toLocaleDateString(dateLocale(locale), { timeZone: 'UTC', weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+    return t(locale, 'time.allDay', { date: `${formatDay(event.startTime)} – ${formatDay(lastDay)}` });
+  }
+  
+  const sameDay = event.startTime.slice(0, 10) === event.endTime.slice(0, 10);
+  const end = sameDay
+    ? new Date(event.endTime).toLocaleTimeString(dateLocale(locale), { timeZone: event.timeZone, hour: 'numeric', minute: '2-digit', timeZoneName: 'short' })
+    : formatTimeForDisplay(event.endTime, event.timeZone, false, locale);
+  return `${start} – ${end}`;
+}
+
+/**
+ * Format a created or updated event as a text summary for MCP responses
+ */
+export function formatEventAsText(event: ScheduledEvent, locale: Locale = DEFAULT_LOCALE): string {
+  let text = `**${event.summary}**\n`;
+  text += `   - ${t(locale, 'list.when')}: ${formatEventRange(event, locale)}\n`;
+  if (event.location) {
+    text += `   - ${t(locale, 'list.location')}: ${event.location}\n`;
+  }
+  if (event.meetLink) {
+    text += `   - ${t(locale, 'event.meet')}: ${event.meetLink}\n`;
+  }
+  const guests = event.attendees.filter((a) => a.email.toLowerCase() !== event.organizerEmail.toLowerCase());
+  if (guests.length > 0) {
+    text += `   - ${t(locale, 'event.guests')}: ${guests.map((a) => a.name || a.email).join(', ')}\n`;
+  }
+  text += `   - ${t(locale, 'list.eventId')}: ${event.eventId}\n`;
+  text += `   - ${t(locale, 'list.calendarId')}: ${event.calendarId}\n`;
+  
+  return text;
+}
+
+/**
+ * Get a single event by ID
+ */
+export async function getEvent(
+  userId: string,
+  eventId: string,
+  calendarId: string = 'primary'
+): Promise<CalendarEvent | null> {
+  const calendar = await getCalendarClient(userId);
+  
+  try {
+    const response = await withExponentialBackoff(() =>
+      calendar.events.get({
+        calendarId,
+        eventId,
+      })
+    );
+    
+    const event = response.data;
+    
+    return {
+      id: event.id || '',
+      summary: event.summary || 'No title',
+      description: event.description,
+      location: event.location,
+      start: event.start || {},
+      end: event.end || {},
+      organizer: {
+        email: event.organizer?.email || 'Unknown',
+        displayName: event.organizer?.displayName,
+      },
+      attendees: (event.attendees || []).map((a) => ({
+        email: a.email || '',
+        displayName: a.displayName,
+        responseStatus: (a.responseStatus as CalendarAttendee['responseStatus']) || 'needsAction',
+        self: a.self,
+        organizer: a.organizer,
+      })),
+      htmlLink: event.htmlLink || '',
+      status: event.status || 'confirmed',
+    };
+  } catch (error: any) {
+    if (error.code === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Format pending invites as a text summary for MCP responses, with times in each invite's time zone
+ */
+export function formatInvitesAsText(invites: PendingInvite[], locale: Locale = DEFAULT_LOCALE): string {
+  if (invites.length === 0) {
+    return t(locale, 'list.none');
+  }
+  
+  let text = `${tPlural(locale, 'list.header', { count: invites.length })}\n\n`;
+  
+  invites.forEach((invite, index) => {
+    const when = formatTimeForDisplay(invite.startTime, invite.timeZone, invite.isAllDay, locale);
+    
+    text += `${index + 1}. **${invite.summary}**\n`;
+    text += `   - ${t(locale, 'list.when')}: ${when}\n`;
+    text += `   - ${t(locale, 'list.organizer')}: ${invite.organizerName || invite.organizerEmail}\n`;
+    if (invite.seriesPendingCount > 1) {
+      text += `   - ${t(locale, 'list.recurring')}: ${t(locale, 'list.recurringCount', { count: invite.seriesPendingCount })}\n`;
+    }
+    if (invite.conflicts.length > 0) {
+      const conflicts = invite.conflicts.map((c) => `${c.summary} (${t(locale, `status.${c.status}`)})`).join(', ');
+      text += `   - ${t(locale, 'list.conflicts')}: ${conflicts}\n`;
+    }
+    if (invite.location) {
+      text += `   - ${t(locale, 'list.location')}: ${invite.location}\n`;
+    }
+    text += `   - ${t(locale, 'list.calendar')}: ${invite.calendarName}\n`;
+    text += `   - ${t(locale, 'list.eventId')}: ${invite.eventId}\n`;
+    text += `   - ${t(locale, 'list.calendarId')}: ${invite.calendarId}\n\n`;
+  });
+  
+  text += `\n${t(locale, 'list.footer')}`;
+  
+  return text;
+}
+
+/**
+ * Format an agenda as a text summary for MCP responses, one section per day
+ */
+export function formatAgendaAsText(agenda: AgendaResponse, locale: Locale = DEFAULT_LOCALE): string {
+  const formatDay = (date: string) =>
+    new Date(date).toLocaleDateString(dateLocale(locale), { timeZone: 'UTC', weekday: 'short', month: 'short', day: 'numeric' });
+  const formatTime = (time: string) =>
+    new Date(time).toLocaleTimeString(dateLocale(locale), { timeZone: agenda.timeZone, hour: 'numeric', minute: '2-digit' });
+  
+  const first = agenda.days[0].date;
+  const last = agenda.days[agenda.days.length - 1].date;
+  
+  let text = t(locale, 'agenda.header', {
+    range: first === last ? formatDay(first) : `${formatDay(first)} – ${formatDay(last)}`,
+    timeZone: agenda.timeZone,
+  });
+  if (agenda.pendingCount > 0) {
+    text += ` ${tPlural(locale, 'agenda.pending', { count: agenda.pendingCount })}`;
+  }
+  text += '\n';
+  
+  for (const day of agenda.days) {
+    text += `\n**${formatDay(day.date)}**\n`;
+    if (day.events.length === 0) {
+      text += `- ${t(locale, 'agenda.empty')}\n`;
+      continue;
+    }
+    
+    for (const event of day.events) {
+      const when = event.isAllDay ? t(locale, 'agenda.allDay') : `${formatTime(event.startTime)} – ${formatTime(event.endTime)}`;
+      const status = t(locale, event.isOrganizer ? 'agenda.status.organizer' : `agenda.status.${event.responseStatus}`);
+      text += `- ${when}: ${event.summary} (${status})`;
+      if (event.responseStatus === 'needsAction') {
+        text += ` - ${t(locale, 'list.eventId')}: ${event.eventId}, ${t(locale, 'list.calendarId')}: ${event.calendarId}`;
+      }
+      text += '\n';
+    }
+  }
+  
+  if (agenda.pendingCount > 0) {
+    text += `\n${t(locale, 'agenda.respond')}`;
+  }
+  if (agenda.truncated) {
+    text += `\n${t(locale, 'pending.truncated').trim()}`;
+  }
+  
+  return text;
+}
@@ -0,0 +1,299 @@
+/**
+ * Push notifications for calendar changes via Google Calendar watch channels
+ * Each connected user gets one channel per calendar they can respond on.
+ * Google POSTs to the webhook whenever events change; each notification brings
+ * the sync cache up to date and records newly arrived invites, so nothing polls.
+ *
+ * Google only delivers to HTTPS addresses, so channels are not registered
+ * when the server is reached over plain HTTP (e.g. local development).
+ */
+
+import crypto from 'crypto';
+import { google, calendar_v3 } from 'googleapis';
+import { getAuthorizedClient } from './google-auth.js';
+import { getStorageBackend, KeyValueStore } from './kv-store.js';
+import {
+  getPendingInvites,
+  listRespondableCalendars,
+  syncCalendarChanges,
+} from './calendar-service.js';
+
+// Path Google delivers notifications to
+export const WATCH_WEBHOOK_PATH = '/webhooks/google-calendar';
+
+// Lifetime requested for new channels; Google may grant less
+const CHANNEL_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Channels expiring sooner than this are replaced
+const RENEW_BEFORE_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// Types
+// ============================================
+
+interface WatchChannel {
+  userId: string;
+  calendarId: string;
+  calendarName: string;
+  resourceId: string;
+  tokenHash: string;   // sha256 of the channel token Google echoes back
+  address: string;     // Webhook URL the channel delivers to
+  expiresAt: number;
+}
+
+// ============================================
+// Storage
+// ============================================
+
+// Watch channels by channel ID
+const watchChannels = (): KeyValueStore<WatchChannel> =>
+  getStorageBackend().collection('calendar-watch-channels');
+
+// Notifications being processed per user, so changes are applied one at a time
+const userQueues = new Map<string, Promise<void>>();
+
+/**
+ * Hash a channel token for storage
+ */
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Get a Calendar API client for a user
+ */
+async function getCalendarClient(userId: string): Promise<calendar_v3.Calendar> {
+  const auth = await getAuthorizedClient(userId);
+  return google.calendar({ version: 'v3', auth });
+}
+
+/**
+ * Get a user's watch channels, keyed by channel ID
+ */
+async function getUserChannels(userId: string): Promise<Array<[string, WatchChannel]>> {
+  return (await watchChannels().entries()).filter(([, channel]) => channel.userId === userId);
+}
+
+// ============================================
+// Channel Lifecycle
+// ============================================
+
+/**
+ * Open a watch channel on one calendar
+ */
+async function openChannel(
+  calendar: calendar_v3.Calendar,
+  userId: string,
+  source: { id: string; name: string },
+  address: string
+): Promise<void> {
+  const id = crypto.randomUUID();
+  const token = crypto.randomBytes(32).toString('hex');
+
+  const response = await calendar.events.watch({
+    calendarId: source.id,
+    requestBody: {
+      id,
+      type: 'web_hook',
+      address,
+      token,
+      expiration: String(Date.now() + CHANNEL_TTL_MS),
+    },
+  });
+
+  const expiresAt = Number(response.data.expiration) || Date.now() + CHANNEL_TTL_MS;
+
+  await watchChannels().set(id, {
+    userId,
+    calendarId: source.id,
+    calendarName: source.name,
+    resourceId: response.data.resourceId || '',
+    tokenHash: hashToken(token),
+    address,
+    expiresAt,
+  }, expiresAt);
+}
+
+/**
+ * Stop a watch channel and forget it. Stopping is best-effort: an unstoppable
+ * channel just expires, and its notifications are ignored once it's forgotten.
+ */
+async function closeChannel(
+  calendar: calendar_v3.Calendar | null,
+  id: string,
+  channel: WatchChannel
+): Promise<void> {
+  await watchChannels().delete(id);
+
+  if (!calendar) {
+    return;
+  }
+
+  try {
+    await calendar.channels.stop({ requestBody: { id, resourceId: channel.resourceId } });
+  } catch (error: any) {
+    console.warn(`Failed to stop watch channel ${id}: ${error.message}`);
+  }
+}
+
+/**
+ * Make sure every calendar the user can respond on has a live channel delivering
+ * to `address`, replacing channels close to expiry and closing ones no longer needed.
+ * Returns the number of channels opened.
+ */
+export async function watchCalendars(userId: string, address: string): Promise<number> {
+  if (!address.startsWith('https://')) {
+    console.log(`Skipping calendar push notifications for ${userId}: ${address} is not HTTPS`);
+    return 0;
+  }
+
+  const calendar = await getCalendarClient(userId);
+  const calendars = await listRespondableCalendars(userId);
+  const existing = await getUserChannels(userId);
+  const renewBy = Date.now() + RENEW_BEFORE_MS;
+  let opened = 0;
+
+  for (const source of calendars) {
+    const current = existing.filter(([, channel]) => channel.calendarId === source.id);
+    const live = current.some(([, channel]) => channel.address === address && channel.expiresAt > renewBy);
+
+    if (live) {
+      continue;
+    }
+
+    try {
+      // Open the replacement first so no changes are missed in between
+      await openChannel(calendar, userId, source, address);
+      opened++;
+    } catch (error: any) {
+      console.warn(`Failed to watch calendar ${source.id} for ${userId}: ${error.message}`);
+      continue;
+    }
+
+    for (const [id, channel] of current) {
+      await closeChannel(calendar, id, channel);
+    }
+  }
+
+  // Calendars the user unsubscribed from or can no longer respond on
+  for (const [id, channel] of existing) {
+    if (!calendars.some((source) => source.id === channel.calendarId)) {
+      await closeChannel(calendar, id, channel);
+    }
+  }
+
+  if (opened > 0) {
+    console.log(`Opened ${opened} calendar watch channel(s) for ${userId}`);
+    // Sync once so the first notifications have a baseline to compare against
+    await getPendingInvites(userId);
+  }
+
+  return opened;
+}
+
+/**
+ * Stop all of a user's watch channels (e.g. on logout).
+ * Call before deleting the user's Google tokens, which stopping needs.
+ */
+export async function stopWatchingCalendars(userId: string): Promise<void> {
+  const channels = await getUserChannels(userId);
+  if (channels.length === 0) {
+    return;
+  }
+
+  let calendar: calendar_v3.Calendar | null = null;
+  try {
+    calendar = await getCalendarClient(userId);
+  } catch {
+    // No usable Google tokens; the channels will expire on their own
+  }
+
+  for (const [id, channel] of channels) {
+    await closeChannel(calendar, id, channel);
+  }
+}
+
+/**
+ * Renew channels that are about to expire, for every watched user
+ */
+export async function renewWatchChannels(): Promise<void> {
+  await watchChannels().sweepExpired();
+
+  const renewBy = Date.now() + RENEW_BEFORE_MS;
+  const expiring = new Map<string, string>();
+
+  for (const [, channel] of await watchChannels().entries()) {
+    if (channel.expiresAt <= renewBy) {
+      expiring.set(channel.userId, channel.address);
+    }
+  }
+
+  for (const [userId, address] of expiring) {
+    try {
+      await watchCalendars(userId, address);
+    } catch (error: any) {
+      console.warn(`Failed to renew calendar watch channels for ${userId}: ${error.message}`);
+    }
+  }
+}
+
+// ============================================
+// Notifications
+// ============================================
+
+/**
+ * Look up the channel a notification claims to come from, checking its token.
+ * Returns null for unknown channels or a wrong token.
+ */
+export async function verifyWatchNotification(
+  channelId: string | undefined,
+  token: string | undefined
+): Promise<WatchChannel | null> {
+  if (!channelId || !token) {
+    return null;
+  }
+
+  const channel = await watchChannels().get(channelId);
+  if (!channel) {
+    return null;
+  }
+
+  const expected = Buffer.from(channel.tokenHash, 'hex');
+  const actual = Buffer.from(hashToken(token), 'hex');
+
+  return crypto.timingSafeEqual(expected, actual) ? channel : null;
+}
+
+/**
+ * Handle a verified notification: apply the calendar's changes and record new invites.
+ * Notifications for the same user are processed in order.
+ */
+export function handleWatchNotification(channel: WatchChannel, resourceState: string | undefined): Promise<void> {
+  // "sync" only confirms the channel was created
+  if (resourceState === 'sync') {
+    return Promise.resolve();
+  }
+
+  const previous = userQueues.get(channel.userId) || Promise.resolve();
+
+  const next = previous.then(async () => {
+    const arrived = await syncCalendarChanges(channel.userId, {
+      id: channel.calendarId,
+      name: channel.calendarName,
+    });
+
+    if (arrived.length > 0) {
+      console.log(`${arrived.length} new invite(s) on ${channel.calendarId} for user ${channel.userId}`);
+    }
+  });
+
+  const settled = next.catch(() => undefined);
+  userQueues.set(channel.userId, settled);
+  settled.then(() => {
+    if (userQueues.get(channel.userId) === settled) {
+      userQueues.delete(channel.userId);
+    }
+  });
+
+  return next;
+}
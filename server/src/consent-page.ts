@@ -0,0 +1,141 @@
+/**
+ * HTML consent screen for the MCP authorization endpoint
+ */
+
+// Human-readable descriptions for the scopes we issue
+const SCOPE_DESCRIPTIONS: Record<string, string> = {
+  'calendar:read': 'View your pending calendar invitations',
+  'calendar:write': 'Accept, decline or tentatively accept invitations on your behalf',
+  'mcp': 'Use this app\'s tools from ChatGPT',
+};
+
+export interface ConsentPageOptions {
+  requestId: string;
+  clientName: string;
+  scopes: string[];
+  resource?: string;
+  redirectUri: string;
+}
+
+/**
+ * Escape a value for safe interpolation into HTML
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Render the approve/deny page shown before a client is granted access
+ */
+export function renderConsentPage(options: ConsentPageOptions): string {
+  const { requestId, clientName, scopes, resource, redirectUri } = options;
+  const redirectHost = (() => {
+    try {
+      return new URL(redirectUri).host;
+    } catch {
+      return redirectUri;
+    }
+  })();
+
+  const scopeItems = scopes
+    .map((scope) => `
+        <li>
+          <span class="scope-name">${escapeHtml(scope)}</span>
+          <span class="scope-desc">${escapeHtml(SCOPE_DESCRIPTIONS[scope] || 'Additional access')}</span>
+        </li>`)
+    .join('');
+
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Authorize ${escapeHtml(clientName)}</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      min-height: 100vh;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      background: linear-gradient(135deg, #1a1a2e 0%, #16213e 100%);
+      color: white;
+    }
+    .container {
+      padding: 2.5rem;
+      max-width: 440px;
+      width: 100%;
+    }
+    h1 { font-size: 1.5rem; margin-bottom: 0.5rem; text-align: center; }
+    .client { color: #10a37f; font-weight: 600; }
+    .subtitle { color: #9ca3af; text-align: center; margin-bottom: 1.5rem; line-height: 1.6; }
+    .section {
+      background: rgba(255, 255, 255, 0.05);
+      border: 1px solid rgba(255, 255, 255, 0.1);
+      border-radius: 12px;
+      padding: 1rem 1.25rem;
+      margin-bottom: 1rem;
+    }
+    .label { font-size: 0.75rem; text-transform: uppercase; letter-spacing: 0.05em; color: #6b7280; margin-bottom: 0.5rem; }
+    ul { list-style: none; }
+    li { display: flex; flex-direction: column; padding: 0.4rem 0; }
+    .scope-name { font-family: ui-monospace, monospace; font-size: 0.875rem; }
+    .scope-desc { color: #9ca3af; font-size: 0.875rem; }
+    .value { font-family: ui-monospace, monospace; font-size: 0.875rem; word-break: break-all; }
+    .actions { display: flex; gap: 0.75rem; margin-top: 1.5rem; }
+    button {
+      flex: 1;
+      padding: 0.75rem 1rem;
+      border-radius: 8px;
+      border: none;
+      font-size: 1rem;
+      font-weight: 500;
+      cursor: pointer;
+      transition: background 0.2s;
+    }
+    .approve { background: #10a37f; color: white; }
+    .approve:hover { background: #0d8c6d; }
+    .deny { background: transparent; color: #d1d5db; border: 1px solid #4b5563; }
+    .deny:hover { background: rgba(255, 255, 255, 0.05); }
+    .note { font-size: 0.8rem; color: #6b7280; margin-top: 1rem; text-align: center; line-height: 1.5; }
+  </style>
+</head>
+<body>
+  <form class="container" method="POST" action="/oauth/authorize">
+    <h1><span class="client">${escapeHtml(clientName)}</span> wants to access your calendar</h1>
+    <p class="subtitle">Review what this app is asking for before continuing.</p>
+
+    <div class="section">
+      <p class="label">Requested permissions</p>
+      <ul>${scopeItems}
+      </ul>
+    </div>
+
+    ${resource ? `
+    <div class="section">
+      <p class="label">Resource</p>
+      <p class="value">${escapeHtml(resource)}</p>
+    </div>` : ''}
+
+    <div class="section">
+      <p class="label">You will be returned to</p>
+      <p class="value">${escapeHtml(redirectHost)}</p>
+    </div>
+
+    <input type="hidden" name="request_id" value="${escapeHtml(requestId)}">
+    <div class="actions">
+      <button type="submit" name="decision" value="deny" class="deny">Deny</button>
+      <button type="submit" name="decision" value="approve" class="approve">Approve</button>
+    </div>
+    <p class="note">After approving you will sign in with Google to choose which calendar account to connect.</p>
+  </form>
+</body>
+</html>`;
+}
@@ -1,7 +1,10 @@
 import { google } from 'googleapis';
 import { OAuth2Client } from 'google-auth-library';
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
 import { OAuth2Tokens } from './types.js';
-import { getTokens, saveTokens, updateTokens } from './token-store.js';
+import { getStorageBackend, KeyValueStore } from './kv-store.js';
+import { getTokens, saveTokens, updateTokens, getUserIdByEmail } from './token-store.js';
 
 // OAuth2 scopes required for Calendar access
 const SCOPES = [
@@ -72,6 +75,67 @@ export function getAuthUrl(state?: string): string {
   return authUrl;
 }
 
+// Google sign-ins waiting for their callback, keyed by their OAuth state. Each was
+// started by a browser session, recorded by a hash of its ID (which is a credential),
+// or made for a user by a tool call or bearer token request.
+type SignInState = { sessionHash: string } | { userId: string };
+
+const signInStates = (): KeyValueStore<SignInState> =>
+  getStorageBackend().collection('google-sign-in-states');
+
+// How long a started sign-in stays valid (10 minutes)
+const SIGN_IN_STATE_EXPIRY_MS = 10 * 60 * 1000;
+
+/**
+ * Hash a browser session ID for storing alongside a sign-in state
+ */
+function hashSessionId(sessionId: string): string {
+  return crypto.createHash('sha256').update(sessionId).digest('hex');
+}
+
+/**
+ * Start a Google sign-in for a browser session.
+ * Returns a random single-use OAuth state that only that session can complete.
+ */
+export async function createSignInState(sessionId: string): Promise<string> {
+  const state = crypto.randomBytes(24).toString('hex');
+  await signInStates().set(state, { sessionHash: hashSessionId(sessionId) }, Date.now() + SIGN_IN_STATE_EXPIRY_MS);
+  return state;
+}
+
+/**
+ * Get a Google sign-in URL that links the account to this user, whatever
+ * browser it is opened in. Its state is random, single-use and short-lived.
+ */
+export async function getUserSignInUrl(userId: string): Promise<string> {
+  const state = crypto.randomBytes(24).toString('hex');
+  await signInStates().set(state, { userId }, Date.now() + SIGN_IN_STATE_EXPIRY_MS);
+  return getAuthUrl(state);
+}
+
+/**
+ * Consume an OAuth state. Returns the user a sign-in URL was made for
+ * (see getUserSignInUrl), `{}` if this browser session started the sign-in,
+ * or null if the state is unknown, expired or belongs to another session.
+ */
+export async function consumeSignInState(
+  state: string,
+  sessionId: string | undefined
+): Promise<{ userId?: string } | null> {
+  const entry = await signInStates().get(state);
+  if (!entry) {
+    return null;
+  }
+  
+  // One-time use
+  await signInStates().delete(state);
+  
+  if ('userId' in entry) {
+    return { userId: entry.userId };
+  }
+  return sessionId && entry.sessionHash === hashSessionId(sessionId) ? {} : null;
+}
+
 /**
  * Exchange authorization code for tokens
  */
@@ -149,7 +213,7 @@ export async function refreshAccessToken(refreshToken: string): Promise<OAuth2To
  * Automatically refreshes token if needed
  */
 export async function getAuthorizedClient(userId: string): Promise<OAuth2Client> {
-  const storedData = getTokens(userId);
+  const storedData = await getTokens(userId);
   
   if (!storedData || !storedData.tokens) {
     throw new Error(`No tokens found for user: ${userId}`);
@@ -173,7 +237,7 @@ export async function getAuthorizedClient(userId: string): Promise<OAuth2Client>
       tokens = await refreshAccessToken(tokens.refresh_token);
       
       // Update stored tokens
-      updateTokens(userId, tokens);
+      await updateTokens(userId, tokens);
     }
   }
   
@@ -190,7 +254,7 @@ export async function getAuthorizedClient(userId: string): Promise<OAuth2Client>
  * Revoke tokens for a user (logout)
  */
 export async function revokeTokens(userId: string): Promise<boolean> {
-  const storedData = getTokens(userId);
+  const storedData = await getTokens(userId);
   
   if (!storedData || !storedData.tokens) {
     return false;
@@ -210,32 +274,44 @@ export async function revokeTokens(userId: string): Promise<boolean> {
 
 /**
  * Handle OAuth callback and save tokens
+ * A Google account is linked to one user only. If it already is, that user is
+ * reused and returned instead of `userId`, or with `exclusive` (a sign-in made
+ * for `userId` alone) the sign-in is refused. Without a userId, an account
+ * seen for the first time gets a new user.
  */
 export async function handleOAuthCallback(
   code: string,
-  userId: string
-): Promise<{ email: string }> {
+  userId?: string,
+  { exclusive = false }: { exclusive?: boolean } = {}
+): Promise<{ email: string; userId: string }> {
   const { tokens, email } = await exchangeCodeForTokens(code);
+  const linkedUserId = await getUserIdByEmail(email);
+  
+  if (exclusive && userId && linkedUserId && linkedUserId !== userId) {
+    throw new Error(`${email} is already connected to another account of this app`);
+  }
+  
+  const resolvedUserId = linkedUserId || userId || uuidv4();
   
   // Save tokens
-  saveTokens(userId, tokens, email);
+  await saveTokens(resolvedUserId, tokens, email);
   
-  return { email };
+  return { email, userId: resolvedUserId };
 }
 
 /**
  * Check if a user is authenticated
  */
-export function isAuthenticated(userId: string): boolean {
-  const storedData = getTokens(userId);
+export async function isAuthenticated(userId: string): Promise<boolean> {
+  const storedData = await getTokens(userId);
   return !!storedData && !!storedData.tokens && !!storedData.tokens.access_token;
 }
 
 /**
  * Get the email for an authenticated user
  */
-export function getUserEmail(userId: string): string | null {
-  const storedData = getTokens(userId);
+export async function getUserEmail(userId: string): Promise<string | null> {
+  const storedData = await getTokens(userId);
   return storedData?.email || null;
 }
 
@@ -0,0 +1,410 @@
+/**
+ * Message catalog for user-facing text in tool results and API responses
+ * Locales are negotiated from the Apps SDK locale hint on tool calls
+ * ("openai/locale") or the Accept-Language header, falling back to English.
+ */
+
+export const SUPPORTED_LOCALES = ['en', 'es'] as const;
+export type Locale = typeof SUPPORTED_LOCALES[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Locale used for Intl date formatting
+const DATE_LOCALES: Record<Locale, string> = {
+  en: 'en-US',
+  es: 'es-ES',
+};
+
+const en = {
+  // Responses
+  'respond.done.accepted': 'Successfully accepted "{title}"',
+  'respond.done.declined': 'Successfully declined "{title}"',
+  'respond.done.tentative': 'Successfully marked as tentative "{title}"',
+  'respond.you.accepted': 'You have accepted {target}',
+  'respond.you.declined': 'You have declined {target}',
+  'respond.you.tentative': 'You have marked as tentative {target}',
+  'respond.target.instance': 'the invitation "{summary}"',
+  'respond.target.series': 'every event in the series "{summary}"',
+  'respond.target.following_one': '{count} event of "{summary}", from this one on',
+  'respond.target.following_other': '{count} events of "{summary}", from this one on',
+  'respond.proposed': ' and proposed {start} – {end} instead',
+  'respond.withComment': ' with a comment to the organizer',
+  'respond.proposedTime': 'Proposed new time: {start} – {end}',
+  'respond.thisMeeting': 'this meeting',
+
+  // Batch responses
+  'batch.untitled': 'Untitled event',
+  'batch.item.accepted': 'accepted "{title}"',
+  'batch.item.declined': 'declined "{title}"',
+  'batch.item.tentative': 'marked tentative "{title}"',
+  'batch.failure.accepted': 'Failed to accept "{title}": {error}',
+  'batch.failure.declined': 'Failed to decline "{title}": {error}',
+  'batch.failure.tentative': 'Failed to mark tentative "{title}": {error}',
+  'batch.succeeded_one': 'Successfully processed {count}/{total} invite:',
+  'batch.succeeded_other': 'Successfully processed {count}/{total} invites:',
+  'batch.failed_one': 'Failed to process {count}/{total} invite:',
+  'batch.failed_other': 'Failed to process {count}/{total} invites:',
+  'batch.tooMany': 'Error: Cannot process more than {max} invites at once. You requested {count} invites. Please split into smaller batches.',
+
+  // Pending invites
+  'pending.found': 'Found {total} pending invitation(s), showing {shown}. Times are in {timeZone}.',
+  'pending.foundNew': 'Found {total} new pending invitation(s) since {since}, showing {shown}. Times are in {timeZone}.',
+  'pending.none': 'No pending invitations found.',
+  'pending.noneNew': 'No new pending invitations found.',
+  'pending.conflicts': ' {count} of them overlap events already on the calendar or other pending invites (see each invite\'s conflicts).',
+  'pending.series': ' {count} recurring series have several pending instances (see series); respond_to_invite with scope "series" answers a whole series at once.',
+  'pending.more': ' More invitations are available: call {tool} again with the nextCursor value as cursor.',
+  'pending.truncated': ' Some calendars have too many events in this range to scan fully; a shorter date range may find more invitations.',
+
+  // Invite list text
+  'list.none': 'You have no pending calendar invitations that need a response.',
+  'list.header_one': 'You have {count} pending calendar invitation:',
+  'list.header_other': 'You have {count} pending calendar invitations:',
+  'list.when': 'When',
+  'list.organizer': 'Organizer',
+  'list.recurring': 'Recurring',
+  'list.recurringCount': '{count} pending instances of this series',
+  'list.conflicts': 'Conflicts with',
+  'list.location': 'Location',
+  'list.calendar': 'Calendar',
+  'list.eventId': 'Event ID',
+  'list.calendarId': 'Calendar ID',
+  'list.footer': 'You can accept, decline, or mark as tentative any of these invitations.',
+  'status.accepted': 'accepted',
+  'status.tentative': 'tentative',
+  'status.pending': 'pending',
+  'time.allDay': '{date} (all day)',
+
+  // Suggestions
+  'suggest.header': 'Suggested responses for {shown} of {total} pending invitation(s):',
+  'suggest.label': 'Suggested',
+  'suggest.response.accepted': 'Accept',
+  'suggest.response.declined': 'Decline',
+  'suggest.response.tentative': 'Maybe',
+  'suggest.events': '{first} and {count} more',
+  'suggest.rule': 'Matches your rule "{name}"',
+  'suggest.conflict': 'Conflicts with {events}',
+  'suggest.tentativeConflict': 'Overlaps {events}, which you marked tentative',
+  'suggest.outsideHours': 'Outside your working hours ({start}–{end})',
+  'suggest.pendingOverlap': 'Overlaps another pending invite, {events}',
+  'suggest.allDay': 'All-day event; check whether you need to attend',
+  'suggest.internal': 'You\'re free, and it\'s from a colleague at {domain}',
+  'suggest.external': 'You\'re free; the organizer is outside your organization ({domain})',
+  'suggest.externalUnknown': 'You\'re free; the organizer is outside your organization',
+  'suggest.defaultHours': 'Working hours assumed: {hours} (the defaults). Save the user\'s own with set_working_hours, or pass working_hours.',
+
+  // Working hours
+  'hours.summary': '{start}–{end}, {days}',
+  'hours.saved': 'Saved your working hours: {hours}. They apply in your time zone.',
+  'hours.cleared': 'Cleared your saved working hours; the defaults apply again ({hours}).',
+
+  // Created and updated events
+  'event.created': 'Created "{title}":',
+  'event.updated': 'Updated "{title}":',
+  'event.meet': 'Google Meet',
+  'event.guests': 'Guests',
+  'event.invitesSent': 'Invitations were emailed to the guests.',
+  'event.updatesSent': 'Guests were emailed about the changes.',
+  'event.notNotified': 'Guests were not emailed.',
+
+  // Agenda
+  'agenda.header': 'Agenda for {range}. Times are in {timeZone}.',
+  'agenda.pending_one': '{count} invitation is waiting for your response.',
+  'agenda.pending_other': '{count} invitations are waiting for your response.',
+  'agenda.empty': 'Nothing scheduled',
+  'agenda.allDay': 'All day',
+  'agenda.status.accepted': 'accepted',
+  'agenda.status.tentative': 'tentative',
+  'agenda.status.declined': 'declined',
+  'agenda.status.needsAction': 'pending',
+  'agenda.status.organizer': 'organizer',
+  'agenda.respond': 'Answer pending invitations with respond_to_invite, using their event and calendar IDs.',
+
+  // Meeting times
+  'meeting.header_one': 'Found {count} time for a {duration}-minute meeting with {attendees}. Times are in {timeZone}, best first:',
+  'meeting.header_other': 'Found {count} times for a {duration}-minute meeting with {attendees}. Times are in {timeZone}, best first:',
+  'meeting.none': 'None of your working hours fall in the search window. Try a later or longer window.',
+  'meeting.fit.ideal': 'everyone is free',
+  'meeting.fit.outsideHours': 'outside working hours for {people}',
+  'meeting.fit.conflicts': 'busy: {people}',
+  'meeting.unknown': 'Couldn\'t see when {people} are busy, so they are counted as free.',
+  'meeting.defaultHours': 'Working hours aren\'t known for {people}, so the defaults were assumed ({hours}). Pass working_hours or attendee_working_hours if you know them.',
+  'meeting.schedule': 'To book a time, call create_event with its start and end and the attendees.',
+
+  // Sign-in
+  'auth.required': 'User needs to authenticate with Google Calendar.',
+  'auth.connected': 'User is connected to Google Calendar.',
+  'auth.notConnected': 'User needs to connect Google Calendar.',
+
+  // Errors
+  'common.error': 'Error: {message}',
+  'error.eventIdRequired': 'Error: event_id is required',
+  'error.invalidResponse': 'Error: response must be accepted, declined, or tentative',
+  'error.invalidScope': 'Error: scope must be instance, series, or following',
+  'error.titleStartRequired': 'Error: title and start are required',
+  'error.meetingArgsRequired': 'Error: attendees and duration_minutes are required',
+  'error.ruleIdRequired': 'Error: rule_id is required',
+  'error.ruleNotFound': 'Error: No rule with ID {id}',
+
+  // Invite rules
+  'rules.list_one': '{count} rule, checked in order:',
+  'rules.list_other': '{count} rules, checked in order:',
+  'rules.item': '{rule} (ID: {id})',
+  'rules.none': 'No invite rules yet. Use create_invite_rule to add one.',
+  'rules.created': 'Created rule {rule}. Use apply_invite_rules to see which invites it matches.',
+  'rules.updated': 'Updated rule {rule}',
+  'rules.deleted': 'Rule deleted.',
+  'rules.action.accepted': 'accept',
+  'rules.action.declined': 'decline',
+  'rules.action.tentative': 'maybe',
+  'rules.outcome': '"{summary}" from {organizer} → {action} by "{rule}"',
+  'rules.outcomeFailed': ' (failed: {error})',
+  'rules.noMatch_one': 'No rules match the {count} pending invitation.',
+  'rules.noMatch_other': 'No rules match any of the {count} pending invitations.',
+  'rules.dryRun_one': 'Dry run: rules would answer {count} of {total} pending invitations:',
+  'rules.dryRun_other': 'Dry run: rules would answer {count} of {total} pending invitations:',
+  'rules.dryRunHint': 'Call apply_invite_rules with dry_run false to send these responses.',
+  'rules.applied_one': 'Rules answered {count} of {total} pending invitations:',
+  'rules.applied_other': 'Rules answered {count} of {total} pending invitations:',
+  'rules.truncated': 'Not every pending invitation was checked; run the rules again or use a shorter date range.',
+  'rule.or': ' or ',
+  'rule.organizerDomains': 'organizer at {domains}',
+  'rule.organizerEmails': 'organizer is {emails}',
+  'rule.summaryContains': 'title contains {texts}',
+  'rule.calendarIds': 'on {calendars}',
+  'rule.allDay': 'all-day',
+  'rule.notAllDay': 'not all-day',
+  'rule.recurring': 'recurring',
+  'rule.notRecurring': 'not recurring',
+  'rule.onlyWhenFree': 'no conflicts',
+  'rule.disabled': ' (disabled)',
+  'rule.comment': ' with comment "{comment}"',
+};
+
+export type MessageKey = keyof typeof en;
+
+const es: Record<MessageKey, string> = {
+  // Responses
+  'respond.done.accepted': 'Aceptaste "{title}"',
+  'respond.done.declined': 'Rechazaste "{title}"',
+  'respond.done.tentative': 'Marcaste "{title}" como provisional',
+  'respond.you.accepted': 'Has aceptado {target}',
+  'respond.you.declined': 'Has rechazado {target}',
+  'respond.you.tentative': 'Has marcado como provisional {target}',
+  'respond.target.instance': 'la invitación "{summary}"',
+  'respond.target.series': 'todos los eventos de la serie "{summary}"',
+  'respond.target.following_one': '{count} evento de "{summary}", a partir de este',
+  'respond.target.following_other': '{count} eventos de "{summary}", a partir de este',
+  'respond.proposed': ' y has propuesto {start} – {end} en su lugar',
+  'respond.withComment': ' con un comentario para el organizador',
+  'respond.proposedTime': 'Nueva hora propuesta: {start} – {end}',
+  'respond.thisMeeting': 'esta reunión',
+
+  // Batch responses
+  'batch.untitled': 'Evento sin título',
+  'batch.item.accepted': 'aceptada "{title}"',
+  'batch.item.declined': 'rechazada "{title}"',
+  'batch.item.tentative': 'marcada como provisional "{title}"',
+  'batch.failure.accepted': 'No se pudo aceptar "{title}": {error}',
+  'batch.failure.declined': 'No se pudo rechazar "{title}": {error}',
+  'batch.failure.tentative': 'No se pudo marcar como provisional "{title}": {error}',
+  'batch.succeeded_one': 'Se procesó {count}/{total} invitación:',
+  'batch.succeeded_other': 'Se procesaron {count}/{total} invitaciones:',
+  'batch.failed_one': 'No se pudo procesar {count}/{total} invitación:',
+  'batch.failed_other': 'No se pudieron procesar {count}/{total} invitaciones:',
+  'batch.tooMany': 'Error: no se pueden procesar más de {max} invitaciones a la vez. Pediste {count}. Divídelas en lotes más pequeños.',
+
+  // Pending invites
+  'pending.found': 'Se encontraron {total} invitaciones pendientes; se muestran {shown}. Las horas están en {timeZone}.',
+  'pending.foundNew': 'Se encontraron {total} invitaciones pendientes nuevas desde {since}; se muestran {shown}. Las horas están en {timeZone}.',
+  'pending.none': 'No hay invitaciones pendientes.',
+  'pending.noneNew': 'No hay invitaciones pendientes nuevas.',
+  'pending.conflicts': ' {count} de ellas se solapan con eventos del calendario u otras invitaciones pendientes (ver los conflictos de cada invitación).',
+  'pending.series': ' {count} series periódicas tienen varias instancias pendientes (ver series); respond_to_invite con scope "series" responde a toda la serie a la vez.',
+  'pending.more': ' Hay más invitaciones: vuelve a llamar a {tool} con el valor de nextCursor como cursor.',
+  'pending.truncated': ' Algunos calendarios tienen demasiados eventos en este intervalo para revisarlos enteros; un intervalo más corto puede encontrar más invitaciones.',
+
+  // Invite list text
+  'list.none': 'No tienes invitaciones de calendario pendientes de respuesta.',
+  'list.header_one': 'Tienes {count} invitación de calendario pendiente:',
+  'list.header_other': 'Tienes {count} invitaciones de calendario pendientes:',
+  'list.when': 'Cuándo',
+  'list.organizer': 'Organizador',
+  'list.recurring': 'Periódica',
+  'list.recurringCount': '{count} instancias pendientes de esta serie',
+  'list.conflicts': 'Se solapa con',
+  'list.location': 'Lugar',
+  'list.calendar': 'Calendario',
+  'list.eventId': 'ID del evento',
+  'list.calendarId': 'ID del calendario',
+  'list.footer': 'Puedes aceptar, rechazar o marcar como provisional cualquiera de estas invitaciones.',
+  'status.accepted': 'aceptado',
+  'status.tentative': 'provisional',
+  'status.pending': 'pendiente',
+  'time.allDay': '{date} (todo el día)',
+
+  // Suggestions
+  'suggest.header': 'Respuestas sugeridas para {shown} de {total} invitaciones pendientes:',
+  'suggest.label': 'Sugerencia',
+  'suggest.response.accepted': 'Aceptar',
+  'suggest.response.declined': 'Rechazar',
+  'suggest.response.tentative': 'Quizás',
+  'suggest.events': '{first} y {count} más',
+  'suggest.rule': 'Coincide con tu regla "{name}"',
+  'suggest.conflict': 'Se solapa con {events}',
+  'suggest.tentativeConflict': 'Se solapa con {events}, que marcaste como provisional',
+  'suggest.outsideHours': 'Fuera de tu horario laboral ({start}–{end})',
+  'suggest.pendingOverlap': 'Se solapa con otra invitación pendiente, {events}',
+  'suggest.allDay': 'Evento de todo el día; comprueba si necesitas asistir',
+  'suggest.internal': 'Estás libre y es de un compañero de {domain}',
+  'suggest.external': 'Estás libre; el organizador es de fuera de tu organización ({domain})',
+  'suggest.externalUnknown': 'Estás libre; el organizador es de fuera de tu organización',
+  'suggest.defaultHours': 'Horario laboral supuesto: {hours} (el predeterminado). Guarda el del usuario con set_working_hours o pasa working_hours.',
+
+  // Horario laboral
+  'hours.summary': '{start}–{end}, {days}',
+  'hours.saved': 'Se guardó tu horario laboral: {hours}. Se aplica en tu zona horaria.',
+  'hours.cleared': 'Se borró tu horario laboral guardado; vuelve a aplicarse el predeterminado ({hours}).',
+
+  // Created and updated events
+  'event.created': 'Se creó "{title}":',
+  'event.updated': 'Se actualizó "{title}":',
+  'event.meet': 'Google Meet',
+  'event.guests': 'Invitados',
+  'event.invitesSent': 'Se enviaron las invitaciones por correo a los invitados.',
+  'event.updatesSent': 'Se avisó a los invitados de los cambios por correo.',
+  'event.notNotified': 'No se avisó a los invitados.',
+
+  // Agenda
+  'agenda.header': 'Agenda para {range}. Las horas están en {timeZone}.',
+  'agenda.pending_one': '{count} invitación espera tu respuesta.',
+  'agenda.pending_other': '{count} invitaciones esperan tu respuesta.',
+  'agenda.empty': 'Nada programado',
+  'agenda.allDay': 'Todo el día',
+  'agenda.status.accepted': 'aceptado',
+  'agenda.status.tentative': 'provisional',
+  'agenda.status.declined': 'rechazado',
+  'agenda.status.needsAction': 'pendiente',
+  'agenda.status.organizer': 'organizador',
+  'agenda.respond': 'Responde a las invitaciones pendientes con respond_to_invite, usando sus IDs de evento y calendario.',
+
+  // Meeting times
+  'meeting.header_one': 'Se encontró {count} hora para una reunión de {duration} minutos con {attendees}. Las horas están en {timeZone}, de mejor a peor:',
+  'meeting.header_other': 'Se encontraron {count} horas para una reunión de {duration} minutos con {attendees}. Las horas están en {timeZone}, de mejor a peor:',
+  'meeting.none': 'Ninguna parte de tu horario laboral cae en el intervalo de búsqueda. Prueba un intervalo posterior o más largo.',
+  'meeting.fit.ideal': 'todos están libres',
+  'meeting.fit.outsideHours': 'fuera del horario laboral de {people}',
+  'meeting.fit.conflicts': 'ocupados: {people}',
+  'meeting.unknown': 'No se pudo ver cuándo están ocupados {people}, así que se cuentan como libres.',
+  'meeting.defaultHours': 'No se conoce el horario laboral de {people}, así que se supuso el predeterminado ({hours}). Pasa working_hours o attendee_working_hours si lo conoces.',
+  'meeting.schedule': 'Para reservar una hora, llama a create_event con su inicio y fin y los asistentes.',
+
+  // Inicio de sesión
+  'auth.required': 'El usuario tiene que iniciar sesión con Google Calendar.',
+  'auth.connected': 'El usuario está conectado a Google Calendar.',
+  'auth.notConnected': 'El usuario tiene que conectar Google Calendar.',
+
+  // Errores
+  'common.error': 'Error: {message}',
+  'error.eventIdRequired': 'Error: falta event_id',
+  'error.invalidResponse': 'Error: response debe ser accepted, declined o tentative',
+  'error.invalidScope': 'Error: scope debe ser instance, series o following',
+  'error.titleStartRequired': 'Error: faltan title y start',
+  'error.meetingArgsRequired': 'Error: faltan attendees y duration_minutes',
+  'error.ruleIdRequired': 'Error: falta rule_id',
+  'error.ruleNotFound': 'Error: no hay ninguna regla con ID {id}',
+
+  // Reglas de invitaciones
+  'rules.list_one': '{count} regla, comprobada en orden:',
+  'rules.list_other': '{count} reglas, comprobadas en orden:',
+  'rules.item': '{rule} (ID: {id})',
+  'rules.none': 'Todavía no hay reglas de invitaciones. Usa create_invite_rule para añadir una.',
+  'rules.created': 'Se creó la regla {rule}. Usa apply_invite_rules para ver a qué invitaciones se aplica.',
+  'rules.updated': 'Se actualizó la regla {rule}',
+  'rules.deleted': 'Regla eliminada.',
+  'rules.action.accepted': 'aceptar',
+  'rules.action.declined': 'rechazar',
+  'rules.action.tentative': 'quizás',
+  'rules.outcome': '"{summary}" de {organizer} → {action} por "{rule}"',
+  'rules.outcomeFailed': ' (falló: {error})',
+  'rules.noMatch_one': 'Ninguna regla coincide con la invitación pendiente.',
+  'rules.noMatch_other': 'Ninguna regla coincide con ninguna de las {count} invitaciones pendientes.',
+  'rules.dryRun_one': 'Simulación: las reglas responderían {count} de {total} invitaciones pendientes:',
+  'rules.dryRun_other': 'Simulación: las reglas responderían {count} de {total} invitaciones pendientes:',
+  'rules.dryRunHint': 'Llama a apply_invite_rules con dry_run false para enviar estas respuestas.',
+  'rules.applied_one': 'Las reglas respondieron {count} de {total} invitaciones pendientes:',
+  'rules.applied_other': 'Las reglas respondieron {count} de {total} invitaciones pendientes:',
+  'rules.truncated': 'No se comprobaron todas las invitaciones pendientes; vuelve a aplicar las reglas o usa un intervalo de fechas más corto.',
+  'rule.or': ' o ',
+  'rule.organizerDomains': 'organizador en {domains}',
+  'rule.organizerEmails': 'el organizador es {emails}',
+  'rule.summaryContains': 'el título contiene {texts}',
+  'rule.calendarIds': 'en {calendars}',
+  'rule.allDay': 'de todo el día',
+  'rule.notAllDay': 'no de todo el día',
+  'rule.recurring': 'periódico',
+  'rule.notRecurring': 'no periódico',
+  'rule.onlyWhenFree': 'sin conflictos',
+  'rule.disabled': ' (desactivada)',
+  'rule.comment': ' con el comentario "{comment}"',
+};
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { en, es };
+
+// Keys with plural forms, e.g. "list.header" for "list.header_one" and "list.header_other"
+type PluralKey = MessageKey extends infer K ? K extends `${infer Base}_other` ? Base : never : never;
+
+/**
+ * Pick the best supported locale from a list of hints. Each hint is a
+ * language tag ("es-MX") or an Accept-Language header ("es-MX,es;q=0.9,en;q=0.8").
+ * Earlier hints win; within a header, higher q-values win.
+ */
+export function negotiateLocale(...hints: Array<string | null | undefined>): Locale {
+  for (const hint of hints) {
+    if (!hint) {
+      continue;
+    }
+
+    const ranges = hint.split(',')
+      .map((part, index) => {
+        const [tag, ...params] = part.trim().split(';');
+        const q = params.map((p) => p.trim()).find((p) => p.startsWith('q='));
+        return { tag: tag.trim().toLowerCase(), q: q ? parseFloat(q.slice(2)) : 1, index };
+      })
+      .filter((range) => range.tag && range.q > 0)
+      .sort((a, b) => b.q - a.q || a.index - b.index);
+
+    for (const { tag } of ranges) {
+      const language = tag.split(/[-_]/)[0];
+      const match = SUPPORTED_LOCALES.find((locale) => locale === language);
+      if (match) {
+        return match;
+      }
+    }
+  }
+
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * Get the Intl locale to format dates in
+ */
+export function dateLocale(locale: Locale): string {
+  return DATE_LOCALES[locale];
+}
+
+/**
+ * Look up a message and fill in its {placeholders}
+ */
+export function t(locale: Locale, key: MessageKey, params: Record<string, string | number> = {}): string {
+  const template = CATALOGS[locale][key] ?? en[key];
+  return template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+}
+
+/**
+ * Look up a message with plural forms, choosing "_one" or "_other" by params.count
+ */
+export function tPlural(locale: Locale, key: PluralKey, params: Record<string, string | number> & { count: number }): string {
+  const form = new Intl.PluralRules(dateLocale(locale)).select(params.count) === 'one' ? 'one' : 'other';
+  return t(locale, `${key}_${form}` as MessageKey, params);
+}
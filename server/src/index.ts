@@ -28,26 +28,66 @@ import { v4 as uuidv4 } from 'uuid';
 import {
   validateConfig,
   getAuthUrl,
+  createSignInState,
+  consumeSignInState,
   handleOAuthCallback,
+  getUserSignInUrl,
   isAuthenticated,
   getUserEmail,
 } from './google-auth.js';
 import {
+  clearSyncCache,
   getPendingInvites,
+  listCalendars,
   respondToInvite,
 } from './calendar-service.js';
-import { handleMCPRequest } from './mcp-server.js';
-import { deleteTokens } from './token-store.js';
+import { handleMCPRequest, getRequiredScopes } from './mcp-server.js';
+import { renderConsentPage } from './consent-page.js';
+import { deleteTokens, validateTokenStore } from './token-store.js';
+import { SESSION_MAX_AGE_MS, createSession, deleteSession, getSessionUserId, isSessionId } from './session-store.js';
+import {
+  WATCH_WEBHOOK_PATH,
+  handleWatchNotification,
+  stopWatchingCalendars,
+  verifyWatchNotification,
+  watchCalendars,
+} from './calendar-watch.js';
+import {
+  applyInviteRules,
+  createInviteRule,
+  deleteInviteRule,
+  listInviteRules,
+  updateInviteRule,
+} from './invite-rules.js';
+import { listScheduledJobs, listUserJobRuns, startScheduler } from './scheduler.js';
+import { suggestResponses } from './suggestions.js';
+import { negotiateLocale } from './i18n.js';
+import { getJwks, getSigningAlgorithm } from './jwt.js';
 import {
   validateClientCredentials,
   validateClientId,
   generateAccessToken,
   generateTokenPair,
   generateAuthorizationCode,
-  validateAccessToken,
+  createAuthorizationRequest,
+  getAuthorizationRequest,
+  approveAuthorizationRequest,
+  consumeAuthorizationRequest,
+  isAuthorizationRequestBrowser,
+  isRedirectUriAllowed,
+  getClient,
+  parseScopes,
+  hasScopes,
+  isAudienceAllowed,
+  getAccessTokenInfo,
   validateAuthorizationCode,
   validateRefreshToken,
   revokeRefreshToken,
+  revokeAccessToken,
+  introspectToken,
+  isDefaultClient,
+  isGrantTypeAllowed,
+  resolveClientScope,
   extractBearerToken,
   getTokenResponse,
   getOAuthCredentials,
@@ -59,9 +99,6 @@ import {
 const app = express();
 const PORT = process.env.PORT || 3000;
 
-// Default user ID for single-user demo
-const DEFAULT_USER_ID = 'default';
-
 // Middleware
 app.use(cors({
   origin: process.env.NODE_ENV === 'production' 
@@ -78,6 +115,120 @@ app.use((req: Request, _res: Response, next: NextFunction) => {
   next();
 });
 
+// ============================================
+// User Sessions
+// ============================================
+
+// Browser session cookie holding a session ID (see session-store.ts)
+const SESSION_COOKIE = 'rm_session';
+
+/**
+ * Read a single cookie value from the request
+ */
+function getCookie(req: Request, name: string): string | undefined {
+  const header = req.headers.cookie;
+  if (!header) {
+    return undefined;
+  }
+
+  for (const part of header.split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolve the user a request acts on behalf of.
+ * A bearer token gets the same checks as /mcp: it must be a valid access token
+ * for this server, bound to a user, with `requiredScopes` (pass the scopes of
+ * the matching tool, see getRequiredScopes). Without one, the browser session
+ * cookie is used, and a new session is started if there is none.
+ * Sends a 401 or 403 and returns null when the bearer token is rejected.
+ */
+async function resolveUserId(req: Request, res: Response, requiredScopes: string[] | null): Promise<string | null> {
+  const token = extractBearerToken(req.headers.authorization);
+  if (!token) {
+    return (await resolveSession(req, res)).userId;
+  }
+
+  const baseUrl = getBaseUrl(req);
+  const tokenInfo = await getAccessTokenInfo(token);
+
+  if (!tokenInfo?.userId || !isAudienceAllowed(tokenInfo.resource, baseUrl)) {
+    res.setHeader(
+      'WWW-Authenticate',
+      `Bearer resource_metadata="${baseUrl}/.well-known/oauth-protected-resource", error="invalid_token", error_description="Invalid access token"`
+    );
+    res.status(401).json({ success: false, error: 'Invalid access token' });
+    return null;
+  }
+
+  const scopes = parseScopes(tokenInfo.scope);
+  if (!requiredScopes || !hasScopes(scopes, requiredScopes)) {
+    const needed = (requiredScopes || []).join(' ');
+    console.log(`Insufficient scope for ${req.method} ${req.path}: has "${scopes.join(' ')}", needs "${needed}"`);
+    res.setHeader(
+      'WWW-Authenticate',
+      `Bearer resource_metadata="${baseUrl}/.well-known/oauth-protected-resource", error="insufficient_scope", scope="${needed}", error_description="This request requires additional permissions"`
+    );
+    res.status(403).json({ success: false, error: `Forbidden: requires scope ${needed}` });
+    return null;
+  }
+
+  return tokenInfo.userId;
+}
+
+/**
+ * Get the browser session and its user, starting a session for a new user if there is none
+ */
+async function resolveSession(req: Request, res: Response): Promise<{ sessionId: string; userId: string }> {
+  const sessionId = getSessionId(req);
+  const userId = sessionId ? await getSessionUserId(sessionId) : null;
+  if (sessionId && userId) {
+    return { sessionId, userId };
+  }
+
+  const newUserId = uuidv4();
+  return { sessionId: await startSession(res, newUserId), userId: newUserId };
+}
+
+/**
+ * Read the browser session cookie, if it holds a well-formed session ID
+ */
+function getSessionId(req: Request): string | undefined {
+  const sessionId = getCookie(req, SESSION_COOKIE);
+  return sessionId && isSessionId(sessionId) ? sessionId : undefined;
+}
+
+/**
+ * Start a browser session for a user and set its cookie, returning the session ID
+ */
+async function startSession(res: Response, userId: string): Promise<string> {
+  const sessionId = await createSession(userId);
+  res.cookie(SESSION_COOKIE, sessionId, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: SESSION_MAX_AGE_MS,
+  });
+  return sessionId;
+}
+
+/**
+ * End the browser session, if there is one, and clear its cookie
+ */
+async function endSession(req: Request, res: Response): Promise<void> {
+  const sessionId = getSessionId(req);
+  if (sessionId) {
+    await deleteSession(sessionId);
+  }
+  res.clearCookie(SESSION_COOKIE);
+}
+
 // ============================================
 // Health Check
 // ============================================
@@ -124,27 +275,30 @@ app.get('/widgets/:name.html', (req: Request, res: Response) => {
 // ============================================
 
 // Get auth status
-app.get('/auth/status', (_req: Request, res: Response) => {
-  const userId = DEFAULT_USER_ID;
-  const authenticated = isAuthenticated(userId);
+app.get('/auth/status', async (req: Request, res: Response) => {
+  const userId = await resolveUserId(req, res, ['calendar:read']);
+  if (!userId) {
+    return;
+  }
+  const authenticated = await isAuthenticated(userId);
   
   if (authenticated) {
     res.json({
       authenticated: true,
-      email: getUserEmail(userId),
+      email: await getUserEmail(userId),
     });
   } else {
     res.json({
       authenticated: false,
-      authUrl: getAuthUrl(userId),
+      authUrl: await getSignInUrl(req, userId),
     });
   }
 });
 
-// Initiate Google OAuth flow
-app.get('/auth/google', (_req: Request, res: Response) => {
-  const userId = DEFAULT_USER_ID;
-  const authUrl = getAuthUrl(userId);
+// Initiate Google OAuth flow for this browser session
+app.get('/auth/google', async (req: Request, res: Response) => {
+  const { sessionId } = await resolveSession(req, res);
+  const authUrl = getAuthUrl(await createSignInState(sessionId));
   res.redirect(authUrl);
 });
 
@@ -152,8 +306,14 @@ app.get('/auth/google', (_req: Request, res: Response) => {
 app.get('/oauth/callback', async (req: Request, res: Response) => {
   const { code, error, state } = req.query;
   
-  const userId = (state && typeof state === 'string') ? state : DEFAULT_USER_ID;
-  console.log(`OAuth callback for user: ${userId}`);
+  // Google sign-in started by /oauth/authorize: finish the MCP grant instead
+  if (typeof state === 'string' && state.startsWith(MCP_AUTH_STATE_PREFIX)) {
+    return completeMCPAuthorization(req, res, state.slice(MCP_AUTH_STATE_PREFIX.length));
+  }
+  
+  // A sign-in URL made for a user links that user; any other sign-in may only be
+  // finished by the browser session that started it (login CSRF)
+  const signIn = typeof state === 'string' ? await consumeSignInState(state, getSessionId(req)) : null;
 
   const renderPage = (success: boolean, message: string, email?: string) => {
     const bgColor = success ? '#10a37f' : '#ef4444';
@@ -233,13 +393,26 @@ app.get('/oauth/callback', async (req: Request, res: Response) => {
     return res.send(renderPage(false, 'Google authorization was denied or failed. Please try again.'));
   }
 
+  if (!signIn) {
+    return res.status(400).send(renderPage(false, 'This sign-in link has expired or was started in another browser. Please try again.'));
+  }
+
   if (!code || typeof code !== 'string') {
     return res.send(renderPage(false, 'No authorization code received. Please try again.'));
   }
 
   try {
-    const { email } = await handleOAuthCallback(code, userId);
+    const sessionUserId = signIn.userId ? undefined : (await resolveSession(req, res)).userId;
+    const { email, userId } = await handleOAuthCallback(code, signIn.userId || sessionUserId, { exclusive: !!signIn.userId });
+    console.log(`OAuth callback for user: ${userId}`);
+    
+    // The account was already linked to another user: the browser session switches to it
+    if (sessionUserId && userId !== sessionUserId) {
+      await endSession(req, res);
+      await startSession(res, userId);
+    }
     console.log(`Successfully authenticated user: ${email}`);
+    startCalendarWatch(req, userId);
     
     res.send(renderPage(
       true, 
@@ -253,9 +426,15 @@ app.get('/oauth/callback', async (req: Request, res: Response) => {
 });
 
 // Logout
-app.post('/auth/logout', (_req: Request, res: Response) => {
-  const userId = DEFAULT_USER_ID;
-  deleteTokens(userId);
+app.post('/auth/logout', async (req: Request, res: Response) => {
+  const userId = await resolveUserId(req, res, ['calendar:write']);
+  if (!userId) {
+    return;
+  }
+  await stopWatchingCalendars(userId);
+  await deleteTokens(userId);
+  await clearSyncCache(userId);
+  await endSession(req, res);
   res.json({ success: true, message: 'Logged out successfully' });
 });
 
@@ -265,14 +444,17 @@ app.post('/auth/logout', (_req: Request, res: Response) => {
 
 // Get pending invites
 app.get('/api/pending-invites', async (req: Request, res: Response) => {
-  const userId = DEFAULT_USER_ID;
-  const { start_date, end_date } = req.query;
+  const userId = await resolveUserId(req, res, getRequiredScopes('get_pending_reservations'));
+  if (!userId) {
+    return;
+  }
+  const { start_date, end_date, calendar_ids, cursor, page_size, arrived_since, time_zone } = req.query;
 
-  if (!isAuthenticated(userId)) {
+  if (!(await isAuthenticated(userId))) {
     return res.status(401).json({
       success: false,
       error: 'Not authenticated',
-      authUrl: getAuthUrl(userId),
+      authUrl: await getSignInUrl(req, userId),
     });
   }
 
@@ -280,7 +462,15 @@ app.get('/api/pending-invites', async (req: Request, res: Response) => {
     const invites = await getPendingInvites(
       userId,
       start_date as string | undefined,
-      end_date as string | undefined
+      end_date as string | undefined,
+      // Comma-separated calendar IDs; omitted means every calendar the user can respond on
+      calendar_ids ? (calendar_ids as string).split(',').map((id) => id.trim()).filter(Boolean) : undefined,
+      {
+        cursor: cursor as string | undefined,
+        pageSize: page_size ? parseInt(page_size as string, 10) : undefined,
+        arrivedSince: arrived_since as string | undefined,
+        timeZone: time_zone as string | undefined,
+      }
     );
     res.json({ success: true, data: invites });
   } catch (err: any) {
@@ -289,16 +479,79 @@ app.get('/api/pending-invites', async (req: Request, res: Response) => {
   }
 });
 
+// Get pending invites with a suggested response for each
+app.get('/api/suggestions', async (req: Request, res: Response) => {
+  const userId = await resolveUserId(req, res, getRequiredScopes('suggest_responses'));
+  if (!userId) {
+    return;
+  }
+  const { start_date, end_date, calendar_ids, cursor, page_size, time_zone } = req.query;
+
+  if (!(await isAuthenticated(userId))) {
+    return res.status(401).json({
+      success: false,
+      error: 'Not authenticated',
+      authUrl: await getSignInUrl(req, userId),
+    });
+  }
+
+  try {
+    const suggestions = await suggestResponses(
+      userId,
+      start_date as string | undefined,
+      end_date as string | undefined,
+      calendar_ids ? (calendar_ids as string).split(',').map((id) => id.trim()).filter(Boolean) : undefined,
+      {
+        cursor: cursor as string | undefined,
+        pageSize: page_size ? parseInt(page_size as string, 10) : undefined,
+        timeZone: time_zone as string | undefined,
+        locale: negotiateLocale(req.get('accept-language')),
+      }
+    );
+    res.json({ success: true, data: suggestions });
+  } catch (err: any) {
+    console.error('Error suggesting responses:', err);
+    res.status(500).json({ success: false, error: err.message });
+  }
+});
+
+// List the user's calendars
+app.get('/api/calendars', async (req: Request, res: Response) => {
+  const userId = await resolveUserId(req, res, ['calendar:read']);
+  if (!userId) {
+    return;
+  }
+
+  if (!(await isAuthenticated(userId))) {
+    return res.status(401).json({
+      success: false,
+      error: 'Not authenticated',
+      authUrl: await getSignInUrl(req, userId),
+    });
+  }
+
+  try {
+    const calendars = await listCalendars(userId);
+    res.json({ success: true, data: calendars });
+  } catch (err: any) {
+    console.error('Error listing calendars:', err);
+    res.status(500).json({ success: false, error: err.message });
+  }
+});
+
 // Respond to an invite
 app.post('/api/respond', async (req: Request, res: Response) => {
-  const userId = DEFAULT_USER_ID;
-  const { eventId, response } = req.body;
+  const userId = await resolveUserId(req, res, getRequiredScopes('respond_to_invite'));
+  if (!userId) {
+    return;
+  }
+  const { eventId, calendarId, response, scope, comment, proposedStart, proposedEnd } = req.body;
 
-  if (!isAuthenticated(userId)) {
+  if (!(await isAuthenticated(userId))) {
     return res.status(401).json({
       success: false,
       error: 'Not authenticated',
-      authUrl: getAuthUrl(userId),
+      authUrl: await getSignInUrl(req, userId),
     });
   }
 
@@ -316,8 +569,23 @@ app.post('/api/respond', async (req: Request, res: Response) => {
     });
   }
 
+  if (scope && !['instance', 'series', 'following'].includes(scope)) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid scope. Must be: instance, series, or following',
+    });
+  }
+
   try {
-    const result = await respondToInvite(userId, eventId, response);
+    const result = await respondToInvite(
+      userId,
+      eventId,
+      response,
+      calendarId,
+      scope,
+      { comment, proposedStart, proposedEnd },
+      negotiateLocale(req.get('accept-language'))
+    );
     res.json({ success: true, data: result });
   } catch (err: any) {
     console.error('Error responding to invite:', err);
@@ -325,10 +593,143 @@ app.post('/api/respond', async (req: Request, res: Response) => {
   }
 });
 
+// List the user's invite rules, in evaluation order
+app.get('/api/rules', async (req: Request, res: Response) => {
+  const userId = await resolveUserId(req, res, getRequiredScopes('list_invite_rules'));
+  if (!userId) {
+    return;
+  }
+  res.json({ success: true, data: await listInviteRules(userId) });
+});
+
+// Add an invite rule
+app.post('/api/rules', async (req: Request, res: Response) => {
+  const userId = await resolveUserId(req, res, getRequiredScopes('create_invite_rule'));
+  if (!userId) {
+    return;
+  }
+  const { name, action, conditions, comment, enabled } = req.body;
+
+  try {
+    const rule = await createInviteRule(userId, { name, action, conditions, comment, enabled });
+    res.status(201).json({ success: true, data: rule });
+  } catch (err: any) {
+    res.status(400).json({ success: false, error: err.message });
+  }
+});
+
+// Change some of an invite rule's fields
+app.patch('/api/rules/:id', async (req: Request, res: Response) => {
+  const userId = await resolveUserId(req, res, getRequiredScopes('update_invite_rule'));
+  if (!userId) {
+    return;
+  }
+  const { name, action, conditions, comment, enabled } = req.body;
+
+  try {
+    const rule = await updateInviteRule(userId, req.params.id, { name, action, conditions, comment, enabled });
+    if (!rule) {
+      return res.status(404).json({ success: false, error: 'Rule not found' });
+    }
+    res.json({ success: true, data: rule });
+  } catch (err: any) {
+    res.status(400).json({ success: false, error: err.message });
+  }
+});
+
+// Delete an invite rule
+app.delete('/api/rules/:id', async (req: Request, res: Response) => {
+  const userId = await resolveUserId(req, res, getRequiredScopes('delete_invite_rule'));
+  if (!userId) {
+    return;
+  }
+
+  if (!(await deleteInviteRule(userId, req.params.id))) {
+    return res.status(404).json({ success: false, error: 'Rule not found' });
+  }
+  res.json({ success: true });
+});
+
+// Check pending invites against the rules; responds only when dryRun is false
+app.post('/api/rules/apply', async (req: Request, res: Response) => {
+  const { dryRun, startDate, endDate } = req.body;
+  const userId = await resolveUserId(req, res, getRequiredScopes('apply_invite_rules', { dry_run: dryRun }));
+  if (!userId) {
+    return;
+  }
+
+  if (!(await isAuthenticated(userId))) {
+    return res.status(401).json({
+      success: false,
+      error: 'Not authenticated',
+      authUrl: await getSignInUrl(req, userId),
+    });
+  }
+
+  try {
+    const result = await applyInviteRules(userId, { dryRun: dryRun !== false, startDate, endDate });
+    res.json({ success: true, data: result });
+  } catch (err: any) {
+    console.error('Error applying invite rules:', err);
+    res.status(500).json({ success: false, error: err.message });
+  }
+});
+
+// Background jobs and their recent runs. Each run only shows the caller's own results.
+app.get('/api/jobs', async (req: Request, res: Response) => {
+  const userId = await resolveUserId(req, res, ['calendar:read']);
+  if (!userId) {
+    return;
+  }
+  const { job, limit } = req.query;
+
+  try {
+    const runs = await listUserJobRuns(userId, {
+      job: job as string | undefined,
+      limit: limit ? parseInt(limit as string, 10) : undefined,
+    });
+    res.json({ success: true, data: { jobs: listScheduledJobs(), runs } });
+  } catch (err: any) {
+    console.error('Error listing job runs:', err);
+    res.status(500).json({ success: false, error: err.message });
+  }
+});
+
+// ============================================
+// Google Calendar Push Notifications
+// ============================================
+
+// Change notifications from Google Calendar watch channels
+app.post(WATCH_WEBHOOK_PATH, async (req: Request, res: Response) => {
+  const channel = await verifyWatchNotification(
+    req.header('X-Goog-Channel-ID'),
+    req.header('X-Goog-Channel-Token')
+  );
+
+  if (!channel) {
+    return res.status(404).end();
+  }
+
+  // Acknowledge straight away; Google retries deliveries that are slow to respond
+  res.status(200).end();
+
+  try {
+    await handleWatchNotification(channel, req.header('X-Goog-Resource-State'));
+  } catch (err: any) {
+    console.error(`Error handling calendar notification for ${channel.userId}:`, err.message);
+  }
+});
+
 // ============================================
 // OAuth 2.0 Discovery Endpoints (Required by ChatGPT)
 // ============================================
 
+// Google OAuth state prefix marking a sign-in started by /oauth/authorize
+const MCP_AUTH_STATE_PREFIX = 'mcp:';
+
+// Cookie tying an /oauth/authorize request to the browser that opened its consent page
+const AUTHORIZE_COOKIE = 'rm_authorize';
+
 // Get the base URL for this server
 function getBaseUrl(req: Request): string {
   const protocol = req.headers['x-forwarded-proto'] || req.protocol || 'https';
@@ -336,6 +737,21 @@ function getBaseUrl(req: Request): string {
   return `${protocol}://${host}`;
 }
 
+// Google sign-in for the user a request acts for. Bearer token requests get a link
+// bound to the token's user; browser sessions sign in through /auth/google.
+async function getSignInUrl(req: Request, userId: string): Promise<string> {
+  return extractBearerToken(req.headers.authorization)
+    ? getUserSignInUrl(userId)
+    : `${getBaseUrl(req)}/auth/google`;
+}
+
+// Start calendar push notifications for a newly connected user, without holding up the response
+function startCalendarWatch(req: Request, userId: string): void {
+  watchCalendars(userId, `${getBaseUrl(req)}${WATCH_WEBHOOK_PATH}`).catch((err) => {
+    console.warn(`Failed to start calendar push notifications for ${userId}:`, err.message);
+  });
+}
+
 // OAuth 2.0 Authorization Server Metadata (RFC 8414)
 app.get('/.well-known/oauth-authorization-server', (req: Request, res: Response) => {
   const baseUrl = getBaseUrl(req);
@@ -345,7 +761,12 @@ app.get('/.well-known/oauth-authorization-server', (req: Request, res: Response)
     authorization_endpoint: `${baseUrl}/oauth/authorize`,
     token_endpoint: `${baseUrl}/oauth/token`,
     registration_endpoint: `${baseUrl}/oauth/register`,
+    revocation_endpoint: `${baseUrl}/oauth/revoke`,
+    introspection_endpoint: `${baseUrl}/oauth/introspect`,
+    jwks_uri: `${baseUrl}/.well-known/jwks.json`,
     token_endpoint_auth_methods_supported: ['client_secret_post', 'client_secret_basic', 'none'],
+    revocation_endpoint_auth_methods_supported: ['client_secret_post', 'client_secret_basic'],
+    introspection_endpoint_auth_methods_supported: ['client_secret_post', 'client_secret_basic'],
     grant_types_supported: ['authorization_code', 'client_credentials', 'refresh_token'],
     response_types_supported: ['code'],
     scopes_supported: ['calendar:read', 'calendar:write', 'mcp'],
@@ -355,22 +776,39 @@ app.get('/.well-known/oauth-authorization-server', (req: Request, res: Response)
 });
 
 // OpenID Connect Discovery
-app.get('/.well-known/openid-configuration', (req: Request, res: Response) => {
+app.get('/.well-known/openid-configuration', async (req: Request, res: Response) => {
   const baseUrl = getBaseUrl(req);
   
-  res.json({
-    issuer: baseUrl,
-    authorization_endpoint: `${baseUrl}/oauth/authorize`,
-    token_endpoint: `${baseUrl}/oauth/token`,
-    registration_endpoint: `${baseUrl}/oauth/register`,
-    token_endpoint_auth_methods_supported: ['client_secret_post', 'client_secret_basic', 'none'],
-    grant_types_supported: ['authorization_code', 'client_credentials', 'refresh_token'],
-    response_types_supported: ['code'],
-    scopes_supported: ['calendar:read', 'calendar:write', 'mcp'],
-    subject_types_supported: ['public'],
-    id_token_signing_alg_values_supported: ['RS256'],
-    code_challenge_methods_supported: ['S256'],
-  });
+  try {
+    res.json({
+      issuer: baseUrl,
+      authorization_endpoint: `${baseUrl}/oauth/authorize`,
+      token_endpoint: `${baseUrl}/oauth/token`,
+      registration_endpoint: `${baseUrl}/oauth/register`,
+      jwks_uri: `${baseUrl}/.well-known/jwks.json`,
+      token_endpoint_auth_methods_supported: ['client_secret_post', 'client_secret_basic', 'none'],
+      grant_types_supported: ['authorization_code', 'client_credentials', 'refresh_token'],
+      response_types_supported: ['code'],
+      scopes_supported: ['calendar:read', 'calendar:write', 'mcp'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: [await getSigningAlgorithm()],
+      code_challenge_methods_supported: ['S256'],
+    });
+  } catch (err: any) {
+    console.error('Error loading JWT signing key:', err);
+    res.status(500).json({ error: 'server_error', error_description: 'Signing key unavailable' });
+  }
+});
+
+// JSON Web Key Set for verifying JWT access tokens
+app.get('/.well-known/jwks.json', async (_req: Request, res: Response) => {
+  try {
+    res.setHeader('Cache-Control', 'public, max-age=3600');
+    res.json(await getJwks());
+  } catch (err: any) {
+    console.error('Error loading JWT signing key:', err);
+    res.status(500).json({ error: 'server_error', error_description: 'Signing key unavailable' });
+  }
 });
 
 // OpenAI Domain Verification
@@ -399,11 +837,11 @@ app.get('/.well-known/oauth-protected-resource', (req: Request, res: Response) =
 });
 
 // Dynamic Client Registration (RFC 7591)
-app.post('/oauth/register', (req: Request, res: Response) => {
+app.post('/oauth/register', async (req: Request, res: Response) => {
   const registrationRequest: ClientRegistrationRequest = req.body;
   
   try {
-    const response = registerClient(registrationRequest);
+    const response = await registerClient(registrationRequest);
     console.log('Dynamic client registration:', response.client_id);
     res.status(201).json(response);
   } catch (err: any) {
@@ -416,7 +854,7 @@ app.post('/oauth/register', (req: Request, res: Response) => {
 });
 
 // OAuth Authorization Endpoint (for authorization code flow with PKCE)
-app.get('/oauth/authorize', (req: Request, res: Response) => {
+app.get('/oauth/authorize', async (req: Request, res: Response) => {
   const { 
     client_id, 
     redirect_uri, 
@@ -429,7 +867,7 @@ app.get('/oauth/authorize', (req: Request, res: Response) => {
   } = req.query;
   
   // Validate client
-  if (!client_id || !validateClientId(client_id as string)) {
+  if (!client_id || !(await validateClientId(client_id as string))) {
     return res.status(400).json({ 
       error: 'invalid_client',
       error_description: 'Unknown or invalid client_id',
@@ -450,45 +888,226 @@ app.get('/oauth/authorize', (req: Request, res: Response) => {
     });
   }
   
-  // Generate authorization code with PKCE support and resource parameter
-  const authCode = generateAuthorizationCode(
-    client_id as string,
-    redirect_uri as string,
-    code_challenge as string | undefined,
-    code_challenge_method as string | undefined,
-    scope as string | undefined,
-    resource as string | undefined
-  );
+  // Never redirect (not even errors) to a URI the client did not register
+  if (!(await isRedirectUriAllowed(client_id as string, redirect_uri as string))) {
+    return res.status(400).json({
+      error: 'invalid_request',
+      error_description: 'redirect_uri is not registered for this client',
+    });
+  }
   
-  console.log(`Authorization code generated for client: ${client_id}${resource ? ` (resource: ${resource})` : ''}`);
+  // Only issue grants for this server (RFC 8707)
+  if (resource && !isAudienceAllowed(resource as string, getBaseUrl(req))) {
+    const redirectUrl = new URL(redirect_uri as string);
+    redirectUrl.searchParams.set('error', 'invalid_target');
+    redirectUrl.searchParams.set('error_description', 'The requested resource is not served by this server');
+    if (state) {
+      redirectUrl.searchParams.set('state', state as string);
+    }
+    return res.redirect(redirectUrl.toString());
+  }
   
-  // Redirect back with code
-  const redirectUrl = new URL(redirect_uri as string);
-  redirectUrl.searchParams.set('code', authCode);
-  if (state) {
-    redirectUrl.searchParams.set('state', state as string);
+  // Only grant scopes the client registered
+  const grantedScope = await resolveClientScope(client_id as string, scope as string | undefined);
+  if (grantedScope === null) {
+    const redirectUrl = new URL(redirect_uri as string);
+    redirectUrl.searchParams.set('error', 'invalid_scope');
+    redirectUrl.searchParams.set('error_description', 'The requested scope is not registered for this client');
+    if (state) {
+      redirectUrl.searchParams.set('state', state as string);
+    }
+    return res.redirect(redirectUrl.toString());
   }
   
-  res.redirect(redirectUrl.toString());
+  // Park the request while the user reviews consent and signs in with Google;
+  // the code is issued from the Google callback, bound to the resulting account
+  const { requestId, browserNonce, expiresAt } = await createAuthorizationRequest({
+    clientId: client_id as string,
+    redirectUri: redirect_uri as string,
+    state: state as string | undefined,
+    codeChallenge: code_challenge as string | undefined,
+    codeChallengeMethod: code_challenge_method as string | undefined,
+    scope: grantedScope,
+    resource: resource as string | undefined,
+  });
+  
+  const client = await getClient(client_id as string);
+  
+  // Only this browser may approve the request and finish the Google sign-in
+  res.cookie(AUTHORIZE_COOKIE, browserNonce, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/oauth',
+    maxAge: expiresAt - Date.now(),
+  });
+  
+  // Prevent the consent screen from being framed (clickjacking)
+  res.setHeader('X-Frame-Options', 'DENY');
+  res.setHeader('Content-Security-Policy', "frame-ancestors 'none'");
+  res.send(renderConsentPage({
+    requestId,
+    clientName: client?.client_name || (client_id as string),
+    scopes: parseScopes(grantedScope),
+    resource: resource as string | undefined,
+    redirectUri: redirect_uri as string,
+  }));
 });
 
-// ============================================
-// MCP OAuth Token Endpoint (for ChatGPT authentication)
-// ============================================
-app.post('/oauth/token', (req: Request, res: Response) => {
-  const { grant_type, client_id, client_secret, code, redirect_uri, code_verifier, refresh_token, resource } = req.body;
+// Consent decision from the authorization page
+app.post('/oauth/authorize', async (req: Request, res: Response) => {
+  const { request_id, decision } = req.body;
+  
+  const authRequest = typeof request_id === 'string' ? await getAuthorizationRequest(request_id) : null;
+  
+  if (!authRequest) {
+    return res.status(400).json({
+      error: 'invalid_request',
+      error_description: 'Authorization request expired or not found. Please reconnect the app.',
+    });
+  }
+  
+  if (!isAuthorizationRequestBrowser(authRequest, getCookie(req, AUTHORIZE_COOKIE))) {
+    console.log(`Rejected consent for client ${authRequest.clientId}: submitted from another browser`);
+    return res.status(403).json({
+      error: 'access_denied',
+      error_description: 'This authorization was started in another browser. Please reconnect the app.',
+    });
+  }
+  
+  if (decision !== 'approve') {
+    await consumeAuthorizationRequest(request_id);
+    console.log(`Authorization denied for client: ${authRequest.clientId}`);
+    
+    const redirectUrl = new URL(authRequest.redirectUri);
+    redirectUrl.searchParams.set('error', 'access_denied');
+    redirectUrl.searchParams.set('error_description', 'The user denied the authorization request');
+    if (authRequest.state) {
+      redirectUrl.searchParams.set('state', authRequest.state);
+    }
+    return res.redirect(redirectUrl.toString());
+  }
+  
+  await approveAuthorizationRequest(request_id);
+  res.redirect(getAuthUrl(`${MCP_AUTH_STATE_PREFIX}${request_id}`));
+});
 
-  // Also check Authorization header for client credentials
-  let authClientId = client_id;
-  let authClientSecret = client_secret;
+/**
+ * Finish an MCP authorization after Google sign-in:
+ * link the Google account, then redirect to the client with a code bound to that user
+ */
+async function completeMCPAuthorization(req: Request, res: Response, requestId: string): Promise<void> {
+  const authRequest = await consumeAuthorizationRequest(requestId);
+  
+  if (!authRequest || !authRequest.approved) {
+    res.status(400).json({
+      error: 'invalid_request',
+      error_description: 'Authorization request expired or not found. Please reconnect the app.',
+    });
+    return;
+  }
+  
+  // The Google sign-in must finish in the browser that approved the consent screen
+  if (!isAuthorizationRequestBrowser(authRequest, getCookie(req, AUTHORIZE_COOKIE))) {
+    console.log(`Rejected Google sign-in for client ${authRequest.clientId}: finished in another browser`);
+    res.status(403).json({
+      error: 'access_denied',
+      error_description: 'This authorization was started in another browser. Please reconnect the app.',
+    });
+    return;
+  }
+  res.clearCookie(AUTHORIZE_COOKIE, { path: '/oauth' });
+  
+  const redirectUrl = new URL(authRequest.redirectUri);
+  if (authRequest.state) {
+    redirectUrl.searchParams.set('state', authRequest.state);
+  }
+  
+  const { code, error } = req.query;
+  
+  if (error || !code || typeof code !== 'string') {
+    console.error('Google sign-in failed during MCP authorization:', error);
+    redirectUrl.searchParams.set('error', 'access_denied');
+    redirectUrl.searchParams.set('error_description', 'Google sign-in was denied or failed');
+    res.redirect(redirectUrl.toString());
+    return;
+  }
+  
+  try {
+    const { email, userId } = await handleOAuthCallback(code);
+    await endSession(req, res);
+    await startSession(res, userId);
+    startCalendarWatch(req, userId);
+    
+    // Generate authorization code with PKCE support and resource parameter
+    const authCode = await generateAuthorizationCode(
+      authRequest.clientId,
+      authRequest.redirectUri,
+      authRequest.codeChallenge,
+      authRequest.codeChallengeMethod,
+      authRequest.scope,
+      authRequest.resource,
+      userId
+    );
+    
+    console.log(`Authorization code generated for client: ${authRequest.clientId} user: ${email}${authRequest.resource ? ` (resource: ${authRequest.resource})` : ''}`);
+    redirectUrl.searchParams.set('code', authCode);
+  } catch (err: any) {
+    console.error('Google token exchange failed during MCP authorization:', err);
+    redirectUrl.searchParams.set('error', 'server_error');
+    redirectUrl.searchParams.set('error_description', 'Could not link Google account');
+  }
+  
+  res.redirect(redirectUrl.toString());
+}
+
+/**
+ * Read client credentials from the body (client_secret_post)
+ * or the Authorization header (client_secret_basic)
+ */
+function getClientCredentials(req: Request): { clientId?: string; clientSecret?: string } {
+  let clientId = req.body.client_id;
+  let clientSecret = req.body.client_secret;
   
   const authHeader = req.headers.authorization;
   if (authHeader && authHeader.startsWith('Basic ')) {
     const base64Credentials = authHeader.slice(6);
     const credentials = Buffer.from(base64Credentials, 'base64').toString('utf-8');
     const [headerClientId, headerClientSecret] = credentials.split(':');
-    authClientId = authClientId || headerClientId;
-    authClientSecret = authClientSecret || headerClientSecret;
+    clientId = clientId || headerClientId;
+    clientSecret = clientSecret || headerClientSecret;
+  }
+  
+  return { clientId, clientSecret };
+}
+
+// ============================================
+// MCP OAuth Token Endpoint (for ChatGPT authentication)
+// ============================================
+app.post('/oauth/token', async (req: Request, res: Response) => {
+  const { grant_type, code, redirect_uri, code_verifier, refresh_token, resource, scope } = req.body;
+
+  // Client credentials from the body or the Authorization header
+  const { clientId: authClientId, clientSecret: authClientSecret } = getClientCredentials(req);
+
+  // Only issue tokens for this server (RFC 8707)
+  if (resource && !isAudienceAllowed(resource, getBaseUrl(req))) {
+    return res.status(400).json({
+      error: 'invalid_target',
+      error_description: 'The requested resource is not served by this server',
+    });
+  }
+
+  // Clients may only use the grant types they registered
+  if (
+    authClientId &&
+    ['authorization_code', 'refresh_token', 'client_credentials'].includes(grant_type) &&
+    !(await isGrantTypeAllowed(authClientId, grant_type))
+  ) {
+    return res.status(400).json({
+      error: 'unauthorized_client',
+      error_description: `The ${grant_type} grant is not registered for this client`,
+    });
   }
 
   // Handle authorization_code grant type
@@ -508,7 +1127,7 @@ app.post('/oauth/token', (req: Request, res: Response) => {
     }
     
     // Validate the authorization code (with PKCE if applicable)
-    const validation = validateAuthorizationCode(
+    const validation = await validateAuthorizationCode(
       code,
       authClientId || '',
       redirect_uri,
@@ -526,10 +1145,12 @@ app.post('/oauth/token', (req: Request, res: Response) => {
     const tokenResource = validation.resource || resource;
     
     // Generate new access token and refresh token
-    const { accessToken, refreshToken } = generateTokenPair(
+    const { accessToken, refreshToken } = await generateTokenPair(
       authClientId || 'chatgpt',
       validation.scope,
-      tokenResource
+      tokenResource,
+      validation.userId,
+      getBaseUrl(req)
     );
     const tokenResponse = getTokenResponse(accessToken, refreshToken, validation.scope);
     
@@ -548,7 +1169,7 @@ app.post('/oauth/token', (req: Request, res: Response) => {
     }
     
     // Validate the refresh token
-    const validation = validateRefreshToken(refresh_token);
+    const validation = await validateRefreshToken(refresh_token);
     
     if (!validation.valid) {
       return res.status(401).json({
@@ -566,14 +1187,16 @@ app.post('/oauth/token', (req: Request, res: Response) => {
     }
     
     // Revoke old refresh token
-    revokeRefreshToken(refresh_token);
+    await revokeRefreshToken(refresh_token);
     
     // Generate new access token and refresh token (token rotation)
     const tokenResource = validation.resource || resource;
-    const { accessToken, refreshToken: newRefreshToken } = generateTokenPair(
+    const { accessToken, refreshToken: newRefreshToken } = await generateTokenPair(
       authClientId || 'chatgpt',
       validation.scope,
-      tokenResource
+      tokenResource,
+      validation.userId,
+      getBaseUrl(req)
     );
     const tokenResponse = getTokenResponse(accessToken, newRefreshToken, validation.scope);
     
@@ -585,16 +1208,26 @@ app.post('/oauth/token', (req: Request, res: Response) => {
   // Handle client_credentials grant type
   if (grant_type === 'client_credentials') {
     // Validate client credentials
-    if (!validateClientCredentials(authClientId, authClientSecret)) {
+    if (!authClientId || !authClientSecret || !(await validateClientCredentials(authClientId, authClientSecret))) {
       return res.status(401).json({
         error: 'invalid_client',
         error_description: 'Invalid client credentials',
       });
     }
 
+    // Clients may narrow their token, e.g. to a read-only "calendar:read" connection,
+    // but never beyond the scopes they registered
+    const grantedScope = await resolveClientScope(authClientId, scope);
+    if (grantedScope === null) {
+      return res.status(400).json({
+        error: 'invalid_scope',
+        error_description: 'The requested scope is not registered for this client',
+      });
+    }
+
     // Generate and return access token and refresh token
-    const { accessToken, refreshToken } = generateTokenPair(authClientId, undefined, resource);
-    const tokenResponse = getTokenResponse(accessToken, refreshToken);
+    const { accessToken, refreshToken } = await generateTokenPair(authClientId, grantedScope, resource, undefined, getBaseUrl(req));
+    const tokenResponse = getTokenResponse(accessToken, refreshToken, grantedScope);
     
     console.log('OAuth token issued via client_credentials for client:', authClientId);
     res.json(tokenResponse);
@@ -608,6 +1241,94 @@ app.post('/oauth/token', (req: Request, res: Response) => {
   });
 });
 
+/**
+ * Authenticate the calling client for the revocation and introspection endpoints.
+ * Sends a 401 and returns null when the credentials are missing or wrong.
+ */
+async function authenticateClient(req: Request, res: Response): Promise<string | null> {
+  const { clientId, clientSecret } = getClientCredentials(req);
+  
+  if (!clientId || !clientSecret || !(await validateClientCredentials(clientId, clientSecret))) {
+    res.setHeader('WWW-Authenticate', 'Basic realm="oauth"');
+    res.status(401).json({
+      error: 'invalid_client',
+      error_description: 'Client authentication failed',
+    });
+    return null;
+  }
+  
+  return clientId;
+}
+
+// Token Revocation (RFC 7009)
+// Clients may revoke their own tokens; the default client (operator credentials) may revoke any token.
+app.post('/oauth/revoke', async (req: Request, res: Response) => {
+  const clientId = await authenticateClient(req, res);
+  if (!clientId) {
+    return;
+  }
+  
+  const { token, token_type_hint } = req.body;
+  
+  if (!token || typeof token !== 'string') {
+    return res.status(400).json({
+      error: 'invalid_request',
+      error_description: 'Missing token',
+    });
+  }
+  
+  const tokenInfo = await introspectToken(token, token_type_hint);
+  
+  // Unknown, expired and foreign tokens all get the same response (RFC 7009 section 2.2)
+  if (tokenInfo && (tokenInfo.clientId === clientId || isDefaultClient(clientId))) {
+    if (tokenInfo.tokenType === 'refresh_token') {
+      await revokeRefreshToken(token);
+    } else {
+      await revokeAccessToken(token);
+    }
+    console.log(`Revoked ${tokenInfo.tokenType} for client ${tokenInfo.clientId}${tokenInfo.userId ? ` user ${tokenInfo.userId}` : ''} (requested by ${clientId})`);
+  }
+  
+  res.status(200).end();
+});
+
+// Token Introspection (RFC 7662)
+// Clients may introspect their own tokens; the default client may introspect any token.
+app.post('/oauth/introspect', async (req: Request, res: Response) => {
+  const clientId = await authenticateClient(req, res);
+  if (!clientId) {
+    return;
+  }
+  
+  const { token, token_type_hint } = req.body;
+  
+  if (!token || typeof token !== 'string') {
+    return res.status(400).json({
+      error: 'invalid_request',
+      error_description: 'Missing token',
+    });
+  }
+  
+  const tokenInfo = await introspectToken(token, token_type_hint);
+  
+  if (!tokenInfo || (tokenInfo.clientId !== clientId && !isDefaultClient(clientId))) {
+    return res.json({ active: false });
+  }
+  
+  res.json({
+    active: true,
+    token_type: tokenInfo.tokenType,
+    client_id: tokenInfo.clientId,
+    scope: tokenInfo.scope,
+    sub: tokenInfo.userId || tokenInfo.clientId,
+    aud: tokenInfo.resource,
+    iss: tokenInfo.issuer,
+    iat: tokenInfo.issuedAt,
+    exp: tokenInfo.expiresAt,
+    jti: tokenInfo.tokenId,
+  });
+});
+
 // Endpoint to get OAuth credentials info (for setup)
 app.get('/oauth/credentials', (_req: Request, res: Response) => {
   const { clientId } = getOAuthCredentials();
@@ -626,8 +1347,9 @@ app.post('/mcp', async (req: Request, res: Response) => {
   
   // Validate OAuth token
   const token = extractBearerToken(req.headers.authorization);
+  const tokenInfo = token ? await getAccessTokenInfo(token) : null;
   
-  if (!token || !validateAccessToken(token)) {
+  if (!tokenInfo) {
     // Return 401 with WWW-Authenticate header per RFC 9728
     // This tells the client where to get authorization
     const requestId = req.body.id !== undefined ? req.body.id : null;
@@ -650,11 +1372,31 @@ app.post('/mcp', async (req: Request, res: Response) => {
   }
 
   const { method, params, id, jsonrpc } = req.body;
-  const userId = DEFAULT_USER_ID;
   
   // Properly handle id (can be 0, string, or null)
   const requestId = id !== undefined ? id : null;
   
+  // Reject tokens minted for another deployment (RFC 8707 audience check)
+  if (!isAudienceAllowed(tokenInfo.resource, baseUrl)) {
+    console.log(`Rejected token for resource ${tokenInfo.resource} at ${baseUrl}`);
+    res.setHeader(
+      'WWW-Authenticate',
+      `Bearer resource_metadata="${baseUrl}/.well-known/oauth-protected-resource", error="invalid_token", error_description="Token audience does not match this resource"`
+    );
+    return res.status(401).json({
+      jsonrpc: '2.0',
+      error: {
+        code: -32001,
+        message: 'Unauthorized: Access token was issued for a different resource',
+        data: {
+          authorizationServer: baseUrl,
+          resource: baseUrl,
+        }
+      },
+      id: requestId,
+    });
+  }
+  
   // Log full request for debugging
   console.log('MCP Request:', JSON.stringify({ method, params, id: requestId, jsonrpc }));
 
@@ -666,8 +1408,55 @@ app.post('/mcp', async (req: Request, res: Response) => {
     });
   }
 
+  // Tools act on a user's calendar, so tokens without a user (client_credentials) can't call them
+  if (method === 'tools/call' && !tokenInfo.userId) {
+    console.log(`Rejected ${params?.name} call from client ${tokenInfo.clientId}: token has no user`);
+    res.setHeader(
+      'WWW-Authenticate',
+      `Bearer resource_metadata="${baseUrl}/.well-known/oauth-protected-resource", error="invalid_token", error_description="Tool calls require a token issued to a signed-in user"`
+    );
+    return res.status(403).json({
+      jsonrpc: '2.0',
+      error: {
+        code: -32003,
+        message: 'Forbidden: tool calls require a token issued to a signed-in user (authorization_code grant)',
+      },
+      id: requestId,
+    });
+  }
+
+  // Enforce the scopes each tool declares in its securitySchemes, and any its arguments add
+  const scopes = parseScopes(tokenInfo.scope);
+  if (method === 'tools/call') {
+    const requiredScopes = getRequiredScopes(params?.name, params?.arguments) || [];
+    
+    if (!hasScopes(scopes, requiredScopes)) {
+      console.log(`Insufficient scope for ${params?.name}: has "${scopes.join(' ')}", needs "${requiredScopes.join(' ')}"`);
+      res.setHeader(
+        'WWW-Authenticate',
+        `Bearer resource_metadata="${baseUrl}/.well-known/oauth-protected-resource", error="insufficient_scope", scope="${requiredScopes.join(' ')}", error_description="This tool requires additional permissions"`
+      );
+      return res.status(403).json({
+        jsonrpc: '2.0',
+        error: {
+          code: -32003,
+          message: `Forbidden: ${params?.name} requires scope ${requiredScopes.join(' ')}`,
+          data: {
+            requiredScopes,
+            grantedScopes: scopes,
+          },
+        },
+        id: requestId,
+      });
+    }
+  }
+
   try {
-    const result = await handleMCPRequest(method, params || {}, userId);
+    const result = await handleMCPRequest(method, params || {}, {
+      userId: tokenInfo.userId,
+      scopes,
+      acceptLanguage: req.get('accept-language'),
+    });
     const response = {
       jsonrpc: jsonrpc || '2.0',
       result,
@@ -727,13 +1516,34 @@ app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
 // ============================================
 // Start Server
 // ============================================
-function startServer(): void {
+async function startServer(): Promise<void> {
   // Validate configuration
   if (!validateConfig()) {
     console.error('Invalid configuration. Please check environment variables.');
     process.exit(1);
   }
 
+  if (!(await validateTokenStore())) {
+    console.error('Check TOKEN_ENCRYPTION_KEY and TOKEN_ENCRYPTION_PREVIOUS_KEYS.');
+    process.exit(1);
+  }
+
+  // Load the JWT signing key up front so a bad JWT_SIGNING_KEY fails fast
+  try {
+    console.log(`Signing access tokens with ${await getSigningAlgorithm()}`);
+  } catch (err: any) {
+    console.error('Unable to load JWT signing key:', err.message);
+    process.exit(1);
+  }
+
+  // Background jobs: watch channel renewal and invite rules
+  try {
+    startScheduler();
+  } catch (err: any) {
+    console.error('Unable to start background jobs:', err.message);
+    process.exit(1);
+  }
+
   const { clientId, clientSecret } = getOAuthCredentials();
   
   app.listen(PORT, () => {
@@ -753,12 +1563,15 @@ function startServer(): void {
 ║    GET  /.well-known/openid-configuration                 ║
 ║    GET  /oauth/authorize - OAuth authorization            ║
 ║    POST /oauth/token     - OAuth token (ChatGPT)          ║
+║    POST /oauth/revoke    - Token revocation               ║
+║    POST /oauth/introspect - Token introspection           ║
 ║    POST /mcp             - MCP protocol (OAuth protected) ║
 ║    GET  /health          - Health check                   ║
 ║    GET  /auth/status     - Check auth status              ║
 ║    GET  /auth/google     - Start Google OAuth             ║
 ║    GET  /oauth/callback  - Google OAuth callback          ║
 ║    POST /auth/logout     - Logout                         ║
+║    POST /webhooks/google-calendar - Calendar push         ║
 ╚═══════════════════════════════════════════════════════════╝
     `);
   });
@@ -0,0 +1,406 @@
+/**
+ * Rule-based auto-responder for pending invites
+ * Each user keeps an ordered list of rules such as "decline anything from
+ * @vendor.com". Rules are checked against pending invites in order and the
+ * first enabled rule that matches decides the response. A dry run reports
+ * what would happen; applying the rules sends the responses.
+ */
+
+import crypto from 'crypto';
+import { getStorageBackend, KeyValueStore } from './kv-store.js';
+import { getPendingInvites, respondToInvite } from './calendar-service.js';
+import { DEFAULT_LOCALE, Locale, t } from './i18n.js';
+import {
+  ApplyInviteRulesResponse,
+  InviteRule,
+  InviteRuleConditions,
+  InviteRuleInput,
+  InviteRuleOutcome,
+  PendingInvite,
+} from './types.js';
+
+// Rules a single user can keep
+const MAX_RULES_PER_USER = 50;
+
+// Longest rule name and comment accepted
+const MAX_RULE_NAME_LENGTH = 100;
+const MAX_RULE_COMMENT_LENGTH = 1000;
+
+// Pending invites checked in one run; later ones wait for the next run
+const MAX_INVITES_PER_RUN = 500;
+
+const RULE_ACTIONS = ['accepted', 'declined', 'tentative'];
+
+const LIST_CONDITIONS = ['organizerDomains', 'organizerEmails', 'summaryContains', 'calendarIds'] as const;
+const FLAG_CONDITIONS = ['allDay', 'recurring', 'onlyWhenFree'] as const;
+
+// ============================================
+// Storage
+// ============================================
+
+// Ordered rules by user ID
+const inviteRules = (): KeyValueStore<InviteRule[]> =>
+  getStorageBackend().collection('invite-rules');
+
+/**
+ * Get a user's rules, in evaluation order
+ */
+export async function listInviteRules(userId: string): Promise<InviteRule[]> {
+  return (await inviteRules().get(userId)) || [];
+}
+
+/**
+ * Save a user's rules, dropping the record once there are none
+ */
+async function saveInviteRules(userId: string, rules: InviteRule[]): Promise<void> {
+  if (rules.length === 0) {
+    await inviteRules().delete(userId);
+    return;
+  }
+  await inviteRules().set(userId, rules);
+}
+
+// ============================================
+// Validation
+// ============================================
+
+/**
+ * Lowercase, trim and de-duplicate a list of condition values
+ */
+function normalizeList(values: string[], stripAt: boolean): string[] {
+  const normalized = values
+    .map((value) => value.trim().toLowerCase())
+    .map((value) => (stripAt ? value.replace(/^@/, '') : value))
+    .filter(Boolean);
+  return [...new Set(normalized)];
+}
+
+/**
+ * Check rule conditions, returning them normalized.
+ * Throws if a condition is malformed or none are given.
+ */
+function normalizeConditions(conditions: unknown): InviteRuleConditions {
+  if (!conditions || typeof conditions !== 'object' || Array.isArray(conditions)) {
+    throw new Error('conditions must be an object');
+  }
+
+  const input = conditions as Record<string, unknown>;
+  const normalized: InviteRuleConditions = {};
+
+  for (const key of Object.keys(input)) {
+    if (!(LIST_CONDITIONS as readonly string[]).includes(key) && !(FLAG_CONDITIONS as readonly string[]).includes(key)) {
+      throw new Error(`Unknown condition: ${key}`);
+    }
+  }
+
+  for (const key of LIST_CONDITIONS) {
+    const value = input[key];
+    if (value === undefined) {
+      continue;
+    }
+    if (!Array.isArray(value) || value.some((entry) => typeof entry !== 'string')) {
+      throw new Error(`${key} must be a list of strings`);
+    }
+    // Calendar IDs are matched exactly; everything else ignores case
+    const list = key === 'calendarIds'
+      ? [...new Set(value.map((entry: string) => entry.trim()).filter(Boolean))]
+      : normalizeList(value, key === 'organizerDomains');
+    if (list.length > 0) {
+      normalized[key] = list;
+    }
+  }
+
+  for (const key of FLAG_CONDITIONS) {
+    const value = input[key];
+    if (value === undefined) {
+      continue;
+    }
+    if (typeof value !== 'boolean') {
+      throw new Error(`${key} must be true or false`);
+    }
+    normalized[key] = value;
+  }
+
+  // A rule with no conditions would answer every invite
+  const meaningful = Object.entries(normalized).some(([key, value]) => key !== 'onlyWhenFree' && value !== undefined);
+  if (!meaningful) {
+    throw new Error('A rule needs at least one condition besides onlyWhenFree');
+  }
+
+  return normalized;
+}
+
+/**
+ * Check a rule's fields, returning them normalized. Fields missing from
+ * `input` are taken from `existing` when updating.
+ */
+function normalizeRuleInput(
+  input: Partial<InviteRuleInput>,
+  existing?: InviteRule
+): Pick<InviteRule, 'name' | 'enabled' | 'conditions' | 'action' | 'comment'> {
+  const name = (input.name ?? existing?.name ?? '').trim();
+  if (!name) {
+    throw new Error('name is required');
+  }
+  if (name.length > MAX_RULE_NAME_LENGTH) {
+    throw new Error(`name must be at most ${MAX_RULE_NAME_LENGTH} characters`);
+  }
+
+  const action = input.action ?? existing?.action;
+  if (!action || !RULE_ACTIONS.includes(action)) {
+    throw new Error('action must be accepted, declined, or tentative');
+  }
+
+  const enabled = input.enabled ?? existing?.enabled ?? true;
+  if (typeof enabled !== 'boolean') {
+    throw new Error('enabled must be true or false');
+  }
+
+  const comment = input.comment === undefined ? existing?.comment ?? null : input.comment?.trim() || null;
+  if (comment && comment.length > MAX_RULE_COMMENT_LENGTH) {
+    throw new Error(`comment must be at most ${MAX_RULE_COMMENT_LENGTH} characters`);
+  }
+
+  const conditions = input.conditions === undefined && existing
+    ? existing.conditions
+    : normalizeConditions(input.conditions);
+
+  return { name, enabled, conditions, action, comment };
+}
+
+// ============================================
+// Rule Management
+// ============================================
+
+/**
+ * Add a rule at the end of a user's list (evaluated last)
+ */
+export async function createInviteRule(userId: string, input: InviteRuleInput): Promise<InviteRule> {
+  const rules = await listInviteRules(userId);
+  if (rules.length >= MAX_RULES_PER_USER) {
+    throw new Error(`You can have at most ${MAX_RULES_PER_USER} rules`);
+  }
+
+  const now = new Date().toISOString();
+  const rule: InviteRule = {
+    id: crypto.randomUUID(),
+    ...normalizeRuleInput(input),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await saveInviteRules(userId, [...rules, rule]);
+  console.log(`Created invite rule "${rule.name}" for user ${userId}`);
+  return rule;
+}
+
+/**
+ * Change some of a rule's fields. Returns null if the user has no such rule.
+ */
+export async function updateInviteRule(
+  userId: string,
+  ruleId: string,
+  input: Partial<InviteRuleInput>
+): Promise<InviteRule | null> {
+  const rules = await listInviteRules(userId);
+  const existing = rules.find((rule) => rule.id === ruleId);
+  if (!existing) {
+    return null;
+  }
+
+  const updated: InviteRule = {
+    ...existing,
+    ...normalizeRuleInput(input, existing),
+    updatedAt: new Date().toISOString(),
+  };
+
+  await saveInviteRules(userId, rules.map((rule) => (rule.id === ruleId ? updated : rule)));
+  return updated;
+}
+
+/**
+ * Delete a rule. Returns false if the user has no such rule.
+ */
+export async function deleteInviteRule(userId: string, ruleId: string): Promise<boolean> {
+  const rules = await listInviteRules(userId);
+  const remaining = rules.filter((rule) => rule.id !== ruleId);
+  if (remaining.length === rules.length) {
+    return false;
+  }
+
+  await saveInviteRules(userId, remaining);
+  return true;
+}
+
+// ============================================
+// Evaluation
+// ============================================
+
+/**
+ * Check whether an invite meets every condition of a rule
+ */
+function ruleMatches(conditions: InviteRuleConditions, invite: PendingInvite): boolean {
+  const organizer = invite.organizerEmail.toLowerCase();
+  const domain = organizer.split('@')[1] || '';
+
+  if (conditions.organizerDomains &&
+      !conditions.organizerDomains.some((d) => domain === d || domain.endsWith(`.${d}`))) {
+    return false;
+  }
+
+  if (conditions.organizerEmails && !conditions.organizerEmails.includes(organizer)) {
+    return false;
+  }
+
+  if (conditions.summaryContains) {
+    const summary = invite.summary.toLowerCase();
+    if (!conditions.summaryContains.some((text) => summary.includes(text))) {
+      return false;
+    }
+  }
+
+  if (conditions.calendarIds && !conditions.calendarIds.includes(invite.calendarId)) {
+    return false;
+  }
+
+  if (conditions.allDay !== undefined && invite.isAllDay !== conditions.allDay) {
+    return false;
+  }
+
+  if (conditions.recurring !== undefined && Boolean(invite.recurringEventId) !== conditions.recurring) {
+    return false;
+  }
+
+  // Other pending invites don't make the user busy
+  if (conditions.onlyWhenFree && invite.conflicts.some((conflict) => conflict.status !== 'pending')) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Find the first enabled rule that matches an invite
+ */
+export function findMatchingInviteRule(rules: InviteRule[], invite: PendingInvite): InviteRule | null {
+  return rules.find((rule) => rule.enabled && ruleMatches(rule.conditions, invite)) || null;
+}
+
+/**
+ * Check a user's pending invites against their rules. With `dryRun` (the default)
+ * nothing is sent and every match is reported as planned; otherwise each match
+ * is answered with its rule's response and comment.
+ */
+export async function applyInviteRules(
+  userId: string,
+  options: { dryRun?: boolean; startDate?: string; endDate?: string } = {}
+): Promise<ApplyInviteRulesResponse> {
+  const dryRun = options.dryRun ?? true;
+  const rules = await listInviteRules(userId);
+
+  // Collect every page first so responses sent below can't shift the pages
+  const invites: PendingInvite[] = [];
+  let cursor: string | undefined;
+  let page = await getPendingInvites(userId, options.startDate, options.endDate, undefined, { pageSize: 100 });
+  const dateRange = page.dateRange;
+  let truncated = page.truncated;
+
+  while (true) {
+    invites.push(...page.invites);
+    cursor = page.nextCursor || undefined;
+    if (!cursor || invites.length >= MAX_INVITES_PER_RUN) {
+      break;
+    }
+    page = await getPendingInvites(userId, undefined, undefined, undefined, { cursor, pageSize: 100 });
+    truncated = truncated || page.truncated;
+  }
+
+  if (invites.length > MAX_INVITES_PER_RUN) {
+    invites.length = MAX_INVITES_PER_RUN;
+  }
+  truncated = truncated || Boolean(cursor);
+
+  const outcomes: InviteRuleOutcome[] = [];
+
+  for (const invite of invites) {
+    const rule = findMatchingInviteRule(rules, invite);
+    if (!rule) {
+      continue;
+    }
+
+    const outcome: InviteRuleOutcome = {
+      eventId: invite.eventId,
+      calendarId: invite.calendarId,
+      summary: invite.summary,
+      startTime: invite.startTime,
+      organizerEmail: invite.organizerEmail,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      action: rule.action,
+      status: 'planned',
+    };
+
+    if (!dryRun) {
+      try {
+        await respondToInvite(userId, invite.eventId, rule.action, invite.calendarId, 'instance', {
+          comment: rule.comment || undefined,
+        });
+        outcome.status = 'applied';
+      } catch (error: any) {
+        outcome.status = 'failed';
+        outcome.error = error.message;
+      }
+    }
+
+    outcomes.push(outcome);
+  }
+
+  if (!dryRun && outcomes.length > 0) {
+    const applied = outcomes.filter((outcome) => outcome.status === 'applied').length;
+    console.log(`Invite rules answered ${applied}/${outcomes.length} invite(s) for user ${userId}`);
+  }
+
+  return {
+    dryRun,
+    outcomes,
+    evaluatedCount: invites.length,
+    unmatchedCount: invites.length - outcomes.length,
+    dateRange,
+    truncated,
+  };
+}
+
+/**
+ * Describe a rule in one line, e.g. for listing rules in chat
+ */
+export function describeInviteRule(rule: InviteRule, locale: Locale = DEFAULT_LOCALE): string {
+  const { conditions } = rule;
+  const parts: string[] = [];
+  const or = (values: string[]) => values.join(t(locale, 'rule.or'));
+
+  if (conditions.organizerDomains) {
+    parts.push(t(locale, 'rule.organizerDomains', { domains: or(conditions.organizerDomains.map((d) => `@${d}`)) }));
+  }
+  if (conditions.organizerEmails) {
+    parts.push(t(locale, 'rule.organizerEmails', { emails: or(conditions.organizerEmails) }));
+  }
+  if (conditions.summaryContains) {
+    parts.push(t(locale, 'rule.summaryContains', { texts: or(conditions.summaryContains.map((text) => `"${text}"`)) }));
+  }
+  if (conditions.calendarIds) {
+    parts.push(t(locale, 'rule.calendarIds', { calendars: or(conditions.calendarIds) }));
+  }
+  if (conditions.allDay !== undefined) {
+    parts.push(t(locale, conditions.allDay ? 'rule.allDay' : 'rule.notAllDay'));
+  }
+  if (conditions.recurring !== undefined) {
+    parts.push(t(locale, conditions.recurring ? 'rule.recurring' : 'rule.notRecurring'));
+  }
+  if (conditions.onlyWhenFree) {
+    parts.push(t(locale, 'rule.onlyWhenFree'));
+  }
+
+  const state = rule.enabled ? '' : t(locale, 'rule.disabled');
+  const comment = rule.comment ? t(locale, 'rule.comment', { comment: rule.comment }) : '';
+  return `${rule.name}${state}: ${parts.join(', ')} → ${t(locale, `rules.action.${rule.action}`)}${comment}`;
+}
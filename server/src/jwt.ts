@@ -0,0 +1,241 @@
+/**
+ * Signed JWT access tokens (RFC 9068 profile)
+ * Tokens are self-contained, so any server instance holding the public key
+ * can validate them without shared token state.
+ *
+ * Signing key:
+ * - JWT_SIGNING_KEY: PEM private key (RSA -> RS256, EC P-256 -> ES256)
+ * - otherwise a key is generated once (JWT_SIGNING_ALG, default ES256) and kept,
+ *   encrypted, in the storage backend so every instance signs with the same key
+ */
+
+import crypto, { KeyObject } from 'crypto';
+import { getStorageBackend, KeyValueStore } from './kv-store.js';
+import { decryptJson, encryptJson, EncryptedEnvelope } from './token-crypto.js';
+
+type SigningAlgorithm = 'RS256' | 'ES256';
+
+const SUPPORTED_ALGORITHMS: SigningAlgorithm[] = ['RS256', 'ES256'];
+
+// JOSE "typ" header for access tokens (RFC 9068)
+const ACCESS_TOKEN_TYPE = 'at+jwt';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Claims carried by an access token
+ */
+export interface AccessTokenClaims {
+  iss?: string;
+  sub: string;       // User ID, or the client ID for client_credentials tokens
+  aud?: string;      // Resource the token was issued for
+  client_id: string;
+  scope?: string;
+  iat: number;
+  exp: number;
+  jti: string;
+}
+
+interface SigningKey {
+  kid: string;
+  alg: SigningAlgorithm;
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+  publicJwk: crypto.JsonWebKey;
+}
+
+// ============================================
+// Key Management
+// ============================================
+
+// Generated signing keys, shared by all instances
+const signingKeys = (): KeyValueStore<EncryptedEnvelope> =>
+  getStorageBackend().collection('jwt-signing-keys');
+
+let signingKeyPromise: Promise<SigningKey> | null = null;
+
+/**
+ * base64url-encode a buffer or string
+ */
+function base64url(input: Buffer | string): string {
+  return Buffer.from(input).toString('base64url');
+}
+
+/**
+ * Build a signing key from a PEM private key, deriving alg and kid from the key itself
+ */
+function toSigningKey(pem: string): SigningKey {
+  const privateKey = crypto.createPrivateKey(pem);
+  const publicKey = crypto.createPublicKey(privateKey);
+  const publicJwk = publicKey.export({ format: 'jwk' });
+
+  let alg: SigningAlgorithm;
+  let thumbprintInput: Record<string, unknown>;
+
+  if (privateKey.asymmetricKeyType === 'rsa') {
+    alg = 'RS256';
+    thumbprintInput = { e: publicJwk.e, kty: publicJwk.kty, n: publicJwk.n };
+  } else if (privateKey.asymmetricKeyType === 'ec' && publicJwk.crv === 'P-256') {
+    alg = 'ES256';
+    thumbprintInput = { crv: publicJwk.crv, kty: publicJwk.kty, x: publicJwk.x, y: publicJwk.y };
+  } else {
+    throw new Error('JWT signing key must be an RSA or EC P-256 private key');
+  }
+
+  // JWK thumbprint (RFC 7638) as the key id
+  const kid = base64url(crypto.createHash('sha256').update(JSON.stringify(thumbprintInput)).digest());
+
+  return { kid, alg, privateKey, publicKey, publicJwk: { ...publicJwk, kid, alg, use: 'sig' } };
+}
+
+/**
+ * Generate a new PEM private key for the given algorithm
+ */
+function generatePrivateKeyPem(alg: SigningAlgorithm): string {
+  const { privateKey } = alg === 'RS256'
+    ? crypto.generateKeyPairSync('rsa', { modulusLength: 2048 })
+    : crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+  return privateKey.export({ format: 'pem', type: 'pkcs8' }).toString();
+}
+
+/**
+ * Load the configured signing key, or the shared generated one
+ */
+async function loadSigningKey(): Promise<SigningKey> {
+  const configured = process.env.JWT_SIGNING_KEY;
+  if (configured) {
+    // Allow single-line PEMs with escaped newlines (common in hosted env settings)
+    return toSigningKey(configured.replace(/\\n/g, '\n'));
+  }
+
+  const stored = await signingKeys().get('current');
+  if (stored) {
+    return readStoredSigningKey(stored);
+  }
+
+  const alg = (process.env.JWT_SIGNING_ALG || 'ES256').toUpperCase() as SigningAlgorithm;
+  if (!SUPPORTED_ALGORITHMS.includes(alg)) {
+    throw new Error(`Unsupported JWT_SIGNING_ALG "${alg}". Use one of: ${SUPPORTED_ALGORITHMS.join(', ')}`);
+  }
+
+  // Only the first instance to get here stores its key; everyone signs with the stored one
+  const created = await signingKeys().add('current', encryptJson(generatePrivateKeyPem(alg)));
+  const settled = await signingKeys().get('current');
+  if (!settled) {
+    throw new Error('JWT signing key was not stored');
+  }
+
+  const signingKey = await readStoredSigningKey(settled);
+  if (created) {
+    console.log(`Generated ${signingKey.alg} JWT signing key ${signingKey.kid}`);
+  }
+  return signingKey;
+}
+
+/**
+ * Decrypt the stored signing key, re-encrypting it if it was sealed with a previous key
+ */
+async function readStoredSigningKey(envelope: EncryptedEnvelope): Promise<SigningKey> {
+  const { value, stale } = decryptJson<string>(envelope);
+
+  if (stale) {
+    await signingKeys().set('current', encryptJson(value));
+    console.log('Re-encrypted the JWT signing key with the current key');
+  }
+
+  return toSigningKey(value);
+}
+
+/**
+ * Get the signing key, loading it once per process
+ */
+function getSigningKey(): Promise<SigningKey> {
+  if (!signingKeyPromise) {
+    signingKeyPromise = loadSigningKey().catch((error) => {
+      signingKeyPromise = null;
+      throw error;
+    });
+  }
+  return signingKeyPromise;
+}
+
+/**
+ * Get the JSON Web Key Set used to verify access tokens
+ */
+export async function getJwks(): Promise<{ keys: crypto.JsonWebKey[] }> {
+  const { publicJwk } = await getSigningKey();
+  return { keys: [publicJwk] };
+}
+
+/**
+ * Get the algorithm access tokens are signed with
+ */
+export async function getSigningAlgorithm(): Promise<SigningAlgorithm> {
+  return (await getSigningKey()).alg;
+}
+
+// ============================================
+// Signing & Verification
+// ============================================
+
+/**
+ * Sign a set of access token claims
+ */
+export async function signAccessToken(claims: AccessTokenClaims): Promise<string> {
+  const { kid, alg, privateKey } = await getSigningKey();
+
+  const header = base64url(JSON.stringify({ alg, typ: ACCESS_TOKEN_TYPE, kid }));
+  const payload = base64url(JSON.stringify(claims));
+  const signingInput = `${header}.${payload}`;
+
+  const signature = crypto.sign('sha256', Buffer.from(signingInput), {
+    key: privateKey,
+    dsaEncoding: 'ieee-p1363', // JOSE ECDSA signatures are raw r||s
+  });
+
+  return `${signingInput}.${base64url(signature)}`;
+}
+
+/**
+ * Verify an access token's signature, type and expiry, returning its claims.
+ * Returns null for anything that is not a valid, unexpired token signed by our key.
+ */
+export async function verifyAccessToken(token: string): Promise<AccessTokenClaims | null> {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+  const { kid, alg, publicKey } = await getSigningKey();
+
+  let header: { alg?: string; typ?: string; kid?: string };
+  let claims: AccessTokenClaims;
+  try {
+    header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf-8'));
+    claims = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf-8'));
+  } catch {
+    return null;
+  }
+
+  // Only accept the exact algorithm and key we sign with (no "alg: none" or key confusion)
+  if (header.alg !== alg || header.kid !== kid || header.typ !== ACCESS_TOKEN_TYPE) {
+    return null;
+  }
+
+  const valid = crypto.verify(
+    'sha256',
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    { key: publicKey, dsaEncoding: 'ieee-p1363' },
+    Buffer.from(encodedSignature, 'base64url')
+  );
+
+  if (!valid || typeof claims.exp !== 'number' || Date.now() / 1000 >= claims.exp) {
+    return null;
+  }
+
+  return claims;
+}
@@ -0,0 +1,542 @@
+/**
+ * Pluggable key-value storage for persistent server state
+ * Backends:
+ * - memory: process-local Maps (tests, throwaway deployments)
+ * - file: one JSON file per collection under data/. Single process only: each
+ *   process caches the collection and every change rewrites the whole file.
+ * - sqlite: a single SQLite database (safe for several processes on one host)
+ * - redis: a Redis-protocol keyspace, for multiple instances. Either hosted
+ *   in-process (see redis-protocol.ts) and shared with other instances over
+ *   the Redis protocol, or on any Redis-protocol server (Redis, Valkey, KeyDB...)
+ *
+ * Entries may carry an absolute expiry. Expired entries are never returned,
+ * and are swept when a collection is loaded and on demand, so expiry
+ * survives restarts.
+ */
+
+import fs from 'fs';
+import net from 'net';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import Database from 'better-sqlite3';
+import {
+  RedisCommandClient,
+  createLocalRedisClient,
+  createRedisClient,
+  createRedisProtocolServer,
+} from './redis-protocol.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Default directory for file-backed collections
+const DATA_DIR = path.join(__dirname, '..', '..', 'data');
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * A named collection of values keyed by string
+ */
+export interface KeyValueStore<T> {
+  get(key: string): Promise<T | null>;
+  set(key: string, value: T, expiresAt?: number): Promise<void>;
+  /** Store a value only if the key is absent or expired, returning whether it was stored */
+  add(key: string, value: T, expiresAt?: number): Promise<boolean>;
+  delete(key: string): Promise<boolean>;
+  entries(): Promise<Array<[string, T]>>;
+  /** Remove expired entries, returning how many were removed */
+  sweepExpired(): Promise<number>;
+}
+
+/**
+ * A storage backend hands out collections by name
+ */
+export interface StorageBackend {
+  name: string;
+  collection<T>(name: string): KeyValueStore<T>;
+}
+
+interface StoredEntry<T> {
+  value: T;
+  expiresAt?: number;
+}
+
+function isExpired(entry: StoredEntry<unknown>, now: number = Date.now()): boolean {
+  return entry.expiresAt !== undefined && now > entry.expiresAt;
+}
+
+/**
+ * Build a KeyValueStore over an in-memory Map.
+ * `persist` is called after every mutation so file-like backends can flush.
+ */
+function createMapStore<T>(
+  load: () => Promise<Map<string, StoredEntry<T>>>,
+  persist: (entries: Map<string, StoredEntry<T>>) => Promise<void>
+): KeyValueStore<T> {
+  let entriesPromise: Promise<Map<string, StoredEntry<T>>> | null = null;
+
+  const getEntries = () => {
+    if (!entriesPromise) {
+      entriesPromise = load();
+    }
+    return entriesPromise;
+  };
+
+  const sweepExpired = async (): Promise<number> => {
+    const entries = await getEntries();
+    const now = Date.now();
+    let removed = 0;
+
+    for (const [key, entry] of entries) {
+      if (isExpired(entry, now)) {
+        entries.delete(key);
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      await persist(entries);
+    }
+    return removed;
+  };
+
+  return {
+    async get(key) {
+      const entries = await getEntries();
+      const entry = entries.get(key);
+
+      if (!entry) {
+        return null;
+      }
+
+      if (isExpired(entry)) {
+        entries.delete(key);
+        await persist(entries);
+        return null;
+      }
+
+      return entry.value;
+    },
+
+    async set(key, value, expiresAt) {
+      const entries = await getEntries();
+      entries.set(key, { value, expiresAt });
+      await persist(entries);
+    },
+
+    async add(key, value, expiresAt) {
+      const entries = await getEntries();
+      const existing = entries.get(key);
+
+      // Checked and set without yielding, so this is atomic within the process
+      if (existing && !isExpired(existing)) {
+        return false;
+      }
+
+      entries.set(key, { value, expiresAt });
+      await persist(entries);
+      return true;
+    },
+
+    async delete(key) {
+      const entries = await getEntries();
+      const existed = entries.delete(key);
+      if (existed) {
+        await persist(entries);
+      }
+      return existed;
+    },
+
+    async entries() {
+      const entries = await getEntries();
+      const now = Date.now();
+      return [...entries]
+        .filter(([, entry]) => !isExpired(entry, now))
+        .map(([key, entry]) => [key, entry.value] as [string, T]);
+    },
+
+    sweepExpired,
+  };
+}
+
+// ============================================
+// Memory Backend
+// ============================================
+
+/**
+ * Create a backend that keeps everything in process memory
+ */
+export function createMemoryBackend(): StorageBackend {
+  const collections = new Map<string, KeyValueStore<unknown>>();
+
+  return {
+    name: 'memory',
+    collection<T>(name: string): KeyValueStore<T> {
+      if (!collections.has(name)) {
+        collections.set(name, createMapStore<unknown>(async () => new Map(), async () => {}));
+      }
+      return collections.get(name) as KeyValueStore<T>;
+    },
+  };
+}
+
+// ============================================
+// File Backend
+// ============================================
+
+/**
+ * Write a file atomically: write a temp file next to it, then rename over it
+ */
+export async function writeFileAtomic(filePath: string, data: string): Promise<void> {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+
+  try {
+    await fs.promises.writeFile(tempPath, data, { encoding: 'utf-8', mode: 0o600 });
+    await fs.promises.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.promises.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Create a backend that stores each collection as a JSON file in `dataDir`.
+ * Only one process may use a data directory: collections are cached in memory
+ * and each change rewrites the whole file, so other processes' writes are lost.
+ */
+export function createFileBackend(dataDir: string = DATA_DIR): StorageBackend {
+  const collections = new Map<string, KeyValueStore<unknown>>();
+
+  const createFileStore = <T>(name: string): KeyValueStore<T> => {
+    const filePath = path.join(dataDir, `${name}.json`);
+
+    // Serialize writes so concurrent mutations never interleave on disk
+    let writeQueue: Promise<void> = Promise.resolve();
+
+    const persist = (entries: Map<string, StoredEntry<T>>): Promise<void> => {
+      const data = JSON.stringify(Object.fromEntries(entries), null, 2);
+      writeQueue = writeQueue
+        .catch(() => {})
+        .then(() => writeFileAtomic(filePath, data));
+      return writeQueue;
+    };
+
+    const load = async (): Promise<Map<string, StoredEntry<T>>> => {
+      let raw: string;
+      try {
+        raw = await fs.promises.readFile(filePath, 'utf-8');
+      } catch (error: any) {
+        if (error.code === 'ENOENT') {
+          return new Map();
+        }
+        throw error;
+      }
+
+      const entries = new Map(Object.entries(JSON.parse(raw) as Record<string, StoredEntry<T>>));
+
+      // Drop anything that expired while the server was down
+      const now = Date.now();
+      let removed = 0;
+      for (const [key, entry] of entries) {
+        if (isExpired(entry, now)) {
+          entries.delete(key);
+          removed++;
+        }
+      }
+      if (removed > 0) {
+        console.log(`Swept ${removed} expired entries from ${name}`);
+        await persist(entries);
+      }
+
+      return entries;
+    };
+
+    return createMapStore<T>(load, persist);
+  };
+
+  return {
+    name: 'file',
+    collection<T>(name: string): KeyValueStore<T> {
+      if (!collections.has(name)) {
+        collections.set(name, createFileStore<unknown>(name));
+      }
+      return collections.get(name) as KeyValueStore<T>;
+    },
+  };
+}
+
+// ============================================
+// SQLite Backend
+// ============================================
+
+/**
+ * Create a backend that stores all collections in one SQLite table
+ */
+export function createSqliteBackend(filePath: string = path.join(DATA_DIR, 'storage.db')): StorageBackend {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+  const db = new Database(filePath);
+  db.pragma('journal_mode = WAL');
+  db.pragma('busy_timeout = 5000');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS kv (
+      collection TEXT NOT NULL,
+      key TEXT NOT NULL,
+      value TEXT NOT NULL,
+      expires_at INTEGER,
+      PRIMARY KEY (collection, key)
+    );
+    CREATE INDEX IF NOT EXISTS kv_expires_at ON kv (expires_at) WHERE expires_at IS NOT NULL;
+  `);
+
+  // An entry is live until its expiry has passed, matching isExpired()
+  const LIVE = '(expires_at IS NULL OR expires_at >= ?)';
+
+  const selectOne = db.prepare<[string, string, number], { value: string }>(
+    `SELECT value FROM kv WHERE collection = ? AND key = ? AND ${LIVE}`
+  );
+  const selectAll = db.prepare<[string, number], { key: string; value: string }>(
+    `SELECT key, value FROM kv WHERE collection = ? AND ${LIVE}`
+  );
+  const upsert = db.prepare<[string, string, string, number | null]>(
+    `INSERT INTO kv (collection, key, value, expires_at) VALUES (?, ?, ?, ?)
+     ON CONFLICT (collection, key) DO UPDATE SET value = excluded.value, expires_at = excluded.expires_at`
+  );
+  const insertOrReplaceExpired = db.prepare<[string, string, string, number | null, number]>(
+    `INSERT INTO kv (collection, key, value, expires_at) VALUES (?, ?, ?, ?)
+     ON CONFLICT (collection, key) DO UPDATE SET value = excluded.value, expires_at = excluded.expires_at
+     WHERE kv.expires_at IS NOT NULL AND kv.expires_at < ?`
+  );
+  const deleteOne = db.prepare<[string, string]>('DELETE FROM kv WHERE collection = ? AND key = ?');
+  const deleteExpired = db.prepare<[string, number]>(
+    'DELETE FROM kv WHERE collection = ? AND expires_at IS NOT NULL AND expires_at < ?'
+  );
+
+  // Drop anything that expired while the server was down
+  const { changes } = db.prepare('DELETE FROM kv WHERE expires_at IS NOT NULL AND expires_at < ?').run(Date.now());
+  if (changes > 0) {
+    console.log(`Swept ${changes} expired entries from ${filePath}`);
+  }
+
+  const createSqliteStore = <T>(name: string): KeyValueStore<T> => ({
+    async get(key) {
+      const row = selectOne.get(name, key, Date.now());
+      return row ? JSON.parse(row.value) as T : null;
+    },
+
+    async set(key, value, expiresAt) {
+      upsert.run(name, key, JSON.stringify(value), expiresAt ?? null);
+    },
+
+    async add(key, value, expiresAt) {
+      return insertOrReplaceExpired.run(name, key, JSON.stringify(value), expiresAt ?? null, Date.now()).changes > 0;
+    },
+
+    async delete(key) {
+      return deleteOne.run(name, key).changes > 0;
+    },
+
+    async entries() {
+      return selectAll.all(name, Date.now()).map((row) => [row.key, JSON.parse(row.value) as T] as [string, T]);
+    },
+
+    async sweepExpired() {
+      return deleteExpired.run(name, Date.now()).changes;
+    },
+  });
+
+  return {
+    name: 'sqlite',
+    collection: createSqliteStore,
+  };
+}
+
+// ============================================
+// Redis Backend
+// ============================================
+
+/**
+ * Create a backend on a Redis-protocol keyspace.
+ * Keys are `${keyPrefix}${collection}:${key}` and expiry is delegated to the keyspace.
+ */
+export function createRedisBackend(client: RedisCommandClient, keyPrefix: string = 'rm:'): StorageBackend {
+  const createRedisStore = <T>(name: string): KeyValueStore<T> => {
+    const prefix = `${keyPrefix}${name}:`;
+
+    return {
+      async get(key) {
+        const raw = await client.command(['GET', prefix + key]);
+        return typeof raw === 'string' ? JSON.parse(raw) as T : null;
+      },
+
+      async set(key, value, expiresAt) {
+        const data = JSON.stringify(value);
+
+        if (expiresAt === undefined) {
+          await client.command(['SET', prefix + key, data]);
+          return;
+        }
+
+        const ttlMs = expiresAt - Date.now();
+        if (ttlMs <= 0) {
+          await client.command(['DEL', prefix + key]);
+          return;
+        }
+        await client.command(['SET', prefix + key, data, 'PX', String(ttlMs)]);
+      },
+
+      async add(key, value, expiresAt) {
+        const data = JSON.stringify(value);
+
+        if (expiresAt === undefined) {
+          return (await client.command(['SET', prefix + key, data, 'NX'])) === 'OK';
+        }
+
+        const ttlMs = expiresAt - Date.now();
+        if (ttlMs <= 0) {
+          return false;
+        }
+        return (await client.command(['SET', prefix + key, data, 'PX', String(ttlMs), 'NX'])) === 'OK';
+      },
+
+      async delete(key) {
+        return (await client.command(['DEL', prefix + key])) as number > 0;
+      },
+
+      async entries() {
+        const keys: string[] = [];
+        let cursor = '0';
+        do {
+          const [next, batch] = await client.command(['SCAN', cursor, 'MATCH', `${prefix}*`, 'COUNT', '200']) as [string, string[]];
+          keys.push(...batch);
+          cursor = next;
+        } while (cursor !== '0');
+
+        if (keys.length === 0) {
+          return [];
+        }
+
+        // Keys may expire between SCAN and MGET
+        const values = await client.command(['MGET', ...keys]) as Array<string | null>;
+        const result: Array<[string, T]> = [];
+        keys.forEach((key, i) => {
+          const raw = values[i];
+          if (raw !== null) {
+            result.push([key.slice(prefix.length), JSON.parse(raw) as T]);
+          }
+        });
+        return result;
+      },
+
+      async sweepExpired() {
+        // The keyspace expires keys itself
+        return 0;
+      },
+    };
+  };
+
+  return {
+    name: 'redis',
+    collection: createRedisStore,
+  };
+}
+
+/**
+ * Check whether a listen address only accepts connections from this machine
+ */
+function isLoopbackHost(host: string): boolean {
+  return host === 'localhost' || host === '::1' || (net.isIPv4(host) && host.startsWith('127.'));
+}
+
+/**
+ * Host a Redis-protocol keyspace in this process, kept in SQLite so it survives
+ * restarts, and serve it to other instances on `port`. The keyspace holds
+ * tokens, so it is only served beyond loopback with a password.
+ * Returns a client that uses the keyspace directly.
+ */
+export function hostRedisKeyspace(
+  filePath: string,
+  port: number,
+  host: string = '127.0.0.1',
+  password?: string
+): RedisCommandClient {
+  if (!password && !isLoopbackHost(host)) {
+    throw new Error(`Refusing to serve the redis storage keyspace on ${host} without REDIS_SERVER_PASSWORD`);
+  }
+
+  const keyspace = createSqliteBackend(filePath).collection<string>('redis-keyspace');
+  const server = createRedisProtocolServer(keyspace, password);
+
+  server.on('error', (error) => {
+    console.error(`Redis protocol server on ${host}:${port} failed:`, error.message);
+  });
+  server.listen(port, host, () => {
+    console.log(`Serving the redis storage keyspace on ${host}:${port}`);
+  });
+
+  // Sweep expired keys now and then; SQLite doesn't expire them by itself
+  setInterval(() => {
+    keyspace.sweepExpired().catch((error) => console.error('Failed to sweep redis keyspace:', error.message));
+  }, 10 * 60 * 1000).unref();
+
+  return createLocalRedisClient(keyspace);
+}
+
+// ============================================
+// Backend Selection
+// ============================================
+
+let defaultBackend: StorageBackend | null = null;
+
+/**
+ * Get the storage backend selected by STORAGE_BACKEND (memory | file | sqlite | redis, default file)
+ */
+export function getStorageBackend(): StorageBackend {
+  if (defaultBackend) {
+    return defaultBackend;
+  }
+
+  const backend = (process.env.STORAGE_BACKEND || 'file').toLowerCase();
+
+  switch (backend) {
+    case 'memory':
+      defaultBackend = createMemoryBackend();
+      break;
+    case 'file':
+      defaultBackend = createFileBackend(process.env.DATA_DIR || DATA_DIR);
+      break;
+    case 'sqlite':
+      defaultBackend = createSqliteBackend(
+        process.env.SQLITE_PATH || path.join(process.env.DATA_DIR || DATA_DIR, 'storage.db')
+      );
+      break;
+    case 'redis': {
+      // With REDIS_URL, use that server (e.g. another instance's keyspace); otherwise host one here
+      const client = process.env.REDIS_URL
+        ? createRedisClient(process.env.REDIS_URL)
+        : hostRedisKeyspace(
+          path.join(process.env.DATA_DIR || DATA_DIR, 'redis.db'),
+          parseInt(process.env.REDIS_SERVER_PORT || '6380', 10),
+          process.env.REDIS_SERVER_HOST,
+          process.env.REDIS_SERVER_PASSWORD
+        );
+      defaultBackend = createRedisBackend(client, process.env.REDIS_KEY_PREFIX);
+      break;
+    }
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${backend}". Use one of: memory, file, sqlite, redis`);
+  }
+
+  console.log(`Using ${defaultBackend.name} storage backend`);
+  return defaultBackend;
+}
+
+/**
+ * Override the storage backend (e.g. with a memory backend in tests)
+ */
+export function setStorageBackend(backend: StorageBackend): void {
+  defaultBackend = backend;
+}
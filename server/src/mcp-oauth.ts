@@ -4,9 +4,13 @@
  * - Client Credentials flow
  * - Authorization Code flow with PKCE
  * - Dynamic Client Registration (RFC 7591)
+ * - JWT access tokens (RFC 9068), see jwt.ts
+ * - Token Revocation (RFC 7009) and Introspection (RFC 7662)
  */
 
 import crypto from 'crypto';
+import { getStorageBackend, KeyValueStore } from './kv-store.js';
+import { signAccessToken, verifyAccessToken } from './jwt.js';
 
 // ============================================
 // Types
@@ -20,50 +24,104 @@ interface RegisteredClient {
   grant_types: string[];
   response_types: string[];
   token_endpoint_auth_method: string;
+  scope?: string; // Scopes the client may request; DEFAULT_SCOPES if not registered
   created_at: number;
 }
 
-interface IssuedToken {
+interface RefreshToken {
   expiresAt: number;
   clientId: string;
   scope?: string;
-  refreshToken?: string; // Link to refresh token
+  accessToken?: string; // jti of the currently linked access token
   resource?: string; // Resource parameter (audience)
+  userId?: string; // User the token acts on behalf of
 }
 
-interface RefreshToken {
-  expiresAt: number;
+interface AuthorizationCode {
   clientId: string;
+  redirectUri: string;
+  codeChallenge?: string;
+  codeChallengeMethod?: string;
+  expiresAt: number;
   scope?: string;
-  accessToken?: string; // Currently linked access token
   resource?: string; // Resource parameter (audience)
+  userId?: string; // User who approved the authorization
 }
 
-interface AuthorizationCode {
+/**
+ * An /oauth/authorize request waiting for user consent and Google sign-in
+ */
+export interface AuthorizationRequest {
   clientId: string;
   redirectUri: string;
+  state?: string;
   codeChallenge?: string;
   codeChallengeMethod?: string;
+  scope?: string;
+  resource?: string;
+  browserHash: string; // SHA-256 of the nonce cookie given to the browser that opened the consent page
+  approved?: boolean; // Set once the user approves the consent screen
   expiresAt: number;
+}
+
+/**
+ * What an active access or refresh token grants (RFC 7662 introspection)
+ */
+export interface TokenIntrospection {
+  tokenType: 'access_token' | 'refresh_token';
+  clientId: string;
   scope?: string;
-  resource?: string; // Resource parameter (audience)
+  resource?: string;
+  userId?: string;
+  issuer?: string;
+  issuedAt?: number; // Seconds since epoch
+  expiresAt: number; // Seconds since epoch
+  tokenId?: string;
+}
+
+/**
+ * Data carried by a valid access token
+ */
+export interface AccessTokenInfo {
+  clientId: string;
+  scope?: string;
+  resource?: string;
+  userId?: string;
 }
 
 // ============================================
-// Storage (in production, use Redis or database)
+// Storage (pluggable, see kv-store.ts)
 // ============================================
+// Tokens and codes are keyed by their SHA-256 hash so a leaked store
+// does not hand out usable credentials. Access tokens are signed JWTs
+// and are not stored at all.
 
-// Registered OAuth clients
-const registeredClients: Map<string, RegisteredClient> = new Map();
-
-// Issued access tokens
-const issuedTokens: Map<string, IssuedToken> = new Map();
+// Registered OAuth clients (dynamic registrations only)
+const registeredClients = (): KeyValueStore<RegisteredClient> =>
+  getStorageBackend().collection('oauth-clients');
 
 // Issued refresh tokens
-const refreshTokens: Map<string, RefreshToken> = new Map();
+const refreshTokens = (): KeyValueStore<RefreshToken> =>
+  getStorageBackend().collection('oauth-refresh-tokens');
+
+// Revoked access token IDs (jti), kept until the token would have expired
+const revokedAccessTokens = (): KeyValueStore<true> =>
+  getStorageBackend().collection('oauth-revoked-access-tokens');
 
 // Authorization codes (for auth code flow)
-const authorizationCodes: Map<string, AuthorizationCode> = new Map();
+const authorizationCodes = (): KeyValueStore<AuthorizationCode> =>
+  getStorageBackend().collection('oauth-authorization-codes');
+
+// Authorization requests awaiting consent and Google sign-in
+const authorizationRequests = (): KeyValueStore<AuthorizationRequest> =>
+  getStorageBackend().collection('oauth-authorization-requests');
+
+/**
+ * Hash a token or code for use as a storage key
+ */
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
 
 // Token expiration time (1 hour)
 const TOKEN_EXPIRY_MS = 60 * 60 * 1000;
@@ -74,6 +132,93 @@ const REFRESH_TOKEN_EXPIRY_MS = 30 * 24 * 60 * 60 * 1000;
 // Auth code expiration (10 minutes)
 const AUTH_CODE_EXPIRY_MS = 10 * 60 * 1000;
 
+// Scopes granted when a client does not ask for any
+export const DEFAULT_SCOPES = ['calendar:read', 'calendar:write'];
+
+/**
+ * Split a space-delimited scope string, falling back to the default scopes
+ */
+export function parseScopes(scope?: string): string[] {
+  const scopes = (scope || '').split(' ').filter(Boolean);
+  return scopes.length > 0 ? scopes : DEFAULT_SCOPES;
+}
+
+// Umbrella scope that grants every calendar scope
+const FULL_ACCESS_SCOPE = 'mcp';
+
+// Every scope this server issues
+const SUPPORTED_SCOPES = [...DEFAULT_SCOPES, FULL_ACCESS_SCOPE];
+
+/**
+ * Check whether granted scopes cover all required scopes
+ */
+export function hasScopes(granted: string[], required: string[]): boolean {
+  if (granted.includes(FULL_ACCESS_SCOPE)) {
+    return true;
+  }
+  return required.every((scope) => granted.includes(scope));
+}
+
+// ============================================
+// Audience (Resource Indicators, RFC 8707)
+// ============================================
+
+/**
+ * Canonicalize a resource URI for comparison:
+ * lowercase scheme and host, no default port, fragment or trailing slash.
+ * Returns null for anything that is not an absolute http(s) URI.
+ */
+export function normalizeResource(resource: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(resource);
+  } catch {
+    return null;
+  }
+  
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return null;
+  }
+  
+  url.hash = '';
+  return url.toString().replace(/\/+$/, '');
+}
+
+/**
+ * Get the resource URIs tokens may be issued for and accepted at:
+ * this server's base URL and MCP endpoint, plus the hosts in MCP_RESOURCE_ALIASES
+ */
+export function getAllowedAudiences(baseUrl: string): string[] {
+  const aliases = (process.env.MCP_RESOURCE_ALIASES || '')
+    .split(',')
+    .map((alias) => alias.trim())
+    .filter(Boolean);
+  
+  const audiences = new Set<string>();
+  for (const origin of [baseUrl, ...aliases]) {
+    const normalized = normalizeResource(origin);
+    if (normalized) {
+      audiences.add(normalized);
+      audiences.add(`${normalized}/mcp`);
+    }
+  }
+  
+  return [...audiences];
+}
+
+/**
+ * Check a token's resource (audience) against this server.
+ * Tokens issued without a resource parameter carry no audience and are accepted.
+ */
+export function isAudienceAllowed(resource: string | undefined, baseUrl: string): boolean {
+  if (!resource) {
+    return true;
+  }
+  
+  const normalized = normalizeResource(resource);
+  return normalized !== null && getAllowedAudiences(baseUrl).includes(normalized);
+}
+
 // ============================================
 // Default/Fallback Client
 // ============================================
@@ -87,26 +232,22 @@ export function getOAuthCredentials(): { clientId: string; clientSecret: string
   return { clientId, clientSecret };
 }
 
-// Initialize default client
-function initializeDefaultClient(): void {
+// Default client, built from environment variables (never persisted)
+function getDefaultClient(): RegisteredClient {
   const { clientId, clientSecret } = getOAuthCredentials();
-  if (!registeredClients.has(clientId)) {
-    registeredClients.set(clientId, {
-      client_id: clientId,
-      client_secret: clientSecret,
-      client_name: 'Default MCP Client',
-      redirect_uris: ['https://chatgpt.com/aip/g-*/oauth/callback', 'https://chatgpt.com/connector_platform_oauth_redirect', 'https://platform.openai.com/apps-manage/oauth'],
-      grant_types: ['authorization_code', 'client_credentials', 'refresh_token'],
-      response_types: ['code'],
-      token_endpoint_auth_method: 'client_secret_post',
-      created_at: Date.now(),
-    });
-  }
+  return {
+    client_id: clientId,
+    client_secret: clientSecret,
+    client_name: 'Default MCP Client',
+    redirect_uris: ['https://chatgpt.com/aip/g-*/oauth/callback', 'https://chatgpt.com/connector_platform_oauth_redirect', 'https://platform.openai.com/apps-manage/oauth'],
+    grant_types: ['authorization_code', 'client_credentials', 'refresh_token'],
+    response_types: ['code'],
+    token_endpoint_auth_method: 'client_secret_post',
+    scope: SUPPORTED_SCOPES.join(' '),
+    created_at: 0,
+  };
 }
 
-// Initialize on module load
-initializeDefaultClient();
-
 // ============================================
 // Dynamic Client Registration (RFC 7591)
 // ============================================
@@ -128,6 +269,7 @@ export interface ClientRegistrationResponse {
   grant_types: string[];
   response_types: string[];
   token_endpoint_auth_method: string;
+  scope?: string;
   client_id_issued_at: number;
   client_secret_expires_at: number;
 }
@@ -135,7 +277,7 @@ export interface ClientRegistrationResponse {
 /**
  * Register a new OAuth client dynamically
  */
-export function registerClient(request: ClientRegistrationRequest): ClientRegistrationResponse {
+export async function registerClient(request: ClientRegistrationRequest): Promise<ClientRegistrationResponse> {
   const clientId = `client_${crypto.randomBytes(16).toString('hex')}`;
   const clientSecret = crypto.randomBytes(32).toString('hex');
   
@@ -147,10 +289,11 @@ export function registerClient(request: ClientRegistrationRequest): ClientRegist
     grant_types: request.grant_types || ['authorization_code'],
     response_types: request.response_types || ['code'],
     token_endpoint_auth_method: request.token_endpoint_auth_method || 'client_secret_post',
+    scope: request.scope,
     created_at: Date.now(),
   };
   
-  registeredClients.set(clientId, client);
+  await registeredClients().set(clientId, client);
   console.log(`Registered new OAuth client: ${clientId}`);
   
   return {
@@ -161,6 +304,7 @@ export function registerClient(request: ClientRegistrationRequest): ClientRegist
     grant_types: client.grant_types,
     response_types: client.response_types,
     token_endpoint_auth_method: client.token_endpoint_auth_method,
+    scope: client.scope,
     client_id_issued_at: Math.floor(client.created_at / 1000),
     client_secret_expires_at: 0, // Never expires
   };
@@ -169,8 +313,12 @@ export function registerClient(request: ClientRegistrationRequest): ClientRegist
 /**
  * Get a registered client by ID
  */
-export function getClient(clientId: string): RegisteredClient | undefined {
-  return registeredClients.get(clientId);
+export async function getClient(clientId: string): Promise<RegisteredClient | null> {
+  const defaultClient = getDefaultClient();
+  if (clientId === defaultClient.client_id) {
+    return defaultClient;
+  }
+  return registeredClients().get(clientId);
 }
 
 // ============================================
@@ -180,26 +328,147 @@ export function getClient(clientId: string): RegisteredClient | undefined {
 /**
  * Validate client credentials
  */
-export function validateClientCredentials(clientId: string, clientSecret: string): boolean {
-  const client = registeredClients.get(clientId);
-  if (client) {
-    return client.client_secret === clientSecret;
+export async function validateClientCredentials(clientId: string, clientSecret: string): Promise<boolean> {
+  // Registered clients, including the env-based default client
+  const client = await getClient(clientId);
+  return !!client && client.client_secret === clientSecret;
+}
+
+/**
+ * Check a redirect URI against the client's registered URIs.
+ * Registered URIs may contain "*" wildcards within a path segment.
+ */
+export async function isRedirectUriAllowed(clientId: string, redirectUri: string): Promise<boolean> {
+  const client = await getClient(clientId);
+  if (!client) {
+    return false;
+  }
+  
+  return client.redirect_uris.some((pattern) => {
+    if (!pattern.includes('*')) {
+      return pattern === redirectUri;
+    }
+    const escaped = pattern
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('[^/]*');
+    return new RegExp(`^${escaped}$`).test(redirectUri);
+  });
+}
+
+/**
+ * Check whether a client is the env-configured default client (the operator's own credentials)
+ */
+export function isDefaultClient(clientId: string): boolean {
+  return clientId === getOAuthCredentials().clientId;
+}
+
+/**
+ * Check whether a client registered a grant type
+ */
+export async function isGrantTypeAllowed(clientId: string, grantType: string): Promise<boolean> {
+  const client = await getClient(clientId);
+  return !!client && client.grant_types.includes(grantType);
+}
+
+/**
+ * Resolve the scope to grant a client: the requested scopes, or the default
+ * scopes the client registered when none are requested. Returns null when the
+ * client asks for a scope it did not register.
+ */
+export async function resolveClientScope(clientId: string, requested?: string): Promise<string | null> {
+  const client = await getClient(clientId);
+  if (!client) {
+    return null;
   }
   
-  // Fallback to env-based credentials
-  const { clientId: envId, clientSecret: envSecret } = getOAuthCredentials();
-  return clientId === envId && clientSecret === envSecret;
+  const registered = parseScopes(client.scope);
+  if (!requested) {
+    const defaults = DEFAULT_SCOPES.filter((scope) => hasScopes(registered, [scope]));
+    return defaults.length > 0 ? defaults.join(' ') : null;
+  }
+  
+  const scopes = requested.split(' ').filter(Boolean);
+  const allowed = scopes.every((scope) => SUPPORTED_SCOPES.includes(scope) && hasScopes(registered, [scope]));
+  return allowed ? scopes.join(' ') : null;
 }
 
 /**
  * Validate client exists (for auth code flow without secret)
  */
-export function validateClientId(clientId: string): boolean {
-  if (registeredClients.has(clientId)) {
-    return true;
+export async function validateClientId(clientId: string): Promise<boolean> {
+  return (await getClient(clientId)) !== null;
+}
+
+// ============================================
+// Authorization Requests (pending Google sign-in)
+// ============================================
+
+/**
+ * Store an authorization request while the user reviews the consent screen
+ * and signs in with Google. Returns an opaque ID to round-trip through the
+ * consent form and the Google OAuth state, and a nonce for the browser to
+ * hold in a cookie: only that browser may approve and complete the request.
+ */
+export async function createAuthorizationRequest(
+  request: Omit<AuthorizationRequest, 'expiresAt' | 'approved' | 'browserHash'>
+): Promise<{ requestId: string; browserNonce: string; expiresAt: number }> {
+  const requestId = crypto.randomBytes(24).toString('hex');
+  const browserNonce = crypto.randomBytes(24).toString('hex');
+  const expiresAt = Date.now() + AUTH_CODE_EXPIRY_MS;
+  
+  await authorizationRequests().set(
+    hashToken(requestId),
+    { ...request, browserHash: hashToken(browserNonce), expiresAt },
+    expiresAt
+  );
+  
+  return { requestId, browserNonce, expiresAt };
+}
+
+/**
+ * Check that an authorization request is being continued by the browser it was created for
+ */
+export function isAuthorizationRequestBrowser(request: AuthorizationRequest, browserNonce: string | undefined): boolean {
+  return !!browserNonce && !!request.browserHash && request.browserHash === hashToken(browserNonce);
+}
+
+/**
+ * Look up a pending authorization request without consuming it
+ */
+export async function getAuthorizationRequest(requestId: string): Promise<AuthorizationRequest | null> {
+  return authorizationRequests().get(hashToken(requestId));
+}
+
+/**
+ * Record that the user approved a pending authorization request
+ */
+export async function approveAuthorizationRequest(requestId: string): Promise<boolean> {
+  const request = await getAuthorizationRequest(requestId);
+  
+  if (!request) {
+    return false;
   }
-  const { clientId: envId } = getOAuthCredentials();
-  return clientId === envId;
+  
+  await authorizationRequests().set(hashToken(requestId), { ...request, approved: true }, request.expiresAt);
+  return true;
+}
+
+/**
+ * Retrieve and consume a pending authorization request
+ */
+export async function consumeAuthorizationRequest(requestId: string): Promise<AuthorizationRequest | null> {
+  const key = hashToken(requestId);
+  const request = await authorizationRequests().get(key);
+  
+  if (!request) {
+    return null;
+  }
+  
+  // One-time use
+  await authorizationRequests().delete(key);
+  
+  return request;
 }
 
 // ============================================
@@ -209,25 +478,28 @@ export function validateClientId(clientId: string): boolean {
 /**
  * Generate an authorization code
  */
-export function generateAuthorizationCode(
+export async function generateAuthorizationCode(
   clientId: string,
   redirectUri: string,
   codeChallenge?: string,
   codeChallengeMethod?: string,
   scope?: string,
-  resource?: string
-): string {
+  resource?: string,
+  userId?: string
+): Promise<string> {
   const code = crypto.randomBytes(32).toString('hex');
+  const expiresAt = Date.now() + AUTH_CODE_EXPIRY_MS;
   
-  authorizationCodes.set(code, {
+  await authorizationCodes().set(hashToken(code), {
     clientId,
     redirectUri,
     codeChallenge,
     codeChallengeMethod,
-    expiresAt: Date.now() + AUTH_CODE_EXPIRY_MS,
+    expiresAt,
     scope,
     resource,
-  });
+    userId,
+  }, expiresAt);
   
   return code;
 }
@@ -235,22 +507,19 @@ export function generateAuthorizationCode(
 /**
  * Validate and consume an authorization code
  */
-export function validateAuthorizationCode(
+export async function validateAuthorizationCode(
   code: string,
   clientId: string,
   redirectUri: string,
   codeVerifier?: string
-): { valid: boolean; error?: string; scope?: string; resource?: string } {
-  const authCode = authorizationCodes.get(code);
+): Promise<{ valid: boolean; error?: string; scope?: string; resource?: string; userId?: string }> {
+  const codeKey = hashToken(code);
   
-  if (!authCode) {
-    return { valid: false, error: 'Invalid authorization code' };
-  }
+  // Expired codes are never returned by the store
+  const authCode = await authorizationCodes().get(codeKey);
   
-  // Check expiration
-  if (Date.now() > authCode.expiresAt) {
-    authorizationCodes.delete(code);
-    return { valid: false, error: 'Authorization code expired' };
+  if (!authCode) {
+    return { valid: false, error: 'Invalid or expired authorization code' };
   }
   
   // Check client ID
@@ -276,9 +545,9 @@ export function validateAuthorizationCode(
   }
   
   // Consume the code (one-time use)
-  authorizationCodes.delete(code);
+  await authorizationCodes().delete(codeKey);
   
-  return { valid: true, scope: authCode.scope, resource: authCode.resource };
+  return { valid: true, scope: authCode.scope, resource: authCode.resource, userId: authCode.userId };
 }
 
 // ============================================
@@ -288,48 +557,61 @@ export function validateAuthorizationCode(
 /**
  * Generate an access token (legacy - for backward compatibility)
  */
-export function generateAccessToken(clientId: string, scope?: string, resource?: string): string {
-  const { accessToken } = generateTokenPair(clientId, scope, resource);
+export async function generateAccessToken(
+  clientId: string,
+  scope?: string,
+  resource?: string,
+  userId?: string,
+  issuer?: string
+): Promise<string> {
+  const { accessToken } = await generateTokenPair(clientId, scope, resource, userId, issuer);
   return accessToken;
 }
 
 /**
  * Generate both access token and refresh token
  */
-export function generateTokenPair(
+export async function generateTokenPair(
   clientId: string, 
   scope?: string,
-  resource?: string
-): { 
+  resource?: string,
+  userId?: string,
+  issuer?: string
+): Promise<{ 
   accessToken: string; 
   refreshToken: string;
-} {
-  const accessToken = crypto.randomBytes(32).toString('hex');
-  const refreshToken = crypto.randomBytes(32).toString('hex');
-  
-  const accessExpiresAt = Date.now() + TOKEN_EXPIRY_MS;
-  const refreshExpiresAt = Date.now() + REFRESH_TOKEN_EXPIRY_MS;
+}> {
+  const now = Date.now();
+  const tokenId = crypto.randomUUID();
   
-  // Store access token with link to refresh token
-  issuedTokens.set(accessToken, { 
-    expiresAt: accessExpiresAt, 
-    clientId, 
+  // Access token: self-contained JWT, validated by signature alone
+  const accessToken = await signAccessToken({
+    iss: issuer,
+    sub: userId || clientId,
+    aud: resource,
+    client_id: clientId,
     scope,
-    resource,
-    refreshToken 
+    iat: Math.floor(now / 1000),
+    exp: Math.floor((now + TOKEN_EXPIRY_MS) / 1000),
+    jti: tokenId,
   });
   
+  const refreshToken = crypto.randomBytes(32).toString('hex');
+  const refreshExpiresAt = now + REFRESH_TOKEN_EXPIRY_MS;
+  const refreshKey = hashToken(refreshToken);
+  
   // Store refresh token with link to access token
-  refreshTokens.set(refreshToken, { 
+  await refreshTokens().set(refreshKey, { 
     expiresAt: refreshExpiresAt, 
     clientId, 
     scope,
     resource,
-    accessToken 
-  });
+    userId,
+    accessToken: tokenId 
+  }, refreshExpiresAt);
   
   // Clean up expired tokens periodically
-  cleanupExpiredTokens();
+  await cleanupExpiredTokens();
   
   return { accessToken, refreshToken };
 }
@@ -337,91 +619,155 @@ export function generateTokenPair(
 /**
  * Validate an access token
  */
-export function validateAccessToken(token: string): boolean {
-  const tokenData = issuedTokens.get(token);
-  
-  if (!tokenData) {
-    return false;
-  }
+export async function validateAccessToken(token: string): Promise<boolean> {
+  return (await getAccessTokenInfo(token)) !== null;
+}
+
+/**
+ * Get the client, scope and user bound to a valid access token
+ */
+export async function getAccessTokenInfo(token: string): Promise<AccessTokenInfo | null> {
+  const claims = await verifyAccessToken(token);
   
-  if (Date.now() > tokenData.expiresAt) {
-    issuedTokens.delete(token);
-    return false;
+  if (!claims || await revokedAccessTokens().get(claims.jti)) {
+    return null;
   }
   
-  return true;
+  return {
+    clientId: claims.client_id,
+    scope: claims.scope,
+    resource: claims.aud,
+    // Client credentials tokens have the client as subject and no user
+    userId: claims.sub !== claims.client_id ? claims.sub : undefined,
+  };
 }
 
 /**
  * Validate a refresh token and return its data
  */
-export function validateRefreshToken(token: string): { 
+export async function validateRefreshToken(token: string): Promise<{ 
   valid: boolean; 
   clientId?: string; 
   scope?: string;
   resource?: string;
+  userId?: string;
   error?: string;
-} {
-  const tokenData = refreshTokens.get(token);
+}> {
+  // Expired tokens are never returned by the store
+  const tokenData = await refreshTokens().get(hashToken(token));
   
   if (!tokenData) {
-    return { valid: false, error: 'Invalid refresh token' };
-  }
-  
-  if (Date.now() > tokenData.expiresAt) {
-    refreshTokens.delete(token);
-    return { valid: false, error: 'Refresh token expired' };
+    return { valid: false, error: 'Invalid or expired refresh token' };
   }
   
   return { 
     valid: true, 
     clientId: tokenData.clientId, 
     scope: tokenData.scope,
-    resource: tokenData.resource
+    resource: tokenData.resource,
+    userId: tokenData.userId,
   };
 }
 
 /**
- * Revoke a refresh token and its linked access token
+ * Revoke an access token by recording its jti until the token would have expired
  */
-export function revokeRefreshToken(token: string): void {
-  const tokenData = refreshTokens.get(token);
+export async function revokeAccessToken(token: string): Promise<boolean> {
+  const claims = await verifyAccessToken(token);
   
-  if (tokenData && tokenData.accessToken) {
-    // Revoke the linked access token
-    issuedTokens.delete(tokenData.accessToken);
+  if (!claims) {
+    return false;
   }
   
-  // Revoke the refresh token
-  refreshTokens.delete(token);
+  await revokedAccessTokens().set(claims.jti, true, claims.exp * 1000);
+  return true;
 }
 
 /**
- * Clean up expired tokens
+ * Revoke a refresh token and the access token last issued with it
  */
-function cleanupExpiredTokens(): void {
-  const now = Date.now();
+export async function revokeRefreshToken(token: string): Promise<boolean> {
+  const refreshKey = hashToken(token);
+  const tokenData = await refreshTokens().get(refreshKey);
   
-  // Clean up expired access tokens
-  for (const [token, data] of issuedTokens.entries()) {
-    if (now > data.expiresAt) {
-      issuedTokens.delete(token);
-    }
+  if (!tokenData) {
+    return false;
   }
   
-  // Clean up expired refresh tokens
-  for (const [token, data] of refreshTokens.entries()) {
-    if (now > data.expiresAt) {
-      refreshTokens.delete(token);
-    }
+  if (tokenData.accessToken) {
+    // The linked access token was issued at most TOKEN_EXPIRY_MS ago
+    await revokedAccessTokens().set(tokenData.accessToken, true, Date.now() + TOKEN_EXPIRY_MS);
   }
   
-  // Clean up expired auth codes
-  for (const [code, data] of authorizationCodes.entries()) {
-    if (now > data.expiresAt) {
-      authorizationCodes.delete(code);
+  await refreshTokens().delete(refreshKey);
+  return true;
+}
+
+/**
+ * Describe an active access or refresh token, or return null if it is not active.
+ * `tokenTypeHint` only decides which kind is looked up first.
+ */
+export async function introspectToken(
+  token: string,
+  tokenTypeHint?: string
+): Promise<TokenIntrospection | null> {
+  const introspectAccessToken = async (): Promise<TokenIntrospection | null> => {
+    const claims = await verifyAccessToken(token);
+    if (!claims || await revokedAccessTokens().get(claims.jti)) {
+      return null;
+    }
+    return {
+      tokenType: 'access_token',
+      clientId: claims.client_id,
+      scope: claims.scope,
+      resource: claims.aud,
+      userId: claims.sub !== claims.client_id ? claims.sub : undefined,
+      issuer: claims.iss,
+      issuedAt: claims.iat,
+      expiresAt: claims.exp,
+      tokenId: claims.jti,
+    };
+  };
+  
+  const introspectRefreshToken = async (): Promise<TokenIntrospection | null> => {
+    const tokenData = await refreshTokens().get(hashToken(token));
+    if (!tokenData) {
+      return null;
+    }
+    return {
+      tokenType: 'refresh_token',
+      clientId: tokenData.clientId,
+      scope: tokenData.scope,
+      resource: tokenData.resource,
+      userId: tokenData.userId,
+      expiresAt: Math.floor(tokenData.expiresAt / 1000),
+    };
+  };
+  
+  const lookups = tokenTypeHint === 'refresh_token'
+    ? [introspectRefreshToken, introspectAccessToken]
+    : [introspectAccessToken, introspectRefreshToken];
+  
+  for (const lookup of lookups) {
+    const result = await lookup();
+    if (result) {
+      return result;
     }
   }
+  
+  return null;
+}
+
+/**
+ * Clean up expired tokens, codes and abandoned authorization requests
+ */
+async function cleanupExpiredTokens(): Promise<void> {
+  await Promise.all([
+    refreshTokens().sweepExpired(),
+    revokedAccessTokens().sweepExpired(),
+    authorizationCodes().sweepExpired(),
+    authorizationRequests().sweepExpired(),
+  ]);
 }
 
 // ============================================
@@ -9,10 +9,29 @@ import {
   CallToolResult,
 } from '@modelcontextprotocol/sdk/types.js';
 import {
+  createEvent,
+  formatAgendaAsText,
+  formatEventAsText,
+  formatTimeForDisplay,
+  getAgenda,
   getPendingInvites,
   respondToInvite,
+  updateEvent,
 } from './calendar-service.js';
-import { isAuthenticated, getAuthUrl, getUserEmail } from './google-auth.js';
+import { isAuthenticated, getUserEmail, getUserSignInUrl } from './google-auth.js';
+import {
+  applyInviteRules,
+  createInviteRule,
+  deleteInviteRule,
+  describeInviteRule,
+  listInviteRules,
+  updateInviteRule,
+} from './invite-rules.js';
+import { findMeetingTimes, formatMeetingTimesAsText } from './meeting-times.js';
+import { clearUserWorkingHours, formatWorkingHours, getWorkingHours, setUserWorkingHours, suggestResponses } from './suggestions.js';
+import { DEFAULT_LOCALE, Locale, negotiateLocale, t, tPlural } from './i18n.js';
+import { hasScopes } from './mcp-oauth.js';
+import { InviteRuleConditions, InviteRuleInput, RespondScope, ScheduledEvent, WorkingHoursInput } from './types.js';
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
@@ -20,12 +39,13 @@ import { fileURLToPath } from 'url';
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-// Default user ID for single-user mode
+// User ID for the single-user stdio server (HTTP requests always act as the token's user)
 const DEFAULT_USER_ID = 'default';
 
 // Base URL for widget templates
 const getWidgetBaseUrl = () => process.env.WIDGET_BASE_URL || process.env.BASE_URL || 'https://web-production-2e7fa.up.railway.app';
 
+
 // Widget directory path
 const getWidgetDir = () => path.join(__dirname, '..', '..', 'widget', 'dist');
 
@@ -128,6 +148,29 @@ function getTools(): AppsTool[] {
             type: 'string',
             description: 'End date for the search range in ISO 8601 format (e.g., "2024-01-30T23:59:59Z"). Defaults to 14 days from now.',
           },
+          calendar_ids: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'IDs of the calendars to search (use "primary" for the main calendar). Defaults to every calendar the user owns or can edit, including shared team calendars.',
+          },
+          cursor: {
+            type: 'string',
+            description: 'The nextCursor value from a previous call, to fetch the next page. The cursor remembers the date range and calendars, so other filters are ignored when it is set.',
+          },
+          page_size: {
+            type: 'integer',
+            minimum: 1,
+            maximum: 100,
+            description: 'Maximum number of invites to return in one page. Defaults to 25.',
+          },
+          arrived_since: {
+            type: 'string',
+            description: 'Only return invites that arrived after this time, in ISO 8601 format (e.g., "2024-01-15T08:00:00Z" for "since this morning"). Each invite\'s arrivedAt shows when it arrived; it is null for invites that predate push notifications.',
+          },
+          time_zone: {
+            type: 'string',
+            description: 'IANA time zone to give times in for this call, e.g. "Europe/Madrid". Defaults to the time zone in the user\'s Google Calendar settings.',
+          },
         },
         required: [],
         additionalProperties: false,
@@ -148,6 +191,120 @@ function getTools(): AppsTool[] {
         'openai/widgetAccessible': true,
       },
     },
+    {
+      name: 'get_agenda',
+      title: 'Get Agenda',
+      description: 'Show everything on the user\'s calendar for a day or a week: accepted and tentative events, events they organize, and invitations still waiting for a response, grouped by day with the user\'s response to each. Use it for questions like "what\'s on my calendar tomorrow?" or "how busy is my week?". Pending invitations can be answered with respond_to_invite, or inline in the widget.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          date: {
+            type: 'string',
+            description: 'Day to show (YYYY-MM-DD), or a day in the week to show. Defaults to today in the user\'s time zone.',
+          },
+          range: {
+            type: 'string',
+            enum: ['day', 'week'],
+            description: '"day" for that day only, "week" for the Monday-to-Sunday week containing it. Defaults to "day".',
+          },
+          calendar_ids: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Calendar IDs to show. Defaults to every calendar the user owns or can edit.',
+          },
+          include_declined: {
+            type: 'boolean',
+            description: 'Also list events the user declined. Defaults to false.',
+          },
+          time_zone: {
+            type: 'string',
+            description: 'IANA time zone to give times in for this call, e.g. "Europe/Madrid". Defaults to the time zone in the user\'s Google Calendar settings.',
+          },
+        },
+        required: [],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'Get Agenda',
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['calendar:read'] },
+      ],
+      _meta: {
+        'openai/outputTemplate': 'ui://widget/calendar-widget.html',
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': true,
+      },
+    },
+    {
+      name: 'suggest_responses',
+      title: 'Suggest Responses',
+      description: 'Recommend a response for each pending calendar invitation, with a short reason. Considers the user\'s invite rules, conflicts with events they accepted, their working hours, overlapping pending invites, and whether the organizer is from their organization. Suggestions are not sent; use respond_to_invite or batch_respond_to_invites once the user agrees.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          start_date: {
+            type: 'string',
+            description: 'Start date for the search range (ISO 8601 format). Defaults to now.',
+          },
+          end_date: {
+            type: 'string',
+            description: 'End date for the search range (ISO 8601 format). Defaults to 14 days from now.',
+          },
+          calendar_ids: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Calendar IDs to search. Defaults to every calendar the user owns or can edit.',
+          },
+          cursor: {
+            type: 'string',
+            description: 'The nextCursor value from a previous call, to get the next page.',
+          },
+          page_size: {
+            type: 'number',
+            minimum: 1,
+            maximum: 100,
+            description: 'Invites per page (1-100). Defaults to 25.',
+          },
+          time_zone: {
+            type: 'string',
+            description: 'IANA time zone to give times in for this call, e.g. "Europe/Madrid". Defaults to the time zone in the user\'s Google Calendar settings.',
+          },
+          working_hours: {
+            type: 'object',
+            properties: {
+              start: { type: 'string', description: 'Start of the working day as "HH:MM", e.g. "09:00".' },
+              end: { type: 'string', description: 'End of the working day as "HH:MM", e.g. "17:00".' },
+              days: { type: 'array', items: { type: 'integer', minimum: 0, maximum: 6 }, description: 'Working days, 0 (Sunday) to 6. Defaults to the server\'s working days (Monday to Friday unless configured).' },
+            },
+            required: ['start', 'end'],
+            additionalProperties: false,
+            description: 'The user\'s working hours for this call only, in their time zone. Defaults to the hours saved with set_working_hours.',
+          },
+        },
+        required: [],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'Suggest Responses',
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['calendar:read'] },
+      ],
+      _meta: {
+        'openai/outputTemplate': 'ui://widget/calendar-widget.html',
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': true,
+      },
+    },
     {
       name: 'respond_to_invite',
       title: 'Respond to Invite',
@@ -159,6 +316,10 @@ function getTools(): AppsTool[] {
             type: 'string',
             description: 'The unique event ID from the invites list. This is used to identify which event to respond to.',
           },
+          calendar_id: {
+            type: 'string',
+            description: 'The calendar ID the invite was found on, from the invites list. Defaults to "primary".',
+          },
           event_title: {
             type: 'string',
             description: 'The title/summary of the event from the invites list. Use this when asking the user for confirmation (e.g., "Team Standup Meeting"). This helps make the confirmation message more readable. If not provided, defaults to "this meeting".',
@@ -168,6 +329,24 @@ function getTools(): AppsTool[] {
             enum: ['accepted', 'declined', 'tentative'],
             description: 'The response to send: "accepted" to accept the invite, "declined" to decline, or "tentative" to indicate you might attend.',
           },
+          scope: {
+            type: 'string',
+            enum: ['instance', 'series', 'following'],
+            description: 'For recurring events (invites with a recurringEventId): "instance" answers only this occurrence, "series" answers every occurrence, "following" answers this occurrence and all later ones. Defaults to "instance". Ignored for single events.',
+          },
+          comment: {
+            type: 'string',
+            maxLength: 1000,
+            description: 'Optional note sent to the organizer with the response, e.g. the reason for declining. Suggest one when declining, especially for external organizers.',
+          },
+          proposed_start: {
+            type: 'string',
+            description: 'Optional start of a proposed new time (ISO 8601). Requires proposed_end. Sent to the organizer in the comment. Only for a single occurrence.',
+          },
+          proposed_end: {
+            type: 'string',
+            description: 'Optional end of a proposed new time (ISO 8601). Requires proposed_start.',
+          },
         },
         required: ['event_id', 'response'],
         additionalProperties: false,
@@ -204,6 +383,10 @@ function getTools(): AppsTool[] {
                   type: 'string',
                   description: 'The unique event ID from the invites list.',
                 },
+                calendar_id: {
+                  type: 'string',
+                  description: 'The calendar ID the invite was found on. Defaults to "primary".',
+                },
                 event_title: {
                   type: 'string',
                   description: 'The title/summary of the event. Use this when confirming with the user. If not provided, defaults to "Untitled event".',
@@ -213,6 +396,24 @@ function getTools(): AppsTool[] {
                   enum: ['accepted', 'declined', 'tentative'],
                   description: 'The response to send for this specific invite.',
                 },
+                scope: {
+                  type: 'string',
+                  enum: ['instance', 'series', 'following'],
+                  description: 'For recurring events: "instance" (default), "series" or "following".',
+                },
+                comment: {
+                  type: 'string',
+                  maxLength: 1000,
+                  description: 'Optional note sent to the organizer with this response.',
+                },
+                proposed_start: {
+                  type: 'string',
+                  description: 'Optional start of a proposed new time (ISO 8601). Requires proposed_end.',
+                },
+                proposed_end: {
+                  type: 'string',
+                  description: 'Optional end of a proposed new time (ISO 8601). Requires proposed_start.',
+                },
               },
               required: ['event_id', 'response'],
               additionalProperties: false,
@@ -240,9 +441,261 @@ function getTools(): AppsTool[] {
       },
     },
     {
-      name: 'check_auth_status',
-      title: 'Check Auth Status',
-      description: 'Check if the user is authenticated with Google Calendar. Returns authentication status and provides an auth URL if not authenticated.',
+      name: 'create_event',
+      title: 'Create Event',
+      description: 'Create an event on the user\'s Google Calendar and invite attendees, e.g. "set up a 30 min sync with Ana next Tuesday at 10". Attendees must be email addresses; ask the user for an address if they only give a name. Resolve relative dates against today in the user\'s time zone. Confirm the title, time and attendees with the user before creating. The widget shows the created event.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          title: {
+            type: 'string',
+            description: 'Event title, e.g. "Sync with Ana".',
+          },
+          start: {
+            type: 'string',
+            description: 'Start as an ISO 8601 date-time, e.g. "2024-01-16T10:00". Without an offset it is a time in time_zone. A plain date (YYYY-MM-DD) makes an all-day event.',
+          },
+          end: {
+            type: 'string',
+            description: 'Optional end (ISO 8601). For all-day events, the last day of the event (inclusive). Defaults to start plus duration_minutes.',
+          },
+          duration_minutes: {
+            type: 'number',
+            minimum: 1,
+            description: 'Length in minutes when end is not given. Defaults to 30.',
+          },
+          all_day: {
+            type: 'boolean',
+            description: 'Make an all-day event. Implied when start is a plain date.',
+          },
+          time_zone: {
+            type: 'string',
+            description: 'IANA time zone the event is scheduled in, e.g. "Europe/Madrid". Defaults to the user\'s calendar time zone.',
+          },
+          attendees: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Email addresses to invite.',
+          },
+          description: {
+            type: 'string',
+            description: 'Optional event description or agenda.',
+          },
+          location: {
+            type: 'string',
+            description: 'Optional location.',
+          },
+          add_meet_link: {
+            type: 'boolean',
+            description: 'Generate a Google Meet video link for the event.',
+          },
+          calendar_id: {
+            type: 'string',
+            description: 'Calendar to create the event on. Defaults to "primary".',
+          },
+          notify_attendees: {
+            type: 'boolean',
+            description: 'Email the invitations to attendees. Defaults to true.',
+          },
+        },
+        required: ['title', 'start'],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'Create Event',
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['calendar:write'] },
+      ],
+      _meta: {
+        'openai/outputTemplate': 'ui://widget/calendar-widget.html',
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': true, // Widget books a slot picked from find_meeting_times
+      },
+    },
+    {
+      name: 'update_event',
+      title: 'Update Event',
+      description: 'Change or reschedule an event the user organizes: its title, time, attendees, description, location, or add a Meet link. Only the fields given change; moving the start without a new end keeps the event\'s length. For invitations from someone else, use respond_to_invite with a proposed time instead. Confirm the changes with the user first. The widget shows the updated event.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          event_id: {
+            type: 'string',
+            description: 'ID of the event to change, e.g. from create_event. For a recurring event, an instance ID changes only that occurrence.',
+          },
+          calendar_id: {
+            type: 'string',
+            description: 'Calendar the event is on. Defaults to "primary".',
+          },
+          title: {
+            type: 'string',
+            description: 'New title.',
+          },
+          start: {
+            type: 'string',
+            description: 'New start (ISO 8601). Without an offset it is a time in time_zone. A plain date (YYYY-MM-DD) makes it all-day.',
+          },
+          end: {
+            type: 'string',
+            description: 'New end (ISO 8601). For all-day events, the last day (inclusive).',
+          },
+          duration_minutes: {
+            type: 'number',
+            minimum: 1,
+            description: 'New length in minutes, when end is not given.',
+          },
+          all_day: {
+            type: 'boolean',
+            description: 'Switch between an all-day and a timed event. A timed event needs a start with a time.',
+          },
+          time_zone: {
+            type: 'string',
+            description: 'IANA time zone for the new times. Defaults to the event\'s time zone.',
+          },
+          add_attendees: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Email addresses to invite.',
+          },
+          remove_attendees: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Email addresses to remove from the event.',
+          },
+          description: {
+            type: 'string',
+            description: 'New description.',
+          },
+          location: {
+            type: 'string',
+            description: 'New location.',
+          },
+          add_meet_link: {
+            type: 'boolean',
+            description: 'Generate a Google Meet link if the event has none.',
+          },
+          notify_attendees: {
+            type: 'boolean',
+            description: 'Email the changes to attendees. Defaults to true.',
+          },
+        },
+        required: ['event_id'],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'Update Event',
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['calendar:write'] },
+      ],
+      _meta: {
+        'openai/outputTemplate': 'ui://widget/calendar-widget.html',
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': false,
+      },
+    },
+    {
+      name: 'find_meeting_times',
+      title: 'Find Meeting Times',
+      description: 'Find times when the user and a group of attendees are all free, e.g. "when can Ana, Luis and I meet for an hour next week?". Checks everyone\'s Google Calendar free/busy and working hours and returns ranked candidate slots, best first. Slots are within the user\'s working hours; ones outside an attendee\'s working hours or with someone busy rank lower. Pass attendee_working_hours for people whose hours the user knows; the result says whose hours were assumed. Attendees must be email addresses. The widget lets the user pick a slot to book; otherwise book one with create_event once the user chooses.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          attendees: {
+            type: 'array',
+            items: { type: 'string' },
+            minItems: 1,
+            maxItems: 20,
+            description: 'Email addresses of the people to meet with. The user is included automatically.',
+          },
+          duration_minutes: {
+            type: 'number',
+            minimum: 1,
+            maximum: 1440,
+            description: 'Meeting length in minutes.',
+          },
+          start_date: {
+            type: 'string',
+            description: 'Start of the search window (ISO 8601 date or date-time). Defaults to now.',
+          },
+          end_date: {
+            type: 'string',
+            description: 'End of the search window (ISO 8601). A plain date includes that whole day. Defaults to 7 days after the start; at most 31 days.',
+          },
+          time_zone: {
+            type: 'string',
+            description: 'IANA time zone to give times in for this call, e.g. "Europe/Madrid". Defaults to the time zone in the user\'s Google Calendar settings.',
+          },
+          working_hours: {
+            type: 'object',
+            properties: {
+              start: { type: 'string', description: 'Start of the working day as "HH:MM", e.g. "09:00".' },
+              end: { type: 'string', description: 'End of the working day as "HH:MM", e.g. "17:00".' },
+              days: { type: 'array', items: { type: 'integer', minimum: 0, maximum: 6 }, description: 'Working days, 0 (Sunday) to 6. Defaults to the server\'s working days (Monday to Friday unless configured).' },
+            },
+            required: ['start', 'end'],
+            additionalProperties: false,
+            description: 'The user\'s working hours for this call only, in their time zone. Defaults to the hours saved with set_working_hours.',
+          },
+          attendee_working_hours: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                email: { type: 'string', description: 'One of the attendees.' },
+                start: { type: 'string', description: 'Start of their working day as "HH:MM".' },
+                end: { type: 'string', description: 'End of their working day as "HH:MM".' },
+                days: { type: 'array', items: { type: 'integer', minimum: 0, maximum: 6 }, description: 'Their working days, 0 (Sunday) to 6.' },
+                time_zone: { type: 'string', description: 'IANA time zone their hours are in. Defaults to their calendar\'s, or the user\'s.' },
+              },
+              required: ['email', 'start', 'end'],
+              additionalProperties: false,
+            },
+            description: 'Working hours of attendees, when the user knows them. Otherwise hours saved by attendees who use this app are used, or the server\'s defaults.',
+          },
+          max_results: {
+            type: 'number',
+            minimum: 1,
+            maximum: 20,
+            description: 'Candidate slots to return (1-20). Defaults to 5.',
+          },
+          title: {
+            type: 'string',
+            description: 'Optional title for the meeting, used when the user books a slot from the widget.',
+          },
+        },
+        required: ['attendees', 'duration_minutes'],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'Find Meeting Times',
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['calendar:read'] },
+      ],
+      _meta: {
+        'openai/outputTemplate': 'ui://widget/calendar-widget.html',
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': true,
+      },
+    },
+    {
+      name: 'list_invite_rules',
+      title: 'List Invite Rules',
+      description: 'List the user\'s auto-responder rules, in the order they are checked. The first enabled rule matching a pending invite decides its response.',
       inputSchema: {
         type: 'object',
         properties: {},
@@ -250,46 +703,956 @@ function getTools(): AppsTool[] {
         additionalProperties: false,
       },
       annotations: {
-        title: 'Check Auth Status',
+        title: 'List Invite Rules',
         readOnlyHint: true,
         destructiveHint: false,
         idempotentHint: true,
         openWorldHint: false,
       },
       securitySchemes: [
-        { type: 'noauth' },
+        { type: 'oauth2', scopes: ['calendar:read'] },
       ],
       _meta: {
-        // 'openai/outputTemplate': 'ui://widget/calendar-widget.html',
-        'openai/visibility': 'private', // Hidden from ChatGPT - only widget can call this
-        'openai/widgetAccessible': true, // Widget can still call this for polling auth status
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': false,
+      },
+    },
+    {
+      name: 'create_invite_rule',
+      title: 'Create Invite Rule',
+      description: 'Add an auto-responder rule, such as "decline anything from @vendor.com" or "tentatively accept all-day events". New rules are checked after existing ones. Enabled rules are applied automatically in the background (every 15 minutes by default), so confirm the rule with the user before creating it; apply_invite_rules with dry_run shows which invites it would answer right away.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: {
+            type: 'string',
+            description: 'Short description of the rule, e.g. "Decline vendor meetings".',
+          },
+          action: {
+            type: 'string',
+            enum: ['accepted', 'declined', 'tentative'],
+            description: 'The response the rule sends to matching invites.',
+          },
+          comment: {
+            type: 'string',
+            maxLength: 1000,
+            description: 'Optional note sent to the organizer with each response, e.g. a polite reason for declining.',
+          },
+          enabled: {
+            type: 'boolean',
+            description: 'Whether the rule is applied. Defaults to true.',
+          },
+          conditions: {
+            type: 'object',
+            description: 'When the rule applies. Every condition given must hold; within a list, any entry matching is enough. At least one condition besides only_when_free is required.',
+            properties: {
+              organizer_domains: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Match organizers at any of these domains (subdomains included), e.g. ["vendor.com"].',
+              },
+              organizer_emails: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Match organizers with any of these email addresses, e.g. the user\'s manager.',
+              },
+              summary_contains: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Match invites whose title contains any of these phrases (case-insensitive).',
+              },
+              calendar_ids: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Match invites found on any of these calendars.',
+              },
+              all_day: {
+                type: 'boolean',
+                description: 'true matches only all-day events, false only timed events.',
+              },
+              recurring: {
+                type: 'boolean',
+                description: 'true matches only instances of recurring events, false only single events.',
+              },
+              only_when_free: {
+                type: 'boolean',
+                description: 'Match only when the invite overlaps no accepted or tentative events. Combine with other conditions, e.g. "accept my manager\'s invites when I\'m free".',
+              },
+            },
+            additionalProperties: false,
+          },
+        },
+        required: ['name', 'action', 'conditions'],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'Create Invite Rule',
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['calendar:write'] },
+      ],
+      _meta: {
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': false,
+      },
+    },
+    {
+      name: 'update_invite_rule',
+      title: 'Update Invite Rule',
+      description: 'Change an auto-responder rule, e.g. to disable it or change its action. Only the fields given are changed; conditions, when given, replace the rule\'s conditions entirely.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          rule_id: {
+            type: 'string',
+            description: 'The rule ID from list_invite_rules.',
+          },
+          name: {
+            type: 'string',
+            description: 'Short description of the rule, e.g. "Decline vendor meetings".',
+          },
+          action: {
+            type: 'string',
+            enum: ['accepted', 'declined', 'tentative'],
+            description: 'The response the rule sends to matching invites.',
+          },
+          comment: {
+            type: 'string',
+            maxLength: 1000,
+            description: 'Optional note sent to the organizer with each response, e.g. a polite reason for declining.',
+          },
+          enabled: {
+            type: 'boolean',
+            description: 'Whether the rule is applied. Defaults to true.',
+          },
+          conditions: {
+            type: 'object',
+            description: 'New conditions for the rule, replacing the current ones.',
+            properties: {
+              organizer_domains: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Match organizers at any of these domains (subdomains included), e.g. ["vendor.com"].',
+              },
+              organizer_emails: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Match organizers with any of these email addresses, e.g. the user\'s manager.',
+              },
+              summary_contains: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Match invites whose title contains any of these phrases (case-insensitive).',
+              },
+              calendar_ids: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Match invites found on any of these calendars.',
+              },
+              all_day: {
+                type: 'boolean',
+                description: 'true matches only all-day events, false only timed events.',
+              },
+              recurring: {
+                type: 'boolean',
+                description: 'true matches only instances of recurring events, false only single events.',
+              },
+              only_when_free: {
+                type: 'boolean',
+                description: 'Match only when the invite overlaps no accepted or tentative events. Combine with other conditions, e.g. "accept my manager\'s invites when I\'m free".',
+              },
+            },
+            additionalProperties: false,
+          },
+        },
+        required: ['rule_id'],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'Update Invite Rule',
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['calendar:write'] },
+      ],
+      _meta: {
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': false,
+      },
+    },
+    {
+      name: 'delete_invite_rule',
+      title: 'Delete Invite Rule',
+      description: 'Delete an auto-responder rule. Responses it already sent are not undone.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          rule_id: {
+            type: 'string',
+            description: 'The rule ID from list_invite_rules.',
+          },
+        },
+        required: ['rule_id'],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'Delete Invite Rule',
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['calendar:write'] },
+      ],
+      _meta: {
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': false,
+      },
+    },
+    {
+      name: 'apply_invite_rules',
+      title: 'Apply Invite Rules',
+      description: 'Check pending invitations against the user\'s auto-responder rules. By default this is a dry run that only reports which invites each rule would answer; show that to the user and call again with dry_run false to send the responses.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          dry_run: {
+            type: 'boolean',
+            description: 'true (default) reports what would happen without responding; false sends the responses.',
+          },
+          start_date: {
+            type: 'string',
+            description: 'Start of the range of invites to check (ISO 8601). Defaults to now.',
+          },
+          end_date: {
+            type: 'string',
+            description: 'End of the range of invites to check (ISO 8601). Defaults to 14 days from now.',
+          },
+        },
+        required: [],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'Apply Invite Rules',
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['calendar:read'] },
+      ],
+      _meta: {
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': false,
+      },
+    },
+    {
+      name: 'set_working_hours',
+      title: 'Set Working Hours',
+      description: 'Save the user\'s working hours, e.g. "I work 8 to 4, Monday to Thursday". suggest_responses and find_meeting_times use them in the user\'s time zone from then on. Google doesn\'t share the working hours set in Google Calendar, so ask the user rather than guessing. Set clear to true to go back to the server\'s defaults.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          start: {
+            type: 'string',
+            description: 'Start of the working day as "HH:MM", e.g. "08:00".',
+          },
+          end: {
+            type: 'string',
+            description: 'End of the working day as "HH:MM", e.g. "16:00".',
+          },
+          days: {
+            type: 'array',
+            items: { type: 'integer', minimum: 0, maximum: 6 },
+            description: 'Working days, 0 (Sunday) to 6. Defaults to the server\'s working days (Monday to Friday unless configured).',
+          },
+          clear: {
+            type: 'boolean',
+            description: 'true forgets the saved hours instead; start and end are then not needed.',
+          },
+        },
+        required: [],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'Set Working Hours',
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+      securitySchemes: [
+        { type: 'oauth2', scopes: ['calendar:write'] },
+      ],
+      _meta: {
+        'openai/visibility': 'public',
+        'openai/widgetAccessible': false,
+      },
+    },
+    {
+      name: 'check_auth_status',
+      title: 'Check Auth Status',
+      description: 'Check if the user is authenticated with Google Calendar. Returns authentication status and provides an auth URL if not authenticated.',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+        required: [],
+        additionalProperties: false,
+      },
+      annotations: {
+        title: 'Check Auth Status',
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+      securitySchemes: [
+        { type: 'noauth' },
+      ],
+      _meta: {
+        // 'openai/outputTemplate': 'ui://widget/calendar-widget.html',
+        'openai/visibility': 'private', // Hidden from ChatGPT - only widget can call this
+        'openai/widgetAccessible': true, // Widget can still call this for polling auth status
+      },
+    },
+  ];
+}
+
+// Scopes some calls need on top of their tool's securitySchemes, by tool name
+const CALL_SCOPES: Record<string, (args: Record<string, unknown>) => string[]> = {
+  // A dry run only reads; applying the rules sends responses
+  apply_invite_rules: (args) => (args.dry_run === false ? ['calendar:write'] : []),
+};
+
+/**
+ * Get the OAuth scopes a tool requires, from its securitySchemes, plus any
+ * the call's arguments add (see CALL_SCOPES).
+ * Returns null for unknown tools and an empty list for tools that need no auth.
+ */
+export function getRequiredScopes(toolName: string, args: Record<string, unknown> = {}): string[] | null {
+  const tool = getTools().find((t) => t.name === toolName);
+  
+  if (!tool) {
+    return null;
+  }
+  
+  const scopes = (tool.securitySchemes || [])
+    .filter((scheme) => scheme.type === 'oauth2')
+    .flatMap((scheme) => scheme.scopes || []);
+  
+  return [...scopes, ...(CALL_SCOPES[toolName]?.(args) || [])];
+}
+
+/**
+ * Get the tools a set of granted scopes can call
+ */
+function getToolsForScopes(scopes: string[]): AppsTool[] {
+  return getTools().filter((tool) => hasScopes(scopes, getRequiredScopes(tool.name) || []));
+}
+
+/**
+ * Apps SDK Tool Response with structuredContent
+ */
+interface AppsToolResponse {
+  content: { type: 'text'; text: string }[];
+  structuredContent: Record<string, unknown>;
+  _meta?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+/**
+ * Handle get_pending_reservations tool
+ */
+async function handleGetPendingReservations(
+  args: { start_date?: string; end_date?: string; calendar_ids?: string[]; cursor?: string; page_size?: number; arrived_since?: string; time_zone?: string },
+  userId: string,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<AppsToolResponse> {
+  // Check authentication
+  if (!(await isAuthenticated(userId))) {
+    const authUrl = await getUserSignInUrl(userId);
+    return {
+      content: [{ type: 'text', text: t(locale, 'auth.required') }],
+      structuredContent: {
+        authRequired: true,
+        authUrl,
+      },
+      _meta: {
+        'openai/outputTemplate': 'ui://widget/calendar-widget.html',
+      },
+      isError: false,
+    };
+  }
+
+  try {
+    const result = await getPendingInvites(userId, args.start_date, args.end_date, args.calendar_ids, {
+      cursor: args.cursor,
+      pageSize: args.page_size,
+      arrivedSince: args.arrived_since,
+      timeZone: args.time_zone,
+    });
+    
+    const counts = { total: result.totalCount, shown: result.invites.length, timeZone: result.timeZone, since: args.arrived_since || '' };
+    let text = result.invites.length > 0 
+      ? t(locale, args.arrived_since ? 'pending.foundNew' : 'pending.found', counts)
+      : t(locale, args.arrived_since ? 'pending.noneNew' : 'pending.none');
+    const conflicting = result.invites.filter((invite) => invite.conflicts.length > 0).length;
+    if (conflicting > 0) {
+      text += t(locale, 'pending.conflicts', { count: conflicting });
+    }
+    const repeating = result.series.filter((series) => series.pendingCount > 1);
+    if (repeating.length > 0) {
+      text += t(locale, 'pending.series', { count: repeating.length });
+    }
+    if (result.nextCursor) {
+      text += t(locale, 'pending.more', { tool: 'get_pending_reservations' });
+    }
+    if (result.truncated) {
+      text += t(locale, 'pending.truncated');
+    }
+    
+    return {
+      content: [{ type: 'text', text }],
+      structuredContent: {
+        invites: result.invites,
+        calendars: result.calendars,
+        series: result.series,
+        dateRange: result.dateRange,
+        totalCount: result.totalCount,
+        nextCursor: result.nextCursor,
+        truncated: result.truncated,
+        timeZone: result.timeZone,
+      },
+      _meta: {
+        'openai/outputTemplate': 'ui://widget/calendar-widget.html',
+      },
+      isError: false,
+    };
+  } catch (error: any) {
+    return {
+      content: [{ type: 'text', text: t(locale, 'common.error', { message: error.message }) }],
+      structuredContent: { error: error.message },
+      isError: true,
+    };
+  }
+}
+
+/**
+ * Handle get_agenda tool
+ */
+async function handleGetAgenda(
+  args: { date?: string; range?: 'day' | 'week'; calendar_ids?: string[]; include_declined?: boolean; time_zone?: string },
+  userId: string,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<AppsToolResponse> {
+  // Check authentication
+  if (!(await isAuthenticated(userId))) {
+    const authUrl = await getUserSignInUrl(userId);
+    return {
+      content: [{ type: 'text', text: t(locale, 'auth.required') }],
+      structuredContent: {
+        authRequired: true,
+        authUrl,
+      },
+      _meta: {
+        'openai/outputTemplate': 'ui://widget/calendar-widget.html',
+      },
+      isError: false,
+    };
+  }
+
+  try {
+    const agenda = await getAgenda(userId, {
+      date: args.date,
+      range: args.range,
+      calendarIds: args.calendar_ids,
+      includeDeclined: args.include_declined,
+      timeZone: args.time_zone,
+    });
+    
+    return {
+      content: [{ type: 'text', text: formatAgendaAsText(agenda, locale) }],
+      structuredContent: {
+        days: agenda.days,
+        range: agenda.range,
+        dateRange: agenda.dateRange,
+        pendingCount: agenda.pendingCount,
+        calendars: agenda.calendars,
+        truncated: agenda.truncated,
+        timeZone: agenda.timeZone,
+      },
+      _meta: {
+        'openai/outputTemplate': 'ui://widget/calendar-widget.html',
+      },
+      isError: false,
+    };
+  } catch (error: any) {
+    return {
+      content: [{ type: 'text', text: t(locale, 'common.error', { message: error.message }) }],
+      structuredContent: { error: error.message },
+      isError: true,
+    };
+  }
+}
+
+/**
+ * Handle suggest_responses tool
+ */
+async function handleSuggestResponses(
+  args: { start_date?: string; end_date?: string; calendar_ids?: string[]; cursor?: string; page_size?: number; time_zone?: string; working_hours?: Partial<WorkingHoursInput> },
+  userId: string,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<AppsToolResponse> {
+  // Check authentication
+  if (!(await isAuthenticated(userId))) {
+    const authUrl = await getUserSignInUrl(userId);
+    return {
+      content: [{ type: 'text', text: t(locale, 'auth.required') }],
+      structuredContent: {
+        authRequired: true,
+        authUrl,
+      },
+      _meta: {
+        'openai/outputTemplate': 'ui://widget/calendar-widget.html',
+      },
+      isError: false,
+    };
+  }
+
+  try {
+    const result = await suggestResponses(userId, args.start_date, args.end_date, args.calendar_ids, {
+      cursor: args.cursor,
+      pageSize: args.page_size,
+      timeZone: args.time_zone,
+      locale,
+      workingHours: args.working_hours,
+    });
+    
+    let text = result.invites.length > 0
+      ? `${t(locale, 'suggest.header', { shown: result.invites.length, total: result.totalCount })}\n` +
+        result.invites.map((invite, i) => {
+          const when = formatTimeForDisplay(invite.startTime, invite.timeZone, invite.isAllDay, locale);
+          const response = t(locale, `suggest.response.${invite.suggestion.response}`);
+          return `${i + 1}. "${invite.summary}" (${when}) - ${t(locale, 'suggest.label')}: ${response} - ${invite.suggestion.reason}`;
+        }).join('\n')
+      : t(locale, 'pending.none');
+    if (result.nextCursor) {
+      text += `\n\n${t(locale, 'pending.more', { tool: 'suggest_responses' }).trim()}`;
+    }
+    if (result.truncated) {
+      text += `\n\n${t(locale, 'pending.truncated').trim()}`;
+    }
+    if (result.workingHours.source === 'default') {
+      text += `\n\n${t(locale, 'suggest.defaultHours', { hours: formatWorkingHours(result.workingHours, locale) })}`;
+    }
+    
+    return {
+      content: [{ type: 'text', text }],
+      structuredContent: {
+        invites: result.invites,
+        calendars: result.calendars,
+        series: result.series,
+        dateRange: result.dateRange,
+        totalCount: result.totalCount,
+        nextCursor: result.nextCursor,
+        truncated: result.truncated,
+        timeZone: result.timeZone,
+        workingHours: result.workingHours,
+      },
+      _meta: {
+        'openai/outputTemplate': 'ui://widget/calendar-widget.html',
+      },
+      isError: false,
+    };
+  } catch (error: any) {
+    return {
+      content: [{ type: 'text', text: t(locale, 'common.error', { message: error.message }) }],
+      structuredContent: { error: error.message },
+      isError: true,
+    };
+  }
+}
+
+/**
+ * Handle respond_to_invite tool
+ */
+async function handleRespondToInvite(
+  args: { event_id: string; calendar_id?: string; event_title?: string; response: 'accepted' | 'declined' | 'tentative'; scope?: RespondScope; comment?: string; proposed_start?: string; proposed_end?: string },
+  userId: string,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<AppsToolResponse> {
+  if (!args.event_id) {
+    return {
+      content: [{ type: 'text', text: t(locale, 'error.eventIdRequired') }],
+      structuredContent: { error: 'event_id is required', success: false },
+      isError: true,
+    };
+  }
+  
+  if (!['accepted', 'declined', 'tentative'].includes(args.response)) {
+    return {
+      content: [{ type: 'text', text: t(locale, 'error.invalidResponse') }],
+      structuredContent: { error: 'Invalid response value', success: false },
+      isError: true,
+    };
+  }
+  
+  if (args.scope && !['instance', 'series', 'following'].includes(args.scope)) {
+    return {
+      content: [{ type: 'text', text: t(locale, 'error.invalidScope') }],
+      structuredContent: { error: 'Invalid scope value', success: false },
+      isError: true,
+    };
+  }
+
+  if (!(await isAuthenticated(userId))) {
+    const authUrl = await getUserSignInUrl(userId);
+    return {
+      content: [{ type: 'text', text: t(locale, 'auth.required') }],
+      structuredContent: { authRequired: true, authUrl, success: false },
+      isError: true,
+    };
+  }
+
+  try {
+    const result = await respondToInvite(userId, args.event_id, args.response, args.calendar_id, args.scope, {
+      comment: args.comment,
+      proposedStart: args.proposed_start,
+      proposedEnd: args.proposed_end,
+    }, locale);
+    
+    const eventTitle = args.event_title || result.eventSummary || t(locale, 'respond.thisMeeting');
+    const plain = result.scope === 'instance' && !result.comment;
+    
+    return {
+      content: [{ 
+        type: 'text', 
+        text: plain ? t(locale, `respond.done.${args.response}`, { title: eventTitle }) : result.message,
+      }],
+      structuredContent: {
+        success: true,
+        response: args.response,
+        eventId: args.event_id,
+        calendarId: result.calendarId,
+        scope: result.scope,
+        updatedCount: result.updatedCount,
+        comment: result.comment,
+        proposedTime: result.proposedTime,
+        message: result.message,
+        eventSummary: result.eventSummary,
+      },
+      isError: false,
+    };
+  } catch (error: any) {
+    return {
+      content: [{ type: 'text', text: t(locale, 'common.error', { message: error.message }) }],
+      structuredContent: { error: error.message, success: false },
+      isError: true,
+    };
+  }
+}
+
+/**
+ * Handle batch_respond_to_invites tool
+ */
+async function handleBatchRespondToInvites(
+  args: {
+    invites: Array<{
+      event_id: string;
+      calendar_id?: string;
+      event_title?: string;
+      response: 'accepted' | 'declined' | 'tentative';
+      scope?: RespondScope;
+      comment?: string;
+      proposed_start?: string;
+      proposed_end?: string;
+    }>;
+  },
+  userId: string,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<AppsToolResponse> {
+  if (!(await isAuthenticated(userId))) {
+    const authUrl = await getUserSignInUrl(userId);
+    return {
+      content: [{ type: 'text', text: t(locale, 'auth.required') }],
+      structuredContent: {
+        authenticated: false,
+        authUrl,
+      },
+      _meta: {
+        'openai/outputTemplate': 'ui://widget/calendar-widget.html',
+      },
+      isError: true,
+    };
+  }
+
+  // Enforce batch size limit
+  const MAX_BATCH_SIZE = 10;
+  if (args.invites.length > MAX_BATCH_SIZE) {
+    return {
+      content: [{ type: 'text', text: t(locale, 'batch.tooMany', { max: MAX_BATCH_SIZE, count: args.invites.length }) }],
+      structuredContent: {
+        error: 'Batch size limit exceeded',
+        maxBatchSize: MAX_BATCH_SIZE,
+        requestedSize: args.invites.length,
+      },
+      isError: true,
+    };
+  }
+
+  const results = [];
+  const successes = [];
+  const failures = [];
+
+  // Process each invite
+  for (const invite of args.invites) {
+    const eventTitle = invite.event_title || t(locale, 'batch.untitled');
+
+    try {
+      const result = await respondToInvite(userId, invite.event_id, invite.response, invite.calendar_id, invite.scope, {
+        comment: invite.comment,
+        proposedStart: invite.proposed_start,
+        proposedEnd: invite.proposed_end,
+      }, locale);
+      results.push({
+        eventId: invite.event_id,
+        eventTitle: result.eventSummary || eventTitle,
+        response: invite.response,
+        scope: result.scope,
+        updatedCount: result.updatedCount,
+        comment: result.comment,
+        proposedTime: result.proposedTime,
+        success: true,
+        message: result.message,
+      });
+      const plain = result.scope === 'instance' && !result.comment;
+      successes.push(plain ? t(locale, `batch.item.${invite.response}`, { title: result.eventSummary || eventTitle }) : result.message);
+    } catch (error: any) {
+      results.push({
+        eventId: invite.event_id,
+        eventTitle,
+        response: invite.response,
+        success: false,
+        error: error.message,
+      });
+      failures.push(t(locale, `batch.failure.${invite.response}`, { title: eventTitle, error: error.message }));
+    }
+  }
+
+  // Build summary message
+  const total = args.invites.length;
+  const successCount = successes.length;
+  const failureCount = failures.length;
+
+  let summary = '';
+  if (successCount > 0) {
+    summary += `${tPlural(locale, 'batch.succeeded', { count: successCount, total })}\n`;
+    summary += successes.map((s, i) => `${i + 1}. ${s}`).join('\n');
+  }
+  if (failureCount > 0) {
+    if (summary) summary += '\n\n';
+    summary += `${tPlural(locale, 'batch.failed', { count: failureCount, total })}\n`;
+    summary += failures.map((f, i) => `${i + 1}. ${f}`).join('\n');
+  }
+
+  return {
+    content: [{ type: 'text', text: summary }],
+    structuredContent: {
+      total,
+      successCount,
+      failureCount,
+      results,
+    },
+    isError: failureCount === total, // Only error if ALL failed
+  };
+}
+
+/**
+ * create_event and update_event tool arguments
+ */
+interface EventArgs {
+  event_id?: string;
+  calendar_id?: string;
+  title?: string;
+  start?: string;
+  end?: string;
+  duration_minutes?: number;
+  all_day?: boolean;
+  time_zone?: string;
+  attendees?: string[];
+  add_attendees?: string[];
+  remove_attendees?: string[];
+  description?: string;
+  location?: string;
+  add_meet_link?: boolean;
+  notify_attendees?: boolean;
+}
+
+/**
+ * Build the tool result for a created or updated event, shown in the widget
+ */
+function eventResult(event: ScheduledEvent, action: 'created' | 'updated', notifyAttendees: boolean | undefined, locale: Locale): AppsToolResponse {
+  const hasGuests = event.attendees.some((a) => a.email.toLowerCase() !== event.organizerEmail.toLowerCase());
+  const notified = hasGuests && notifyAttendees !== false;
+  
+  let text = `${t(locale, action === 'created' ? 'event.created' : 'event.updated', { title: event.summary })}\n${formatEventAsText(event, locale)}`;
+  if (hasGuests) {
+    text += `\n${t(locale, notified ? (action === 'created' ? 'event.invitesSent' : 'event.updatesSent') : 'event.notNotified')}`;
+  }
+  
+  return {
+    content: [{ type: 'text', text }],
+    structuredContent: {
+      success: true,
+      action,
+      event,
+      notified,
+    },
+    _meta: {
+      'openai/outputTemplate': 'ui://widget/calendar-widget.html',
+    },
+    isError: false,
+  };
+}
+
+/**
+ * Handle create_event tool
+ */
+async function handleCreateEvent(args: EventArgs, userId: string, locale: Locale = DEFAULT_LOCALE): Promise<AppsToolResponse> {
+  if (!args.title || !args.start) {
+    return {
+      content: [{ type: 'text', text: t(locale, 'error.titleStartRequired') }],
+      structuredContent: { error: 'title and start are required', success: false },
+      isError: true,
+    };
+  }
+
+  if (!(await isAuthenticated(userId))) {
+    const authUrl = await getUserSignInUrl(userId);
+    return {
+      content: [{ type: 'text', text: t(locale, 'auth.required') }],
+      structuredContent: { authRequired: true, authUrl, success: false },
+      _meta: {
+        'openai/outputTemplate': 'ui://widget/calendar-widget.html',
+      },
+      isError: true,
+    };
+  }
+
+  try {
+    const event = await createEvent(userId, {
+      summary: args.title,
+      start: args.start,
+      end: args.end,
+      durationMinutes: args.duration_minutes,
+      allDay: args.all_day,
+      timeZone: args.time_zone,
+      attendees: args.attendees,
+      description: args.description,
+      location: args.location,
+      addMeetLink: args.add_meet_link,
+      calendarId: args.calendar_id,
+      notifyAttendees: args.notify_attendees,
+    });
+    return eventResult(event, 'created', args.notify_attendees, locale);
+  } catch (error: any) {
+    return {
+      content: [{ type: 'text', text: t(locale, 'common.error', { message: error.message }) }],
+      structuredContent: { error: error.message, success: false },
+      isError: true,
+    };
+  }
+}
+
+/**
+ * Handle update_event tool
+ */
+async function handleUpdateEvent(args: EventArgs, userId: string, locale: Locale = DEFAULT_LOCALE): Promise<AppsToolResponse> {
+  if (!args.event_id) {
+    return {
+      content: [{ type: 'text', text: t(locale, 'error.eventIdRequired') }],
+      structuredContent: { error: 'event_id is required', success: false },
+      isError: true,
+    };
+  }
+
+  if (!(await isAuthenticated(userId))) {
+    const authUrl = await getUserSignInUrl(userId);
+    return {
+      content: [{ type: 'text', text: t(locale, 'auth.required') }],
+      structuredContent: { authRequired: true, authUrl, success: false },
+      _meta: {
+        'openai/outputTemplate': 'ui://widget/calendar-widget.html',
       },
-    },
-  ];
+      isError: true,
+    };
+  }
+
+  try {
+    const event = await updateEvent(userId, args.event_id, {
+      summary: args.title,
+      start: args.start,
+      end: args.end,
+      durationMinutes: args.duration_minutes,
+      allDay: args.all_day,
+      timeZone: args.time_zone,
+      addAttendees: args.add_attendees,
+      removeAttendees: args.remove_attendees,
+      description: args.description,
+      location: args.location,
+      addMeetLink: args.add_meet_link,
+      notifyAttendees: args.notify_attendees,
+    }, args.calendar_id);
+    return eventResult(event, 'updated', args.notify_attendees, locale);
+  } catch (error: any) {
+    return {
+      content: [{ type: 'text', text: t(locale, 'common.error', { message: error.message }) }],
+      structuredContent: { error: error.message, success: false },
+      isError: true,
+    };
+  }
 }
 
 /**
- * Apps SDK Tool Response with structuredContent
+ * find_meeting_times tool arguments
  */
-interface AppsToolResponse {
-  content: { type: 'text'; text: string }[];
-  structuredContent: Record<string, unknown>;
-  _meta?: Record<string, unknown>;
-  isError?: boolean;
+interface MeetingTimesArgs {
+  attendees?: string[];
+  duration_minutes?: number;
+  start_date?: string;
+  end_date?: string;
+  time_zone?: string;
+  working_hours?: Partial<WorkingHoursInput>;
+  attendee_working_hours?: Array<Partial<WorkingHoursInput> & { email: string; time_zone?: string }>;
+  max_results?: number;
+  title?: string;
 }
 
 /**
- * Handle get_pending_reservations tool
+ * Handle find_meeting_times tool
  */
-async function handleGetPendingReservations(
-  args: { start_date?: string; end_date?: string },
-  userId: string
-): Promise<AppsToolResponse> {
-  // Check authentication
-  if (!isAuthenticated(userId)) {
-    const authUrl = getAuthUrl(userId);
+async function handleFindMeetingTimes(args: MeetingTimesArgs, userId: string, locale: Locale = DEFAULT_LOCALE): Promise<AppsToolResponse> {
+  if (!args.attendees?.length || !args.duration_minutes) {
+    return {
+      content: [{ type: 'text', text: t(locale, 'error.meetingArgsRequired') }],
+      structuredContent: { error: 'attendees and duration_minutes are required', success: false },
+      isError: true,
+    };
+  }
+
+  if (!(await isAuthenticated(userId))) {
+    const authUrl = await getUserSignInUrl(userId);
     return {
-      content: [{ type: 'text', text: 'User needs to authenticate with Google Calendar.' }],
+      content: [{ type: 'text', text: t(locale, 'auth.required') }],
       structuredContent: {
         authRequired: true,
         authUrl,
@@ -302,19 +1665,27 @@ async function handleGetPendingReservations(
   }
 
   try {
-    const result = await getPendingInvites(userId, args.start_date, args.end_date);
+    const result = await findMeetingTimes(userId, {
+      attendees: args.attendees,
+      durationMinutes: args.duration_minutes,
+      start: args.start_date,
+      end: args.end_date,
+      timeZone: args.time_zone,
+      workingHours: args.working_hours,
+      attendeeWorkingHours: args.attendee_working_hours?.map(({ time_zone, ...hours }) => ({ ...hours, timeZone: time_zone })),
+      maxResults: args.max_results,
+      title: args.title,
+    });
     
     return {
-      content: [{ 
-        type: 'text', 
-        text: result.invites.length > 0 
-          ? `Found ${result.invites.length} pending invitation(s).`
-          : 'No pending invitations found.'
-      }],
+      content: [{ type: 'text', text: formatMeetingTimesAsText(result, locale) }],
       structuredContent: {
-        invites: result.invites,
-        dateRange: result.dateRange,
-        totalCount: result.totalCount,
+        slots: result.slots,
+        attendees: result.attendees,
+        durationMinutes: result.durationMinutes,
+        window: result.window,
+        timeZone: result.timeZone,
+        title: result.title,
       },
       _meta: {
         'openai/outputTemplate': 'ui://widget/calendar-widget.html',
@@ -323,7 +1694,7 @@ async function handleGetPendingReservations(
     };
   } catch (error: any) {
     return {
-      content: [{ type: 'text', text: `Error: ${error.message}` }],
+      content: [{ type: 'text', text: t(locale, 'common.error', { message: error.message }) }],
       structuredContent: { error: error.message },
       isError: true,
     };
@@ -331,57 +1702,116 @@ async function handleGetPendingReservations(
 }
 
 /**
- * Handle respond_to_invite tool
+ * Invite rule fields as tool arguments (snake_case conditions)
  */
-async function handleRespondToInvite(
-  args: { event_id: string; event_title?: string; response: 'accepted' | 'declined' | 'tentative' },
-  userId: string
-): Promise<AppsToolResponse> {
-  if (!args.event_id) {
-    return {
-      content: [{ type: 'text', text: 'Error: event_id is required' }],
-      structuredContent: { error: 'event_id is required', success: false },
-      isError: true,
-    };
+interface InviteRuleArgs {
+  rule_id?: string;
+  name?: string;
+  action?: 'accepted' | 'declined' | 'tentative';
+  comment?: string;
+  enabled?: boolean;
+  conditions?: Record<string, unknown>;
+}
+
+// Tool argument names for rule conditions
+const RULE_CONDITION_ARGS: Record<string, keyof InviteRuleConditions> = {
+  organizer_domains: 'organizerDomains',
+  organizer_emails: 'organizerEmails',
+  summary_contains: 'summaryContains',
+  calendar_ids: 'calendarIds',
+  all_day: 'allDay',
+  recurring: 'recurring',
+  only_when_free: 'onlyWhenFree',
+};
+
+/**
+ * Convert rule tool arguments to rule fields. Unknown condition names are
+ * passed through so validation can report them.
+ */
+function toInviteRuleInput(args: InviteRuleArgs): Partial<InviteRuleInput> {
+  const input: Partial<InviteRuleInput> = {
+    name: args.name,
+    action: args.action,
+    comment: args.comment,
+    enabled: args.enabled,
+  };
+  
+  if (args.conditions) {
+    input.conditions = Object.fromEntries(
+      Object.entries(args.conditions).map(([key, value]) => [RULE_CONDITION_ARGS[key] || key, value])
+    ) as InviteRuleConditions;
   }
   
-  if (!['accepted', 'declined', 'tentative'].includes(args.response)) {
+  return input;
+}
+
+/**
+ * Handle list_invite_rules tool
+ */
+async function handleListInviteRules(userId: string, locale: Locale = DEFAULT_LOCALE): Promise<AppsToolResponse> {
+  const rules = await listInviteRules(userId);
+  
+  const text = rules.length > 0
+    ? `${tPlural(locale, 'rules.list', { count: rules.length })}\n` +
+      rules.map((rule, i) => `${i + 1}. ${t(locale, 'rules.item', { rule: describeInviteRule(rule, locale), id: rule.id })}`).join('\n')
+    : t(locale, 'rules.none');
+  
+  return {
+    content: [{ type: 'text', text }],
+    structuredContent: { rules },
+    isError: false,
+  };
+}
+
+/**
+ * Handle create_invite_rule tool
+ */
+async function handleCreateInviteRule(args: InviteRuleArgs, userId: string, locale: Locale = DEFAULT_LOCALE): Promise<AppsToolResponse> {
+  try {
+    const rule = await createInviteRule(userId, toInviteRuleInput(args) as InviteRuleInput);
     return {
-      content: [{ type: 'text', text: 'Error: response must be accepted, declined, or tentative' }],
-      structuredContent: { error: 'Invalid response value', success: false },
+      content: [{ type: 'text', text: t(locale, 'rules.created', { rule: describeInviteRule(rule, locale) }) }],
+      structuredContent: { success: true, rule },
+      isError: false,
+    };
+  } catch (error: any) {
+    return {
+      content: [{ type: 'text', text: t(locale, 'common.error', { message: error.message }) }],
+      structuredContent: { error: error.message, success: false },
       isError: true,
     };
   }
+}
 
-  if (!isAuthenticated(userId)) {
-    const authUrl = getAuthUrl(userId);
+/**
+ * Handle update_invite_rule tool
+ */
+async function handleUpdateInviteRule(args: InviteRuleArgs, userId: string, locale: Locale = DEFAULT_LOCALE): Promise<AppsToolResponse> {
+  if (!args.rule_id) {
     return {
-      content: [{ type: 'text', text: 'User needs to authenticate first.' }],
-      structuredContent: { authRequired: true, authUrl, success: false },
+      content: [{ type: 'text', text: t(locale, 'error.ruleIdRequired') }],
+      structuredContent: { error: 'rule_id is required', success: false },
       isError: true,
     };
   }
-
+  
   try {
-    const result = await respondToInvite(userId, args.event_id, args.response);
-    
-    const action = args.response === 'accepted' ? 'accepted' : args.response === 'declined' ? 'declined' : 'marked as tentative';
-    const eventTitle = args.event_title || result.eventSummary || 'this meeting';
-    
+    const rule = await updateInviteRule(userId, args.rule_id, toInviteRuleInput(args));
+    if (!rule) {
+      return {
+        content: [{ type: 'text', text: t(locale, 'error.ruleNotFound', { id: args.rule_id }) }],
+        structuredContent: { error: 'Rule not found', success: false },
+        isError: true,
+      };
+    }
     return {
-      content: [{ type: 'text', text: `Successfully ${action} "${eventTitle}"` }],
-      structuredContent: {
-        success: true,
-        response: args.response,
-        eventId: args.event_id,
-        message: result.message,
-        eventSummary: result.eventSummary,
-      },
+      content: [{ type: 'text', text: t(locale, 'rules.updated', { rule: describeInviteRule(rule, locale) }) }],
+      structuredContent: { success: true, rule },
       isError: false,
     };
   } catch (error: any) {
     return {
-      content: [{ type: 'text', text: `Error: ${error.message}` }],
+      content: [{ type: 'text', text: t(locale, 'common.error', { message: error.message }) }],
       structuredContent: { error: error.message, success: false },
       isError: true,
     };
@@ -389,118 +1819,134 @@ async function handleRespondToInvite(
 }
 
 /**
- * Handle batch_respond_to_invites tool
+ * Handle delete_invite_rule tool
  */
-async function handleBatchRespondToInvites(
-  args: {
-    invites: Array<{
-      event_id: string;
-      event_title?: string;
-      response: 'accepted' | 'declined' | 'tentative';
-    }>;
-  },
-  userId: string
-): Promise<AppsToolResponse> {
-  if (!isAuthenticated(userId)) {
-    const authUrl = getAuthUrl(userId);
+async function handleDeleteInviteRule(args: { rule_id: string }, userId: string, locale: Locale = DEFAULT_LOCALE): Promise<AppsToolResponse> {
+  const deleted = args.rule_id ? await deleteInviteRule(userId, args.rule_id) : false;
+  
+  if (!deleted) {
     return {
-      content: [{ type: 'text', text: 'User needs to authenticate with Google Calendar first.' }],
-      structuredContent: {
-        authenticated: false,
-        authUrl,
-      },
-      _meta: {
-        'openai/outputTemplate': 'ui://widget/calendar-widget.html',
-      },
+      content: [{ type: 'text', text: t(locale, 'error.ruleNotFound', { id: args.rule_id }) }],
+      structuredContent: { error: 'Rule not found', success: false },
       isError: true,
     };
   }
+  
+  return {
+    content: [{ type: 'text', text: t(locale, 'rules.deleted') }],
+    structuredContent: { success: true, ruleId: args.rule_id },
+    isError: false,
+  };
+}
 
-  // Enforce batch size limit
-  const MAX_BATCH_SIZE = 10;
-  if (args.invites.length > MAX_BATCH_SIZE) {
+/**
+ * Handle apply_invite_rules tool
+ */
+async function handleApplyInviteRules(
+  args: { dry_run?: boolean; start_date?: string; end_date?: string },
+  userId: string,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<AppsToolResponse> {
+  if (!(await isAuthenticated(userId))) {
+    const authUrl = await getUserSignInUrl(userId);
     return {
-      content: [{ type: 'text', text: `Error: Cannot process more than ${MAX_BATCH_SIZE} invites at once. You requested ${args.invites.length} invites. Please split into smaller batches.` }],
-      structuredContent: {
-        error: 'Batch size limit exceeded',
-        maxBatchSize: MAX_BATCH_SIZE,
-        requestedSize: args.invites.length,
-      },
+      content: [{ type: 'text', text: t(locale, 'auth.required') }],
+      structuredContent: { authRequired: true, authUrl, success: false },
       isError: true,
     };
   }
-
-  const results = [];
-  const successes = [];
-  const failures = [];
-
-  // Process each invite
-  for (const invite of args.invites) {
-    const eventTitle = invite.event_title || 'Untitled event';
-    const action = invite.response === 'accepted' ? 'accepted' : invite.response === 'declined' ? 'declined' : 'marked tentative';
-
-    try {
-      const result = await respondToInvite(userId, invite.event_id, invite.response);
-      results.push({
-        eventId: invite.event_id,
-        eventTitle: result.eventSummary || eventTitle,
-        response: invite.response,
-        success: true,
-        message: result.message,
-      });
-      successes.push(`${action} "${result.eventSummary || eventTitle}"`);
-    } catch (error: any) {
-      results.push({
-        eventId: invite.event_id,
-        eventTitle,
-        response: invite.response,
-        success: false,
-        error: error.message,
+  
+  try {
+    const result = await applyInviteRules(userId, {
+      dryRun: args.dry_run,
+      startDate: args.start_date,
+      endDate: args.end_date,
+    });
+    
+    const lines = result.outcomes.map((outcome, i) => {
+      const line = t(locale, 'rules.outcome', {
+        summary: outcome.summary,
+        organizer: outcome.organizerEmail,
+        action: t(locale, `rules.action.${outcome.action}`),
+        rule: outcome.ruleName,
       });
-      failures.push(`Failed to ${invite.response.replace('ed', '').replace('tentative', 'mark tentative')} "${eventTitle}": ${error.message}`);
+      const detail = outcome.status === 'failed' ? t(locale, 'rules.outcomeFailed', { error: outcome.error || '' }) : '';
+      return `${i + 1}. ${line}${detail}`;
+    });
+    
+    let text: string;
+    if (result.outcomes.length === 0) {
+      text = tPlural(locale, 'rules.noMatch', { count: result.evaluatedCount });
+    } else if (result.dryRun) {
+      text = `${tPlural(locale, 'rules.dryRun', { count: result.outcomes.length, total: result.evaluatedCount })}\n${lines.join('\n')}\n\n${t(locale, 'rules.dryRunHint')}`;
+    } else {
+      const applied = result.outcomes.filter((outcome) => outcome.status === 'applied').length;
+      text = `${tPlural(locale, 'rules.applied', { count: applied, total: result.evaluatedCount })}\n${lines.join('\n')}`;
+    }
+    if (result.truncated) {
+      text += `\n\n${t(locale, 'rules.truncated')}`;
     }
+    
+    return {
+      content: [{ type: 'text', text }],
+      structuredContent: { ...result },
+      isError: false,
+    };
+  } catch (error: any) {
+    return {
+      content: [{ type: 'text', text: t(locale, 'common.error', { message: error.message }) }],
+      structuredContent: { error: error.message, success: false },
+      isError: true,
+    };
   }
+}
 
-  // Build summary message
-  const total = args.invites.length;
-  const successCount = successes.length;
-  const failureCount = failures.length;
-
-  let summary = '';
-  if (successCount > 0) {
-    summary += `Successfully processed ${successCount}/${total} invite${successCount !== 1 ? 's' : ''}:\n`;
-    summary += successes.map((s, i) => `${i + 1}. ${s}`).join('\n');
-  }
-  if (failureCount > 0) {
-    if (summary) summary += '\n\n';
-    summary += `Failed to process ${failureCount}/${total} invite${failureCount !== 1 ? 's' : ''}:\n`;
-    summary += failures.map((f, i) => `${i + 1}. ${f}`).join('\n');
+/**
+ * Handle set_working_hours tool
+ */
+async function handleSetWorkingHours(
+  args: Partial<WorkingHoursInput> & { clear?: boolean },
+  userId: string,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<AppsToolResponse> {
+  try {
+    if (args.clear) {
+      await clearUserWorkingHours(userId);
+      const { start, end, days } = getWorkingHours('UTC');
+      return {
+        content: [{ type: 'text', text: t(locale, 'hours.cleared', { hours: formatWorkingHours({ start, end, days }, locale) }) }],
+        structuredContent: { success: true, workingHours: { start, end, days }, source: 'default' },
+        isError: false,
+      };
+    }
+    
+    const workingHours = await setUserWorkingHours(userId, args);
+    return {
+      content: [{ type: 'text', text: t(locale, 'hours.saved', { hours: formatWorkingHours(workingHours, locale) }) }],
+      structuredContent: { success: true, workingHours, source: 'saved' },
+      isError: false,
+    };
+  } catch (error: any) {
+    return {
+      content: [{ type: 'text', text: t(locale, 'common.error', { message: error.message }) }],
+      structuredContent: { error: error.message, success: false },
+      isError: true,
+    };
   }
-
-  return {
-    content: [{ type: 'text', text: summary }],
-    structuredContent: {
-      total,
-      successCount,
-      failureCount,
-      results,
-    },
-    isError: failureCount === total, // Only error if ALL failed
-  };
 }
 
 /**
  * Handle check_auth_status tool
  */
-function handleCheckAuthStatus(userId: string): AppsToolResponse {
-  const authenticated = isAuthenticated(userId);
+async function handleCheckAuthStatus(userId: string, locale: Locale = DEFAULT_LOCALE): Promise<AppsToolResponse> {
+  const authenticated = await isAuthenticated(userId);
   
   if (authenticated) {
     return {
-      content: [{ type: 'text', text: 'User is connected to Google Calendar.' }],
+      content: [{ type: 'text', text: t(locale, 'auth.connected') }],
       structuredContent: {
         authenticated: true,
-        email: getUserEmail(userId),
+        email: await getUserEmail(userId),
       },
       _meta: {
         'openai/outputTemplate': 'ui://widget/calendar-widget.html',
@@ -508,9 +1954,9 @@ function handleCheckAuthStatus(userId: string): AppsToolResponse {
       isError: false,
     };
   } else {
-    const authUrl = getAuthUrl(userId);
+    const authUrl = await getUserSignInUrl(userId);
     return {
-      content: [{ type: 'text', text: 'User needs to connect Google Calendar.' }],
+      content: [{ type: 'text', text: t(locale, 'auth.notConnected') }],
       structuredContent: {
         authenticated: false,
         authUrl,
@@ -575,28 +2021,77 @@ export function createMCPServer(): Server {
   server.setRequestHandler(CallToolRequestSchema, async (request) => {
     const { name, arguments: args } = request.params;
     const userId = DEFAULT_USER_ID;
+    const locale = negotiateLocale(request.params._meta?.['openai/locale'] as string | undefined);
 
     switch (name) {
       case 'get_pending_reservations':
         return await handleGetPendingReservations(
-          args as { start_date?: string; end_date?: string },
-          userId
+          args as { start_date?: string; end_date?: string; calendar_ids?: string[]; cursor?: string; page_size?: number; arrived_since?: string; time_zone?: string },
+          userId,
+          locale
+        ) as unknown as CallToolResult;
+
+      case 'get_agenda':
+        return await handleGetAgenda(
+          args as { date?: string; range?: 'day' | 'week'; calendar_ids?: string[]; include_declined?: boolean; time_zone?: string },
+          userId,
+          locale
+        ) as unknown as CallToolResult;
+
+      case 'suggest_responses':
+        return await handleSuggestResponses(
+          args as { start_date?: string; end_date?: string; calendar_ids?: string[]; cursor?: string; page_size?: number; time_zone?: string; working_hours?: Partial<WorkingHoursInput> },
+          userId,
+          locale
         ) as unknown as CallToolResult;
 
       case 'respond_to_invite':
         return await handleRespondToInvite(
-          args as { event_id: string; event_title?: string; response: 'accepted' | 'declined' | 'tentative' },
-          userId
+          args as { event_id: string; calendar_id?: string; event_title?: string; response: 'accepted' | 'declined' | 'tentative'; scope?: RespondScope; comment?: string; proposed_start?: string; proposed_end?: string },
+          userId,
+          locale
         ) as unknown as CallToolResult;
 
       case 'batch_respond_to_invites':
         return await handleBatchRespondToInvites(
-          args as { invites: Array<{ event_id: string; event_title?: string; response: 'accepted' | 'declined' | 'tentative' }> },
-          userId
+          args as { invites: Array<{ event_id: string; calendar_id?: string; event_title?: string; response: 'accepted' | 'declined' | 'tentative'; scope?: RespondScope; comment?: string; proposed_start?: string; proposed_end?: string }> },
+          userId,
+          locale
+        ) as unknown as CallToolResult;
+
+      case 'create_event':
+        return await handleCreateEvent(args as EventArgs, userId, locale) as unknown as CallToolResult;
+
+      case 'update_event':
+        return await handleUpdateEvent(args as EventArgs, userId, locale) as unknown as CallToolResult;
+
+      case 'find_meeting_times':
+        return await handleFindMeetingTimes(args as MeetingTimesArgs, userId, locale) as unknown as CallToolResult;
+
+      case 'list_invite_rules':
+        return await handleListInviteRules(userId, locale) as unknown as CallToolResult;
+
+      case 'create_invite_rule':
+        return await handleCreateInviteRule(args as InviteRuleArgs, userId, locale) as unknown as CallToolResult;
+
+      case 'update_invite_rule':
+        return await handleUpdateInviteRule(args as InviteRuleArgs, userId, locale) as unknown as CallToolResult;
+
+      case 'delete_invite_rule':
+        return await handleDeleteInviteRule(args as { rule_id: string }, userId, locale) as unknown as CallToolResult;
+
+      case 'apply_invite_rules':
+        return await handleApplyInviteRules(
+          args as { dry_run?: boolean; start_date?: string; end_date?: string },
+          userId,
+          locale
         ) as unknown as CallToolResult;
 
+      case 'set_working_hours':
+        return await handleSetWorkingHours(args as Partial<WorkingHoursInput> & { clear?: boolean }, userId, locale) as unknown as CallToolResult;
+
       case 'check_auth_status':
-        return handleCheckAuthStatus(userId) as unknown as CallToolResult;
+        return await handleCheckAuthStatus(userId, locale) as unknown as CallToolResult;
 
       default:
         return {
@@ -653,34 +2148,29 @@ export async function startMCPServerStdio(): Promise<void> {
   console.error('MCP Server running on stdio');
 }
 
-
-function extractUserId(params: Record<string, unknown>): string {
-  const meta = params._meta as Record<string, unknown> | undefined;
-  const subject = meta?.['openai/subject'] as string | undefined;
-  
-  if (subject && typeof subject === 'string') {
-    console.log(`Extracted user ID from request: ${subject}`);
-    return subject;
-  }
-  
-  // Fallback to default for backward compatibility
-  console.warn('No user ID found in request, using default');
-  return DEFAULT_USER_ID;
+/**
+ * Authorization context of an MCP request, taken from its access token
+ */
+export interface MCPRequestContext {
+  userId?: string;  // User bound to the token, if any
+  scopes: string[]; // Scopes granted to the token
+  acceptLanguage?: string; // Accept-Language header of the HTTP request
 }
 
 /**
  * Handle MCP request via HTTP (for web integration)
  * Implements the 2025 Apps SDK MCP protocol with resources
+ *
+ * @param context - Access token context. Tools always act as the token's user;
+ *   tokens without a user (client_credentials) can't call tools.
  */
 export async function handleMCPRequest(
   method: string,
   params: Record<string, unknown>,
-  fallbackUserId: string = DEFAULT_USER_ID
+  context: MCPRequestContext
 ): Promise<unknown> {
   console.log(`MCP method called: ${method}`, JSON.stringify(params));
   
-  const userId = extractUserId(params);
-  
   switch (method) {
     // ============================================
     // Lifecycle Methods
@@ -699,7 +2189,7 @@ export async function handleMCPRequest(
         protocolVersion,
         serverInfo: SERVER_INFO,
         capabilities: SERVER_CAPABILITIES,
-        instructions: 'This server manages Google Calendar reservations. Use get_pending_reservations to list pending calendar invites (will prompt for authentication if needed), and respond_to_invite to accept/decline invitations.',
+        instructions: 'This server manages Google Calendar reservations. Use get_pending_reservations to list pending calendar invites (will prompt for authentication if needed), get_agenda to show a day or week of events, respond_to_invite to accept/decline invitations, find_meeting_times to find when a group of people is free, create_event and update_event to schedule meetings, and the invite rule tools (create_invite_rule, apply_invite_rules) to answer invites automatically.',
       };
       
       console.log('MCP initialize response:', JSON.stringify(response));
@@ -730,7 +2220,12 @@ export async function handleMCPRequest(
     // ============================================
     
     case 'tools/list':
-      return { tools: getTools() };
+      // Optionally hide tools the token's scopes cannot call
+      return {
+        tools: process.env.MCP_HIDE_UNAUTHORIZED_TOOLS === 'true'
+          ? getToolsForScopes(context.scopes)
+          : getTools(),
+      };
 
     case 'tools/call': {
       const { name, arguments: args, _meta } = params as {
@@ -739,31 +2234,85 @@ export async function handleMCPRequest(
         _meta?: Record<string, unknown>;
       };
       
-      // Extract userId from tool call metadata
-      const toolUserId = _meta?.['openai/subject'] as string | undefined || userId;
+      // Never trust a user ID from request metadata; /mcp rejects userless tokens before this
+      const toolUserId = context.userId;
+      if (!toolUserId) {
+        throw new Error('Tool calls require an access token issued to a signed-in user');
+      }
       console.log(`Tool call: ${name} for user: ${toolUserId}`);
 
+      // Tool text follows the Apps SDK locale hint, then the HTTP Accept-Language header
+      const locale = negotiateLocale(_meta?.['openai/locale'] as string | undefined, context.acceptLanguage);
+
       switch (name) {
         case 'get_pending_reservations':
           return await handleGetPendingReservations(
-            args as { start_date?: string; end_date?: string },
-            toolUserId
+            args as { start_date?: string; end_date?: string; calendar_ids?: string[]; cursor?: string; page_size?: number; arrived_since?: string; time_zone?: string },
+            toolUserId,
+            locale
+          );
+
+        case 'get_agenda':
+          return await handleGetAgenda(
+            args as { date?: string; range?: 'day' | 'week'; calendar_ids?: string[]; include_declined?: boolean; time_zone?: string },
+            toolUserId,
+            locale
+          );
+
+        case 'suggest_responses':
+          return await handleSuggestResponses(
+            args as { start_date?: string; end_date?: string; calendar_ids?: string[]; cursor?: string; page_size?: number; time_zone?: string; working_hours?: Partial<WorkingHoursInput> },
+            toolUserId,
+            locale
           );
 
         case 'respond_to_invite':
           return await handleRespondToInvite(
-            args as { event_id: string; event_title?: string; response: 'accepted' | 'declined' | 'tentative' },
-            toolUserId
+            args as { event_id: string; calendar_id?: string; event_title?: string; response: 'accepted' | 'declined' | 'tentative'; scope?: RespondScope; comment?: string; proposed_start?: string; proposed_end?: string },
+            toolUserId,
+            locale
           );
 
         case 'batch_respond_to_invites':
           return await handleBatchRespondToInvites(
-            args as { invites: Array<{ event_id: string; event_title?: string; response: 'accepted' | 'declined' | 'tentative' }> },
-            toolUserId
+            args as { invites: Array<{ event_id: string; calendar_id?: string; event_title?: string; response: 'accepted' | 'declined' | 'tentative'; scope?: RespondScope; comment?: string; proposed_start?: string; proposed_end?: string }> },
+            toolUserId,
+            locale
+          );
+
+        case 'create_event':
+          return await handleCreateEvent(args as EventArgs, toolUserId, locale);
+
+        case 'update_event':
+          return await handleUpdateEvent(args as EventArgs, toolUserId, locale);
+
+        case 'find_meeting_times':
+          return await handleFindMeetingTimes(args as MeetingTimesArgs, toolUserId, locale);
+
+        case 'list_invite_rules':
+          return await handleListInviteRules(toolUserId, locale);
+
+        case 'create_invite_rule':
+          return await handleCreateInviteRule(args as InviteRuleArgs, toolUserId, locale);
+
+        case 'update_invite_rule':
+          return await handleUpdateInviteRule(args as InviteRuleArgs, toolUserId, locale);
+
+        case 'delete_invite_rule':
+          return await handleDeleteInviteRule(args as { rule_id: string }, toolUserId, locale);
+
+        case 'apply_invite_rules':
+          return await handleApplyInviteRules(
+            args as { dry_run?: boolean; start_date?: string; end_date?: string },
+            toolUserId,
+            locale
           );
 
+        case 'set_working_hours':
+          return await handleSetWorkingHours(args as Partial<WorkingHoursInput> & { clear?: boolean }, toolUserId, locale);
+
         case 'check_auth_status':
-          return handleCheckAuthStatus(toolUserId);
+          return await handleCheckAuthStatus(toolUserId, locale);
 
         default:
           return {
@@ -0,0 +1,334 @@
+/**
+ * Finding times that work for a group of people
+ * Candidate slots are stepped through a search window, checked against
+ * everyone's busy times from Google's free/busy API, and ranked:
+ * 1. everyone free and within their working hours
+ * 2. everyone free, but outside someone's working hours
+ * 3. the fewest people busy
+ * Within a rank, earlier slots come first, spread over several days.
+ *
+ * Slots always fall within the user's own working hours (see getUserWorkingHours).
+ * Google doesn't share other people's working hours setting, so an attendee's
+ * are, in order: ones the caller gives, ones they saved if they use this app,
+ * or WORKING_HOURS and WORKING_DAYS. They apply in the time zone given with
+ * them, else the attendee's calendar's (or the one stored for them), else the
+ * user's. Each attendee's workingHours.source says which was used.
+ */
+
+import {
+  formatTimeForDisplay,
+  getFreeBusy,
+  getStoredTimeZone,
+  getUserTimeZone,
+  isValidTimeZone,
+  parseEventTime,
+  toZonedIso,
+} from './calendar-service.js';
+import { getUserEmail } from './google-auth.js';
+import { DEFAULT_LOCALE, Locale, dateLocale, t, tPlural } from './i18n.js';
+import { formatWorkingHours, getUserWorkingHours, getWorkingHours, isWithinWorkingHours, parseWorkingHours } from './suggestions.js';
+import { getUserIdByEmail } from './token-store.js';
+import {
+  AttendeeAvailability,
+  MeetingAttendee,
+  MeetingTimeSlot,
+  MeetingTimesResponse,
+  WorkingHours,
+  WorkingHoursInput,
+} from './types.js';
+
+// Candidate slots start on this grid, e.g. :00 and :30
+const SLOT_STEP_MINUTES = 30;
+
+// Search window when no end is given, and the longest allowed
+const DEFAULT_WINDOW_DAYS = 7;
+const MAX_WINDOW_DAYS = 31;
+
+// Free/busy takes up to 50 calendars per query; the user is one of them
+const MAX_ATTENDEES = 20;
+
+// Slots returned
+const DEFAULT_RESULTS = 5;
+const MAX_RESULTS = 20;
+
+// Slots offered per day before later days get a turn
+const MAX_SLOTS_PER_DAY = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+interface RankedSlot extends Interval {
+  busy: string[];
+  outsideWorkingHours: string[];
+}
+
+// Working hours a caller knows for one attendee
+export interface AttendeeWorkingHours extends Partial<WorkingHoursInput> {
+  email: string;
+  timeZone?: string;       // Defaults to their calendar's, or the user's
+}
+
+export interface FindMeetingTimesRequest {
+  attendees: string[];
+  durationMinutes: number;
+  start?: string;          // Search window; defaults to now
+  end?: string;            // Defaults to DEFAULT_WINDOW_DAYS after the start
+  timeZone?: string;       // Overrides the user's time zone for this call (see getUserTimeZone)
+  workingHours?: Partial<WorkingHoursInput>;  // The user's, for this call only (see getUserWorkingHours)
+  attendeeWorkingHours?: AttendeeWorkingHours[];
+  maxResults?: number;
+  title?: string;
+}
+
+/**
+ * Check whether two intervals overlap
+ */
+function overlaps(a: Interval, b: Interval): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Parse an end of the search window. Plain dates are days in the user's time
+ * zone, and a plain end date includes the whole day.
+ */
+function parseWindowTime(value: string, timeZone: string, isEnd: boolean): number {
+  const time = DATE_ONLY.test(value)
+    ? parseEventTime(`${value}T00:00`, timeZone).getTime() + (isEnd ? DAY_MS : 0)
+    : Date.parse(value);
+
+  if (isNaN(time)) {
+    throw new Error(`Invalid date "${value}". Use ISO 8601, e.g. "2024-01-16".`);
+  }
+  return time;
+}
+
+/**
+ * Order slots best first: fewest people busy, then fewest outside working hours, then earliest
+ */
+function compareSlots(a: RankedSlot, b: RankedSlot): number {
+  return a.busy.length - b.busy.length
+    || a.outsideWorkingHours.length - b.outsideWorkingHours.length
+    || a.start - b.start;
+}
+
+/**
+ * Pick the best slots that don't overlap each other, at most MAX_SLOTS_PER_DAY
+ * a day unless there aren't enough otherwise
+ */
+function pickSlots(ranked: RankedSlot[], maxResults: number, timeZone: string): RankedSlot[] {
+  const picked: RankedSlot[] = [];
+  const perDay = new Map<string, number>();
+
+  for (const spread of [true, false]) {
+    for (const slot of ranked) {
+      if (picked.length >= maxResults) {
+        break;
+      }
+      if (picked.some((other) => overlaps(other, slot))) {
+        continue;
+      }
+
+      const day = toZonedIso(new Date(slot.start).toISOString(), timeZone).slice(0, 10);
+      if (spread && (perDay.get(day) || 0) >= MAX_SLOTS_PER_DAY) {
+        continue;
+      }
+
+      picked.push(slot);
+      perDay.set(day, (perDay.get(day) || 0) + 1);
+    }
+  }
+
+  return picked.sort(compareSlots);
+}
+
+/**
+ * Get an attendee's working hours: ones the caller gave, then ones they saved
+ * if they use this app, then the defaults
+ */
+async function getAttendeeWorkingHours(
+  entry: AttendeeAvailability,
+  given: AttendeeWorkingHours | undefined,
+  userTimeZone: string
+): Promise<WorkingHours> {
+  if (given) {
+    return { ...parseWorkingHours(given), timeZone: given.timeZone || entry.timeZone || userTimeZone, source: 'request' };
+  }
+
+  const attendeeId = await getUserIdByEmail(entry.email.toLowerCase());
+  if (!attendeeId) {
+    return getWorkingHours(entry.timeZone || userTimeZone);
+  }
+  const timeZone = entry.timeZone || await getStoredTimeZone(attendeeId) || userTimeZone;
+  return getUserWorkingHours(attendeeId, timeZone);
+}
+
+/**
+ * Find times when the user and a group of attendees can meet, best first
+ */
+export async function findMeetingTimes(userId: string, request: FindMeetingTimesRequest): Promise<MeetingTimesResponse> {
+  const userEmail = await getUserEmail(userId);
+  if (!userEmail) {
+    throw new Error('User email not found');
+  }
+
+  const attendees = new Map<string, string>();
+  for (const raw of request.attendees || []) {
+    const email = raw.trim();
+    if (!EMAIL.test(email)) {
+      throw new Error(`Invalid attendee email "${raw}". Attendees must be email addresses.`);
+    }
+    if (email.toLowerCase() !== userEmail.toLowerCase()) {
+      attendees.set(email.toLowerCase(), email);
+    }
+  }
+
+  if (attendees.size === 0) {
+    throw new Error('Give at least one attendee email address besides your own');
+  }
+  if (attendees.size > MAX_ATTENDEES) {
+    throw new Error(`At most ${MAX_ATTENDEES} attendees can be checked at once`);
+  }
+
+  const durationMinutes = request.durationMinutes;
+  if (!(durationMinutes > 0) || durationMinutes > 24 * 60) {
+    throw new Error('Duration must be between 1 and 1440 minutes');
+  }
+  const duration = durationMinutes * 60 * 1000;
+  const maxResults = Math.min(Math.max(request.maxResults || DEFAULT_RESULTS, 1), MAX_RESULTS);
+
+  const givenHours = new Map<string, AttendeeWorkingHours>();
+  for (const entry of request.attendeeWorkingHours || []) {
+    const email = typeof entry.email === 'string' ? entry.email.trim().toLowerCase() : '';
+    if (!attendees.has(email)) {
+      throw new Error(`Working hours were given for "${entry.email}", who isn't one of the attendees`);
+    }
+    if (entry.timeZone && !isValidTimeZone(entry.timeZone)) {
+      throw new Error(`Invalid time zone "${entry.timeZone}" for ${entry.email}. Use an IANA name such as "Europe/Madrid".`);
+    }
+    parseWorkingHours(entry);
+    givenHours.set(email, entry);
+  }
+
+  const timeZone = await getUserTimeZone(userId, request.timeZone);
+  const now = Date.now();
+  const windowStart = Math.max(request.start ? parseWindowTime(request.start, timeZone, false) : now, now);
+  const windowEnd = request.end ? parseWindowTime(request.end, timeZone, true) : windowStart + DEFAULT_WINDOW_DAYS * DAY_MS;
+
+  if (windowEnd - windowStart < duration) {
+    throw new Error('The search window is shorter than the meeting, or already over');
+  }
+  if (windowEnd - windowStart > MAX_WINDOW_DAYS * DAY_MS) {
+    throw new Error(`The search window can be at most ${MAX_WINDOW_DAYS} days`);
+  }
+
+  const userHours = await getUserWorkingHours(userId, timeZone, request.workingHours);
+  const availability = await getFreeBusy(
+    userId,
+    [userEmail, ...attendees.values()],
+    new Date(windowStart).toISOString(),
+    new Date(windowEnd).toISOString()
+  );
+
+  // The user's own working hours are in their time zone, whatever their calendar says
+  const people = await Promise.all(availability.map(async (entry, index) => ({
+    email: entry.email,
+    busy: entry.busy.map((period): Interval => ({ start: Date.parse(period.start), end: Date.parse(period.end) })),
+    workingHours: index === 0
+      ? userHours
+      : await getAttendeeWorkingHours(entry, givenHours.get(entry.email.toLowerCase()), timeZone),
+    availabilityKnown: !entry.error,
+  })));
+  const [user, ...guests] = people;
+
+  const step = SLOT_STEP_MINUTES * 60 * 1000;
+  const ranked: RankedSlot[] = [];
+
+  for (let start = Math.ceil(windowStart / step) * step; start + duration <= windowEnd; start += step) {
+    const slot: Interval = { start, end: start + duration };
+    const times = { startTime: new Date(slot.start).toISOString(), endTime: new Date(slot.end).toISOString() };
+
+    if (!isWithinWorkingHours(times, user.workingHours)) {
+      continue;
+    }
+
+    ranked.push({
+      ...slot,
+      busy: people.filter((person) => person.busy.some((period) => overlaps(period, slot))).map((person) => person.email),
+      outsideWorkingHours: guests.filter((guest) => !isWithinWorkingHours(times, guest.workingHours)).map((guest) => guest.email),
+    });
+  }
+
+  const slots: MeetingTimeSlot[] = pickSlots(ranked.sort(compareSlots), maxResults, timeZone).map((slot) => ({
+    start: toZonedIso(new Date(slot.start).toISOString(), timeZone),
+    end: toZonedIso(new Date(slot.end).toISOString(), timeZone),
+    fit: slot.busy.length > 0 ? 'conflicts' : slot.outsideWorkingHours.length > 0 ? 'outside-hours' : 'ideal',
+    busy: slot.busy,
+    outsideWorkingHours: slot.outsideWorkingHours,
+  }));
+
+  return {
+    slots,
+    attendees: people.map((person): MeetingAttendee => ({
+      email: person.email,
+      workingHours: person.workingHours,
+      availabilityKnown: person.availabilityKnown,
+    })),
+    durationMinutes,
+    window: {
+      start: toZonedIso(new Date(windowStart).toISOString(), timeZone),
+      end: toZonedIso(new Date(windowEnd).toISOString(), timeZone),
+    },
+    timeZone,
+    title: request.title || null,
+  };
+}
+
+/**
+ * Format candidate meeting times as a numbered list for MCP responses
+ */
+export function formatMeetingTimesAsText(result: MeetingTimesResponse, locale: Locale = DEFAULT_LOCALE): string {
+  if (result.slots.length === 0) {
+    return t(locale, 'meeting.none');
+  }
+
+  const guests = result.attendees.slice(1);
+  let text = `${tPlural(locale, 'meeting.header', {
+    count: result.slots.length,
+    duration: result.durationMinutes,
+    attendees: guests.map((guest) => guest.email).join(', '),
+    timeZone: result.timeZone,
+  })}\n`;
+
+  text += result.slots.map((slot, i) => {
+    const start = formatTimeForDisplay(slot.start, result.timeZone, false, locale);
+    const end = new Date(slot.end).toLocaleTimeString(dateLocale(locale), { timeZone: result.timeZone, hour: 'numeric', minute: '2-digit' });
+    const fit = slot.fit === 'conflicts'
+      ? t(locale, 'meeting.fit.conflicts', { people: slot.busy.join(', ') })
+      : slot.fit === 'outside-hours'
+        ? t(locale, 'meeting.fit.outsideHours', { people: slot.outsideWorkingHours.join(', ') })
+        : t(locale, 'meeting.fit.ideal');
+    return `${i + 1}. ${start} – ${end} (${fit})\n   - start: ${slot.start}, end: ${slot.end}`;
+  }).join('\n');
+
+  const unknown = guests.filter((guest) => !guest.availabilityKnown);
+  if (unknown.length > 0) {
+    text += `\n\n${t(locale, 'meeting.unknown', { people: unknown.map((guest) => guest.email).join(', ') })}`;
+  }
+  const assumed = result.attendees.filter((person) => person.workingHours.source === 'default');
+  if (assumed.length > 0) {
+    text += `\n\n${t(locale, 'meeting.defaultHours', {
+      people: assumed.map((person) => person.email).join(', '),
+      hours: formatWorkingHours(assumed[0].workingHours, locale),
+    })}`;
+  }
+  text += `\n\n${t(locale, 'meeting.schedule')}`;
+
+  return text;
+}
@@ -0,0 +1,452 @@
+/**
+ * In-process Redis protocol (RESP2) server and client
+ * The server answers the subset of Redis commands the redis storage backend
+ * uses, over a keyspace held in any KeyValueStore, so one server instance can
+ * host shared storage for the others without running Redis. The client speaks
+ * to that server or to any Redis-protocol server (Redis, Valkey, KeyDB...).
+ *
+ * Commands: PING, ECHO, AUTH, SELECT 0, GET, SET (PX/EX, NX), DEL, MGET,
+ * SCAN (MATCH, COUNT), QUIT.
+ */
+
+import net from 'net';
+import tls from 'tls';
+import crypto from 'crypto';
+import { KeyValueStore } from './kv-store.js';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * A Redis error reply, e.g. "ERR unknown command"
+ */
+export class RedisReplyError extends Error {}
+
+export type RedisReply = string | number | null | RedisReply[];
+
+/**
+ * Sends commands to a Redis-protocol server, or straight to an in-process keyspace
+ */
+export interface RedisCommandClient {
+  command(args: string[]): Promise<RedisReply>;
+}
+
+interface ParsedReply {
+  value: RedisReply | RedisReplyError;
+  offset: number;
+}
+
+// Largest bulk string or array accepted from a peer (512 MB, as in Redis)
+const MAX_BULK_LENGTH = 512 * 1024 * 1024;
+
+// ============================================
+// Encoding and Parsing
+// ============================================
+
+/**
+ * Encode a command as an array of bulk strings
+ */
+export function encodeCommand(args: string[]): Buffer {
+  const parts = [`*${args.length}\r\n`];
+  for (const arg of args) {
+    parts.push(`$${Buffer.byteLength(arg)}\r\n${arg}\r\n`);
+  }
+  return Buffer.from(parts.join(''));
+}
+
+/**
+ * Encode a reply for a client
+ */
+function encodeReply(value: RedisReply | RedisReplyError, simple: boolean = false): string {
+  if (value instanceof RedisReplyError) {
+    return `-${value.message}\r\n`;
+  }
+  if (value === null) {
+    return '$-1\r\n';
+  }
+  if (typeof value === 'number') {
+    return `:${value}\r\n`;
+  }
+  if (Array.isArray(value)) {
+    return `*${value.length}\r\n${value.map((item) => encodeReply(item)).join('')}`;
+  }
+  return simple ? `+${value}\r\n` : `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+}
+
+/**
+ * Parse one value from the buffer at `offset`; null when more data is needed
+ */
+function parseReply(buffer: Buffer, offset: number = 0): ParsedReply | null {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) {
+    return null;
+  }
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf-8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, offset: next };
+    case '-':
+      return { value: new RedisReplyError(line), offset: next };
+    case ':':
+      return { value: parseInt(line, 10), offset: next };
+    case '$': {
+      const length = parseInt(line, 10);
+      if (length === -1) {
+        return { value: null, offset: next };
+      }
+      if (!(length >= 0 && length <= MAX_BULK_LENGTH)) {
+        throw new Error(`Invalid bulk length ${line}`);
+      }
+      if (buffer.length < next + length + 2) {
+        return null;
+      }
+      return { value: buffer.toString('utf-8', next, next + length), offset: next + length + 2 };
+    }
+    case '*': {
+      const count = parseInt(line, 10);
+      if (count === -1) {
+        return { value: null, offset: next };
+      }
+      if (!(count >= 0 && count <= MAX_BULK_LENGTH)) {
+        throw new Error(`Invalid array length ${line}`);
+      }
+
+      const items: RedisReply[] = [];
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position);
+        if (!item) {
+          return null;
+        }
+        if (item.value instanceof RedisReplyError) {
+          throw item.value;
+        }
+        items.push(item.value);
+        position = item.offset;
+      }
+      return { value: items, offset: position };
+    }
+    default:
+      throw new Error(`Unexpected RESP type "${type}"`);
+  }
+}
+
+// ============================================
+// Server
+// ============================================
+
+/**
+ * Compile a Redis glob pattern (* and ?) to a regular expression
+ */
+function compilePattern(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map((char) => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`, 's');
+}
+
+// Sorted keys of each keyspace, taken when a SCAN starts and reused by its later pages
+const scanSnapshots = new WeakMap<KeyValueStore<string>, string[]>();
+
+/**
+ * Find the position of the first key after `after` in sorted keys
+ */
+function firstKeyAfter(keys: string[], after: string): number {
+  let low = 0;
+  let high = keys.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (keys[middle] <= after) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+/**
+ * Run one command against a keyspace
+ */
+async function executeCommand(keyspace: KeyValueStore<string>, args: string[]): Promise<RedisReply> {
+  const [name = '', ...rest] = args;
+
+  switch (name.toUpperCase()) {
+    case 'PING':
+      return rest[0] ?? 'PONG';
+
+    case 'ECHO':
+      return rest[0] ?? null;
+
+    case 'SELECT':
+      if (rest[0] !== '0') {
+        throw new RedisReplyError('ERR DB index is out of range');
+      }
+      return 'OK';
+
+    case 'GET':
+      if (rest.length !== 1) {
+        throw new RedisReplyError("ERR wrong number of arguments for 'get' command");
+      }
+      return keyspace.get(rest[0]);
+
+    case 'MGET':
+      if (rest.length === 0) {
+        throw new RedisReplyError("ERR wrong number of arguments for 'mget' command");
+      }
+      return Promise.all(rest.map((key) => keyspace.get(key)));
+
+    case 'SET': {
+      const [key, value, ...options] = rest;
+      if (key === undefined || value === undefined) {
+        throw new RedisReplyError("ERR wrong number of arguments for 'set' command");
+      }
+
+      let expiresAt: number | undefined;
+      let onlyIfAbsent = false;
+      for (let i = 0; i < options.length; i++) {
+        const option = options[i].toUpperCase();
+        if (option === 'NX') {
+          onlyIfAbsent = true;
+        } else if ((option === 'PX' || option === 'EX') && options[i + 1] !== undefined) {
+          const amount = parseInt(options[++i], 10);
+          if (!(amount > 0)) {
+            throw new RedisReplyError('ERR invalid expire time in set');
+          }
+          expiresAt = Date.now() + amount * (option === 'EX' ? 1000 : 1);
+        } else {
+          throw new RedisReplyError('ERR syntax error');
+        }
+      }
+
+      if (onlyIfAbsent) {
+        return (await keyspace.add(key, value, expiresAt)) ? 'OK' : null;
+      }
+      await keyspace.set(key, value, expiresAt);
+      return 'OK';
+    }
+
+    case 'DEL': {
+      let removed = 0;
+      for (const key of rest) {
+        if (await keyspace.delete(key)) {
+          removed++;
+        }
+      }
+      return removed;
+    }
+
+    case 'SCAN': {
+      // The cursor encodes the last key returned, so pages stay in order while
+      // keys come and go; "0" starts a scan from a fresh snapshot of the keys
+      const cursor = rest[0] ?? '0';
+      let pattern = '*';
+      let count = 10;
+      for (let i = 1; i < rest.length - 1; i += 2) {
+        const option = rest[i].toUpperCase();
+        if (option === 'MATCH') {
+          pattern = rest[i + 1];
+        } else if (option === 'COUNT') {
+          count = Math.max(parseInt(rest[i + 1], 10) || 10, 1);
+        }
+      }
+
+      let keys = scanSnapshots.get(keyspace);
+      if (cursor === '0' || !keys) {
+        keys = (await keyspace.entries()).map(([key]) => key).sort();
+        scanSnapshots.set(keyspace, keys);
+      }
+
+      const start = cursor === '0' ? 0 : firstKeyAfter(keys, Buffer.from(cursor, 'base64url').toString('utf-8'));
+      const page = keys.slice(start, start + count);
+      const matcher = compilePattern(pattern);
+      const next = start + count >= keys.length ? '0' : Buffer.from(page[page.length - 1]).toString('base64url');
+      return [next, page.filter((key) => matcher.test(key))];
+    }
+
+    default:
+      throw new RedisReplyError(`ERR unknown command '${name}'`);
+  }
+}
+
+/**
+ * Create a client that runs commands directly against an in-process keyspace
+ */
+export function createLocalRedisClient(keyspace: KeyValueStore<string>): RedisCommandClient {
+  return {
+    command: (args) => executeCommand(keyspace, args),
+  };
+}
+
+/**
+ * Create a Redis-protocol server over a keyspace. Call listen() on the result.
+ * With a password, clients must AUTH before any other command.
+ */
+export function createRedisProtocolServer(keyspace: KeyValueStore<string>, password?: string): net.Server {
+  const checkPassword = (candidate: string | undefined): boolean => {
+    if (!password || candidate === undefined) {
+      return false;
+    }
+    const expected = crypto.createHash('sha256').update(password).digest();
+    const actual = crypto.createHash('sha256').update(candidate).digest();
+    return crypto.timingSafeEqual(expected, actual);
+  };
+
+  return net.createServer((socket) => {
+    let buffer = Buffer.alloc(0);
+    let authenticated = !password;
+
+    // Commands run one at a time so replies keep their order
+    let queue: Promise<void> = Promise.resolve();
+
+    const reply = async (args: string[]): Promise<string> => {
+      const name = (args[0] || '').toUpperCase();
+
+      if (name === 'QUIT') {
+        socket.end(encodeReply('OK', true));
+        return '';
+      }
+      if (name === 'AUTH') {
+        authenticated = checkPassword(args[args.length - 1]);
+        return authenticated
+          ? encodeReply('OK', true)
+          : encodeReply(new RedisReplyError('WRONGPASS invalid username-password pair'));
+      }
+      if (!authenticated) {
+        return encodeReply(new RedisReplyError('NOAUTH Authentication required.'));
+      }
+
+      try {
+        const value = await executeCommand(keyspace, args);
+        return encodeReply(value, typeof value === 'string' && ['PING', 'SELECT', 'SET'].includes(name));
+      } catch (error: any) {
+        return encodeReply(error instanceof RedisReplyError ? error : new RedisReplyError(`ERR ${error.message}`));
+      }
+    };
+
+    socket.on('data', (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+
+      try {
+        let parsed: ParsedReply | null;
+        while ((parsed = parseReply(buffer))) {
+          buffer = buffer.subarray(parsed.offset);
+          const args = Array.isArray(parsed.value) ? parsed.value.map(String) : [];
+          queue = queue.then(async () => {
+            const response = await reply(args);
+            if (response && !socket.destroyed) {
+              socket.write(response);
+            }
+          });
+        }
+      } catch (error: any) {
+        socket.end(encodeReply(new RedisReplyError(`ERR Protocol error: ${error.message}`)));
+      }
+    });
+
+    socket.on('error', (error) => {
+      console.warn('Redis protocol client error:', error.message);
+    });
+  });
+}
+
+// ============================================
+// Client
+// ============================================
+
+/**
+ * Create a client for a Redis-protocol server, e.g. redis://:password@host:6380/0
+ * (rediss:// for TLS). Connects on the first command and reconnects after a drop;
+ * commands in flight when the connection drops fail.
+ */
+export function createRedisClient(url: string): RedisCommandClient {
+  const target = new URL(url);
+  const useTls = target.protocol === 'rediss:';
+  const port = parseInt(target.port, 10) || 6379;
+  const username = decodeURIComponent(target.username);
+  const password = decodeURIComponent(target.password);
+  const db = target.pathname.slice(1);
+
+  let socket: net.Socket | null = null;
+  let buffer = Buffer.alloc(0);
+  let pending: Array<{ resolve: (value: RedisReply) => void; reject: (error: Error) => void }> = [];
+
+  const failPending = (error: Error) => {
+    const failed = pending;
+    pending = [];
+    failed.forEach(({ reject }) => reject(error));
+  };
+
+  const send = (args: string[]): Promise<RedisReply> =>
+    new Promise((resolve, reject) => {
+      // Connect first: a new connection queues its handshake ahead of this command
+      const connection = connect();
+      pending.push({ resolve, reject });
+      connection.write(encodeCommand(args));
+    });
+
+  const connect = (): net.Socket => {
+    if (socket && !socket.destroyed) {
+      return socket;
+    }
+
+    buffer = Buffer.alloc(0);
+    const connection = useTls
+      ? tls.connect({ host: target.hostname, port, servername: target.hostname })
+      : net.connect({ host: target.hostname, port });
+    socket = connection;
+
+    connection.on('data', (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      try {
+        let parsed: ParsedReply | null;
+        while ((parsed = parseReply(buffer))) {
+          buffer = buffer.subarray(parsed.offset);
+          const request = pending.shift();
+          if (parsed.value instanceof RedisReplyError) {
+            request?.reject(parsed.value);
+          } else {
+            request?.resolve(parsed.value);
+          }
+        }
+      } catch (error: any) {
+        connection.destroy(error);
+      }
+    });
+
+    connection.on('error', (error) => {
+      console.error('Redis connection error:', error.message);
+    });
+
+    connection.on('close', () => {
+      if (socket === connection) {
+        socket = null;
+        failPending(new Error('Redis connection closed'));
+      }
+    });
+
+    // Handshake goes first; its replies are checked when the command promises settle
+    if (password) {
+      send(username ? ['AUTH', username, password] : ['AUTH', password]).catch((error) => {
+        console.error('Redis authentication failed:', error.message);
+      });
+    }
+    if (db && db !== '0') {
+      send(['SELECT', db]).catch((error) => {
+        console.error(`Redis SELECT ${db} failed:`, error.message);
+      });
+    }
+
+    return connection;
+  };
+
+  return {
+    command: send,
+  };
+}
@@ -0,0 +1,407 @@
+/**
+ * Background jobs on cron schedules
+ * Jobs run inside the server process. When several instances share a storage
+ * backend, locks make sure each scheduled run happens on only one of them,
+ * and every run is recorded in a run log kept for a week.
+ *
+ * Schedules are five-field cron expressions (minute hour day-of-month month
+ * day-of-week) supporting *, lists, ranges and steps, evaluated in UTC.
+ */
+
+import crypto from 'crypto';
+import os from 'os';
+import { getStorageBackend, KeyValueStore } from './kv-store.js';
+import { getAllUserIds } from './token-store.js';
+import { applyInviteRules, listInviteRules } from './invite-rules.js';
+import { renewWatchChannels } from './calendar-watch.js';
+import { JobRun, JobUserResult, ScheduledJobInfo, UserJobRun } from './types.js';
+
+// Default schedule for applying invite rules: every 15 minutes
+const DEFAULT_INVITE_RULES_CRON = '*/15 * * * *';
+
+// Watch channels are checked hourly and replaced a day before they expire
+const WATCH_RENEWAL_CRON = '0 * * * *';
+
+// How long a crashed instance can hold a job's lock
+const JOB_LOCK_TTL_MS = 30 * 60 * 1000;
+
+// Claims on scheduled times outlast any clock skew between instances
+const SLOT_CLAIM_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Runs are kept in the log this long
+const JOB_RUN_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Longest single timer; longer waits are split
+const MAX_TIMER_DELAY_MS = 24 * 60 * 60 * 1000;
+
+// Identifies this server instance in locks and the run log
+const INSTANCE_ID = `${os.hostname()}:${process.pid}`;
+
+// ============================================
+// Types
+// ============================================
+
+interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;  // 0 = Sunday
+  restrictsDayOfMonth: boolean;
+  restrictsDayOfWeek: boolean;
+}
+
+interface ScheduledJob {
+  name: string;
+  schedule: string;
+  cron: CronSchedule;
+  run: () => Promise<Pick<JobRun, 'summary' | 'users'>>;
+}
+
+interface JobLock {
+  instance: string;
+  scheduledFor: string;
+}
+
+// ============================================
+// Storage
+// ============================================
+
+// Job runs by run ID
+const jobRuns = (): KeyValueStore<JobRun> =>
+  getStorageBackend().collection('job-runs');
+
+// Locks by job name, and claims on scheduled times by `${job}@${time}`
+const jobLocks = (): KeyValueStore<JobLock> =>
+  getStorageBackend().collection('job-locks');
+
+// Jobs started by startScheduler
+const jobs: ScheduledJob[] = [];
+
+// ============================================
+// Cron Expressions
+// ============================================
+
+const CRON_FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+/**
+ * Parse one cron field: "*", a value, a range like "1-5" or a comma-separated
+ * list of those, each optionally stepped, like "0-30/10"
+ */
+function parseCronField(field: string, range: { name: string; min: number; max: number }): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = part.match(/^(?:\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new Error(`Invalid cron ${range.name} "${part}"`);
+    }
+
+    const [, from, to, stepText] = match;
+    const step = stepText ? parseInt(stepText, 10) : 1;
+    let start = range.min;
+    let end = range.max;
+
+    if (from !== undefined) {
+      start = parseInt(from, 10);
+      // "5/15" means every 15 starting at 5
+      end = to !== undefined ? parseInt(to, 10) : stepText ? range.max : start;
+    }
+
+    if (start < range.min || end > range.max || start > end || step < 1) {
+      throw new Error(`Invalid cron ${range.name} "${part}": must be within ${range.min}-${range.max}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression
+ */
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => parseCronField(field, CRON_FIELDS[i]));
+
+  // 7 is another name for Sunday
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    restrictsDayOfMonth: !fields[2].startsWith('*'),
+    restrictsDayOfWeek: !fields[4].startsWith('*'),
+  };
+}
+
+/**
+ * Check a date's day against a schedule. As in cron, when both day fields
+ * are restricted a day matching either one is enough.
+ */
+function matchesDay(cron: CronSchedule, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getUTCDay());
+
+  if (cron.restrictsDayOfMonth && cron.restrictsDayOfWeek) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Find the first time after `after` that a schedule fires.
+ * Returns null if it doesn't fire within four years (e.g. "0 0 30 2 *").
+ */
+function nextCronTime(cron: CronSchedule, after: Date): Date | null {
+  const time = new Date(after.getTime());
+  time.setUTCSeconds(0, 0);
+  time.setUTCMinutes(time.getUTCMinutes() + 1);
+  const limit = after.getTime() + 4 * 366 * 24 * 60 * 60 * 1000;
+
+  while (time.getTime() <= limit) {
+    if (!cron.months.has(time.getUTCMonth() + 1)) {
+      time.setUTCMonth(time.getUTCMonth() + 1, 1);
+      time.setUTCHours(0, 0, 0, 0);
+    } else if (!matchesDay(cron, time)) {
+      time.setUTCDate(time.getUTCDate() + 1);
+      time.setUTCHours(0, 0, 0, 0);
+    } else if (!cron.hours.has(time.getUTCHours())) {
+      time.setUTCHours(time.getUTCHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes.has(time.getUTCMinutes())) {
+      time.setUTCMinutes(time.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return time;
+    }
+  }
+
+  return null;
+}
+
+// ============================================
+// Jobs
+// ============================================
+
+/**
+ * Apply every user's enabled invite rules
+ */
+async function runInviteRules(): Promise<Pick<JobRun, 'summary' | 'users'>> {
+  const users: JobUserResult[] = [];
+
+  for (const userId of await getAllUserIds()) {
+    const rules = await listInviteRules(userId);
+    if (!rules.some((rule) => rule.enabled)) {
+      continue;
+    }
+
+    try {
+      const result = await applyInviteRules(userId, { dryRun: false });
+      users.push({
+        userId,
+        pendingCount: result.evaluatedCount,
+        answeredCount: result.outcomes.filter((outcome) => outcome.status === 'applied').length,
+        failedCount: result.outcomes.filter((outcome) => outcome.status === 'failed').length,
+      });
+    } catch (error: any) {
+      users.push({ userId, pendingCount: 0, answeredCount: 0, failedCount: 0, error: error.message });
+    }
+  }
+
+  const answered = users.reduce((sum, user) => sum + user.answeredCount, 0);
+  const stillPending = users.reduce((sum, user) => sum + user.pendingCount - user.answeredCount, 0);
+
+  return {
+    summary: `Applied rules for ${users.length} user(s): answered ${answered} invite(s), ${stillPending} still pending`,
+    users,
+  };
+}
+
+/**
+ * Replace calendar watch channels before Google expires them
+ */
+async function runWatchRenewal(): Promise<Pick<JobRun, 'summary' | 'users'>> {
+  await renewWatchChannels();
+  return { summary: 'Renewed expiring calendar watch channels', users: [] };
+}
+
+// ============================================
+// Running
+// ============================================
+
+/**
+ * Run a job and record it in the run log
+ */
+async function recordRun(job: ScheduledJob, scheduledFor: string): Promise<void> {
+  const expiresAt = Date.now() + JOB_RUN_RETENTION_MS;
+  const run: JobRun = {
+    id: crypto.randomUUID(),
+    job: job.name,
+    instance: INSTANCE_ID,
+    scheduledFor,
+    startedAt: new Date().toISOString(),
+    finishedAt: null,
+    status: 'running',
+    summary: null,
+    users: [],
+  };
+  await jobRuns().set(run.id, run, expiresAt);
+
+  try {
+    Object.assign(run, await job.run(), { status: 'succeeded' });
+    console.log(`Job ${job.name}: ${run.summary}`);
+  } catch (error: any) {
+    run.status = 'failed';
+    run.error = error.message;
+    console.error(`Job ${job.name} failed:`, error);
+  }
+
+  run.finishedAt = new Date().toISOString();
+  await jobRuns().set(run.id, run, expiresAt);
+}
+
+/**
+ * Run a job for one scheduled time, unless another instance already has it
+ * or a previous run is still going
+ */
+async function runScheduled(job: ScheduledJob, scheduledFor: Date): Promise<void> {
+  const slot = scheduledFor.toISOString();
+  const lock: JobLock = { instance: INSTANCE_ID, scheduledFor: slot };
+
+  if (!(await jobLocks().add(job.name, lock, Date.now() + JOB_LOCK_TTL_MS))) {
+    console.log(`Skipping ${job.name} at ${slot}: another run is in progress`);
+    return;
+  }
+
+  try {
+    // Each scheduled time runs once, on whichever instance claims it first
+    if (await jobLocks().add(`${job.name}@${slot}`, lock, scheduledFor.getTime() + SLOT_CLAIM_TTL_MS)) {
+      await recordRun(job, slot);
+    }
+  } finally {
+    // The lock may have expired and been taken over by a slow run elsewhere
+    const current = await jobLocks().get(job.name);
+    if (current?.instance === INSTANCE_ID && current.scheduledFor === slot) {
+      await jobLocks().delete(job.name);
+    }
+  }
+}
+
+/**
+ * Set a timer for a job's next scheduled time after `after`
+ */
+function scheduleNext(job: ScheduledJob, after: Date): void {
+  const next = nextCronTime(job.cron, after);
+  if (!next) {
+    console.warn(`Job ${job.name} schedule "${job.schedule}" never fires; not scheduling it`);
+    return;
+  }
+
+  const delay = next.getTime() - Date.now();
+
+  if (delay > MAX_TIMER_DELAY_MS) {
+    setTimeout(() => scheduleNext(job, after), MAX_TIMER_DELAY_MS).unref();
+    return;
+  }
+
+  setTimeout(() => {
+    runScheduled(job, next)
+      .catch((error) => console.error(`Job ${job.name} could not run:`, error))
+      // Timers can fire a moment early, so never schedule before this run's time
+      .finally(() => scheduleNext(job, new Date(Math.max(Date.now(), next.getTime()))));
+  }, Math.max(delay, 0)).unref();
+}
+
+/**
+ * Start the background jobs. INVITE_RULES_CRON sets when invite rules are
+ * applied ("off" disables it). Throws if a schedule is invalid.
+ */
+export function startScheduler(): void {
+  const rulesSchedule = process.env.INVITE_RULES_CRON || DEFAULT_INVITE_RULES_CRON;
+
+  const definitions = [
+    { name: 'watch-renewal', schedule: WATCH_RENEWAL_CRON, run: runWatchRenewal },
+    ...(rulesSchedule.toLowerCase() === 'off'
+      ? []
+      : [{ name: 'invite-rules', schedule: rulesSchedule, run: runInviteRules }]),
+  ];
+
+  for (const definition of definitions) {
+    const job: ScheduledJob = { ...definition, cron: parseCron(definition.schedule) };
+    jobs.push(job);
+    scheduleNext(job, new Date());
+    console.log(`Scheduled job ${job.name} (${job.schedule} UTC)`);
+  }
+}
+
+// ============================================
+// Run Log
+// ============================================
+
+/**
+ * Get the jobs this instance runs and when each next fires
+ */
+export function listScheduledJobs(): ScheduledJobInfo[] {
+  const now = new Date();
+  return jobs.map((job) => ({
+    name: job.name,
+    schedule: job.schedule,
+    nextRunAt: nextCronTime(job.cron, now)?.toISOString() || null,
+  }));
+}
+
+/**
+ * Get a user's recent job runs across all instances, newest first.
+ * Only runs that did something for the user are included, with just their
+ * own result: totals across users and instance names are left out.
+ */
+export async function listUserJobRuns(
+  userId: string,
+  options: { job?: string; limit?: number } = {}
+): Promise<UserJobRun[]> {
+  const limit = Math.min(Math.max(options.limit || 20, 1), 100);
+  const runs: UserJobRun[] = [];
+
+  for (const [, run] of await jobRuns().entries()) {
+    const result = run.users.find((user) => user.userId === userId);
+    if (!result || (options.job && run.job !== options.job)) {
+      continue;
+    }
+
+    runs.push({
+      id: run.id,
+      job: run.job,
+      scheduledFor: run.scheduledFor,
+      startedAt: run.startedAt,
+      finishedAt: run.finishedAt,
+      status: run.status,
+      result: {
+        pendingCount: result.pendingCount,
+        answeredCount: result.answeredCount,
+        failedCount: result.failedCount,
+        error: result.error,
+      },
+    });
+  }
+
+  return runs
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+    .slice(0, limit);
+}
@@ -0,0 +1,69 @@
+/**
+ * Browser sessions for the web client
+ * The session cookie holds a random ID, and the user it belongs to is only
+ * known here. A user ID (such as an access token's `sub`) is never accepted
+ * as a session.
+ */
+
+import crypto from 'crypto';
+import { getStorageBackend, KeyValueStore } from './kv-store.js';
+
+// How long a browser session lasts (30 days)
+export const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Session IDs are 32 random bytes, base64url-encoded
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+
+interface StoredSession {
+  userId: string;
+  createdAt: string;
+}
+
+// Sessions keyed by a hash of their ID, so the stored keys can't be used as cookies
+const sessions = (): KeyValueStore<StoredSession> =>
+  getStorageBackend().collection('browser-sessions');
+
+/**
+ * Hash a session ID for use as a storage key
+ */
+function hashSessionId(sessionId: string): string {
+  return crypto.createHash('sha256').update(sessionId).digest('hex');
+}
+
+/**
+ * Check that a value has the shape of a session ID
+ */
+export function isSessionId(value: string): boolean {
+  return SESSION_ID_PATTERN.test(value);
+}
+
+/**
+ * Start a session for a user, returning its ID for the session cookie
+ */
+export async function createSession(userId: string): Promise<string> {
+  const sessionId = crypto.randomBytes(32).toString('base64url');
+  await sessions().set(
+    hashSessionId(sessionId),
+    { userId, createdAt: new Date().toISOString() },
+    Date.now() + SESSION_MAX_AGE_MS
+  );
+  return sessionId;
+}
+
+/**
+ * Get the user a session belongs to, or null if it is unknown or expired
+ */
+export async function getSessionUserId(sessionId: string): Promise<string | null> {
+  if (!isSessionId(sessionId)) {
+    return null;
+  }
+  const session = await sessions().get(hashSessionId(sessionId));
+  return session?.userId || null;
+}
+
+/**
+ * End a session
+ */
+export async function deleteSession(sessionId: string): Promise<boolean> {
+  return isSessionId(sessionId) ? sessions().delete(hashSessionId(sessionId)) : false;
+}
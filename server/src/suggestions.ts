@@ -0,0 +1,309 @@
+/**
+ * Suggested responses for pending invites
+ * Each invite gets a recommended response and a one-line reason, based on:
+ * - the user's invite rules (a matching rule wins)
+ * - free/busy: overlapping accepted or tentative events, and other pending invites
+ * - working hours, in the user's time zone
+ * - the organizer's relationship to the user (same email domain or not)
+ *
+ * The Calendar API doesn't expose Google Calendar's working hours setting,
+ * so users save theirs with set_working_hours (or a caller passes them for one
+ * request); WORKING_HOURS and WORKING_DAYS apply when neither is set.
+ */
+
+import { getPendingInvites } from './calendar-service.js';
+import { getUserEmail } from './google-auth.js';
+import { DEFAULT_LOCALE, Locale, dateLocale, t } from './i18n.js';
+import { findMatchingInviteRule, listInviteRules } from './invite-rules.js';
+import { KeyValueStore, getStorageBackend } from './kv-store.js';
+import {
+  InviteRule,
+  InviteSuggestion,
+  PendingInvite,
+  SuggestResponsesResponse,
+  WorkingHours,
+  WorkingHoursInput,
+} from './types.js';
+
+// Working hours as "HH:MM-HH:MM" and working days as a cron-style day list (0 = Sunday)
+const DEFAULT_WORKING_HOURS = '09:00-17:00';
+const DEFAULT_WORKING_DAYS = '1-5';
+
+// Shared mail providers: a matching domain doesn't make the organizer a colleague
+const PUBLIC_EMAIL_DOMAINS = ['gmail.com', 'googlemail.com', 'outlook.com', 'hotmail.com', 'live.com', 'yahoo.com', 'icloud.com', 'me.com', 'proton.me', 'protonmail.com'];
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Working hours a user saved, applied in whatever time zone they are shown in
+ */
+interface StoredWorkingHours extends WorkingHoursInput {
+  updatedAt: string;
+}
+
+// Working hours saved by each user
+const userWorkingHours = (): KeyValueStore<StoredWorkingHours> =>
+  getStorageBackend().collection('user-working-hours');
+
+/**
+ * Everything about the user that suggestions depend on
+ */
+interface SuggestionContext {
+  userDomain: string;
+  rules: InviteRule[];
+  workingHours: WorkingHours;
+  locale: Locale;
+}
+
+/**
+ * Convert "HH:MM" to minutes since midnight
+ */
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map((part) => parseInt(part, 10));
+  return hours * 60 + minutes;
+}
+
+/**
+ * Read working hours and days from the environment, falling back to the defaults
+ */
+export function getWorkingHours(timeZone: string): WorkingHours {
+  const hours = (process.env.WORKING_HOURS || DEFAULT_WORKING_HOURS).match(/^(\d{2}:\d{2})-(\d{2}:\d{2})$/);
+  const [start, end] = hours && toMinutes(hours[1]) < toMinutes(hours[2])
+    ? [hours[1], hours[2]]
+    : DEFAULT_WORKING_HOURS.split('-');
+
+  const days = new Set<number>();
+  for (const part of (process.env.WORKING_DAYS || DEFAULT_WORKING_DAYS).split(',')) {
+    const [from, to] = part.trim().split('-').map((day) => parseInt(day, 10));
+    for (let day = from; day <= (to ?? from); day++) {
+      if (day >= 0 && day <= 6) {
+        days.add(day);
+      }
+    }
+  }
+
+  return {
+    start,
+    end,
+    days: days.size > 0 ? [...days].sort((a, b) => a - b) : [1, 2, 3, 4, 5],
+    timeZone,
+    source: 'default',
+  };
+}
+
+/**
+ * Check working hours from a caller. Days default to WORKING_DAYS.
+ */
+export function parseWorkingHours(input: Partial<WorkingHoursInput>): WorkingHoursInput {
+  const { start, end } = input;
+  if (typeof start !== 'string' || typeof end !== 'string' || !TIME_OF_DAY.test(start) || !TIME_OF_DAY.test(end)) {
+    throw new Error('Working hours need a start and end as "HH:MM", e.g. "09:00" and "17:00"');
+  }
+  if (toMinutes(start) >= toMinutes(end)) {
+    throw new Error('Working hours must end after they start, on the same day');
+  }
+
+  const days = input.days ?? getWorkingHours('UTC').days;
+  if (!Array.isArray(days) || days.length === 0 || days.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+    throw new Error('Working days must be a list of weekdays from 0 (Sunday) to 6 (Saturday)');
+  }
+
+  return { start, end, days: [...new Set(days)].sort((a, b) => a - b) };
+}
+
+/**
+ * Save the working hours a user's suggestions and meeting times use
+ */
+export async function setUserWorkingHours(userId: string, input: Partial<WorkingHoursInput>): Promise<WorkingHoursInput> {
+  const hours = parseWorkingHours(input);
+  await userWorkingHours().set(userId, { ...hours, updatedAt: new Date().toISOString() });
+  return hours;
+}
+
+/**
+ * Forget a user's saved working hours, so WORKING_HOURS and WORKING_DAYS apply again
+ */
+export async function clearUserWorkingHours(userId: string): Promise<boolean> {
+  return userWorkingHours().delete(userId);
+}
+
+/**
+ * Get a user's working hours in a time zone. `override` (from a tool caller)
+ * applies to this request only; otherwise the hours the user saved, or the
+ * defaults from the environment.
+ */
+export async function getUserWorkingHours(
+  userId: string,
+  timeZone: string,
+  override?: Partial<WorkingHoursInput>
+): Promise<WorkingHours> {
+  if (override) {
+    return { ...parseWorkingHours(override), timeZone, source: 'request' };
+  }
+
+  const stored = await userWorkingHours().get(userId);
+  if (stored) {
+    return { start: stored.start, end: stored.end, days: stored.days, timeZone, source: 'saved' };
+  }
+
+  return getWorkingHours(timeZone);
+}
+
+/**
+ * Describe working hours for tool text, e.g. "09:00–17:00, Mon, Tue, Wed, Thu, Fri"
+ */
+export function formatWorkingHours(hours: WorkingHoursInput, locale: Locale = DEFAULT_LOCALE): string {
+  // 2024-01-07 was a Sunday
+  const days = hours.days.map((day) =>
+    new Date(Date.UTC(2024, 0, 7 + day)).toLocaleDateString(dateLocale(locale), { weekday: 'short', timeZone: 'UTC' })
+  );
+  return t(locale, 'hours.summary', { start: hours.start, end: hours.end, days: days.join(', ') });
+}
+
+/**
+ * Get the local date, weekday and minutes since midnight of a time in a time zone
+ */
+function localTime(time: string, timeZone: string): { date: string; weekday: number; minutes: number } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(new Date(time)).map((part) => [part.type, part.value])
+  );
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    minutes: parseInt(parts.hour, 10) * 60 + parseInt(parts.minute, 10),
+  };
+}
+
+/**
+ * Check whether a timed invite or slot starts and ends within one working day's hours
+ */
+export function isWithinWorkingHours(slot: Pick<PendingInvite, 'startTime' | 'endTime'>, workingHours: WorkingHours): boolean {
+  const start = localTime(slot.startTime, workingHours.timeZone);
+  const end = localTime(slot.endTime, workingHours.timeZone);
+
+  return start.date === end.date
+    && workingHours.days.includes(start.weekday)
+    && start.minutes >= toMinutes(workingHours.start)
+    && end.minutes <= toMinutes(workingHours.end);
+}
+
+/**
+ * Get the domain of an email address, lowercased
+ */
+function emailDomain(email: string): string {
+  return email.split('@')[1]?.toLowerCase() || '';
+}
+
+/**
+ * Name the first few events in a list, e.g. "Sprint Planning and 2 more"
+ */
+function describeEvents(events: Array<{ summary: string }>, locale: Locale): string {
+  const [first, ...rest] = events;
+  return rest.length > 0 ? t(locale, 'suggest.events', { first: first.summary, count: rest.length }) : first.summary;
+}
+
+/**
+ * Work out a suggested response for one invite
+ */
+function suggestResponse(invite: PendingInvite, context: SuggestionContext): InviteSuggestion {
+  const organizerDomain = emailDomain(invite.organizerEmail);
+  const internal = organizerDomain === context.userDomain && !PUBLIC_EMAIL_DOMAINS.includes(organizerDomain);
+
+  const accepted = invite.conflicts.filter((conflict) => conflict.status === 'accepted');
+  const tentative = invite.conflicts.filter((conflict) => conflict.status === 'tentative');
+  const pending = invite.conflicts.filter((conflict) => conflict.status === 'pending');
+  const withinWorkingHours = invite.isAllDay ? null : isWithinWorkingHours(invite, context.workingHours);
+
+  const base = {
+    busy: accepted.length > 0 || tentative.length > 0,
+    withinWorkingHours,
+    organizerRelationship: internal ? 'internal' as const : 'external' as const,
+    ruleId: null,
+  };
+
+  const { locale } = context;
+
+  const rule = findMatchingInviteRule(context.rules, invite);
+  if (rule) {
+    return { ...base, response: rule.action, reason: t(locale, 'suggest.rule', { name: rule.name }), confidence: 'high', basis: 'rule', ruleId: rule.id };
+  }
+
+  if (accepted.length > 0) {
+    return { ...base, response: 'declined', reason: t(locale, 'suggest.conflict', { events: describeEvents(accepted, locale) }), confidence: 'high', basis: 'conflict' };
+  }
+
+  if (tentative.length > 0) {
+    return { ...base, response: 'tentative', reason: t(locale, 'suggest.tentativeConflict', { events: describeEvents(tentative, locale) }), confidence: 'medium', basis: 'conflict' };
+  }
+
+  if (withinWorkingHours === false) {
+    const { start, end } = context.workingHours;
+    return { ...base, response: 'tentative', reason: t(locale, 'suggest.outsideHours', { start, end }), confidence: 'medium', basis: 'working-hours' };
+  }
+
+  if (pending.length > 0) {
+    return { ...base, response: 'tentative', reason: t(locale, 'suggest.pendingOverlap', { events: describeEvents(pending, locale) }), confidence: 'low', basis: 'pending-overlap' };
+  }
+
+  if (invite.isAllDay) {
+    return { ...base, response: 'tentative', reason: t(locale, 'suggest.allDay'), confidence: 'low', basis: 'all-day' };
+  }
+
+  if (internal) {
+    return { ...base, response: 'accepted', reason: t(locale, 'suggest.internal', { domain: organizerDomain }), confidence: 'high', basis: 'organizer' };
+  }
+
+  const reason = organizerDomain
+    ? t(locale, 'suggest.external', { domain: organizerDomain })
+    : t(locale, 'suggest.externalUnknown');
+  return { ...base, response: 'accepted', reason, confidence: 'medium', basis: 'organizer' };
+}
+
+/**
+ * Get a page of pending invites, each with a suggested response.
+ * Takes the same arguments as getPendingInvites; reasons are worded in `page.locale`,
+ * and `page.workingHours` replaces the user's working hours for this call.
+ */
+export async function suggestResponses(
+  userId: string,
+  startDate?: string,
+  endDate?: string,
+  calendarIds?: string[],
+  page: { cursor?: string; pageSize?: number; timeZone?: string; locale?: Locale; workingHours?: Partial<WorkingHoursInput> } = {}
+): Promise<SuggestResponsesResponse> {
+  // Reject bad working hours before fetching invites
+  if (page.workingHours) {
+    parseWorkingHours(page.workingHours);
+  }
+
+  const [result, rules, userEmail] = await Promise.all([
+    getPendingInvites(userId, startDate, endDate, calendarIds, page),
+    listInviteRules(userId),
+    getUserEmail(userId),
+  ]);
+
+  const context: SuggestionContext = {
+    userDomain: emailDomain(userEmail || ''),
+    rules,
+    workingHours: await getUserWorkingHours(userId, result.timeZone, page.workingHours),
+    locale: page.locale || DEFAULT_LOCALE,
+  };
+
+  return {
+    ...result,
+    invites: result.invites.map((invite) => ({ ...invite, suggestion: suggestResponse(invite, context) })),
+    workingHours: context.workingHours,
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * At-rest encryption for stored Google tokens
+ * AES-256-GCM with keys supplied via environment:
+ * - TOKEN_ENCRYPTION_KEY: current key (32 bytes, base64 or hex)
+ * - TOKEN_ENCRYPTION_PREVIOUS_KEYS: comma-separated retired keys, still accepted for decryption
+ *
+ * Every envelope records the id of the key that sealed it, so values sealed
+ * with a retired key can be detected and re-encrypted with the current one.
+ */
+
+import crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const ENVELOPE_VERSION = 1;
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+
+// ============================================
+// Types
+// ============================================
+
+export interface EncryptedEnvelope {
+  v: number;
+  kid: string;  // Id of the key that sealed this value
+  iv: string;   // base64
+  tag: string;  // base64 GCM auth tag
+  data: string; // base64 ciphertext
+}
+
+interface EncryptionKey {
+  kid: string;
+  key: Buffer;
+}
+
+interface EncryptionKeyring {
+  current: EncryptionKey;
+  byId: Map<string, EncryptionKey>;
+}
+
+// ============================================
+// Key Management
+// ============================================
+
+let keyring: EncryptionKeyring | null = null;
+
+/**
+ * Decode a 32-byte key given as hex or base64
+ */
+function parseKey(raw: string, envName: string): EncryptionKey {
+  const value = raw.trim();
+  const key = /^[0-9a-fA-F]{64}$/.test(value)
+    ? Buffer.from(value, 'hex')
+    : Buffer.from(value, 'base64');
+
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(
+      `${envName} must be ${KEY_LENGTH} bytes encoded as base64 or hex (got ${key.length} bytes). ` +
+      'Generate one with: openssl rand -base64 32'
+    );
+  }
+
+  // Key id is derived from the key itself, so it never needs configuring
+  const kid = crypto.createHash('sha256').update(key).digest('hex').slice(0, 16);
+  return { kid, key };
+}
+
+/**
+ * Load (once) the current and previous encryption keys from the environment
+ */
+function getKeyring(): EncryptionKeyring {
+  if (keyring) {
+    return keyring;
+  }
+
+  const currentRaw = process.env.TOKEN_ENCRYPTION_KEY;
+  if (!currentRaw) {
+    throw new Error(
+      'TOKEN_ENCRYPTION_KEY is not set. Google tokens are encrypted at rest and the server cannot start without a key. ' +
+      'Generate one with: openssl rand -base64 32'
+    );
+  }
+
+  const current = parseKey(currentRaw, 'TOKEN_ENCRYPTION_KEY');
+  const byId = new Map<string, EncryptionKey>([[current.kid, current]]);
+
+  const previousRaw = process.env.TOKEN_ENCRYPTION_PREVIOUS_KEYS || '';
+  for (const raw of previousRaw.split(',').filter((k) => k.trim())) {
+    const previous = parseKey(raw, 'TOKEN_ENCRYPTION_PREVIOUS_KEYS');
+    if (!byId.has(previous.kid)) {
+      byId.set(previous.kid, previous);
+    }
+  }
+
+  keyring = { current, byId };
+  return keyring;
+}
+
+/**
+ * Check the encryption keys are configured and well-formed.
+ * Throws with a descriptive message otherwise.
+ */
+export function loadEncryptionKeys(): void {
+  getKeyring();
+}
+
+// ============================================
+// Encryption
+// ============================================
+
+/**
+ * Encrypt a JSON-serializable value with the current key
+ */
+export function encryptJson(value: unknown): EncryptedEnvelope {
+  const { current } = getKeyring();
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, current.key, iv);
+
+  const data = Buffer.concat([cipher.update(JSON.stringify(value), 'utf-8'), cipher.final()]);
+
+  return {
+    v: ENVELOPE_VERSION,
+    kid: current.kid,
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+/**
+ * Decrypt an envelope produced by encryptJson.
+ * `stale` is true when the value was sealed with a previous key and should be re-encrypted.
+ */
+export function decryptJson<T>(envelope: EncryptedEnvelope): { value: T; stale: boolean } {
+  const { current, byId } = getKeyring();
+
+  if (envelope.v !== ENVELOPE_VERSION) {
+    throw new Error(`Unsupported token envelope version: ${envelope.v}`);
+  }
+
+  const key = byId.get(envelope.kid);
+  if (!key) {
+    throw new Error(
+      `Stored tokens were encrypted with an unknown key (kid ${envelope.kid}). ` +
+      'Set TOKEN_ENCRYPTION_KEY to that key, or add it to TOKEN_ENCRYPTION_PREVIOUS_KEYS.'
+    );
+  }
+
+  try {
+    const decipher = crypto.createDecipheriv(ALGORITHM, key.key, Buffer.from(envelope.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+    const plaintext = Buffer.concat([
+      decipher.update(Buffer.from(envelope.data, 'base64')),
+      decipher.final(),
+    ]).toString('utf-8');
+
+    return { value: JSON.parse(plaintext) as T, stale: key.kid !== current.kid };
+  } catch {
+    throw new Error(`Failed to decrypt stored tokens (kid ${envelope.kid}): data is corrupt or was tampered with`);
+  }
+}
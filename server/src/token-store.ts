@@ -1,114 +1,176 @@
+import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { OAuth2Tokens, StoredTokenData, TokenStore } from './types.js';
+import { OAuth2Tokens, StoredTokenData } from './types.js';
+import { decryptJson, encryptJson, EncryptedEnvelope, loadEncryptionKeys } from './token-crypto.js';
+import { getStorageBackend, KeyValueStore } from './kv-store.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-// Token storage file path
-const DATA_DIR = path.join(__dirname, '..', '..', 'data');
-const TOKENS_FILE = path.join(DATA_DIR, 'tokens.json');
+// Token file written by earlier versions, imported into the storage backend on startup
+const LEGACY_TOKENS_FILE = path.join(__dirname, '..', '..', 'data', 'tokens.json');
+
+// ============================================
+// Storage
+// ============================================
+// Token records are stored as encrypted envelopes keyed by user ID.
+// A separate index maps a hash of the Google email to the user ID so lookups
+// by email don't have to decrypt every record.
+
+const tokenRecords = (): KeyValueStore<EncryptedEnvelope> =>
+  getStorageBackend().collection('google-tokens');
+
+const emailIndex = (): KeyValueStore<string> =>
+  getStorageBackend().collection('google-token-emails');
+
+/**
+ * Hash an email for use as an index key
+ */
+function hashEmail(email: string): string {
+  return crypto.createHash('sha256').update(email).digest('hex');
+}
 
 /**
- * Ensure the data directory exists
+ * Decrypt a stored record, re-encrypting it if it was sealed with a previous key.
+ * Decryption failures are thrown rather than treated as a missing record,
+ * so a wrong key can never cause stored tokens to be overwritten.
  */
-function ensureDataDir(): void {
-  if (!fs.existsSync(DATA_DIR)) {
-    fs.mkdirSync(DATA_DIR, { recursive: true });
+async function readRecord(userId: string, envelope: EncryptedEnvelope): Promise<StoredTokenData> {
+  const { value, stale } = decryptJson<StoredTokenData>(envelope);
+
+  if (stale) {
+    await tokenRecords().set(userId, encryptJson(value));
+    console.log(`Re-encrypted tokens for user ${userId} with the current key`);
   }
+
+  return value;
 }
 
 /**
- * Read the token store from disk
+ * Encrypt and store a record, keeping the email index in sync
  */
-function readTokenStore(): TokenStore {
-  ensureDataDir();
-  
-  if (!fs.existsSync(TOKENS_FILE)) {
-    return {};
+async function writeRecord(userId: string, data: StoredTokenData): Promise<void> {
+  await tokenRecords().set(userId, encryptJson(data));
+  await emailIndex().set(hashEmail(data.email), userId);
+}
+
+/**
+ * Import tokens from the legacy data/tokens.json file, then move it aside
+ */
+async function migrateLegacyTokenFile(): Promise<void> {
+  // Never consume the file into a backend that forgets it on restart
+  if (!fs.existsSync(LEGACY_TOKENS_FILE) || getStorageBackend().name === 'memory') {
+    return;
   }
-  
-  try {
-    const data = fs.readFileSync(TOKENS_FILE, 'utf-8');
-    return JSON.parse(data) as TokenStore;
-  } catch (error) {
-    console.error('Error reading token store:', error);
-    return {};
+
+  const legacy = JSON.parse(
+    await fs.promises.readFile(LEGACY_TOKENS_FILE, 'utf-8')
+  ) as Record<string, StoredTokenData>;
+
+  for (const [userId, data] of Object.entries(legacy)) {
+    await writeRecord(userId, data);
   }
+
+  await fs.promises.rename(LEGACY_TOKENS_FILE, `${LEGACY_TOKENS_FILE}.migrated`);
+  console.log(`Migrated ${Object.keys(legacy).length} users from ${LEGACY_TOKENS_FILE}`);
 }
 
 /**
- * Write the token store to disk
+ * Validate the encryption key and check it can decrypt the existing token store.
+ * Called at startup so a missing or wrong key fails fast instead of on first login.
  */
-function writeTokenStore(store: TokenStore): void {
-  ensureDataDir();
-  
+export async function validateTokenStore(): Promise<boolean> {
   try {
-    fs.writeFileSync(TOKENS_FILE, JSON.stringify(store, null, 2), 'utf-8');
-  } catch (error) {
-    console.error('Error writing token store:', error);
-    throw error;
+    loadEncryptionKeys();
+    await migrateLegacyTokenFile();
+
+    const records = await tokenRecords().entries();
+    for (const [userId, envelope] of records) {
+      await readRecord(userId, envelope);
+    }
+
+    console.log(`Token store unlocked (${records.length} users, ${getStorageBackend().name} backend)`);
+    return true;
+  } catch (error: any) {
+    console.error('Unable to open encrypted token store:');
+    console.error(`  - ${error.message}`);
+    return false;
   }
 }
 
+// ============================================
+// Token Operations
+// ============================================
+
 /**
  * Save tokens for a user
+ * Throws if the Google account is already linked to another user: one account
+ * never gets two records (see handleOAuthCallback).
  */
-export function saveTokens(userId: string, tokens: OAuth2Tokens, email: string): void {
-  const store = readTokenStore();
+export async function saveTokens(userId: string, tokens: OAuth2Tokens, email: string): Promise<void> {
+  const linkedUserId = await getUserIdByEmail(email);
+  if (linkedUserId && linkedUserId !== userId) {
+    throw new Error(`Google account ${email} is already linked to another user`);
+  }
+
+  const existing = await getTokens(userId);
   const now = new Date().toISOString();
-  
-  store[userId] = {
+
+  if (existing && existing.email !== email) {
+    await emailIndex().delete(hashEmail(existing.email));
+  }
+
+  await writeRecord(userId, {
     tokens,
     email,
-    createdAt: store[userId]?.createdAt || now,
+    createdAt: existing?.createdAt || now,
     updatedAt: now,
-  };
-  
-  writeTokenStore(store);
+  });
+
   console.log(`Tokens saved for user: ${userId}`);
 }
 
 /**
  * Get tokens for a user
  */
-export function getTokens(userId: string): StoredTokenData | null {
-  const store = readTokenStore();
-  return store[userId] || null;
+export async function getTokens(userId: string): Promise<StoredTokenData | null> {
+  const envelope = await tokenRecords().get(userId);
+  return envelope ? readRecord(userId, envelope) : null;
 }
 
 /**
  * Delete tokens for a user
  */
-export function deleteTokens(userId: string): boolean {
-  const store = readTokenStore();
-  
-  if (store[userId]) {
-    delete store[userId];
-    writeTokenStore(store);
+export async function deleteTokens(userId: string): Promise<boolean> {
+  const existing = await getTokens(userId);
+
+  if (existing) {
+    await tokenRecords().delete(userId);
+    await emailIndex().delete(hashEmail(existing.email));
     console.log(`Tokens deleted for user: ${userId}`);
     return true;
   }
-  
+
   return false;
 }
 
 /**
  * Check if user has valid tokens (not expired)
  */
-export function hasValidTokens(userId: string): boolean {
-  const data = getTokens(userId);
-  
+export async function hasValidTokens(userId: string): Promise<boolean> {
+  const data = await getTokens(userId);
+
   if (!data || !data.tokens) {
     return false;
   }
-  
+
   // Check if access token exists
   if (!data.tokens.access_token) {
     return false;
   }
-  
+
   // Check expiry if available
   if (data.tokens.expiry_date) {
     const now = Date.now();
@@ -120,72 +182,63 @@ export function hasValidTokens(userId: string): boolean {
       return !!data.tokens.refresh_token;
     }
   }
-  
+
   return true;
 }
 
 /**
  * Update tokens after refresh
  */
-export function updateTokens(userId: string, newTokens: Partial<OAuth2Tokens>): void {
-  const data = getTokens(userId);
-  
+export async function updateTokens(userId: string, newTokens: Partial<OAuth2Tokens>): Promise<void> {
+  const data = await getTokens(userId);
+
   if (!data) {
     throw new Error(`No existing tokens for user: ${userId}`);
   }
-  
+
   const updatedTokens: OAuth2Tokens = {
     ...data.tokens,
     ...newTokens,
   };
-  
-  saveTokens(userId, updatedTokens, data.email);
+
+  await saveTokens(userId, updatedTokens, data.email);
 }
 
 /**
  * Get all user IDs with stored tokens
  */
-export function getAllUserIds(): string[] {
-  const store = readTokenStore();
-  return Object.keys(store);
+export async function getAllUserIds(): Promise<string[]> {
+  const records = await tokenRecords().entries();
+  return records.map(([userId]) => userId);
 }
 
 /**
  * Get user ID by email (for looking up during OAuth callback)
  */
-export function getUserIdByEmail(email: string): string | null {
-  const store = readTokenStore();
-  
-  for (const [userId, data] of Object.entries(store)) {
-    if (data.email === email) {
-      return userId;
-    }
-  }
-  
-  return null;
+export async function getUserIdByEmail(email: string): Promise<string | null> {
+  return emailIndex().get(hashEmail(email));
 }
 
 /**
  * Clean up expired tokens (utility function)
  */
-export function cleanupExpiredTokens(): number {
-  const store = readTokenStore();
+export async function cleanupExpiredTokens(): Promise<number> {
   let removedCount = 0;
   const now = Date.now();
-  
-  for (const [userId, data] of Object.entries(store)) {
+
+  for (const [userId, envelope] of await tokenRecords().entries()) {
+    const data = await readRecord(userId, envelope);
+
     // Remove if no refresh token and access token is expired
     if (data.tokens.expiry_date && data.tokens.expiry_date < now && !data.tokens.refresh_token) {
-      delete store[userId];
+      await deleteTokens(userId);
       removedCount++;
     }
   }
-  
+
   if (removedCount > 0) {
-    writeTokenStore(store);
     console.log(`Cleaned up ${removedCount} expired tokens`);
   }
-  
+
   return removedCount;
 }
-
@@ -51,14 +51,34 @@ export interface CalendarEvent {
   status: string;
 }
 
+export interface CalendarSummary {
+  id: string;
+  name: string;
+  primary: boolean;
+  accessRole: string;
+}
+
+export interface InviteConflict {
+  eventId: string;
+  calendarId: string;
+  summary: string;
+  startTime: string;
+  endTime: string;
+  status: 'accepted' | 'tentative' | 'pending';  // 'pending' is another unanswered invite
+}
+
 export interface PendingInvite {
   eventId: string;
+  calendarId: string;
+  calendarName: string;
   summary: string;
   description: string | null;
   location: string | null;
-  startTime: string;
+  startTime: string;  // ISO 8601 in timeZone; a plain date for all-day events
   endTime: string;
   isAllDay: boolean;
+  timeZone: string;  // User's time zone, which startTime, endTime and the other times are given in
+  eventTimeZone: string | null;  // Time zone the event was created in, if it has one
   organizerEmail: string;
   organizerName: string | null;
   attendees: {
@@ -67,19 +87,51 @@ export interface PendingInvite {
     status: string;
   }[];
   calendarLink: string;
+  arrivedAt: string | null;  // When a push notification first reported the invite
+  conflicts: InviteConflict[];  // Overlapping events the user is committed to, and other pending invites
+  recurringEventId: string | null;  // Series this instance belongs to
+  originalStartTime: string | null;  // Instance's slot in the series, even if it was moved
+  seriesPendingCount: number;  // Pending instances of the same series in the range; 0 for single events
+}
+
+export interface RecurringSeriesSummary {
+  recurringEventId: string;
+  calendarId: string;
+  summary: string;
+  pendingCount: number;
+  firstEventId: string;  // Earliest pending instance, e.g. for responding with scope "series"
+  firstStartTime: string;
+  lastStartTime: string;
 }
 
 export interface PendingInvitesResponse {
   invites: PendingInvite[];
+  calendars: CalendarSummary[];
+  series: RecurringSeriesSummary[];  // Recurring series with pending instances
   dateRange: {
     start: string;
     end: string;
   };
-  totalCount: number;
+  totalCount: number;          // Pending invites across all pages
+  nextCursor: string | null;   // Pass back to fetch the next page; null on the last page
+  truncated: boolean;          // A calendar hit CALENDAR_MAX_EVENTS_PER_CALENDAR
+  timeZone: string;            // User's time zone that invite times are given in
+}
+
+// Which instances of a recurring event a response applies to
+export type RespondScope = 'instance' | 'series' | 'following';
+
+// Optional note sent to the organizer along with a response
+export interface RespondNote {
+  comment?: string;
+  proposedStart?: string;  // ISO 8601; proposedStart and proposedEnd go together
+  proposedEnd?: string;
 }
 
-export interface RespondToInviteRequest {
+export interface RespondToInviteRequest extends RespondNote {
   eventId: string;
+  calendarId?: string;
+  scope?: RespondScope;
   response: 'accepted' | 'declined' | 'tentative';
 }
 
@@ -87,10 +139,255 @@ export interface RespondToInviteResponse {
   success: boolean;
   message: string;
   eventId: string;
+  calendarId: string;
   newStatus: string;
+  scope: RespondScope;  // Scope applied; "instance" for events that aren't recurring
+  updatedCount: number;  // Events patched: the instances, or 1 for the whole series
+  comment: string | null;  // Attendee comment as sent, including any proposed time
+  proposedTime: { start: string; end: string } | null;
   eventSummary?: string;
 }
 
+// Creating and Updating Events
+
+// A new event. Times without an offset are wall-clock times in timeZone.
+export interface EventInput {
+  summary: string;
+  start: string;                 // ISO 8601 date-time, or a date ("2024-01-16") for all-day events
+  end?: string;                  // Defaults to start + durationMinutes; the last day (inclusive) for all-day events
+  durationMinutes?: number;      // Used when end is missing; defaults to 30
+  allDay?: boolean;              // Implied when start is a plain date
+  timeZone?: string;             // IANA name; defaults to the user's time zone
+  attendees?: string[];          // Email addresses to invite
+  description?: string;
+  location?: string;
+  addMeetLink?: boolean;         // Generate a Google Meet link
+  calendarId?: string;           // Defaults to "primary"
+  notifyAttendees?: boolean;     // Email invitations or updates; defaults to true
+}
+
+// Changes to an existing event; only the fields given are changed
+export interface EventUpdateInput extends Partial<Omit<EventInput, 'attendees' | 'calendarId'>> {
+  addAttendees?: string[];
+  removeAttendees?: string[];
+}
+
+export interface ScheduledEvent {
+  eventId: string;
+  calendarId: string;
+  summary: string;
+  description: string | null;
+  location: string | null;
+  startTime: string;             // ISO 8601 in timeZone; a plain date for all-day events
+  endTime: string;               // Exclusive, as in Google Calendar
+  isAllDay: boolean;
+  timeZone: string;              // Time zone the event is scheduled in
+  organizerEmail: string;
+  attendees: {
+    email: string;
+    name: string | null;
+    status: string;
+  }[];
+  meetLink: string | null;
+  calendarLink: string;
+  recurringEventId: string | null;
+}
+
+// Response Suggestions
+
+export interface InviteSuggestion {
+  response: 'accepted' | 'declined' | 'tentative';
+  reason: string;                // e.g. "Conflicts with Sprint Planning"
+  confidence: 'high' | 'medium' | 'low';
+  basis: 'rule' | 'conflict' | 'working-hours' | 'pending-overlap' | 'all-day' | 'organizer';
+  busy: boolean;                 // Overlaps accepted or tentative events
+  withinWorkingHours: boolean | null;  // null for all-day events
+  organizerRelationship: 'internal' | 'external';  // Same email domain as the user, or not
+  ruleId: string | null;         // Invite rule the suggestion follows
+}
+
+export interface SuggestedInvite extends PendingInvite {
+  suggestion: InviteSuggestion;
+}
+
+// Working hours as a caller gives or saves them, without a time zone
+export interface WorkingHoursInput {
+  start: string;                 // "HH:MM"
+  end: string;
+  days: number[];                // 0 = Sunday
+}
+
+export interface WorkingHours extends WorkingHoursInput {
+  timeZone: string;              // start and end are in this zone
+  source: 'request' | 'saved' | 'default';  // Passed with the call; saved by the user; WORKING_HOURS and WORKING_DAYS
+}
+
+export interface SuggestResponsesResponse extends Omit<PendingInvitesResponse, 'invites'> {
+  invites: SuggestedInvite[];
+  workingHours: WorkingHours;
+}
+
+// Meeting Times
+
+// Busy times for one person from Google's free/busy API
+export interface AttendeeAvailability {
+  email: string;
+  busy: { start: string; end: string }[];
+  timeZone: string | null;       // Their calendar's time zone, when it is visible to the user
+  error: string | null;          // e.g. "notFound" when their free/busy isn't shared
+}
+
+export interface MeetingAttendee {
+  email: string;
+  workingHours: WorkingHours;    // source says whether they were given, saved by the attendee, or the defaults
+  availabilityKnown: boolean;    // false when their free/busy couldn't be read
+}
+
+export interface MeetingTimeSlot {
+  start: string;                 // ISO 8601 in the response's timeZone
+  end: string;
+  fit: 'ideal' | 'outside-hours' | 'conflicts';  // Everyone free in working hours; someone outside theirs; someone busy
+  busy: string[];                // Attendees with something else on
+  outsideWorkingHours: string[]; // Attendees the slot is outside working hours for
+}
+
+export interface MeetingTimesResponse {
+  slots: MeetingTimeSlot[];      // Best first
+  attendees: MeetingAttendee[];  // The user first, then the people asked for
+  durationMinutes: number;
+  window: { start: string; end: string };
+  timeZone: string;              // User's time zone that slot times are given in
+  title: string | null;          // Carried through for creating the event
+}
+
+// Agenda
+
+export interface AgendaEvent {
+  eventId: string;
+  calendarId: string;
+  calendarName: string;
+  summary: string;
+  location: string | null;
+  startTime: string;             // ISO 8601 in the user's time zone; a plain date for all-day events
+  endTime: string;               // Exclusive, as in Google Calendar
+  isAllDay: boolean;
+  responseStatus: 'accepted' | 'tentative' | 'declined' | 'needsAction';  // The user's; "accepted" for events they organize
+  isOrganizer: boolean;
+  organizerEmail: string;
+  organizerName: string | null;
+  attendeeCount: number;
+  meetLink: string | null;
+  calendarLink: string;
+  recurringEventId: string | null;
+}
+
+export interface AgendaDay {
+  date: string;                  // YYYY-MM-DD in the user's time zone
+  events: AgendaEvent[];         // All-day events first, then by start; events spanning days are on each day
+}
+
+export interface AgendaResponse {
+  days: AgendaDay[];             // Every day in the range, including empty ones
+  range: 'day' | 'week';
+  dateRange: {
+    start: string;
+    end: string;
+  };
+  pendingCount: number;          // Events awaiting the user's response
+  calendars: CalendarSummary[];
+  truncated: boolean;            // A calendar hit CALENDAR_MAX_EVENTS_PER_CALENDAR
+  timeZone: string;              // User's time zone that event times are given in
+}
+
+// Invite Rules (auto-responder)
+
+// Conditions an invite must meet for a rule to apply. Every condition given
+// must hold; within a list, any entry matching is enough.
+export interface InviteRuleConditions {
+  organizerDomains?: string[];   // e.g. "vendor.com", matching sub.vendor.com too
+  organizerEmails?: string[];
+  summaryContains?: string[];    // Case-insensitive
+  calendarIds?: string[];
+  allDay?: boolean;
+  recurring?: boolean;
+  onlyWhenFree?: boolean;        // No overlapping accepted or tentative events
+}
+
+export interface InviteRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  conditions: InviteRuleConditions;
+  action: 'accepted' | 'declined' | 'tentative';
+  comment: string | null;        // Sent to the organizer with the response
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type InviteRuleInput = Pick<InviteRule, 'name' | 'conditions' | 'action'> &
+  Partial<Pick<InviteRule, 'enabled' | 'comment'>>;
+
+// What a rule did (or would do) to one pending invite
+export interface InviteRuleOutcome {
+  eventId: string;
+  calendarId: string;
+  summary: string;
+  startTime: string;
+  organizerEmail: string;
+  ruleId: string;
+  ruleName: string;
+  action: InviteRule['action'];
+  status: 'planned' | 'applied' | 'failed';  // "planned" in dry runs
+  error?: string;
+}
+
+export interface ApplyInviteRulesResponse {
+  dryRun: boolean;
+  outcomes: InviteRuleOutcome[];
+  evaluatedCount: number;        // Pending invites checked against the rules
+  unmatchedCount: number;
+  dateRange: {
+    start: string;
+    end: string;
+  };
+  truncated: boolean;            // More pending invites than one run evaluates
+}
+
+// Background Jobs
+
+// What a job run did for one user
+export interface JobUserResult {
+  userId: string;
+  pendingCount: number;          // Pending invites checked
+  answeredCount: number;         // Answered by rules on this run
+  failedCount: number;
+  error?: string;
+}
+
+export interface JobRun {
+  id: string;
+  job: string;
+  instance: string;              // Server instance that ran it (host:pid)
+  scheduledFor: string;
+  startedAt: string;
+  finishedAt: string | null;
+  status: 'running' | 'succeeded' | 'failed';
+  summary: string | null;
+  error?: string;
+  users: JobUserResult[];
+}
+
+// A job run as shown to one user: only what it did for them
+export interface UserJobRun extends Pick<JobRun, 'id' | 'job' | 'scheduledFor' | 'startedAt' | 'finishedAt' | 'status'> {
+  result: Omit<JobUserResult, 'userId'>;
+}
+
+export interface ScheduledJobInfo {
+  name: string;
+  schedule: string;              // Cron expression, evaluated in UTC
+  nextRunAt: string | null;
+}
+
 // MCP Types
 export interface MCPToolResult {
   content: {
@@ -0,0 +1,109 @@
+import { google } from 'googleapis';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getPendingInvites, getStoredTimeZone, getUserTimeZone, syncCalendarChanges } from '../src/calendar-service.js';
+import { createMemoryBackend, setStorageBackend, StorageBackend } from '../src/kv-store.js';
+import { saveTokens } from '../src/token-store.js';
+
+const settingsGet = vi.fn();
+const eventsList = vi.fn();
+let backend: StorageBackend;
+
+beforeEach(async () => {
+  backend = createMemoryBackend();
+  setStorageBackend(backend);
+  settingsGet.mockReset();
+  eventsList.mockReset();
+  vi.spyOn(google, 'calendar').mockReturnValue({
+    settings: { get: settingsGet },
+    calendarList: { list: async () => ({ data: { items: [{ id: 'primary', summary: 'Me', primary: true, accessRole: 'owner' }] } }) },
+    events: { list: eventsList },
+  } as any);
+
+  await saveTokens('user-1', {
+    access_token: 'access',
+    refresh_token: 'refresh',
+    scope: 'https://www.googleapis.com/auth/calendar',
+    token_type: 'Bearer',
+    expiry_date: Date.now() + 60 * 60 * 1000,
+  }, 'me@example.com');
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('getUserTimeZone', () => {
+  it('reads the time zone from Google once and reuses it', async () => {
+    settingsGet.mockResolvedValue({ data: { value: 'Europe/Madrid' } });
+
+    expect(await getUserTimeZone('user-1')).toBe('Europe/Madrid');
+    expect(await getUserTimeZone('user-1')).toBe('Europe/Madrid');
+    expect(settingsGet).toHaveBeenCalledTimes(1);
+    expect(await getStoredTimeZone('user-1')).toBe('Europe/Madrid');
+  });
+
+  it('applies a valid override without storing it', async () => {
+    settingsGet.mockResolvedValue({ data: { value: 'Europe/Madrid' } });
+
+    expect(await getUserTimeZone('user-1', 'America/New_York')).toBe('America/New_York');
+    expect(await getStoredTimeZone('user-1')).toBeNull();
+    await expect(getUserTimeZone('user-1', 'Mars/Olympus')).rejects.toThrow('Invalid time zone');
+  });
+
+  it('falls back to UTC without passing it off as the Google setting', async () => {
+    settingsGet.mockRejectedValue(Object.assign(new Error('Backend Error'), { code: 500 }));
+
+    expect(await getUserTimeZone('user-1')).toBe('UTC');
+    expect(await getStoredTimeZone('user-1')).toBeNull();
+  });
+});
+
+describe('calendar sync cache', () => {
+  const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+  const invite = (id: string) => ({
+    id,
+    status: 'confirmed',
+    summary: `Meeting ${id}`,
+    start: { dateTime: `${tomorrow}T10:00:00Z` },
+    end: { dateTime: `${tomorrow}T11:00:00Z` },
+    organizer: { email: 'boss@example.com' },
+    attendees: [{ email: 'me@example.com', responseStatus: 'needsAction' }],
+  });
+
+  beforeEach(() => {
+    settingsGet.mockResolvedValue({ data: { value: 'UTC' } });
+  });
+
+  it('only rewrites the cache when Google reports changes', async () => {
+    eventsList.mockImplementation(async ({ syncToken }: any) => ({
+      data: { items: syncToken ? [] : [invite('a')], nextSyncToken: 'token-1' },
+    }));
+    const set = vi.spyOn(backend.collection('calendar-sync-cache'), 'set');
+
+    await getPendingInvites('user-1');
+    await getPendingInvites('user-1');
+
+    expect(eventsList).toHaveBeenCalledTimes(2);
+    expect(set).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps changes applied by a push notification and a fetch running together', async () => {
+    let calls = 0;
+    eventsList.mockImplementation(async ({ syncToken }: any) => {
+      calls++;
+      // Google reports the new invite to the first incremental sync only
+      const items = !syncToken ? [invite('a')] : calls === 2 ? [invite('b')] : [];
+      return { data: { items, nextSyncToken: `token-${calls}` } };
+    });
+    await getPendingInvites('user-1');
+
+    const [arrived] = await Promise.all([
+      syncCalendarChanges('user-1', { id: 'primary', name: 'Me' }),
+      getPendingInvites('user-1'),
+    ]);
+
+    expect(arrived.map((item) => item.eventId)).toEqual(['b']);
+    expect((await getPendingInvites('user-1')).invites.map((item) => item.eventId).sort()).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,69 @@
+import { OAuth2Client } from 'google-auth-library';
+import { google } from 'googleapis';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { consumeSignInState, createSignInState, getUserSignInUrl, handleOAuthCallback } from '../src/google-auth.js';
+import { createMemoryBackend, setStorageBackend } from '../src/kv-store.js';
+import { getTokens, getUserIdByEmail, saveTokens } from '../src/token-store.js';
+
+const stateOf = (url: string) => new URL(url).searchParams.get('state')!;
+
+beforeEach(() => {
+  setStorageBackend(createMemoryBackend());
+});
+
+describe('Google sign-in state', () => {
+  it('lets only the browser session that started a sign-in finish it', async () => {
+    const state = await createSignInState('session-a');
+    expect(await consumeSignInState(state, 'session-b')).toBeNull();
+
+    const other = await createSignInState('session-a');
+    expect(await consumeSignInState(other, undefined)).toBeNull();
+
+    const own = await createSignInState('session-a');
+    expect(await consumeSignInState(own, 'session-a')).toEqual({});
+  });
+
+  it('binds a sign-in URL to its user in any browser, once', async () => {
+    const state = stateOf(await getUserSignInUrl('user-1'));
+
+    expect(await consumeSignInState(state, undefined)).toEqual({ userId: 'user-1' });
+    expect(await consumeSignInState(state, undefined)).toBeNull();
+  });
+});
+
+describe('linking Google accounts', () => {
+  const signInAs = (email: string) => {
+    vi.spyOn(OAuth2Client.prototype, 'getToken').mockResolvedValue({
+      tokens: { access_token: `access-${email}`, refresh_token: 'refresh', expiry_date: Date.now() + 3600_000 },
+    } as any);
+    vi.spyOn(google, 'oauth2').mockReturnValue({ userinfo: { get: async () => ({ data: { email } }) } } as any);
+  };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('reuses the user an account is already linked to', async () => {
+    signInAs('me@example.com');
+    await handleOAuthCallback('code', 'user-1');
+
+    expect(await handleOAuthCallback('code', 'user-2')).toEqual({ email: 'me@example.com', userId: 'user-1' });
+    expect(await handleOAuthCallback('code')).toEqual({ email: 'me@example.com', userId: 'user-1' });
+    expect(await getTokens('user-2')).toBeNull();
+    expect(await getUserIdByEmail('me@example.com')).toBe('user-1');
+  });
+
+  it('refuses a sign-in made for another user', async () => {
+    signInAs('me@example.com');
+    await handleOAuthCallback('code', 'user-1');
+
+    await expect(handleOAuthCallback('code', 'user-2', { exclusive: true })).rejects.toThrow('already connected');
+    expect(await getUserIdByEmail('me@example.com')).toBe('user-1');
+  });
+
+  it('never stores one account under two users', async () => {
+    await saveTokens('user-1', { access_token: 'a', scope: '', token_type: 'Bearer' }, 'me@example.com');
+
+    await expect(saveTokens('user-2', { access_token: 'b', scope: '', token_type: 'Bearer' }, 'me@example.com')).rejects.toThrow('already linked');
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { findMatchingInviteRule } from '../src/invite-rules.js';
+import { getRequiredScopes } from '../src/mcp-server.js';
+import { InviteConflict, InviteRule, InviteRuleConditions, PendingInvite } from '../src/types.js';
+
+function invite(overrides: Partial<PendingInvite> = {}): PendingInvite {
+  return {
+    eventId: 'event-1',
+    calendarId: 'primary',
+    calendarName: 'Me',
+    summary: 'Weekly Sync',
+    description: null,
+    location: null,
+    startTime: '2026-03-02T10:00:00+01:00',
+    endTime: '2026-03-02T10:30:00+01:00',
+    isAllDay: false,
+    timeZone: 'Europe/Berlin',
+    eventTimeZone: null,
+    organizerEmail: 'Alice@Eng.Example.com',
+    organizerName: 'Alice',
+    attendees: [],
+    calendarLink: 'https://calendar.google.com/event?eid=1',
+    arrivedAt: null,
+    conflicts: [],
+    recurringEventId: null,
+    originalStartTime: null,
+    seriesPendingCount: 0,
+    ...overrides,
+  };
+}
+
+function rule(id: string, conditions: InviteRuleConditions, overrides: Partial<InviteRule> = {}): InviteRule {
+  return {
+    id,
+    name: id,
+    enabled: true,
+    conditions,
+    action: 'accepted',
+    comment: null,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function conflict(status: InviteConflict['status']): InviteConflict {
+  return { eventId: 'other', calendarId: 'primary', summary: 'Other', startTime: '', endTime: '', status };
+}
+
+const match = (conditions: InviteRuleConditions, overrides: Partial<PendingInvite> = {}) =>
+  findMatchingInviteRule([rule('r', conditions)], invite(overrides))?.id ?? null;
+
+describe('findMatchingInviteRule', () => {
+  it('matches organizer domains, including subdomains', () => {
+    expect(match({ organizerDomains: ['example.com'] })).toBe('r');
+    expect(match({ organizerDomains: ['eng.example.com'] })).toBe('r');
+    expect(match({ organizerDomains: ['ample.com'] })).toBeNull();
+  });
+
+  it('matches organizer emails and summary text regardless of case', () => {
+    expect(match({ organizerEmails: ['alice@eng.example.com'] })).toBe('r');
+    expect(match({ organizerEmails: ['bob@eng.example.com'] })).toBeNull();
+    expect(match({ summaryContains: ['sync', 'standup'] })).toBe('r');
+    expect(match({ summaryContains: ['retro'] })).toBeNull();
+  });
+
+  it('matches calendars, all-day and recurring invites', () => {
+    expect(match({ calendarIds: ['team@group.calendar.google.com'] })).toBeNull();
+    expect(match({ calendarIds: ['primary'] })).toBe('r');
+    expect(match({ allDay: true })).toBeNull();
+    expect(match({ allDay: true }, { isAllDay: true })).toBe('r');
+    expect(match({ recurring: true })).toBeNull();
+    expect(match({ recurring: true }, { recurringEventId: 'series-1' })).toBe('r');
+  });
+
+  it('requires every condition to hold', () => {
+    expect(match({ organizerDomains: ['example.com'], summaryContains: ['retro'] })).toBeNull();
+  });
+
+  it('only counts accepted or tentative events as busy for onlyWhenFree', () => {
+    expect(match({ onlyWhenFree: true }, { conflicts: [conflict('pending')] })).toBe('r');
+    expect(match({ onlyWhenFree: true }, { conflicts: [conflict('tentative')] })).toBeNull();
+    expect(match({ onlyWhenFree: true }, { conflicts: [conflict('accepted')] })).toBeNull();
+  });
+
+  it('picks the first enabled rule that matches', () => {
+    const rules = [
+      rule('disabled', {}, { enabled: false }),
+      rule('other-domain', { organizerDomains: ['other.com'] }),
+      rule('first', { summaryContains: ['sync'] }, { action: 'declined' }),
+      rule('second', {}),
+    ];
+
+    expect(findMatchingInviteRule(rules, invite())?.id).toBe('first');
+    expect(findMatchingInviteRule(rules.slice(0, 2), invite())).toBeNull();
+  });
+});
+
+describe('apply_invite_rules scopes', () => {
+  it('only needs calendar:write when the responses are sent', () => {
+    expect(getRequiredScopes('apply_invite_rules')).toEqual(['calendar:read']);
+    expect(getRequiredScopes('apply_invite_rules', { dry_run: true })).toEqual(['calendar:read']);
+    expect(getRequiredScopes('apply_invite_rules', { dry_run: false })).toEqual(['calendar:read', 'calendar:write']);
+  });
+});
@@ -0,0 +1,84 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { createMemoryBackend, createRedisBackend, createSqliteBackend, hostRedisKeyspace, KeyValueStore } from '../src/kv-store.js';
+import { createLocalRedisClient } from '../src/redis-protocol.js';
+
+const tempDirs: string[] = [];
+
+afterEach(() => {
+  for (const dir of tempDirs.splice(0)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function tempFile(name: string): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kv-store-'));
+  tempDirs.push(dir);
+  return path.join(dir, name);
+}
+
+const backends: Array<[string, () => KeyValueStore<{ n: number }>]> = [
+  ['memory', () => createMemoryBackend().collection('items')],
+  ['sqlite', () => createSqliteBackend(tempFile('storage.db')).collection('items')],
+  ['redis', () => createRedisBackend(createLocalRedisClient(createMemoryBackend().collection('keyspace'))).collection('items')],
+];
+
+describe.each(backends)('%s backend', (_name, createStore) => {
+  it('stores, adds and deletes values', async () => {
+    const store = createStore();
+
+    await store.set('a', { n: 1 });
+    expect(await store.get('a')).toEqual({ n: 1 });
+    expect(await store.add('a', { n: 2 })).toBe(false);
+    expect(await store.add('b', { n: 2 })).toBe(true);
+    expect(await store.delete('a')).toBe(true);
+    expect(await store.get('a')).toBeNull();
+  });
+
+  it('never returns expired entries', async () => {
+    const store = createStore();
+
+    await store.set('gone', { n: 1 }, Date.now() - 1);
+    await store.set('kept', { n: 2 }, Date.now() + 60_000);
+
+    expect(await store.get('gone')).toBeNull();
+    expect(await store.add('gone', { n: 3 })).toBe(true);
+    expect((await store.entries()).map(([key]) => key).sort()).toEqual(['gone', 'kept']);
+  });
+
+  it('lists every entry across many keys', async () => {
+    const store = createStore();
+    for (let i = 0; i < 450; i++) {
+      await store.set(`key-${i}`, { n: i });
+    }
+
+    const entries = await store.entries();
+    expect(entries).toHaveLength(450);
+    expect(new Set(entries.map(([key]) => key)).size).toBe(450);
+  });
+});
+
+describe('redis keyspace', () => {
+  it('scans in pages that survive keys changing between them', async () => {
+    const client = createLocalRedisClient(createMemoryBackend().collection('keyspace'));
+    for (const key of ['a', 'b', 'c', 'd', 'e']) {
+      await client.command(['SET', key, '1']);
+    }
+
+    const [cursor, first] = await client.command(['SCAN', '0', 'COUNT', '2']) as [string, string[]];
+    expect(first).toEqual(['a', 'b']);
+
+    await client.command(['DEL', 'a']);
+    await client.command(['SET', 'aa', '1']);
+
+    const [next, second] = await client.command(['SCAN', cursor, 'COUNT', '2']) as [string, string[]];
+    expect(second).toEqual(['c', 'd']);
+    expect(await client.command(['SCAN', next, 'COUNT', '2'])).toEqual(['0', ['e']]);
+  });
+
+  it('refuses to serve beyond loopback without a password', () => {
+    expect(() => hostRedisKeyspace(tempFile('redis.db'), 0, '0.0.0.0')).toThrow('REDIS_SERVER_PASSWORD');
+  });
+});
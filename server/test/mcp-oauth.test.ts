@@ -0,0 +1,116 @@
+import crypto from 'crypto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { signAccessToken, verifyAccessToken } from '../src/jwt.js';
+import { createMemoryBackend, setStorageBackend } from '../src/kv-store.js';
+import {
+  generateAuthorizationCode,
+  generateTokenPair,
+  getAccessTokenInfo,
+  isGrantTypeAllowed,
+  registerClient,
+  resolveClientScope,
+  revokeAccessToken,
+  validateAuthorizationCode,
+} from '../src/mcp-oauth.js';
+
+const REDIRECT_URI = 'https://chatgpt.com/connector_platform_oauth_redirect';
+
+const challengeFor = (verifier: string) => crypto.createHash('sha256').update(verifier).digest('base64url');
+
+beforeEach(() => {
+  setStorageBackend(createMemoryBackend());
+});
+
+describe('authorization codes with PKCE', () => {
+  const verifier = 'a-random-verifier-that-is-long-enough-for-pkce-0123456789';
+
+  it('accepts the matching verifier once', async () => {
+    const code = await generateAuthorizationCode('client', REDIRECT_URI, challengeFor(verifier), 'S256', 'calendar:read', undefined, 'user-1');
+
+    const result = await validateAuthorizationCode(code, 'client', REDIRECT_URI, verifier);
+    expect(result).toMatchObject({ valid: true, scope: 'calendar:read', userId: 'user-1' });
+
+    const replay = await validateAuthorizationCode(code, 'client', REDIRECT_URI, verifier);
+    expect(replay.valid).toBe(false);
+  });
+
+  it('rejects a wrong or missing verifier without consuming the code', async () => {
+    const code = await generateAuthorizationCode('client', REDIRECT_URI, challengeFor(verifier), 'S256');
+
+    expect(await validateAuthorizationCode(code, 'client', REDIRECT_URI, 'another-verifier')).toMatchObject({ valid: false, error: 'Invalid code verifier' });
+    expect(await validateAuthorizationCode(code, 'client', REDIRECT_URI)).toMatchObject({ valid: false, error: 'Code verifier required' });
+    expect((await validateAuthorizationCode(code, 'client', REDIRECT_URI, verifier)).valid).toBe(true);
+  });
+
+  it('binds the code to its client and redirect URI', async () => {
+    const code = await generateAuthorizationCode('client', REDIRECT_URI, challengeFor(verifier), 'S256');
+
+    expect(await validateAuthorizationCode(code, 'other-client', REDIRECT_URI, verifier)).toMatchObject({ error: 'Client ID mismatch' });
+    expect(await validateAuthorizationCode(code, 'client', 'https://evil.example/callback', verifier)).toMatchObject({ error: 'Redirect URI mismatch' });
+  });
+});
+
+describe('client scopes and grants', () => {
+  it('grants only scopes the client registered and the server supports', async () => {
+    const { client_id } = await registerClient({ scope: 'calendar:read', grant_types: ['authorization_code'] });
+
+    expect(await resolveClientScope(client_id)).toBe('calendar:read');
+    expect(await resolveClientScope(client_id, 'calendar:read')).toBe('calendar:read');
+    expect(await resolveClientScope(client_id, 'calendar:read calendar:write')).toBeNull();
+    expect(await resolveClientScope('unknown-client', 'calendar:read')).toBeNull();
+  });
+
+  it('lets the umbrella scope cover supported scopes only', async () => {
+    const { client_id } = await registerClient({ scope: 'mcp' });
+
+    expect(await resolveClientScope(client_id)).toBe('calendar:read calendar:write');
+    expect(await resolveClientScope(client_id, 'calendar:write')).toBe('calendar:write');
+    expect(await resolveClientScope(client_id, 'admin')).toBeNull();
+  });
+
+  it('checks grant types against the registration', async () => {
+    const { client_id } = await registerClient({ grant_types: ['authorization_code', 'refresh_token'] });
+
+    expect(await isGrantTypeAllowed(client_id, 'refresh_token')).toBe(true);
+    expect(await isGrantTypeAllowed(client_id, 'client_credentials')).toBe(false);
+  });
+});
+
+describe('access tokens', () => {
+  const claims = () => {
+    const now = Math.floor(Date.now() / 1000);
+    return { sub: 'user-1', client_id: 'client', scope: 'calendar:read', aud: 'https://app.example', iat: now, exp: now + 3600, jti: crypto.randomUUID() };
+  };
+
+  it('round-trips signed claims', async () => {
+    const token = await signAccessToken(claims());
+    expect(await verifyAccessToken(token)).toMatchObject({ sub: 'user-1', scope: 'calendar:read' });
+  });
+
+  it('rejects tampered, unsigned and expired tokens', async () => {
+    const [header, , signature] = (await signAccessToken(claims())).split('.');
+    const forged = Buffer.from(JSON.stringify({ ...claims(), scope: 'mcp' })).toString('base64url');
+    expect(await verifyAccessToken(`${header}.${forged}.${signature}`)).toBeNull();
+
+    const none = Buffer.from(JSON.stringify({ alg: 'none', typ: 'at+jwt' })).toString('base64url');
+    expect(await verifyAccessToken(`${none}.${forged}.`)).toBeNull();
+
+    const expired = await signAccessToken({ ...claims(), exp: Math.floor(Date.now() / 1000) - 1 });
+    expect(await verifyAccessToken(expired)).toBeNull();
+  });
+
+  it('binds tokens to a user only when one signed in', async () => {
+    const { accessToken: userToken } = await generateTokenPair('client', 'calendar:read', undefined, 'user-1');
+    const { accessToken: clientToken } = await generateTokenPair('client', 'calendar:read');
+
+    expect((await getAccessTokenInfo(userToken))?.userId).toBe('user-1');
+    expect((await getAccessTokenInfo(clientToken))?.userId).toBeUndefined();
+  });
+
+  it('stops accepting revoked tokens', async () => {
+    const { accessToken } = await generateTokenPair('client', 'calendar:read', undefined, 'user-1');
+
+    expect(await revokeAccessToken(accessToken)).toBe(true);
+    expect(await getAccessTokenInfo(accessToken)).toBeNull();
+  });
+});
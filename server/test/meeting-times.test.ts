@@ -0,0 +1,107 @@
+import { google } from 'googleapis';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryBackend, setStorageBackend } from '../src/kv-store.js';
+import { findMeetingTimes } from '../src/meeting-times.js';
+import { setUserWorkingHours } from '../src/suggestions.js';
+import { saveTokens } from '../src/token-store.js';
+
+// Monday 4 March 2030, in UTC so slot times read as they are written
+const DAY = '2030-03-04';
+
+const busy: Record<string, Array<{ start: string; end: string }>> = {};
+
+beforeEach(async () => {
+  setStorageBackend(createMemoryBackend());
+  for (const email of Object.keys(busy)) {
+    delete busy[email];
+  }
+
+  vi.spyOn(google, 'calendar').mockReturnValue({
+    calendars: { get: async () => ({ data: { timeZone: 'UTC' } }) },
+    freebusy: {
+      query: async ({ requestBody }: any) => ({
+        data: {
+          calendars: Object.fromEntries(requestBody.items.map(({ id }: { id: string }) => [id, { busy: busy[id] || [] }])),
+        },
+      }),
+    },
+  } as any);
+
+  await saveTokens('user-1', {
+    access_token: 'access',
+    refresh_token: 'refresh',
+    scope: 'https://www.googleapis.com/auth/calendar',
+    token_type: 'Bearer',
+    expiry_date: Date.now() + 60 * 60 * 1000,
+  }, 'me@example.com');
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const hour = (time: string) => `${DAY}T${time}:00Z`;
+const startsOf = (result: Awaited<ReturnType<typeof findMeetingTimes>>) =>
+  result.slots.map((slot) => `${slot.start.slice(11, 16)} ${slot.fit}`);
+
+describe('findMeetingTimes', () => {
+  it('ranks free slots in working hours first, then outside hours, then conflicts', async () => {
+    busy['bob@other.com'] = [{ start: hour('09:00'), end: hour('11:00') }];
+
+    const result = await findMeetingTimes('user-1', {
+      attendees: ['bob@other.com', 'carol@other.com'],
+      attendeeWorkingHours: [{ email: 'carol@other.com', start: '13:00', end: '17:00', timeZone: 'UTC' }],
+      durationMinutes: 60,
+      start: DAY,
+      end: DAY,
+      timeZone: 'UTC',
+      maxResults: 8,
+    });
+
+    expect(startsOf(result)).toEqual([
+      '13:00 ideal',
+      '14:00 ideal',
+      '15:00 ideal',
+      '16:00 ideal',
+      '11:00 outside-hours',
+      '12:00 outside-hours',
+      '09:00 conflicts',
+      '10:00 conflicts',
+    ]);
+    expect(result.slots[6]).toMatchObject({ busy: ['bob@other.com'], outsideWorkingHours: ['carol@other.com'] });
+    expect(result.attendees.map((attendee) => attendee.workingHours.source)).toEqual(['default', 'default', 'request']);
+  });
+
+  it('offers at most two slots a day while other days have room', async () => {
+    const result = await findMeetingTimes('user-1', {
+      attendees: ['bob@other.com'],
+      durationMinutes: 60,
+      start: DAY,
+      end: '2030-03-05',
+      timeZone: 'UTC',
+      maxResults: 4,
+    });
+
+    expect(result.slots.map((slot) => slot.start.slice(0, 16))).toEqual([
+      '2030-03-04T09:00',
+      '2030-03-04T10:00',
+      '2030-03-05T09:00',
+      '2030-03-05T10:00',
+    ]);
+  });
+
+  it("keeps slots within the user's saved working hours", async () => {
+    await setUserWorkingHours('user-1', { start: '15:00', end: '17:00', days: [1] });
+
+    const result = await findMeetingTimes('user-1', {
+      attendees: ['bob@other.com'],
+      durationMinutes: 60,
+      start: DAY,
+      end: '2030-03-05',
+      timeZone: 'UTC',
+    });
+
+    expect(startsOf(result)).toEqual(['15:00 ideal', '16:00 ideal']);
+    expect(result.attendees[0].workingHours.source).toBe('saved');
+  });
+});
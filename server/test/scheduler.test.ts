@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMemoryBackend, getStorageBackend, setStorageBackend } from '../src/kv-store.js';
+import { listUserJobRuns, parseCron } from '../src/scheduler.js';
+import { JobRun, JobUserResult } from '../src/types.js';
+
+const sorted = (values: Set<number>) => [...values].sort((a, b) => a - b);
+
+describe('parseCron', () => {
+  it('expands wildcards, lists, ranges and steps', () => {
+    const schedule = parseCron('*/15 9-17 1,15 * 1-5');
+
+    expect(sorted(schedule.minutes)).toEqual([0, 15, 30, 45]);
+    expect(sorted(schedule.hours)).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect(sorted(schedule.daysOfMonth)).toEqual([1, 15]);
+    expect(schedule.months.size).toBe(12);
+    expect(sorted(schedule.daysOfWeek)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('steps from a single start value to the end of the range', () => {
+    expect(sorted(parseCron('5/20 0 * * *').minutes)).toEqual([5, 25, 45]);
+    expect(sorted(parseCron('0 0-12/6 * * *').hours)).toEqual([0, 6, 12]);
+  });
+
+  it('treats 7 as Sunday', () => {
+    expect(sorted(parseCron('0 0 * * 5-7').daysOfWeek)).toEqual([0, 5, 6]);
+  });
+
+  it('records which day fields are restricted', () => {
+    expect(parseCron('0 0 * * *')).toMatchObject({ restrictsDayOfMonth: false, restrictsDayOfWeek: false });
+    expect(parseCron('0 0 1 * */2')).toMatchObject({ restrictsDayOfMonth: true, restrictsDayOfWeek: false });
+    expect(parseCron('0 0 * * 1')).toMatchObject({ restrictsDayOfMonth: false, restrictsDayOfWeek: true });
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseCron('0 0 * *')).toThrow('must have 5 fields');
+    expect(() => parseCron('60 0 * * *')).toThrow('Invalid cron');
+    expect(() => parseCron('0 5-1 * * *')).toThrow('Invalid cron');
+    expect(() => parseCron('0 0 0 * *')).toThrow('Invalid cron');
+    expect(() => parseCron('*/0 0 * * *')).toThrow('Invalid cron');
+    expect(() => parseCron('0 0 * JAN *')).toThrow('Invalid cron');
+  });
+});
+
+describe('listUserJobRuns', () => {
+  beforeEach(() => {
+    setStorageBackend(createMemoryBackend());
+  });
+
+  const run = (id: string, startedAt: string, users: JobUserResult[]): JobRun => ({
+    id,
+    job: 'invite-rules',
+    instance: 'host-a:123',
+    scheduledFor: startedAt,
+    startedAt,
+    finishedAt: startedAt,
+    status: 'succeeded',
+    summary: `Applied rules for ${users.length} user(s)`,
+    users,
+  });
+
+  it("only returns the caller's own results, without totals or instances", async () => {
+    const runs = getStorageBackend().collection<JobRun>('job-runs');
+    const mine = { userId: 'user-1', pendingCount: 2, answeredCount: 1, failedCount: 0 };
+    const theirs = { userId: 'user-2', pendingCount: 5, answeredCount: 5, failedCount: 0 };
+    await runs.set('run-1', run('run-1', '2026-01-01T00:00:00.000Z', [mine, theirs]));
+    await runs.set('run-2', run('run-2', '2026-01-01T00:15:00.000Z', [theirs]));
+    await runs.set('run-3', run('run-3', '2026-01-01T00:30:00.000Z', [{ ...mine, answeredCount: 2 }]));
+
+    const listed = await listUserJobRuns('user-1');
+
+    expect(listed.map((item) => item.id)).toEqual(['run-3', 'run-1']);
+    expect(listed[1]).toEqual({
+      id: 'run-1',
+      job: 'invite-rules',
+      scheduledFor: '2026-01-01T00:00:00.000Z',
+      startedAt: '2026-01-01T00:00:00.000Z',
+      finishedAt: '2026-01-01T00:00:00.000Z',
+      status: 'succeeded',
+      result: { pendingCount: 2, answeredCount: 1, failedCount: 0, error: undefined },
+    });
+  });
+});
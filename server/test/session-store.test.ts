@@ -0,0 +1,29 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMemoryBackend, setStorageBackend } from '../src/kv-store.js';
+import { createSession, deleteSession, getSessionUserId } from '../src/session-store.js';
+
+beforeEach(() => {
+  setStorageBackend(createMemoryBackend());
+});
+
+describe('browser sessions', () => {
+  it('maps a random session ID to its user', async () => {
+    const sessionId = await createSession('user-1');
+
+    expect(sessionId).not.toContain('user-1');
+    expect(await getSessionUserId(sessionId)).toBe('user-1');
+  });
+
+  it('never accepts a user ID as a session', async () => {
+    await createSession('3f2b8c1e-9d4a-4e6b-8f1c-2a7d5e9b0c4f');
+
+    expect(await getSessionUserId('3f2b8c1e-9d4a-4e6b-8f1c-2a7d5e9b0c4f')).toBeNull();
+  });
+
+  it('ends a session when it is deleted', async () => {
+    const sessionId = await createSession('user-1');
+
+    expect(await deleteSession(sessionId)).toBe(true);
+    expect(await getSessionUserId(sessionId)).toBeNull();
+  });
+});
@@ -2,9 +2,10 @@ import { useEffect, useState } from 'react';
 import { BrowserRouter, Routes, Route, useNavigate, useLocation } from 'react-router-dom';
 import { useOpenAI } from './useOpenAI';
 import { WidgetContext, useWidget, type WidgetContextType } from './WidgetContext';
-import { AuthView, InvitesView } from './components';
+import { AgendaView, AuthView, EventView, InvitesView, MeetingTimesView } from './components';
 import { theme } from './theme';
-import type { AuthStatusOutput, PendingInvitesOutput } from './types';
+import { createTranslator, negotiateLocale } from './i18n';
+import type { AgendaOutput, AuthStatusOutput, EventOutput, MeetingTimesOutput, PendingInvitesOutput } from './types';
 import './main.css';
 
 // ============================================
@@ -13,7 +14,7 @@ import './main.css';
 function WidgetRouter({ initialData }: { initialData: unknown }) {
   const location = useLocation();
   const navigate = useNavigate();
-  const { setAuthData, setInvitesData, authData } = useWidget();
+  const { setAuthData, setInvitesData, setAgendaData, setEventData, setMeetingTimesData, authData } = useWidget();
   const [initialRouteSet, setInitialRouteSet] = useState(false);
   
   useEffect(() => {
@@ -38,6 +39,36 @@ function WidgetRouter({ initialData }: { initialData: unknown }) {
       return;
     }
     
+    // Check if it's an agenda (has 'days' array)
+    if ('days' in data && Array.isArray(data.days)) {
+      console.log('[Widget] Detected agenda data, navigating to /agenda');
+      setAgendaData(data as unknown as AgendaOutput);
+      setAuthData({ authenticated: true });
+      navigate('/agenda', { replace: true });
+      setInitialRouteSet(true);
+      return;
+    }
+    
+    // Check if it's a created or updated event (has 'event')
+    if ('event' in data && data.event) {
+      console.log('[Widget] Detected event data, navigating to /event');
+      setEventData(data as unknown as EventOutput);
+      setAuthData({ authenticated: true });
+      navigate('/event', { replace: true });
+      setInitialRouteSet(true);
+      return;
+    }
+    
+    // Check if it's candidate meeting times (has 'slots' array)
+    if ('slots' in data && Array.isArray(data.slots)) {
+      console.log('[Widget] Detected meeting times data, navigating to /meeting-times');
+      setMeetingTimesData(data as unknown as MeetingTimesOutput);
+      setAuthData({ authenticated: true });
+      navigate('/meeting-times', { replace: true });
+      setInitialRouteSet(true);
+      return;
+    }
+    
     // Check if auth is required (from get_pending_reservations when not authenticated)
     if ('authRequired' in data && data.authRequired === true) {
       console.log('[Widget] Detected authRequired, showing auth view');
@@ -60,7 +91,7 @@ function WidgetRouter({ initialData }: { initialData: unknown }) {
     // Unknown data type, stay on current route
     console.log('[Widget] Unknown data type, staying on current route');
     setInitialRouteSet(true);
-  }, [initialData, initialRouteSet, navigate, setAuthData, setInvitesData]);
+  }, [initialData, initialRouteSet, navigate, setAuthData, setInvitesData, setAgendaData, setEventData, setMeetingTimesData]);
 
   // Derive initial auth data for AuthView
   const initialAuthData: AuthStatusOutput | null = (() => {
@@ -84,16 +115,24 @@ function WidgetRouter({ initialData }: { initialData: unknown }) {
     <Routes>
       <Route path="/" element={<AuthView initialAuthData={initialAuthData} />} />
       <Route path="/invites" element={<InvitesView />} />
+      <Route path="/agenda" element={<AgendaView />} />
+      <Route path="/event" element={<EventView />} />
+      <Route path="/meeting-times" element={<MeetingTimesView />} />
     </Routes>
   );
 }
 
 export default function CalendarWidget() {
-  const { data, theme: appTheme, isLoading, error, callTool, openExternal, notifyHeight, setWidgetState, openai } = useOpenAI<AuthStatusOutput>();
+  const { data, theme: appTheme, locale: localeHint, isLoading, error, callTool, openExternal, notifyHeight, setWidgetState, openai } = useOpenAI<AuthStatusOutput>();
   const isDark = appTheme === 'dark';
+  const locale = negotiateLocale(localeHint, ...navigator.languages);
+  const t = createTranslator(locale);
   
   const [authData, setAuthData] = useState<AuthStatusOutput | null>(null);
   const [invitesData, setInvitesData] = useState<PendingInvitesOutput | null>(null);
+  const [agendaData, setAgendaData] = useState<AgendaOutput | null>(null);
+  const [eventData, setEventData] = useState<EventOutput | null>(null);
+  const [meetingTimesData, setMeetingTimesData] = useState<MeetingTimesOutput | null>(null);
 
   // Only restore from widgetState if there's no fresh data from the tool call
   useEffect(() => {
@@ -116,6 +155,8 @@ export default function CalendarWidget() {
   const contextValue: WidgetContextType = {
     theme: appTheme,
     isDark,
+    locale,
+    t,
     callTool,
     openExternal,
     notifyHeight,
@@ -124,6 +165,12 @@ export default function CalendarWidget() {
     setAuthData,
     invitesData,
     setInvitesData,
+    agendaData,
+    setAgendaData,
+    eventData,
+    setEventData,
+    meetingTimesData,
+    setMeetingTimesData,
   };
 
   if (isLoading) {
@@ -131,7 +178,7 @@ export default function CalendarWidget() {
       <div className={`p-4 rounded-xl border shadow-sm ${theme.card(isDark)}`}>
         <div className="flex items-center justify-center gap-3 py-8">
           <div className={`size-5 rounded-full border-2 border-t-blue-500 animate-spin ${theme.spinner(isDark)}`} />
-          <p className={`text-sm ${theme.textSecondary(isDark)}`}>Loading...</p>
+          <p className={`text-sm ${theme.textSecondary(isDark)}`}>{t('common.loading')}</p>
         </div>
       </div>
     );
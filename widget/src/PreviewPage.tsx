@@ -1,8 +1,9 @@
 import { useState, useEffect } from 'react';
 import { BrowserRouter, Routes, Route, useNavigate, useLocation, Link } from 'react-router-dom';
 import { WidgetContext, type WidgetContextType } from './WidgetContext';
-import { AuthView, InvitesView } from './components';
-import type { AuthStatusOutput, PendingInvitesOutput } from './types';
+import { AgendaView, AuthView, EventView, InvitesView, MeetingTimesView } from './components';
+import { createTranslator, negotiateLocale } from './i18n';
+import type { AgendaEvent, AgendaOutput, AuthStatusOutput, EventOutput, MeetingTimesOutput, PendingInvitesOutput } from './types';
 import './main.css';
 
 // Mock data
@@ -20,6 +21,8 @@ const mockInvites: PendingInvitesOutput = {
   invites: [
     {
       eventId: '1',
+      calendarId: 'primary',
+      calendarName: 'user@example.com',
       summary: 'Team Standup Meeting',
       description: 'Daily standup to discuss progress and blockers. Please come prepared with updates on your current tasks and any blockers you\'re facing.',
       organizerName: 'John Smith',
@@ -29,6 +32,16 @@ const mockInvites: PendingInvitesOutput = {
       isAllDay: false,
       location: 'Conference Room A',
       calendarLink: 'https://calendar.google.com/event?eid=abc123',
+      conflicts: [
+        {
+          eventId: 'x1',
+          calendarId: 'primary',
+          summary: '1:1 with Manager',
+          startTime: new Date(Date.now() + 86400000 + 900000).toISOString(),
+          endTime: new Date(Date.now() + 86400000 + 2700000).toISOString(),
+          status: 'accepted'
+        }
+      ],
       attendees: [
         { email: 'you@company.com', name: 'You', status: 'needsAction' },
         { email: 'john@company.com', name: 'John Smith', status: 'accepted' },
@@ -39,6 +52,8 @@ const mockInvites: PendingInvitesOutput = {
     },
     {
       eventId: '2',
+      calendarId: 'team-eng@group.calendar.google.com',
+      calendarName: 'Engineering Team',
       summary: 'Q1 Product Review Session',
       description: 'Quarterly product review and planning session. We will cover:\n\n1. Q4 achievements and metrics\n2. Q1 goals and roadmap\n3. Customer feedback review\n4. Resource allocation for upcoming features\n\nPlease review the Q4 summary doc before the meeting.',
       organizerName: 'Sarah Johnson',
@@ -57,6 +72,8 @@ const mockInvites: PendingInvitesOutput = {
     },
     {
       eventId: '3',
+      calendarId: 'primary',
+      calendarName: 'user@example.com',
       summary: 'Client Presentation - Acme Corp',
       description: null,
       organizerName: null,
@@ -78,6 +95,101 @@ const mockEmptyInvites: PendingInvitesOutput = {
   invites: []
 };
 
+// Days of the current week, Monday first
+const weekDay = (offset: number) => {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7) + offset);
+  return date.toISOString().slice(0, 10);
+};
+
+const agendaEvent = (event: Partial<AgendaEvent> & Pick<AgendaEvent, 'eventId' | 'summary' | 'startTime' | 'endTime'>): AgendaEvent => ({
+  calendarId: 'primary',
+  calendarName: 'user@example.com',
+  location: null,
+  isAllDay: false,
+  responseStatus: 'accepted',
+  isOrganizer: false,
+  organizerEmail: 'lead@company.com',
+  organizerName: 'Team Lead',
+  attendeeCount: 4,
+  meetLink: null,
+  calendarLink: 'https://calendar.google.com',
+  recurringEventId: null,
+  ...event,
+});
+
+const mockAgenda: AgendaOutput = {
+  range: 'week',
+  timeZone: 'America/New_York',
+  pendingCount: 2,
+  days: [
+    { date: weekDay(0), events: [
+      agendaEvent({ eventId: 'ag1', summary: 'Team Standup', startTime: `${weekDay(0)}T09:00:00-04:00`, endTime: `${weekDay(0)}T09:15:00-04:00`, recurringEventId: 'standup' }),
+      agendaEvent({ eventId: 'ag2', summary: 'Vendor Sync', startTime: `${weekDay(0)}T14:00:00-04:00`, endTime: `${weekDay(0)}T15:00:00-04:00`, responseStatus: 'needsAction', organizerEmail: 'sales@vendor.com', organizerName: 'Vendor Sales', location: 'Zoom' }),
+    ] },
+    { date: weekDay(1), events: [
+      agendaEvent({ eventId: 'ag3', summary: '1:1 with Ana', startTime: `${weekDay(1)}T11:00:00-04:00`, endTime: `${weekDay(1)}T11:30:00-04:00`, isOrganizer: true, organizerEmail: 'user@example.com', organizerName: null, attendeeCount: 2 }),
+    ] },
+    { date: weekDay(2), events: [
+      agendaEvent({ eventId: 'ag4', summary: 'Offsite', startTime: weekDay(2), endTime: weekDay(4), isAllDay: true }),
+      agendaEvent({ eventId: 'ag5', summary: 'Design Review', startTime: `${weekDay(2)}T15:00:00-04:00`, endTime: `${weekDay(2)}T16:00:00-04:00`, responseStatus: 'tentative' }),
+    ] },
+    { date: weekDay(3), events: [
+      agendaEvent({ eventId: 'ag4', summary: 'Offsite', startTime: weekDay(2), endTime: weekDay(4), isAllDay: true }),
+      agendaEvent({ eventId: 'ag6', summary: 'Quarterly Planning', startTime: `${weekDay(3)}T10:00:00-04:00`, endTime: `${weekDay(3)}T12:00:00-04:00`, responseStatus: 'needsAction', location: 'Room 4' }),
+    ] },
+    { date: weekDay(4), events: [] },
+    { date: weekDay(5), events: [] },
+    { date: weekDay(6), events: [] },
+  ],
+};
+
+const mockEvent: EventOutput = {
+  success: true,
+  action: 'created',
+  notified: true,
+  event: {
+    eventId: 'new1',
+    calendarId: 'primary',
+    summary: 'Sync with Ana',
+    description: 'Quick check-in on the launch plan.',
+    location: null,
+    startTime: new Date(Date.now() + 2 * 86400000).toISOString(),
+    endTime: new Date(Date.now() + 2 * 86400000 + 1800000).toISOString(),
+    isAllDay: false,
+    timeZone: 'America/New_York',
+    organizerEmail: 'user@example.com',
+    attendees: [
+      { email: 'user@example.com', name: null, status: 'accepted' },
+      { email: 'ana@company.com', name: 'Ana García', status: 'needsAction' },
+    ],
+    meetLink: 'https://meet.google.com/abc-defg-hij',
+    calendarLink: 'https://calendar.google.com',
+    recurringEventId: null,
+  }
+};
+
+const mockWorkingHours = { start: '09:00', end: '17:00', days: [1, 2, 3, 4, 5] };
+const slotTime = (days: number, time: string) => `${new Date(Date.now() + days * 86400000).toISOString().slice(0, 10)}T${time}:00-04:00`;
+
+const mockMeetingTimes: MeetingTimesOutput = {
+  slots: [
+    { start: slotTime(1, '10:00'), end: slotTime(1, '11:00'), fit: 'ideal', busy: [], outsideWorkingHours: [] },
+    { start: slotTime(2, '09:00'), end: slotTime(2, '10:00'), fit: 'ideal', busy: [], outsideWorkingHours: [] },
+    { start: slotTime(1, '14:00'), end: slotTime(1, '15:00'), fit: 'outside-hours', busy: [], outsideWorkingHours: ['ana@company.com'] },
+    { start: slotTime(3, '11:00'), end: slotTime(3, '12:00'), fit: 'conflicts', busy: ['ana@company.com'], outsideWorkingHours: [] },
+  ],
+  attendees: [
+    { email: 'user@example.com', workingHours: { ...mockWorkingHours, timeZone: 'America/New_York', source: 'saved' }, availabilityKnown: true },
+    { email: 'ana@company.com', workingHours: { ...mockWorkingHours, timeZone: 'Europe/Madrid', source: 'saved' }, availabilityKnown: true },
+    { email: 'luis@partner.com', workingHours: { ...mockWorkingHours, timeZone: 'America/New_York', source: 'default' }, availabilityKnown: false },
+  ],
+  durationMinutes: 60,
+  window: { start: slotTime(0, '00:00'), end: slotTime(7, '00:00') },
+  timeZone: 'America/New_York',
+  title: 'Launch review',
+};
+
 function PreviewNav() {
   const location = useLocation();
   const isDark = location.pathname.includes('dark');
@@ -87,6 +199,9 @@ function PreviewNav() {
     { path: '/auth-connected', label: 'Auth (Connected)' },
     { path: '/invites', label: 'Invites List' },
     { path: '/invites-empty', label: 'Invites (Empty)' },
+    { path: '/agenda', label: 'Agenda' },
+    { path: '/event', label: 'Created Event' },
+    { path: '/meeting-times', label: 'Meeting Times' },
   ];
 
   return (
@@ -155,6 +270,9 @@ function PreviewRoutes() {
   
   const [authData, setAuthData] = useState<AuthStatusOutput | null>(null);
   const [invitesData, setInvitesData] = useState<PendingInvitesOutput | null>(null);
+  const [agendaData, setAgendaData] = useState<AgendaOutput | null>(mockAgenda);
+  const [eventData, setEventData] = useState<EventOutput | null>(mockEvent);
+  const [meetingTimesData, setMeetingTimesData] = useState<MeetingTimesOutput | null>(mockMeetingTimes);
   
   // Set data based on current route
   useEffect(() => {
@@ -174,12 +292,18 @@ function PreviewRoutes() {
     }
   }, [location.pathname, navigate]);
 
+  // ?locale=es previews another locale
+  const locale = negotiateLocale(new URLSearchParams(location.search).get('locale'), ...navigator.languages);
+
   const mockContext: WidgetContextType = {
     theme,
     isDark,
+    locale,
+    t: createTranslator(locale),
     callTool: async (name: string, args: Record<string, unknown>) => {
       console.log('Mock callTool:', name, args);
       await new Promise(resolve => setTimeout(resolve, 500));
+      if (name === 'create_event') return { structuredContent: mockEvent };
       return { structuredContent: {} };
     },
     openExternal: (options: { href: string }) => {
@@ -192,6 +316,12 @@ function PreviewRoutes() {
     setAuthData,
     invitesData,
     setInvitesData,
+    agendaData,
+    setAgendaData,
+    eventData,
+    setEventData,
+    meetingTimesData,
+    setMeetingTimesData,
   };
 
   return (
@@ -212,6 +342,15 @@ function PreviewRoutes() {
               
               <Route path="/invites-empty" element={<InvitesView />} />
               <Route path="/invites-empty/dark" element={<InvitesView />} />
+
+              <Route path="/agenda" element={<AgendaView />} />
+              <Route path="/agenda/dark" element={<AgendaView />} />
+              
+              <Route path="/event" element={<EventView />} />
+              <Route path="/event/dark" element={<EventView />} />
+
+              <Route path="/meeting-times" element={<MeetingTimesView />} />
+              <Route path="/meeting-times/dark" element={<MeetingTimesView />} />
               
               <Route path="/" element={<AuthView initialAuthData={mockAuthNotConnected} />} />
             </Routes>
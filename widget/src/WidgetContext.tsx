@@ -1,9 +1,12 @@
 import { createContext, useContext } from 'react';
-import type { AuthStatusOutput, PendingInvitesOutput } from './types';
+import type { Locale, Translate } from './i18n';
+import type { AgendaOutput, AuthStatusOutput, EventOutput, MeetingTimesOutput, PendingInvitesOutput } from './types';
 
 export interface WidgetContextType {
   theme: 'light' | 'dark';
   isDark: boolean;
+  locale: Locale;
+  t: Translate;
   callTool: (name: string, args: Record<string, unknown>) => Promise<unknown>;
   openExternal: (options: { href: string }) => void;
   notifyHeight: () => void;
@@ -12,6 +15,12 @@ export interface WidgetContextType {
   setAuthData: (data: AuthStatusOutput | null) => void;
   invitesData: PendingInvitesOutput | null;
   setInvitesData: (data: PendingInvitesOutput | null) => void;
+  agendaData: AgendaOutput | null;
+  setAgendaData: (data: AgendaOutput | null) => void;
+  eventData: EventOutput | null;
+  setEventData: (data: EventOutput | null) => void;
+  meetingTimesData: MeetingTimesOutput | null;
+  setMeetingTimesData: (data: MeetingTimesOutput | null) => void;
 }
 
 export const WidgetContext = createContext<WidgetContextType | null>(null);
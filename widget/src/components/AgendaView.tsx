@@ -0,0 +1,233 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@openai/apps-sdk-ui/components/Button';
+import { Badge } from '@openai/apps-sdk-ui/components/Badge';
+import { useWidget } from '../WidgetContext';
+import { theme } from '../theme';
+import { dateLocale } from '../i18n';
+import type { AgendaEvent, AgendaOutput } from '../types';
+
+type Response = 'accepted' | 'declined' | 'tentative';
+
+// Responses sent from this view: sending, sent, or failed
+type ResponseState = 'sending' | Response | 'error';
+
+// Step a plain date by whole days; done in UTC so DST can't shift it
+function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+// Day or week timeline from get_agenda; pending invitations can be answered inline
+export function AgendaView() {
+  const { isDark, locale, t, agendaData, setAgendaData, callTool, openExternal, notifyHeight } = useWidget();
+  const navigate = useNavigate();
+  const [isLoading, setIsLoading] = useState(false);
+  const [responses, setResponses] = useState<Record<string, ResponseState>>({});
+
+  useEffect(() => { notifyHeight(); }, [agendaData, responses, notifyHeight]);
+
+  const days = agendaData?.days;
+  const timeZone = agendaData?.timeZone;
+
+  if (!days?.length || !timeZone) {
+    return (
+      <div className={`p-6 rounded-xl border shadow-sm ${theme.card(isDark)}`}>
+        <p className={`text-center ${theme.textPrimary(isDark)}`}>{agendaData?.error || t('agenda.noData')}</p>
+        <div className="flex justify-center mt-4">
+          <Button variant="outline" color="secondary" size="sm" onClick={() => navigate('/')}>
+            {t('invites.back')}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const range = agendaData.range || 'day';
+  const firstDay = days[0].date;
+  const lastDay = days[days.length - 1].date;
+  // en-CA formats dates as YYYY-MM-DD
+  const today = new Date().toLocaleDateString('en-CA', { timeZone });
+
+  const formatDay = (date: string, weekday: 'long' | 'short') =>
+    new Date(date).toLocaleDateString(dateLocale(locale), { weekday, month: 'short', day: 'numeric', timeZone: 'UTC' });
+  const formatTime = (time: string) =>
+    new Date(time).toLocaleTimeString(dateLocale(locale), { hour: 'numeric', minute: '2-digit', timeZone });
+
+  const eventKey = (event: AgendaEvent) => `${event.calendarId}|${event.eventId}`;
+
+  // Events spanning several days are listed on each, so count each one once
+  const pending = new Set(
+    days.flatMap((day) => day.events)
+      .filter((event) => event.responseStatus === 'needsAction' && !responses[eventKey(event)])
+      .map(eventKey)
+  ).size;
+
+  const loadAgenda = async (date: string, nextRange: 'day' | 'week') => {
+    try {
+      setIsLoading(true);
+      const result = await callTool('get_agenda', { date, range: nextRange }) as { structuredContent?: AgendaOutput };
+      if (result?.structuredContent?.days) {
+        setAgendaData(result.structuredContent);
+      }
+    } catch (err) {
+      console.error('[Widget] Failed to load agenda:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRespond = async (event: AgendaEvent, response: Response) => {
+    const key = eventKey(event);
+    setResponses((prev) => ({ ...prev, [key]: 'sending' }));
+    try {
+      const result = await callTool('respond_to_invite', {
+        event_id: event.eventId,
+        calendar_id: event.calendarId,
+        event_title: event.summary,
+        response,
+      }) as { isError?: boolean };
+      if (result?.isError) {
+        throw new Error('respond_to_invite failed');
+      }
+      setResponses((prev) => ({ ...prev, [key]: response }));
+    } catch (err) {
+      console.error('[Widget] Failed to respond:', err);
+      setResponses((prev) => ({ ...prev, [key]: 'error' }));
+    }
+  };
+
+  const step = range === 'week' ? 7 : 1;
+
+  const renderEvent = (event: AgendaEvent, date: string) => {
+    const state = responses[eventKey(event)];
+    const isPending = event.responseStatus === 'needsAction' && state !== 'accepted' && state !== 'tentative' && state !== 'declined';
+    const status = state === 'accepted' || state === 'tentative' || state === 'declined' ? state : event.responseStatus;
+
+    // Events running past midnight show when they started or end, on the other days
+    const when = event.isAllDay
+      ? t('agenda.allDay')
+      : event.startTime.slice(0, 10) === event.endTime.slice(0, 10) || event.startTime.slice(0, 10) === date
+        ? `${formatTime(event.startTime)} – ${formatTime(event.endTime)}`
+        : t('agenda.until', { time: formatTime(event.endTime) });
+
+    return (
+      <div
+        key={eventKey(event)}
+        className={`flex gap-3 p-3 rounded-lg border ${
+          isPending
+            ? isDark ? 'border-amber-400 bg-amber-500/10' : 'border-amber-400 bg-amber-50'
+            : theme.cardInner(isDark)
+        }`}
+      >
+        <div className={`w-24 shrink-0 text-xs pt-0.5 ${theme.textPrimary(isDark)}`}>{when}</div>
+        <div className="min-w-0 flex-1">
+          <div className="flex items-start justify-between gap-2">
+            <button
+              onClick={() => event.calendarLink && openExternal({ href: event.calendarLink })}
+              className={`text-sm font-medium text-left truncate hover:underline ${theme.textPrimary(isDark)} ${status === 'declined' ? 'line-through opacity-60' : ''}`}
+            >
+              {event.summary || t('invite.noTitle')}
+            </button>
+            {status === 'needsAction' && <Badge size="sm" color="warning" className="px-2 shrink-0">{t('status.needsAction')}</Badge>}
+            {status === 'tentative' && <Badge size="sm" color="warning" className="px-2 shrink-0">{t('status.tentative')}</Badge>}
+            {status === 'declined' && <Badge size="sm" className="bg-gray-500 px-2 text-white shrink-0">{t('status.declined')}</Badge>}
+          </div>
+          {(event.location || !event.isOrganizer) && (
+            <p className={`text-xs mt-1 truncate ${theme.textPrimary(isDark)}`}>
+              {[event.location, !event.isOrganizer && (event.organizerName || event.organizerEmail)].filter(Boolean).join(' · ')}
+            </p>
+          )}
+
+          {/* Inline responses for pending invitations */}
+          {event.responseStatus === 'needsAction' && (
+            <div className="mt-2">
+              {(!state || state === 'error') && (
+                <div className="flex flex-wrap gap-2">
+                  <Button className="rounded-lg text-white" color="success" size="sm" onClick={() => handleRespond(event, 'accepted')}>{t('action.accepted')}</Button>
+                  <Button className="rounded-lg text-white" color="warning" size="sm" onClick={() => handleRespond(event, 'tentative')}>{t('action.tentative')}</Button>
+                  <Button className="rounded-lg text-white" color="danger" size="sm" onClick={() => handleRespond(event, 'declined')}>{t('action.declined')}</Button>
+                </div>
+              )}
+              {state === 'sending' && <p className={`text-xs ${theme.textPrimary(isDark)}`}>{t('invite.sending')}</p>}
+              {state === 'error' && <p className="text-xs mt-1 text-red-500">{t('invite.failed')}</p>}
+              {(state === 'accepted' || state === 'tentative' || state === 'declined') && (
+                <p className={`text-xs ${theme.textPrimary(isDark)}`}>{t(`responded.${state}`)}</p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className={`rounded-xl border p-4 ${theme.card(isDark)}`}>
+      {/* Header: range, navigation and day/week toggle */}
+      <div className="flex items-start justify-between gap-3 mb-3">
+        <div>
+          <h3 className={`font-semibold ${theme.textPrimary(isDark)}`}>
+            {firstDay === lastDay ? formatDay(firstDay, 'long') : `${formatDay(firstDay, 'short')} – ${formatDay(lastDay, 'short')}`}
+          </h3>
+          <p className={`text-xs mt-1 ${theme.textPrimary(isDark)}`}>
+            {pending > 0 ? t('agenda.pending', { count: pending }) : t('agenda.timeZone', { timeZone })}
+          </p>
+        </div>
+        <div className="flex gap-1 shrink-0">
+          {(['day', 'week'] as const).map((option) => (
+            <Button
+              key={option}
+              variant={range === option ? 'solid' : 'outline'}
+              color="secondary"
+              size="sm"
+              disabled={isLoading}
+              onClick={() => range !== option && loadAgenda(firstDay, option)}
+            >
+              {t(`agenda.${option}`)}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 mb-4">
+        <Button variant="outline" color="secondary" size="sm" disabled={isLoading} onClick={() => loadAgenda(addDays(firstDay, -step), range)}>
+          ‹ {t('agenda.previous')}
+        </Button>
+        <Button variant="outline" color="secondary" size="sm" disabled={isLoading} onClick={() => loadAgenda(today, range)}>
+          {t('agenda.today')}
+        </Button>
+        <Button variant="outline" color="secondary" size="sm" disabled={isLoading} onClick={() => loadAgenda(addDays(firstDay, step), range)}>
+          {t('agenda.next')} ›
+        </Button>
+        {isLoading && <div className={`size-4 ml-2 rounded-full border-2 border-t-transparent animate-spin ${theme.spinner(isDark)}`} />}
+      </div>
+
+      {/* Timeline, one section per day */}
+      <div className={`space-y-4 ${isLoading ? 'opacity-60' : ''}`}>
+        {days.map((day) => (
+          <div key={day.date}>
+            {range === 'week' && (
+              <p className={`text-xs font-semibold uppercase tracking-wide mb-2 ${theme.textPrimary(isDark)}`}>
+                {formatDay(day.date, 'long')}{day.date === today ? ` · ${t('agenda.today')}` : ''}
+              </p>
+            )}
+            {day.events.length === 0 ? (
+              <p className={`text-sm ${theme.textPrimary(isDark)} opacity-60`}>{t('agenda.empty')}</p>
+            ) : (
+              <div className="space-y-2">
+                {day.events.map((event) => renderEvent(event, day.date))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className={`pt-3 mt-4 border-t ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
+        <Button variant="outline" color="secondary" size="sm" onClick={() => navigate('/')}>
+          {t('invites.back')}
+        </Button>
+      </div>
+    </div>
+  );
+}
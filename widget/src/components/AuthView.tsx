@@ -4,14 +4,14 @@ import { Badge } from '@openai/apps-sdk-ui/components/Badge';
 import { Calendar, Check } from '@openai/apps-sdk-ui/components/Icon';
 import { useWidget } from '../WidgetContext';
 import { theme } from '../theme';
-import type { AuthStatusOutput, PendingInvitesOutput } from '../types';
+import type { AgendaOutput, AuthStatusOutput, PendingInvitesOutput } from '../types';
 
 interface AuthViewProps {
   initialAuthData: AuthStatusOutput | null;
 }
 
 export function AuthView({ initialAuthData }: AuthViewProps) {
-  const { isDark, callTool, openExternal, setWidgetState, setInvitesData, notifyHeight, authData, setAuthData } = useWidget();
+  const { isDark, t, callTool, openExternal, setWidgetState, setInvitesData, setAgendaData, notifyHeight, authData, setAuthData } = useWidget();
   const navigate = useNavigate();
   const [isPolling, setIsPolling] = useState(false);
   const [isLoadingInvites, setIsLoadingInvites] = useState(false);
@@ -69,6 +69,21 @@ export function AuthView({ initialAuthData }: AuthViewProps) {
     }
   };
 
+  const handleViewAgenda = async () => {
+    try {
+      setIsLoadingInvites(true);
+      const result = await callTool('get_agenda', { range: 'week' }) as { structuredContent?: AgendaOutput };
+      if (result?.structuredContent?.days) {
+        setAgendaData(result.structuredContent);
+        navigate('/agenda');
+      }
+    } catch (err) {
+      console.error('[Widget] Failed to get agenda:', err);
+    } finally {
+      setIsLoadingInvites(false);
+    }
+  };
+
   // Connected State
   if (isAuthenticated) {
     return (
@@ -79,16 +94,16 @@ export function AuthView({ initialAuthData }: AuthViewProps) {
             <Check className={`size-6 text-white`} />
             </div>
             <div>
-              <h2 className={`text-lg font-semibold ${theme.textPrimary(isDark)}`}>Connected</h2>
-              <p className={`text-sm ${theme.textPrimary(isDark)}`}>Google Calendar linked</p>
+              <h2 className={`text-lg font-semibold ${theme.textPrimary(isDark)}`}>{t('auth.connected')}</h2>
+              <p className={`text-sm ${theme.textPrimary(isDark)}`}>{t('auth.linked')}</p>
             </div>
           </div>
-          <Badge className='p-6 rounded-full' color="success">Active</Badge>
+          <Badge className='p-6 rounded-full' color="success">{t('auth.active')}</Badge>
         </div>
 
         {currentAuth?.email && (
           <div className={`mb-6 p-4 rounded-xl border ${theme.card(isDark)}`}>
-            <p className={`text-xs uppercase tracking-wide font-medium mb-1 ${theme.textPrimary(isDark)}`}>Signed in as</p>
+            <p className={`text-xs uppercase tracking-wide font-medium mb-1 ${theme.textPrimary(isDark)}`}>{t('auth.signedInAs')}</p>
             <p className={`text-sm font-medium ${theme.textPrimary(isDark)}`}>{currentAuth.email}</p>
           </div>
         )}
@@ -103,7 +118,14 @@ export function AuthView({ initialAuthData }: AuthViewProps) {
             disabled={isLoadingInvites}
             >
               <Calendar />
-              View Pending Invites
+              {t('auth.viewInvites')}
+            </button>
+          )}
+          {!isLoadingInvites && (
+            <button className={`w-full mt-3 h-12 flex items-center justify-center gap-3 font-medium rounded-xl ${theme.textPrimary(isDark)} ${theme.buttonShadow()} ${theme.buttonBorder(isDark)}`}
+            onClick={handleViewAgenda}
+            >
+              {t('auth.viewAgenda')}
             </button>
           )}
       </div>
@@ -126,20 +148,20 @@ export function AuthView({ initialAuthData }: AuthViewProps) {
         {/* Title */}
         <h1 className={`text-2xl font-semibold text-center mb-3 ${theme.textPrimary(isDark)}`}>
           {isPolling 
-            ? 'Waiting for Sign In...' 
+            ? t('auth.waiting') 
             : currentAuth?.authUrl 
-              ? 'Connect Google Calendar' 
-              : 'Setting Up Calendar Access'
+              ? t('auth.connect') 
+              : t('auth.settingUp')
           }
         </h1>
 
         {/* Description */}
         <p className={`text-center leading-relaxed mb-8 ${theme.textPrimary(isDark)}`}>
           {isPolling 
-            ? 'Complete the sign-in in the new tab. This will update automatically.'
+            ? t('auth.waitingHint')
             : currentAuth?.authUrl
-              ? 'Link your Google account to manage calendar invitations directly from ChatGPT'
-              : 'Preparing your calendar connection and checking authentication...'
+              ? t('auth.connectHint')
+              : t('auth.settingUpHint')
           }
         </p>
 
@@ -147,7 +169,7 @@ export function AuthView({ initialAuthData }: AuthViewProps) {
           <div className="flex flex-col items-center gap-3 py-2 mb-6">
             <div className={`size-6 rounded-full border-2 border-t-blue-500 animate-spin ${theme.spinner(isDark)}`} />
             <p className={`text-xs ${theme.textPrimary(isDark)}`}>
-              Checking every few seconds...
+              {t('auth.polling')}
             </p>
           </div>
         ) : currentAuth?.authUrl ? (
@@ -163,7 +185,7 @@ export function AuthView({ initialAuthData }: AuthViewProps) {
                 <path fill="#FBBC05" d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"/>
                 <path fill="#EA4335" d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"/>
               </svg>
-              Continue with Google
+              {t('auth.continue')}
             </button>
 
             {/* Privacy Notice */}
@@ -172,14 +194,14 @@ export function AuthView({ initialAuthData }: AuthViewProps) {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"/>
               </svg>
               <p className={`text-xs leading-relaxed ${isDark ? 'text-slate-300' : 'text-slate-600'}`}>
-                We only access your calendar events. Your data is encrypted and never shared with third parties.
+                {t('auth.privacy')}
               </p>
             </div>
           </>
         ) : (
           <div className="flex items-center justify-center gap-2 py-3">
             <div className={`size-4 rounded-full border-2 border-t-blue-500 animate-spin ${theme.spinner(isDark)}`} />
-            <p className={`text-sm ${theme.textPrimary(isDark)}`}>Loading...</p>
+            <p className={`text-sm ${theme.textPrimary(isDark)}`}>{t('common.loading')}</p>
           </div>
         )}
       </div>
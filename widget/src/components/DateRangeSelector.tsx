@@ -1,5 +1,6 @@
 import { useState } from 'react';
 import { Button } from '@openai/apps-sdk-ui/components/Button';
+import { useWidget } from '../WidgetContext';
 import { theme } from '../theme';
 
 interface DateRangeSelectorProps {
@@ -9,6 +10,7 @@ interface DateRangeSelectorProps {
 }
 
 export function DateRangeSelector({ isDark, isRefreshing, onRangeChange }: DateRangeSelectorProps) {
+  const { t } = useWidget();
   const [showDateRange, setShowDateRange] = useState(false);
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
@@ -54,14 +56,14 @@ export function DateRangeSelector({ isDark, isRefreshing, onRangeChange }: DateR
   return (
     <div className={`p-3 rounded-xl border ${theme.card(isDark)}`}>
       <label className={`text-xs font-semibold uppercase tracking-wide ${theme.textPrimary(isDark)} block mb-2`}>
-        Date Range
+        {t('range.label')}
       </label>
       
       {showDateRange ? (
         <div className="space-y-3">
           <div className="grid grid-cols-2 gap-2">
             <div>
-              <label className={`text-xs ${theme.textPrimary(isDark)} block mb-1`}>Start Date</label>
+              <label className={`text-xs ${theme.textPrimary(isDark)} block mb-1`}>{t('range.start')}</label>
               <input
                 type="date"
                 value={startDate}
@@ -74,7 +76,7 @@ export function DateRangeSelector({ isDark, isRefreshing, onRangeChange }: DateR
               />
             </div>
             <div>
-              <label className={`text-xs ${theme.textPrimary(isDark)} block mb-1`}>End Date</label>
+              <label className={`text-xs ${theme.textPrimary(isDark)} block mb-1`}>{t('range.end')}</label>
               <input
                 type="date"
                 value={endDate}
@@ -95,7 +97,7 @@ export function DateRangeSelector({ isDark, isRefreshing, onRangeChange }: DateR
               onClick={handleCustomDateRange}
               disabled={!startDate || !endDate}
             >
-              Apply
+              {t('range.apply')}
             </Button>
             <Button
               className={`rounded-xl px-2 py-2 ${theme.textPrimary(isDark)} ${theme.buttonBorder(isDark)} ${theme.buttonShadow()}`}
@@ -104,7 +106,7 @@ export function DateRangeSelector({ isDark, isRefreshing, onRangeChange }: DateR
               size="sm"
               onClick={handleClearDateRange}
             >
-              Cancel
+              {t('range.cancel')}
             </Button>
           </div>
         </div>
@@ -115,9 +117,9 @@ export function DateRangeSelector({ isDark, isRefreshing, onRangeChange }: DateR
           className={`w-full px-3 py-2 text-sm rounded-lg border ${
             theme.card(isDark)} ${theme.textPrimary(isDark)}`}
         >
-          <option value="next-2-weeks">Next 2 Weeks (Default)</option>
-          <option value="next-month">Next Month</option>
-          <option value="custom">Custom Date Range...</option>
+          <option value="next-2-weeks">{t('range.twoWeeks')}</option>
+          <option value="next-month">{t('range.month')}</option>
+          <option value="custom">{t('range.custom')}</option>
         </select>
       )}
     </div>
@@ -0,0 +1,128 @@
+import { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@openai/apps-sdk-ui/components/Button';
+import { Badge } from '@openai/apps-sdk-ui/components/Badge';
+import { Calendar } from '@openai/apps-sdk-ui/components/Icon';
+import { useWidget } from '../WidgetContext';
+import { theme } from '../theme';
+import { dateLocale } from '../i18n';
+
+// Shows an event from create_event or update_event so the user can check it
+export function EventView() {
+  const { isDark, locale, t, eventData, openExternal, notifyHeight } = useWidget();
+  const navigate = useNavigate();
+  const event = eventData?.event;
+
+  useEffect(() => { notifyHeight(); }, [eventData, notifyHeight]);
+
+  if (!event) {
+    return (
+      <div className={`p-6 rounded-xl border shadow-sm ${theme.card(isDark)}`}>
+        <p className={`text-center ${theme.textPrimary(isDark)}`}>{eventData?.error || t('event.noData')}</p>
+        <div className="flex justify-center mt-4">
+          <Button variant="outline" color="secondary" size="sm" onClick={() => navigate('/')}>
+            {t('invites.back')}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  // All-day dates are plain dates (midnight UTC), and Google's end date is the day after
+  const formatDay = (time: string) =>
+    new Date(time).toLocaleDateString(dateLocale(locale), { weekday: 'short', month: 'short', day: 'numeric', timeZone: event.isAllDay ? 'UTC' : event.timeZone });
+  const formatTime = (time: string) =>
+    new Date(time).toLocaleTimeString(dateLocale(locale), { hour: 'numeric', minute: '2-digit', timeZone: event.timeZone, timeZoneName: 'short' });
+
+  const when = (() => {
+    try {
+      if (event.isAllDay) {
+        const lastDay = new Date(new Date(event.endTime).getTime() - 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+        const days = lastDay > event.startTime ? `${formatDay(event.startTime)} – ${formatDay(lastDay)}` : formatDay(event.startTime);
+        return t('event.allDay', { date: days });
+      }
+      return formatDay(event.startTime) === formatDay(event.endTime)
+        ? `${formatDay(event.startTime)}, ${formatTime(event.startTime)} – ${formatTime(event.endTime)}`
+        : `${formatDay(event.startTime)}, ${formatTime(event.startTime)} – ${formatDay(event.endTime)}, ${formatTime(event.endTime)}`;
+    } catch { return event.startTime; }
+  })();
+
+  const guests = event.attendees.filter((a) => a.email.toLowerCase() !== event.organizerEmail.toLowerCase());
+
+  return (
+    <div className={`rounded-xl border p-4 ${theme.card(isDark)}`}>
+      {/* Header */}
+      <div className="flex items-start justify-between gap-3 mb-3">
+        <h3 className={`font-semibold ${theme.textPrimary(isDark)}`}>{event.summary}</h3>
+        <Badge color="success" className="bg-green-600 text-white p-2 shrink-0">
+          {t(eventData?.action === 'updated' ? 'event.updated' : 'event.created')}
+        </Badge>
+      </div>
+
+      {/* Time, location and Meet link */}
+      <div className={`text-sm space-y-2 mb-3 ${theme.textPrimary(isDark)}`}>
+        <div className="flex items-start gap-2">
+          <span className="shrink-0">📅</span>
+          <p>{when}</p>
+        </div>
+        {event.location && (
+          <div className="flex items-start gap-2">
+            <span className="shrink-0">📍</span>
+            <p>{event.location}</p>
+          </div>
+        )}
+        {event.meetLink && (
+          <div className="flex items-start gap-2">
+            <span className="shrink-0">🎥</span>
+            <button onClick={() => openExternal({ href: event.meetLink! })} className="text-blue-500 hover:underline truncate">
+              {event.meetLink.replace(/^https:\/\//, '')}
+            </button>
+          </div>
+        )}
+        {event.recurringEventId && (
+          <div className="flex items-start gap-2">
+            <span className="shrink-0">🔁</span>
+            <p>{t('event.oneOccurrence')}</p>
+          </div>
+        )}
+      </div>
+
+      {/* Description */}
+      {event.description && (
+        <div className={`mb-3 p-3 rounded-lg ${isDark ? 'bg-slate-800/30' : 'bg-slate-50'}`}>
+          <p className={`text-xs font-semibold uppercase tracking-wide mb-1 ${theme.textPrimary(isDark)}`}>{t('invite.description')}</p>
+          <p className={`text-sm whitespace-pre-wrap ${theme.textPrimary(isDark)}`}>{event.description}</p>
+        </div>
+      )}
+
+      {/* Guests */}
+      {guests.length > 0 && (
+        <div className={`mb-3 p-3 rounded-lg border ${theme.card(isDark)}`}>
+          <p className={`text-xs font-semibold uppercase tracking-wide mb-2 ${theme.textPrimary(isDark)}`}>
+            {t('event.guests', { count: guests.length })}
+          </p>
+          <div className="space-y-1 max-h-32 overflow-y-auto">
+            {guests.map((guest) => (
+              <p key={guest.email} className={`text-sm truncate ${theme.textPrimary(isDark)}`}>
+                {guest.name ? `${guest.name} · ${guest.email}` : guest.email}
+              </p>
+            ))}
+          </div>
+          <p className={`text-xs mt-2 ${theme.textPrimary(isDark)}`}>
+            {eventData?.notified ? t('event.notified') : t('event.notNotified')}
+          </p>
+        </div>
+      )}
+
+      {/* Open in Google Calendar */}
+      {event.calendarLink && (
+        <div className={`pt-3 border-t ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
+          <Button variant="outline" color="secondary" size="sm" onClick={() => openExternal({ href: event.calendarLink })}>
+            <Calendar className="size-4 mr-2" />
+            {t('event.open')}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
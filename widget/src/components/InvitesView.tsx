@@ -5,49 +5,66 @@ import { Badge } from '@openai/apps-sdk-ui/components/Badge';
 import { Calendar, Check, ArrowRotateCcw } from '@openai/apps-sdk-ui/components/Icon';
 import { useWidget } from '../WidgetContext';
 import { theme } from '../theme';
+import { dateLocale } from '../i18n';
 import { DateRangeSelector } from './DateRangeSelector';
-import type { PendingInvite, PendingInvitesOutput } from '../types';
+import type { PendingInvite, PendingInvitesOutput, RespondNote } from '../types';
 
 interface InviteCardProps {
   invite: PendingInvite;
-  onRespond: (eventId: string, eventTitle: string, response: string) => Promise<void>;
+  onRespond: (eventId: string, calendarId: string, eventTitle: string, response: string, note: RespondNote) => Promise<void>;
   isDark: boolean;
   index: number;
   total: number;
 }
 
 function InviteCard({ invite, onRespond, isDark, index, total }: InviteCardProps) {
+  const { locale, t } = useWidget();
   const [status, setStatus] = useState<'idle' | 'loading' | 'accepted' | 'declined' | 'tentative' | 'error'>('idle');
   const [isExpanded, setIsExpanded] = useState(false);
+  const [showNote, setShowNote] = useState(false);
+  const [comment, setComment] = useState('');
+  const [proposedStart, setProposedStart] = useState('');
+  const [proposedEnd, setProposedEnd] = useState('');
+
+  // A proposed time needs both ends; a half-filled one is left out
+  const hasProposal = Boolean(proposedStart && proposedEnd);
 
   const handleRespond = async (response: 'accepted' | 'declined' | 'tentative') => {
+    const note: RespondNote = {};
+    if (comment.trim()) note.comment = comment.trim();
+    if (hasProposal) {
+      note.proposed_start = new Date(proposedStart).toISOString();
+      note.proposed_end = new Date(proposedEnd).toISOString();
+    }
+
     setStatus('loading');
     try {
-      await onRespond(invite.eventId, invite.summary || 'this meeting', response);
+      await onRespond(invite.eventId, invite.calendarId, invite.summary || t('invite.thisMeeting'), response, note);
       setStatus(response);
     } catch {
       setStatus('error');
     }
   };
 
+  // Times are shown in the user's calendar time zone from the server, not the browser's
   const formatTime = (time: string) => {
     try {
-      return new Date(time).toLocaleString('en-US', { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+      return new Date(time).toLocaleString(dateLocale(locale), { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZone: invite.isAllDay ? 'UTC' : invite.timeZone });
     } catch { return time; }
   };
 
   const formatTimeShort = (time: string) => {
     try {
-      return new Date(time).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+      return new Date(time).toLocaleTimeString(dateLocale(locale), { hour: 'numeric', minute: '2-digit', timeZone: invite.timeZone });
     } catch { return time; }
   };
 
   const getAttendeeStatusBadge = (attendeeStatus: string) => {
     switch (attendeeStatus) {
-      case 'accepted': return <Badge className="px-2" size="sm" color="success">Accepted</Badge>;
-      case 'declined': return <Badge className="px-2.5" size="sm" color="danger">Declined</Badge>;
-      case 'tentative': return <Badge className="px-4" size="sm" color="warning">Maybe</Badge>;
-      case 'needsAction': return <Badge size="sm" className="bg-gray-500 px-3 text-white">Pending</Badge>;
+      case 'accepted': return <Badge className="px-2" size="sm" color="success">{t('status.accepted')}</Badge>;
+      case 'declined': return <Badge className="px-2.5" size="sm" color="danger">{t('status.declined')}</Badge>;
+      case 'tentative': return <Badge className="px-4" size="sm" color="warning">{t('status.tentative')}</Badge>;
+      case 'needsAction': return <Badge size="sm" className="bg-gray-500 px-3 text-white">{t('status.needsAction')}</Badge>;
       default: return <Badge size="sm" className="bg-gray-400 px-2 text-white">{attendeeStatus}</Badge>;
     }
   };
@@ -58,19 +75,19 @@ function InviteCard({ invite, onRespond, isDark, index, total }: InviteCardProps
       <div className="flex items-start justify-between gap-3 mb-3">
         <div className="flex-1 min-w-0">
           <div className="flex items-center gap-2">
-            <h3 className={`font-semibold ${theme.textPrimary(isDark)}`}>{invite.summary || '(No title)'}</h3>
+            <h3 className={`font-semibold ${theme.textPrimary(isDark)}`}>{invite.summary || t('invite.noTitle')}</h3>
             <span className={`text-sm font-medium px-2 py-0.5 rounded-full ${theme.card(isDark)} ${theme.textPrimary(isDark)} ${theme.buttonShadow()} ${theme.buttonBorder(isDark)}`}>
               {index}/{total}
             </span>
           </div>
         </div>
-        <Badge color='success' className={`bg-green-600 text-white ${theme.textPrimary(isDark)} p-2 shrink-0`}>Pending</Badge>
+        <Badge color='success' className={`bg-green-600 text-white ${theme.textPrimary(isDark)} p-2 shrink-0`}>{t('invite.pending')}</Badge>
       </div>
 
       {/* Organizer - Prominent at top */}
       <div className={`mb-3 p-3 rounded-lg border ${theme.card(isDark)}`}>
         <div className="flex items-center gap-2">
-          <span className={`text-xs font-semibold uppercase tracking-wide ${theme.textPrimary(isDark)}`}>Organizer</span>
+          <span className={`text-xs font-semibold uppercase tracking-wide ${theme.textPrimary(isDark)}`}>{t('invite.organizer')}</span>
         </div>
         <p className={`text-sm font-medium mt-1 ${theme.textPrimary(isDark)}`}>
           {invite.organizerName ? `${invite.organizerName}` : invite.organizerEmail}
@@ -88,7 +105,7 @@ function InviteCard({ invite, onRespond, isDark, index, total }: InviteCardProps
             <p>{formatTime(invite.startTime)}</p>
             {invite.endTime && (
               <p className={`text-xs mt-0.5 ${theme.textPrimary(isDark)}`}>
-                Until {formatTimeShort(invite.endTime)}
+                {t('invite.until', { time: formatTimeShort(invite.endTime) })}
               </p>
             )}
           </div>
@@ -99,12 +116,57 @@ function InviteCard({ invite, onRespond, isDark, index, total }: InviteCardProps
             <p>{invite.location}</p>
           </div>
         )}
+        <div className="flex items-start gap-2">
+          <span className="shrink-0">🗓️</span>
+          <p>{invite.calendarName}</p>
+        </div>
+        {invite.recurringEventId && (
+          <div className="flex items-start gap-2">
+            <span className="shrink-0">🔁</span>
+            <p>
+              {t('invite.recurring')}
+              {(invite.seriesPendingCount ?? 0) > 1 && t('invite.seriesPending', { count: invite.seriesPendingCount ?? 0 })}
+            </p>
+          </div>
+        )}
       </div>
 
+      {/* Suggested response */}
+      {invite.suggestion && (
+        <div className={`mb-3 p-3 rounded-lg border ${isDark ? 'border-blue-700 bg-blue-900/30' : 'border-blue-300 bg-blue-50'}`}>
+          <p className={`text-sm ${theme.textPrimary(isDark)}`}>
+            💡 <span className="font-semibold">{t('invite.suggested', { response: t(`action.${invite.suggestion.response}`) })}</span> — {invite.suggestion.reason}
+          </p>
+        </div>
+      )}
+
+      {/* Conflicts */}
+      {invite.conflicts && invite.conflicts.length > 0 && (
+        <div className={`mb-3 p-3 rounded-lg border ${isDark ? 'border-amber-700 bg-amber-900/30' : 'border-amber-300 bg-amber-50'}`}>
+          <p className={`text-xs font-semibold uppercase tracking-wide mb-2 ${isDark ? 'text-amber-300' : 'text-amber-800'}`}>
+            {t('invite.conflicts', { count: invite.conflicts.length })}
+          </p>
+          <div className="space-y-1">
+            {invite.conflicts.map((conflict) => (
+              <div key={`${conflict.calendarId}:${conflict.eventId}`} className="flex items-center justify-between gap-2">
+                <p className={`text-sm truncate ${theme.textPrimary(isDark)}`}>
+                  {conflict.summary} · {formatTimeShort(conflict.startTime)}–{formatTimeShort(conflict.endTime)}
+                </p>
+                <div className="shrink-0">
+                  {conflict.status === 'pending'
+                    ? <Badge size="sm" className="bg-gray-500 px-3 text-white">{t('status.needsAction')}</Badge>
+                    : getAttendeeStatusBadge(conflict.status)}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Description */}
       {invite.description && (
         <div className={`mb-3 p-3 rounded-lg ${isDark ? 'bg-slate-800/30' : 'bg-slate-50'}`}>
-          <p className={`text-xs font-semibold uppercase tracking-wide mb-1 ${theme.textPrimary(isDark)}`}>Description</p>
+          <p className={`text-xs font-semibold uppercase tracking-wide mb-1 ${theme.textPrimary(isDark)}`}>{t('invite.description')}</p>
           <p className={`text-sm whitespace-pre-wrap ${theme.textPrimary(isDark)}`}>
             {invite.description.length > 150 && !isExpanded 
               ? `${invite.description.substring(0, 150)}...` 
@@ -116,7 +178,7 @@ function InviteCard({ invite, onRespond, isDark, index, total }: InviteCardProps
               onClick={() => setIsExpanded(!isExpanded)}
               className={`text-xs mt-1 text-blue-500 hover:underline`}
             >
-              {isExpanded ? 'Show less' : 'Show more'}
+              {isExpanded ? t('invite.showLess') : t('invite.showMore')}
             </button>
           )}
         </div>
@@ -126,7 +188,7 @@ function InviteCard({ invite, onRespond, isDark, index, total }: InviteCardProps
       {invite.attendees && invite.attendees.length > 0 && (
         <div className={`mb-3 p-3 rounded-lg border ${theme.card(isDark)}`}>
           <p className={`text-xs font-semibold uppercase tracking-wide mb-2 ${theme.textPrimary(isDark)}`}>
-            Attendees ({invite.attendees.length})
+            {t('invite.attendees', { count: invite.attendees.length })}
           </p>
           <div className="space-y-2 max-h-32 overflow-y-auto">
             {invite.attendees.map((attendee, idx) => (
@@ -150,33 +212,93 @@ function InviteCard({ invite, onRespond, isDark, index, total }: InviteCardProps
 
       {/* Action Buttons */}
       <div className={`pt-3 border-t ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
+        {status === 'idle' && showNote && (
+          <div className="space-y-2 mb-3">
+            <div>
+              <label className={`text-xs ${theme.textPrimary(isDark)} block mb-1`}>{t('invite.note')}</label>
+              <textarea
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                maxLength={1000}
+                rows={2}
+                placeholder={t('invite.notePlaceholder')}
+                className={`w-full px-3 py-2 text-sm rounded-lg border ${
+                  isDark 
+                    ? 'bg-slate-800 border-slate-600 text-white' 
+                    : 'bg-white border-slate-300 text-slate-900'
+                }`}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className={`text-xs ${theme.textPrimary(isDark)} block mb-1`}>{t('invite.proposeStart')}</label>
+                <input
+                  type="datetime-local"
+                  value={proposedStart}
+                  onChange={(e) => setProposedStart(e.target.value)}
+                  className={`w-full px-3 py-2 text-sm rounded-lg border ${
+                    isDark 
+                      ? 'bg-slate-800 border-slate-600 text-white' 
+                      : 'bg-white border-slate-300 text-slate-900'
+                  }`}
+                />
+              </div>
+              <div>
+                <label className={`text-xs ${theme.textPrimary(isDark)} block mb-1`}>{t('invite.proposeEnd')}</label>
+                <input
+                  type="datetime-local"
+                  value={proposedEnd}
+                  min={proposedStart || undefined}
+                  onChange={(e) => setProposedEnd(e.target.value)}
+                  className={`w-full px-3 py-2 text-sm rounded-lg border ${
+                    isDark 
+                      ? 'bg-slate-800 border-slate-600 text-white' 
+                      : 'bg-white border-slate-300 text-slate-900'
+                  }`}
+                />
+              </div>
+            </div>
+          </div>
+        )}
         {status === 'idle' && (
           <div className="grid grid-cols-3 gap-2">
-            <Button className={`rounded-xl py-4 text-white ${theme.buttonBorder(isDark)} ${theme.buttonShadow()}`} color="success" size="sm" block onClick={() => handleRespond('accepted')}>Accept</Button>
-            <Button className={`rounded-xl py-4 text-white ${theme.buttonBorder(isDark)} ${theme.buttonShadow()}`} color="warning" size="sm" block onClick={() => handleRespond('tentative')}>Maybe</Button>
-            <Button className={`rounded-xl py-4 text-white ${theme.buttonBorder(isDark)} ${theme.buttonShadow()}`} color="danger" size="sm" block onClick={() => handleRespond('declined')}>Decline</Button>
+            <Button className={`rounded-xl py-4 text-white ${theme.buttonBorder(isDark)} ${theme.buttonShadow()}`} color="success" size="sm" block onClick={() => handleRespond('accepted')}>{t('action.accepted')}</Button>
+            <Button className={`rounded-xl py-4 text-white ${theme.buttonBorder(isDark)} ${theme.buttonShadow()}`} color="warning" size="sm" block onClick={() => handleRespond('tentative')}>{t('action.tentative')}</Button>
+            <Button className={`rounded-xl py-4 text-white ${theme.buttonBorder(isDark)} ${theme.buttonShadow()}`} color="danger" size="sm" block onClick={() => handleRespond('declined')}>{t('action.declined')}</Button>
           </div>
         )}
-        {status === 'loading' && <div className={`text-center py-2 text-sm ${theme.textPrimary(isDark)}`}>Sending...</div>}
+        {status === 'idle' && (
+          <button
+            onClick={() => setShowNote(!showNote)}
+            className="text-xs mt-2 text-blue-500 hover:underline"
+          >
+            {showNote ? t('invite.hideNote') : t('invite.addNote')}
+          </button>
+        )}
+        {status === 'loading' && <div className={`text-center py-2 text-sm ${theme.textPrimary(isDark)}`}>{t('invite.sending')}</div>}
         {(status === 'accepted' || status === 'declined' || status === 'tentative') && (
-          <div className="text-center"><Badge className='p-4' color={status === 'accepted' ? 'success' : status === 'declined' ? 'danger' : 'warning'}>{status === 'accepted' ? '✓ Accepted' : status === 'declined' ? '✗ Declined' : '? Maybe'}</Badge></div>
+          <div className="text-center"><Badge className='p-4' color={status === 'accepted' ? 'success' : status === 'declined' ? 'danger' : 'warning'}>{t(`responded.${status}`)}</Badge></div>
         )}
-        {status === 'error' && <div className="text-center"><Badge color="danger">Failed</Badge></div>}
+        {status === 'error' && <div className="text-center"><Badge color="danger">{t('invite.failed')}</Badge></div>}
       </div>
     </div>
   );
 }
 
 export function InvitesView() {
-  const { isDark, invitesData, setInvitesData, callTool, setWidgetState, notifyHeight } = useWidget();
+  const { isDark, t, invitesData, setInvitesData, callTool, setWidgetState, notifyHeight } = useWidget();
   const navigate = useNavigate();
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
 
-  useEffect(() => { notifyHeight(); }, [invitesData, isRefreshing, notifyHeight]);
+  useEffect(() => { notifyHeight(); }, [invitesData, isRefreshing, isLoadingMore, notifyHeight]);
 
-  const handleRespond = async (eventId: string, eventTitle: string, response: string) => {
+  const handleRespond = async (eventId: string, calendarId: string, eventTitle: string, response: string, note: RespondNote) => {
     try {
-      await callTool('respond_to_invite', { event_id: eventId, event_title: eventTitle, response });
+      const result = await callTool('respond_to_invite', { event_id: eventId, calendar_id: calendarId, event_title: eventTitle, response, ...note }) as { isError?: boolean };
+      if (result?.isError) {
+        throw new Error('respond_to_invite failed');
+      }
       // Response is shown inline in the InviteCard, no need to navigate
     } catch (err) {
       console.error('[Widget] Failed to respond:', err);
@@ -184,6 +306,9 @@ export function InvitesView() {
     }
   };
 
+  // Lists from suggest_responses are refreshed and paged with the same tool, to keep their suggestions
+  const listTool = invitesData?.invites?.some((invite) => invite.suggestion) ? 'suggest_responses' : 'get_pending_reservations';
+
   const handleRefresh = async (customStartDate?: string, customEndDate?: string) => {
     try {
       setIsRefreshing(true);
@@ -192,7 +317,7 @@ export function InvitesView() {
       if (customStartDate) args.start_date = customStartDate;
       if (customEndDate) args.end_date = customEndDate;
       
-      const result = await callTool('get_pending_reservations', args) as { structuredContent?: PendingInvitesOutput };
+      const result = await callTool(listTool, args) as { structuredContent?: PendingInvitesOutput };
       if (result?.structuredContent) {
         setInvitesData(result.structuredContent);
         setWidgetState({ view: 'invites', invites: result.structuredContent });
@@ -204,6 +329,27 @@ export function InvitesView() {
     }
   };
 
+  const handleLoadMore = async () => {
+    if (!invitesData?.nextCursor) return;
+    try {
+      setIsLoadingMore(true);
+      const result = await callTool(listTool, { cursor: invitesData.nextCursor }) as { structuredContent?: PendingInvitesOutput };
+      if (result?.structuredContent) {
+        // Append the next page to the invites already shown
+        const merged: PendingInvitesOutput = {
+          ...result.structuredContent,
+          invites: [...(invitesData.invites || []), ...(result.structuredContent.invites || [])],
+        };
+        setInvitesData(merged);
+        setWidgetState({ view: 'invites', invites: merged });
+      }
+    } catch (err) {
+      console.error('[Widget] Failed to load more invites:', err);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
   const handleBack = () => {
     navigate('/');
   };
@@ -211,10 +357,10 @@ export function InvitesView() {
   if (!invitesData) {
     return (
       <div className={`p-6 rounded-xl border shadow-sm ${theme.card(isDark)}`}>
-        <p className={`text-center ${theme.textPrimary(isDark)}`}>No invites data</p>
+        <p className={`text-center ${theme.textPrimary(isDark)}`}>{t('invites.noData')}</p>
         <div className="flex justify-center mt-4">
           <Button variant="outline" color="secondary" size="sm" onClick={handleBack}>
-            ← Back
+            {t('invites.back')}
           </Button>
         </div>
       </div>
@@ -222,6 +368,7 @@ export function InvitesView() {
   }
 
   const invites = invitesData.invites || [];
+  const totalCount = invitesData.totalCount ?? invites.length;
 
   return (
     <div className={`rounded-xl border shadow-sm ${theme.card(isDark)}`}>
@@ -238,7 +385,7 @@ export function InvitesView() {
           {isRefreshing && (
             <div className={`flex items-center justify-center gap-2 py-2 mb-4 rounded-lg ${theme.surface(isDark)}`}>
               <div className={`size-4 rounded-full border-2 border-t-blue-500 animate-spin ${theme.spinner(isDark)}`} />
-              <span className={`text-sm ${theme.textPrimary(isDark)}`}>Refreshing...</span>
+              <span className={`text-sm ${theme.textPrimary(isDark)}`}>{t('invites.refreshing')}</span>
             </div>
           )}
 
@@ -246,8 +393,8 @@ export function InvitesView() {
             <div className={`size-16 mx-auto rounded-2xl flex items-center justify-center mb-4 bg-green-600`}>
               <Check className="size-8 text-white" />
             </div>
-            <h2 className={`text-xl font-semibold mb-2 ${theme.textPrimary(isDark)}`}>All Caught Up!</h2>
-            <p className={`text-sm mb-6 ${theme.textPrimary(isDark)}`}>No pending invitations in this date range.</p>
+            <h2 className={`text-xl font-semibold mb-2 ${theme.textPrimary(isDark)}`}>{t('invites.caughtUp')}</h2>
+            <p className={`text-sm mb-6 ${theme.textPrimary(isDark)}`}>{t('invites.noneInRange')}</p>
             <button 
               className={`${theme.textPrimary(isDark)} m-auto flex items-center justify-center p-4 rounded-xl ${theme.buttonBorder(isDark)} ${theme.buttonShadow()}`} 
               color="secondary" 
@@ -255,7 +402,7 @@ export function InvitesView() {
               disabled={isRefreshing}
             >
               <ArrowRotateCcw className="size-4 mr-2" />
-              Refresh
+              {t('invites.refresh')}
             </button>
           </div>
         </div>
@@ -266,7 +413,7 @@ export function InvitesView() {
               <div className={`size-10 rounded-xl flex items-center justify-center ${theme.iconBg(isDark)}`}>
                 <Calendar className="size-5 text-blue-500" />
               </div>
-              <h1 className={`text-lg font-semibold ${theme.textPrimary(isDark)}`}>{invites.length} Pending Invites</h1>
+              <h1 className={`text-lg font-semibold ${theme.textPrimary(isDark)}`}>{t('invites.title', { count: totalCount })}</h1>
             </div>
             <div className="flex items-center gap-2">
               <Button className={`${theme.textPrimary(isDark)} p-2 rounded-xl ${theme.buttonBorder(isDark)} ${theme.buttonShadow()}`} variant="ghost" color="secondary" size="sm" onClick={() => handleRefresh()} disabled={isRefreshing}>
@@ -286,20 +433,27 @@ export function InvitesView() {
           {isRefreshing && (
             <div className={`flex items-center justify-center gap-2 py-2 mb-3 rounded-lg ${theme.surface(isDark)}`}>
               <div className={`size-4 rounded-full border-2 border-t-blue-500 animate-spin ${theme.spinner(isDark)}`} />
-              <span className={`text-sm ${theme.textPrimary(isDark)}`}>Refreshing...</span>
+              <span className={`text-sm ${theme.textPrimary(isDark)}`}>{t('invites.refreshing')}</span>
             </div>
           )}
           <div className="space-y-3 max-h-[400px] overflow-y-auto">
             {invites.map((invite, idx) => (
               <InviteCard 
-                key={invite.eventId} 
+                key={`${invite.calendarId}:${invite.eventId}`} 
                 invite={invite} 
                 onRespond={handleRespond} 
                 isDark={isDark}
                 index={idx + 1}
-                total={invites.length}
+                total={totalCount}
               />
             ))}
+            {invitesData.nextCursor && (
+              <div className="flex justify-center pt-1">
+                <Button variant="outline" color="secondary" size="sm" onClick={handleLoadMore} disabled={isLoadingMore}>
+                  {isLoadingMore ? t('common.loading') : t('invites.loadMore', { shown: invites.length, total: totalCount })}
+                </Button>
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -0,0 +1,161 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@openai/apps-sdk-ui/components/Button';
+import { Badge } from '@openai/apps-sdk-ui/components/Badge';
+import { useWidget } from '../WidgetContext';
+import { theme } from '../theme';
+import { dateLocale } from '../i18n';
+import type { EventOutput, MeetingTimeSlot } from '../types';
+
+// Candidate times from find_meeting_times; picking one books it with create_event
+export function MeetingTimesView() {
+  const { isDark, locale, t, meetingTimesData, setEventData, callTool, notifyHeight } = useWidget();
+  const navigate = useNavigate();
+  const [title, setTitle] = useState(meetingTimesData?.title || '');
+  const [booking, setBooking] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => { notifyHeight(); }, [meetingTimesData, error, notifyHeight]);
+
+  const slots = meetingTimesData?.slots;
+  const timeZone = meetingTimesData?.timeZone;
+
+  if (!slots || !timeZone) {
+    return (
+      <div className={`p-6 rounded-xl border shadow-sm ${theme.card(isDark)}`}>
+        <p className={`text-center ${theme.textPrimary(isDark)}`}>{meetingTimesData?.error || t('slots.noData')}</p>
+        <div className="flex justify-center mt-4">
+          <Button variant="outline" color="secondary" size="sm" onClick={() => navigate('/')}>
+            {t('invites.back')}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  // The user comes first; everyone else is invited
+  const guests = (meetingTimesData.attendees || []).slice(1);
+  const unknown = guests.filter((guest) => !guest.availabilityKnown);
+  const assumed = guests.filter((guest) => guest.workingHours.source === 'default');
+
+  const formatDay = (time: string) =>
+    new Date(time).toLocaleDateString(dateLocale(locale), { weekday: 'short', month: 'short', day: 'numeric', timeZone });
+  const formatTime = (time: string) =>
+    new Date(time).toLocaleTimeString(dateLocale(locale), { hour: 'numeric', minute: '2-digit', timeZone });
+
+  const fitBadge = (slot: MeetingTimeSlot) => {
+    switch (slot.fit) {
+      case 'ideal': return <Badge size="sm" color="success" className="px-2">{t('slots.fit.ideal')}</Badge>;
+      case 'outside-hours': return <Badge size="sm" color="warning" className="px-2">{t('slots.fit.outsideHours')}</Badge>;
+      default: return <Badge size="sm" color="danger" className="px-2">{t('slots.fit.conflicts')}</Badge>;
+    }
+  };
+
+  const handleSchedule = async (slot: MeetingTimeSlot) => {
+    try {
+      setBooking(slot.start);
+      setError(null);
+      const result = await callTool('create_event', {
+        title: title.trim() || t('slots.defaultTitle'),
+        start: slot.start,
+        end: slot.end,
+        time_zone: timeZone,
+        attendees: guests.map((guest) => guest.email),
+      }) as { structuredContent?: EventOutput; isError?: boolean };
+
+      if (result?.isError || !result?.structuredContent?.event) {
+        throw new Error(result?.structuredContent?.error || 'create_event failed');
+      }
+      setEventData(result.structuredContent);
+      navigate('/event');
+    } catch (err) {
+      console.error('[Widget] Failed to schedule:', err);
+      setError(t('slots.failed'));
+    } finally {
+      setBooking(null);
+    }
+  };
+
+  return (
+    <div className={`rounded-xl border p-4 ${theme.card(isDark)}`}>
+      {/* Header */}
+      <div className="mb-3">
+        <h3 className={`font-semibold ${theme.textPrimary(isDark)}`}>{t('slots.title')}</h3>
+        <p className={`text-xs mt-1 ${theme.textPrimary(isDark)}`}>
+          {t('slots.summary', { duration: meetingTimesData.durationMinutes ?? '', attendees: guests.map((guest) => guest.email).join(', '), timeZone })}
+        </p>
+      </div>
+
+      {/* Event title used when booking */}
+      <div className="mb-3">
+        <label className={`text-xs ${theme.textPrimary(isDark)} block mb-1`}>{t('slots.eventTitle')}</label>
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder={t('slots.defaultTitle')}
+          className={`w-full px-3 py-2 text-sm rounded-lg border ${
+            isDark
+              ? 'bg-slate-800 border-slate-600 text-white'
+              : 'bg-white border-slate-300 text-slate-900'
+          }`}
+        />
+      </div>
+
+      {unknown.length > 0 && (
+        <p className={`text-xs mb-3 ${theme.textPrimary(isDark)}`}>
+          ⚠️ {t('slots.unknown', { people: unknown.map((guest) => guest.email).join(', ') })}
+        </p>
+      )}
+
+      {assumed.length > 0 && (
+        <p className={`text-xs mb-3 ${theme.textPrimary(isDark)}`}>
+          {t('slots.defaultHours', {
+            people: assumed.map((guest) => guest.email).join(', '),
+            start: assumed[0].workingHours.start,
+            end: assumed[0].workingHours.end,
+          })}
+        </p>
+      )}
+
+      {/* Candidate slots, best first */}
+      {slots.length === 0 ? (
+        <p className={`text-sm text-center py-4 ${theme.textPrimary(isDark)}`}>{t('slots.none')}</p>
+      ) : (
+        <div className="space-y-2">
+          {slots.map((slot) => (
+            <div key={slot.start} className={`p-3 rounded-lg border ${theme.cardInner(isDark)}`}>
+              <div className="flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <p className={`text-sm font-medium ${theme.textPrimary(isDark)}`}>
+                    {formatDay(slot.start)}, {formatTime(slot.start)} – {formatTime(slot.end)}
+                  </p>
+                  <div className="mt-1">{fitBadge(slot)}</div>
+                </div>
+                <Button
+                  className={`shrink-0 rounded-xl ${theme.buttonBorder(isDark)} ${theme.buttonShadow()}`}
+                  color="primary"
+                  size="sm"
+                  disabled={booking !== null}
+                  onClick={() => handleSchedule(slot)}
+                >
+                  {booking === slot.start ? t('slots.scheduling') : t('slots.schedule')}
+                </Button>
+              </div>
+              {slot.busy.length > 0 && (
+                <p className={`text-xs mt-2 truncate ${theme.textPrimary(isDark)}`}>{t('slots.busy', { people: slot.busy.join(', ') })}</p>
+              )}
+              {slot.outsideWorkingHours.length > 0 && (
+                <p className={`text-xs mt-1 truncate ${theme.textPrimary(isDark)}`}>{t('slots.outsideHours', { people: slot.outsideWorkingHours.join(', ') })}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <div className="text-center mt-3"><Badge color="danger">{error}</Badge></div>}
+
+      <p className={`text-xs mt-3 ${theme.textPrimary(isDark)}`}>{t('slots.inviteNote')}</p>
+    </div>
+  );
+}
@@ -1,4 +1,7 @@
 export { AuthView } from './AuthView';
 export { InvitesView } from './InvitesView';
+export { AgendaView } from './AgendaView';
+export { EventView } from './EventView';
+export { MeetingTimesView } from './MeetingTimesView';
 export { DateRangeSelector } from './DateRangeSelector';
 
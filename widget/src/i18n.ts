@@ -0,0 +1,290 @@
+// Message catalog for the widget's copy
+// The locale comes from the Apps SDK locale hint (window.openai.locale),
+// then the browser's languages, falling back to English.
+
+export const SUPPORTED_LOCALES = ['en', 'es'] as const;
+export type Locale = typeof SUPPORTED_LOCALES[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Locale used for Intl date formatting
+const DATE_LOCALES: Record<Locale, string> = {
+  en: 'en-US',
+  es: 'es-ES',
+};
+
+const en = {
+  'common.loading': 'Loading...',
+
+  // AuthView
+  'auth.connected': 'Connected',
+  'auth.linked': 'Google Calendar linked',
+  'auth.active': 'Active',
+  'auth.signedInAs': 'Signed in as',
+  'auth.viewInvites': 'View Pending Invites',
+  'auth.viewAgenda': 'View This Week',
+  'auth.waiting': 'Waiting for Sign In...',
+  'auth.connect': 'Connect Google Calendar',
+  'auth.settingUp': 'Setting Up Calendar Access',
+  'auth.waitingHint': 'Complete the sign-in in the new tab. This will update automatically.',
+  'auth.connectHint': 'Link your Google account to manage calendar invitations directly from ChatGPT',
+  'auth.settingUpHint': 'Preparing your calendar connection and checking authentication...',
+  'auth.polling': 'Checking every few seconds...',
+  'auth.continue': 'Continue with Google',
+  'auth.privacy': 'We only access your calendar events. Your data is encrypted and never shared with third parties.',
+
+  // InviteCard
+  'invite.noTitle': '(No title)',
+  'invite.thisMeeting': 'this meeting',
+  'invite.pending': 'Pending',
+  'invite.organizer': 'Organizer',
+  'invite.until': 'Until {time}',
+  'invite.recurring': 'Recurring',
+  'invite.seriesPending': ' · {count} pending in this series',
+  'invite.suggested': 'Suggested: {response}',
+  'invite.conflicts': 'Conflicts ({count})',
+  'invite.description': 'Description',
+  'invite.showMore': 'Show more',
+  'invite.showLess': 'Show less',
+  'invite.attendees': 'Attendees ({count})',
+  'invite.note': 'Note to the organizer',
+  'invite.notePlaceholder': 'e.g. Sorry, I\'m out that afternoon',
+  'invite.proposeStart': 'Propose start',
+  'invite.proposeEnd': 'Propose end',
+  'invite.addNote': 'Add a note or propose a new time',
+  'invite.hideNote': 'Hide note',
+  'invite.sending': 'Sending...',
+  'invite.failed': 'Failed',
+  'action.accepted': 'Accept',
+  'action.tentative': 'Maybe',
+  'action.declined': 'Decline',
+  'responded.accepted': '✓ Accepted',
+  'responded.tentative': '? Maybe',
+  'responded.declined': '✗ Declined',
+  'status.accepted': 'Accepted',
+  'status.declined': 'Declined',
+  'status.tentative': 'Maybe',
+  'status.needsAction': 'Pending',
+
+  // InvitesView
+  'invites.noData': 'No invites data',
+  'invites.back': '← Back',
+  'invites.refreshing': 'Refreshing...',
+  'invites.caughtUp': 'All Caught Up!',
+  'invites.noneInRange': 'No pending invitations in this date range.',
+  'invites.refresh': 'Refresh',
+  'invites.title_one': '{count} Pending Invite',
+  'invites.title_other': '{count} Pending Invites',
+  'invites.loadMore': 'Load more ({shown} of {total})',
+
+  // AgendaView
+  'agenda.noData': 'No agenda data',
+  'agenda.day': 'Day',
+  'agenda.week': 'Week',
+  'agenda.previous': 'Previous',
+  'agenda.next': 'Next',
+  'agenda.today': 'Today',
+  'agenda.empty': 'Nothing scheduled',
+  'agenda.allDay': 'All day',
+  'agenda.until': 'Until {time}',
+  'agenda.timeZone': 'Times in {timeZone}',
+  'agenda.pending_one': '{count} invitation waiting for your response',
+  'agenda.pending_other': '{count} invitations waiting for your response',
+
+  // DateRangeSelector
+  'range.label': 'Date Range',
+  'range.start': 'Start Date',
+  'range.end': 'End Date',
+  'range.apply': 'Apply',
+  'range.cancel': 'Cancel',
+  'range.twoWeeks': 'Next 2 Weeks (Default)',
+  'range.month': 'Next Month',
+  'range.custom': 'Custom Date Range...',
+
+  // EventView
+  'event.noData': 'No event data',
+  'event.created': 'Created',
+  'event.updated': 'Updated',
+  'event.allDay': '{date} (all day)',
+  'event.oneOccurrence': 'One occurrence of a recurring event',
+  'event.guests': 'Guests ({count})',
+  'event.notified': 'Guests were emailed.',
+  'event.notNotified': 'Guests were not emailed.',
+  'event.open': 'Open in Google Calendar',
+
+  // MeetingTimesView
+  'slots.noData': 'No meeting times to show',
+  'slots.title': 'Suggested meeting times',
+  'slots.summary': '{duration} min with {attendees} · Times in {timeZone}',
+  'slots.eventTitle': 'Event title',
+  'slots.defaultTitle': 'Meeting',
+  'slots.unknown': 'Couldn\'t see when {people} are busy, so they count as free.',
+  'slots.defaultHours': 'Working hours of {people} aren\'t known, so the usual {start}–{end} were assumed.',
+  'slots.none': 'No times in the search window are within your working hours.',
+  'slots.fit.ideal': 'Everyone free',
+  'slots.fit.outsideHours': 'Outside someone\'s hours',
+  'slots.fit.conflicts': 'Someone busy',
+  'slots.busy': 'Busy: {people}',
+  'slots.outsideHours': 'Outside working hours: {people}',
+  'slots.schedule': 'Schedule',
+  'slots.scheduling': 'Scheduling...',
+  'slots.failed': 'Couldn\'t create the event. Please try again.',
+  'slots.inviteNote': 'Scheduling a time creates the event and emails invitations to everyone.',
+};
+
+type MessageKey = keyof typeof en;
+
+const es: Record<MessageKey, string> = {
+  'common.loading': 'Cargando...',
+
+  // AuthView
+  'auth.connected': 'Conectado',
+  'auth.linked': 'Google Calendar vinculado',
+  'auth.active': 'Activo',
+  'auth.signedInAs': 'Sesión iniciada como',
+  'auth.viewInvites': 'Ver invitaciones pendientes',
+  'auth.viewAgenda': 'Ver esta semana',
+  'auth.waiting': 'Esperando el inicio de sesión...',
+  'auth.connect': 'Conecta Google Calendar',
+  'auth.settingUp': 'Preparando el acceso al calendario',
+  'auth.waitingHint': 'Completa el inicio de sesión en la nueva pestaña. Esto se actualizará solo.',
+  'auth.connectHint': 'Vincula tu cuenta de Google para gestionar las invitaciones del calendario directamente desde ChatGPT',
+  'auth.settingUpHint': 'Preparando la conexión con tu calendario y comprobando la autenticación...',
+  'auth.polling': 'Comprobando cada pocos segundos...',
+  'auth.continue': 'Continuar con Google',
+  'auth.privacy': 'Solo accedemos a los eventos de tu calendario. Tus datos están cifrados y nunca se comparten con terceros.',
+
+  // InviteCard
+  'invite.noTitle': '(Sin título)',
+  'invite.thisMeeting': 'esta reunión',
+  'invite.pending': 'Pendiente',
+  'invite.organizer': 'Organizador',
+  'invite.until': 'Hasta las {time}',
+  'invite.recurring': 'Periódica',
+  'invite.seriesPending': ' · {count} pendientes en esta serie',
+  'invite.suggested': 'Sugerencia: {response}',
+  'invite.conflicts': 'Conflictos ({count})',
+  'invite.description': 'Descripción',
+  'invite.showMore': 'Ver más',
+  'invite.showLess': 'Ver menos',
+  'invite.attendees': 'Asistentes ({count})',
+  'invite.note': 'Nota para el organizador',
+  'invite.notePlaceholder': 'p. ej. Lo siento, esa tarde no estoy',
+  'invite.proposeStart': 'Inicio propuesto',
+  'invite.proposeEnd': 'Fin propuesto',
+  'invite.addNote': 'Añadir una nota o proponer otra hora',
+  'invite.hideNote': 'Ocultar nota',
+  'invite.sending': 'Enviando...',
+  'invite.failed': 'Error',
+  'action.accepted': 'Aceptar',
+  'action.tentative': 'Quizás',
+  'action.declined': 'Rechazar',
+  'responded.accepted': '✓ Aceptada',
+  'responded.tentative': '? Quizás',
+  'responded.declined': '✗ Rechazada',
+  'status.accepted': 'Aceptado',
+  'status.declined': 'Rechazado',
+  'status.tentative': 'Quizás',
+  'status.needsAction': 'Pendiente',
+
+  // InvitesView
+  'invites.noData': 'No hay datos de invitaciones',
+  'invites.back': '← Volver',
+  'invites.refreshing': 'Actualizando...',
+  'invites.caughtUp': '¡Todo al día!',
+  'invites.noneInRange': 'No hay invitaciones pendientes en este intervalo.',
+  'invites.refresh': 'Actualizar',
+  'invites.title_one': '{count} invitación pendiente',
+  'invites.title_other': '{count} invitaciones pendientes',
+  'invites.loadMore': 'Cargar más ({shown} de {total})',
+
+  // AgendaView
+  'agenda.noData': 'No hay datos de la agenda',
+  'agenda.day': 'Día',
+  'agenda.week': 'Semana',
+  'agenda.previous': 'Anterior',
+  'agenda.next': 'Siguiente',
+  'agenda.today': 'Hoy',
+  'agenda.empty': 'Nada programado',
+  'agenda.allDay': 'Todo el día',
+  'agenda.until': 'Hasta las {time}',
+  'agenda.timeZone': 'Horas en {timeZone}',
+  'agenda.pending_one': '{count} invitación espera tu respuesta',
+  'agenda.pending_other': '{count} invitaciones esperan tu respuesta',
+
+  // DateRangeSelector
+  'range.label': 'Intervalo de fechas',
+  'range.start': 'Fecha de inicio',
+  'range.end': 'Fecha de fin',
+  'range.apply': 'Aplicar',
+  'range.cancel': 'Cancelar',
+  'range.twoWeeks': 'Próximas 2 semanas (predeterminado)',
+  'range.month': 'Próximo mes',
+  'range.custom': 'Intervalo personalizado...',
+
+  // EventView
+  'event.noData': 'No hay datos del evento',
+  'event.created': 'Creado',
+  'event.updated': 'Actualizado',
+  'event.allDay': '{date} (todo el día)',
+  'event.oneOccurrence': 'Una sesión de un evento periódico',
+  'event.guests': 'Invitados ({count})',
+  'event.notified': 'Se avisó a los invitados por correo.',
+  'event.notNotified': 'No se avisó a los invitados.',
+  'event.open': 'Abrir en Google Calendar',
+
+  // MeetingTimesView
+  'slots.noData': 'No hay horas de reunión que mostrar',
+  'slots.title': 'Horas de reunión sugeridas',
+  'slots.summary': '{duration} min con {attendees} · Horas en {timeZone}',
+  'slots.eventTitle': 'Título del evento',
+  'slots.defaultTitle': 'Reunión',
+  'slots.unknown': 'No se pudo ver cuándo están ocupados {people}, así que se cuentan como libres.',
+  'slots.defaultHours': 'No se conoce el horario laboral de {people}, así que se supuso el habitual de {start}–{end}.',
+  'slots.none': 'Ninguna hora del intervalo de búsqueda cae en tu horario laboral.',
+  'slots.fit.ideal': 'Todos libres',
+  'slots.fit.outsideHours': 'Fuera del horario de alguien',
+  'slots.fit.conflicts': 'Alguien ocupado',
+  'slots.busy': 'Ocupados: {people}',
+  'slots.outsideHours': 'Fuera del horario laboral: {people}',
+  'slots.schedule': 'Programar',
+  'slots.scheduling': 'Programando...',
+  'slots.failed': 'No se pudo crear el evento. Inténtalo de nuevo.',
+  'slots.inviteNote': 'Al programar una hora se crea el evento y se envían invitaciones a todos por correo.',
+};
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { en, es };
+
+// Keys with plural forms are looked up without their suffix, e.g. "invites.title"
+type PluralKey = MessageKey extends infer K ? K extends `${infer Base}_other` ? Base : never : never;
+export type TranslationKey = MessageKey | PluralKey;
+
+export type Translate = (key: TranslationKey, params?: Record<string, string | number>) => string;
+
+// Pick the best supported locale from language tags, earliest first
+export function negotiateLocale(...hints: Array<string | null | undefined>): Locale {
+  for (const hint of hints) {
+    const language = hint?.toLowerCase().split(/[-_]/)[0];
+    const match = SUPPORTED_LOCALES.find((locale) => locale === language);
+    if (match) return match;
+  }
+  return DEFAULT_LOCALE;
+}
+
+export function dateLocale(locale: Locale): string {
+  return DATE_LOCALES[locale];
+}
+
+// Build a translator for a locale. Keys with plural forms pick "_one" or "_other" by params.count.
+export function createTranslator(locale: Locale): Translate {
+  const rules = new Intl.PluralRules(DATE_LOCALES[locale]);
+
+  return (key, params = {}) => {
+    let messageKey = key as MessageKey;
+    if (!(key in en) && typeof params.count === 'number') {
+      messageKey = `${key}_${rules.select(params.count) === 'one' ? 'one' : 'other'}` as MessageKey;
+    }
+    const template = CATALOGS[locale][messageKey] ?? en[messageKey] ?? key;
+    return template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+  };
+}
@@ -1,12 +1,16 @@
 // Invite type from our API
 export interface PendingInvite {
   eventId: string;
+  calendarId: string;
+  calendarName: string;
   summary: string;
   description: string | null;
   location: string | null;
   startTime: string;
   endTime: string;
   isAllDay: boolean;
+  timeZone?: string;
+  eventTimeZone?: string | null;
   organizerEmail: string;
   organizerName: string | null;
   attendees?: {
@@ -15,6 +19,41 @@ export interface PendingInvite {
     status: string;
   }[];
   calendarLink: string;
+  arrivedAt?: string | null;
+  conflicts?: InviteConflict[];
+  recurringEventId?: string | null;
+  originalStartTime?: string | null;
+  seriesPendingCount?: number;
+  suggestion?: InviteSuggestion;  // Present when listed by suggest_responses
+}
+
+// Recommended response for a pending invite
+export interface InviteSuggestion {
+  response: 'accepted' | 'declined' | 'tentative';
+  reason: string;
+  confidence: 'high' | 'medium' | 'low';
+  basis: string;
+  busy: boolean;
+  withinWorkingHours: boolean | null;
+  organizerRelationship: 'internal' | 'external';
+  ruleId: string | null;
+}
+
+// Event overlapping a pending invite
+export interface InviteConflict {
+  eventId: string;
+  calendarId: string;
+  summary: string;
+  startTime: string;
+  endTime: string;
+  status: 'accepted' | 'tentative' | 'pending';
+}
+
+// Optional note sent with a response (respond_to_invite arguments)
+export interface RespondNote {
+  comment?: string;
+  proposed_start?: string;
+  proposed_end?: string;
 }
 
 // Tool output types
@@ -24,6 +63,115 @@ export interface PendingInvitesOutput {
     start: string;
     end: string;
   };
+  totalCount?: number;
+  nextCursor?: string | null;
+  truncated?: boolean;
+  authRequired?: boolean;
+  authUrl?: string;
+  error?: string;
+}
+
+// Event created or updated by create_event / update_event
+export interface ScheduledEvent {
+  eventId: string;
+  calendarId: string;
+  summary: string;
+  description: string | null;
+  location: string | null;
+  startTime: string;
+  endTime: string;  // Exclusive; the day after the last day for all-day events
+  isAllDay: boolean;
+  timeZone: string;
+  organizerEmail: string;
+  attendees: {
+    email: string;
+    name: string | null;
+    status: string;
+  }[];
+  meetLink: string | null;
+  calendarLink: string;
+  recurringEventId: string | null;
+}
+
+export interface EventOutput {
+  success?: boolean;
+  action?: 'created' | 'updated';
+  event?: ScheduledEvent;
+  notified?: boolean;
+  error?: string;
+}
+
+// Events from get_agenda, with the user's response to each
+export interface AgendaEvent {
+  eventId: string;
+  calendarId: string;
+  calendarName: string;
+  summary: string;
+  location: string | null;
+  startTime: string;  // A plain date for all-day events
+  endTime: string;    // Exclusive
+  isAllDay: boolean;
+  responseStatus: 'accepted' | 'tentative' | 'declined' | 'needsAction';
+  isOrganizer: boolean;
+  organizerEmail: string;
+  organizerName: string | null;
+  attendeeCount: number;
+  meetLink: string | null;
+  calendarLink: string;
+  recurringEventId: string | null;
+}
+
+export interface AgendaDay {
+  date: string;  // YYYY-MM-DD
+  events: AgendaEvent[];
+}
+
+export interface AgendaOutput {
+  days?: AgendaDay[];
+  range?: 'day' | 'week';
+  dateRange?: {
+    start: string;
+    end: string;
+  };
+  pendingCount?: number;
+  truncated?: boolean;
+  timeZone?: string;
+  authRequired?: boolean;
+  authUrl?: string;
+  error?: string;
+}
+
+// Candidate times from find_meeting_times
+export interface MeetingTimeSlot {
+  start: string;  // ISO 8601 in the output's timeZone
+  end: string;
+  fit: 'ideal' | 'outside-hours' | 'conflicts';
+  busy: string[];  // Attendees with something else on
+  outsideWorkingHours: string[];
+}
+
+export interface MeetingAttendee {
+  email: string;
+  workingHours: {
+    start: string;
+    end: string;
+    days: number[];
+    timeZone: string;
+    source: 'request' | 'saved' | 'default';  // 'default' when their hours weren't known
+  };
+  availabilityKnown: boolean;  // false when their free/busy couldn't be read
+}
+
+export interface MeetingTimesOutput {
+  slots?: MeetingTimeSlot[];
+  attendees?: MeetingAttendee[];  // The user first
+  durationMinutes?: number;
+  window?: {
+    start: string;
+    end: string;
+  };
+  timeZone?: string;
+  title?: string | null;
   authRequired?: boolean;
   authUrl?: string;
   error?: string;
@@ -43,6 +43,7 @@ export function useOpenAI<T = unknown>() {
   const [openai, setOpenai] = useState<OpenAIWidget | null>(null);
   const [data, setData] = useState<T | null>(null);
   const [theme, setTheme] = useState<'light' | 'dark'>('light');
+  const [locale, setLocale] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -56,6 +57,7 @@ export function useOpenAI<T = unknown>() {
       setOpenai(window.openai);
       setData((window.openai.toolOutput as T) ?? null);
       setTheme(window.openai.theme || 'light');
+      setLocale(window.openai.locale || null);
       setIsLoading(false);
     }
   }, []);
@@ -164,6 +166,7 @@ export function useOpenAI<T = unknown>() {
     openai,
     data,
     theme,
+    locale,
     isLoading,
     error,
     callTool,